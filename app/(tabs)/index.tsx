@@ -1,27 +1,43 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { SafeAreaView, View, StyleSheet, Text, TouchableOpacity, FlatList, Alert, ImageBackground } from 'react-native';
+import { SafeAreaView, View, StyleSheet, Text, TouchableOpacity, FlatList, Alert, ImageBackground, Platform } from 'react-native';
 import { useFocusEffect } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import FileUpload, { UploadedFile } from '@/components/file-upload';
+import PageCapture from '@/components/page-capture';
+import EncodingPicker from '@/components/encoding-picker';
 import ReadingViewer from '@/components/reading-viewer';
 import { ErrorBoundary } from '@/components/error-boundary';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { listenUserDocuments, type UserDocument } from '@/utils/firestoreDocuments';
-import { downloadJsonFromStoragePath, uploadJsonToStoragePath } from '@/utils/firebaseStorageHelpers';
+import { downloadJsonFromStoragePath, uploadProcessedDocument } from '@/utils/firebaseStorageHelpers';
 import { upsertUserDocument } from '@/utils/firestoreDocuments';
 import * as FileSystem from 'expo-file-system/legacy';
 import { storage } from '@/utils/firebaseConfig';
 import { getDownloadURL, ref as storageRef } from 'firebase/storage';
+import { getConverters, type ConvertOptions } from '@/utils/converterRegistry';
+import { getEncodingLabel, type TextEncodingId } from '@/utils/textEncoding';
+import { formatReadingTime, getLanguageLabel } from '@/utils/documentMetadata';
+import { getDocumentSummary, readProcessedDocument } from '@/utils/processedDocument';
+import { isUploadPending } from '@/utils/resumableUpload';
+import { getFriendlyImportError, getImportErrorCode } from '@/utils/importErrors';
 
 const backgroundImage = require('@/assets/images/dashboard.png');
 
+// Plain-text based types (TXT, HTML, Markdown) can be re-read with another encoding
+const TEXT_DOCUMENT_TYPES: string[] = getConverters()
+  .filter((c) => c.text)
+  .map((c) => c.documentType);
+
 export default function HomeScreen() {
   const { theme, toggleTheme } = useTheme();
   const { uid, userDoc } = useAuth();
   const [docs, setDocs] = useState<Array<{ id: string; data: UserDocument }>>([]);
   const [selectedDoc, setSelectedDoc] = useState<{ id: string; data: UserDocument } | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [showCapture, setShowCapture] = useState(false);
+  const [encodingDoc, setEncodingDoc] = useState<{ id: string; data: UserDocument } | null>(null);
+  const [reencoding, setReencoding] = useState(false);
   const processingAttemptCount = useRef<Map<string, number>>(new Map());
   const processingFirstSeen = useRef<Map<string, number>>(new Map());
   
@@ -75,6 +91,11 @@ export default function HomeScreen() {
         if (ageMs < 90 * 1000) {
           continue;
         }
+        // The original is still uploading (resumed after a restart or paused): not stuck
+        if (isUploadPending(doc.data.storagePath)) {
+          processingFirstSeen.current.set(doc.id, Date.now());
+          continue;
+        }
 
         let processedOk = false;
         try {
@@ -89,7 +110,7 @@ export default function HomeScreen() {
                 data: {
                   type: doc.data.type,
                   title: doc.data.title,
-                  pages: typeof json?.pages === 'number' ? json.pages : doc.data.pages || 1,
+                  ...getDocumentSummary(readProcessedDocument(json, doc.data.type)),
                   status: 'ready',
                   storagePath: doc.data.storagePath,
                   processedPath: doc.data.processedPath,
@@ -119,11 +140,11 @@ export default function HomeScreen() {
               } as any);
 
               try {
-                const { convertFileToText } = await import('@/utils/fileConverter');
-                const text = await convertFileToText(tmp, doc.data.title || doc.data.name);
-                await uploadJsonToStoragePath({
+                const { convertFileToDocument } = await import('@/utils/fileConverter');
+                const processedDocument = await convertFileToDocument(tmp, doc.data.title || doc.data.name);
+                await uploadProcessedDocument({
                   storagePath: doc.data.processedPath,
-                  json: { pages: 1, text },
+                  document: processedDocument,
                 });
                 await upsertUserDocument({
                   uid,
@@ -131,7 +152,7 @@ export default function HomeScreen() {
                   data: {
                     type: doc.data.type,
                     title: doc.data.title,
-                    pages: 1,
+                    ...getDocumentSummary(processedDocument),
                     status: 'ready',
                     storagePath: doc.data.storagePath,
                     processedPath: doc.data.processedPath,
@@ -172,7 +193,7 @@ export default function HomeScreen() {
                 errorMessage:
                   doc.data.type === 'pdf'
                     ? 'Upload was interrupted. Please re-upload the PDF.'
-                    : 'DOCX/TXT/RTF processing failed. Please re-upload the file.',
+                    : 'DOCX/EPUB/TXT/RTF processing failed. Please re-upload the file.',
               } as any,
             });
           }
@@ -195,21 +216,39 @@ export default function HomeScreen() {
     setRefreshKey(prev => prev + 1);
   };
 
+  // Duplicate upload: open the copy that is already in the library (with its progress)
+  const openExistingDocument = (docId: string) => {
+    const existing = docs.find((d) => d.id === docId);
+    if (!existing) return;
+    if (existing.data.status !== 'ready') {
+      Alert.alert('Still processing', `"${existing.data.title}" is still being processed. Please try again shortly.`);
+      return;
+    }
+    setSelectedDoc(existing);
+  };
+
+  // Re-run conversion on the original file in Storage
+  const convertStoredOriginal = async (doc: { id: string; data: UserDocument }, options: ConvertOptions = {}) => {
+    const url = await getDownloadURL(storageRef(storage, doc.data.storagePath));
+    let fileUri = url;
+    if (Platform.OS !== 'web') {
+      const ext = doc.data.storagePath.split('.').pop() || 'bin';
+      fileUri = `${FileSystem.cacheDirectory || FileSystem.documentDirectory}readx-retry-${doc.id}.${ext}`;
+      await FileSystem.downloadAsync(url, fileUri);
+    }
+
+    const { convertFileToDocument } = await import('@/utils/fileConverter');
+    const processedDocument = await convertFileToDocument(fileUri, doc.data.title || doc.data.name, options);
+    await uploadProcessedDocument({ storagePath: doc.data.processedPath, document: processedDocument });
+    return processedDocument;
+  };
+
   const retryProcessDoc = async (doc: { id: string; data: UserDocument }) => {
     if (!uid) return;
     if (!doc.data.storagePath || !doc.data.processedPath) return;
 
     try {
-      // Download original from Storage to local temp
-      const url = await getDownloadURL(storageRef(storage, doc.data.storagePath));
-      const ext = doc.data.storagePath.split('.').pop() || 'bin';
-      const tmp = `${FileSystem.cacheDirectory || FileSystem.documentDirectory}readx-retry-${doc.id}.${ext}`;
-      await FileSystem.downloadAsync(url, tmp);
-
-      // Convert locally
-      const { convertFileToText } = await import('@/utils/fileConverter');
-      const text = await convertFileToText(tmp, doc.data.title || doc.data.name);
-      await uploadJsonToStoragePath({ storagePath: doc.data.processedPath, json: { pages: 1, text } });
+      const processedDocument = await convertStoredOriginal(doc, { encoding: doc.data.encoding });
 
       // Mark ready
       await upsertUserDocument({
@@ -218,7 +257,7 @@ export default function HomeScreen() {
         data: {
           type: doc.data.type,
           title: doc.data.title,
-          pages: 1,
+          ...getDocumentSummary(processedDocument),
           status: 'ready',
           storagePath: doc.data.storagePath,
           processedPath: doc.data.processedPath,
@@ -236,12 +275,44 @@ export default function HomeScreen() {
           storagePath: doc.data.storagePath,
           processedPath: doc.data.processedPath,
           errorMessage: e?.message || 'Processing failed. Please re-upload the file.',
+          errorCode: getImportErrorCode(e),
         } as any,
       });
       throw e;
     }
   };
 
+  // User override when the detected text encoding was wrong
+  const changeEncoding = async (encoding: TextEncodingId) => {
+    const doc = encodingDoc;
+    if (!uid || !doc || !doc.data.storagePath || !doc.data.processedPath) return;
+
+    setReencoding(true);
+    try {
+      const processedDocument = await convertStoredOriginal(doc, { encoding });
+      await upsertUserDocument({
+        uid,
+        docId: doc.id,
+        data: {
+          type: doc.data.type,
+          title: doc.data.title,
+          ...getDocumentSummary(processedDocument),
+          status: 'ready',
+          storagePath: doc.data.storagePath,
+          processedPath: doc.data.processedPath,
+          encoding,
+          encodingOverridden: true,
+        },
+      });
+      setEncodingDoc(null);
+    } catch (e: any) {
+      console.error('[Library] Encoding change failed:', e);
+      Alert.alert('Error', e?.message || 'Could not re-read the file with that encoding.');
+    } finally {
+      setReencoding(false);
+    }
+  };
+
   if (selectedDoc) {
     return (
       <ErrorBoundary>
@@ -285,9 +356,26 @@ export default function HomeScreen() {
         </View>
 
         <View style={styles.uploadSection}>
-          <FileUpload onFileUploaded={handleUploaded} />
+          <FileUpload onFileUploaded={handleUploaded} onOpenDocument={openExistingDocument} />
+          <TouchableOpacity
+            style={[styles.scanButton, isDark && styles.scanButtonDark]}
+            onPress={() => setShowCapture(true)}
+            accessibilityLabel="Scan pages with the camera"
+          >
+            <Ionicons name="camera-outline" size={20} color={isDark ? '#93C5FD' : '#2563EB'} />
+            <Text style={[styles.scanButtonText, isDark && styles.scanButtonTextDark]}>Scan Book Pages</Text>
+          </TouchableOpacity>
         </View>
 
+        <PageCapture visible={showCapture} onClose={() => setShowCapture(false)} onSaved={setSelectedDoc} />
+        <EncodingPicker
+          visible={!!encodingDoc}
+          current={encodingDoc?.data.encoding}
+          busy={reencoding}
+          onSelect={changeEncoding}
+          onClose={() => setEncodingDoc(null)}
+        />
+
         <View style={styles.listSection}>
           {docs.length === 0 ? (
             <View style={styles.emptyState}>
@@ -315,8 +403,9 @@ export default function HomeScreen() {
                               onPress: async () => {
                                 try {
                                   await retryProcessDoc(item);
-                                } catch {
-                                  Alert.alert('Error', 'Failed to process. Please re-upload the file.');
+                                } catch (e) {
+                                  const { message, action } = getFriendlyImportError(e);
+                                  Alert.alert('Error', `${message}\n\n${action}`);
                                 }
                               },
                             },
@@ -325,7 +414,10 @@ export default function HomeScreen() {
                         return;
                       }
                       if (item.data.status === 'error') {
-                        Alert.alert('Error', item.data.errorMessage || 'Processing failed. Please re-upload the file.');
+                        const { message, action } = getFriendlyImportError(
+                          item.data.errorCode || { message: item.data.errorMessage }
+                        );
+                        Alert.alert('Error', `${message}\n\n${action}`);
                         return;
                       }
                       setSelectedDoc(item);
@@ -334,14 +426,29 @@ export default function HomeScreen() {
                     <View style={styles.fileItemContent}>
                       <View style={styles.fileItemLeft}>
                         <Text style={[styles.fileName, isDark && styles.fileNameDark]} numberOfLines={1}>
-                          {item.data.title || item.data.name}
+                          {item.data.documentTitle || item.data.title || item.data.name}
                         </Text>
+                        {describeDocument(item.data) ? (
+                          <Text style={[styles.fileMeta, isDark && styles.fileMetaDark]} numberOfLines={1}>
+                            {describeDocument(item.data)}
+                          </Text>
+                        ) : null}
                         <View style={styles.fileHintRow}>
                           <Text style={[styles.fileHint, isDark && styles.fileHintDark]}>
                             Tap to read • {item.data.type.toUpperCase()} • {item.data.status}
+                            {item.data.encoding ? ` • ${getEncodingLabel(item.data.encoding)}` : ''}
                           </Text>
                         </View>
                       </View>
+                      {TEXT_DOCUMENT_TYPES.includes(item.data.type) && item.data.status === 'ready' && item.data.storagePath ? (
+                        <TouchableOpacity
+                          style={styles.encodingButton}
+                          onPress={() => setEncodingDoc(item)}
+                          accessibilityLabel="Change text encoding"
+                        >
+                          <Ionicons name="language-outline" size={20} color={isDark ? '#93C5FD' : '#2563EB'} />
+                        </TouchableOpacity>
+                      ) : null}
                     </View>
                   </TouchableOpacity>
                 );
@@ -361,6 +468,18 @@ export default function HomeScreen() {
   );
 }
 
+/**
+ * "Jane Doe • 12 pages • 35 min read • English" (only the parts that are known)
+ */
+function describeDocument(data: UserDocument): string {
+  const parts: string[] = [];
+  if (data.author) parts.push(data.author);
+  if (data.status === 'ready' && data.pages > 0) parts.push(`${data.pages} ${data.pages === 1 ? 'page' : 'pages'}`);
+  if (data.readingMinutes) parts.push(formatReadingTime(data.readingMinutes));
+  if (data.language) parts.push(getLanguageLabel(data.language));
+  return parts.join(' • ');
+}
+
 const styles = StyleSheet.create({
   backgroundImage: {
     flex: 1,
@@ -452,6 +571,30 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     alignItems: 'center',
   },
+  scanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#2563EB',
+    backgroundColor: 'rgba(255, 255, 255, 0.9)',
+  },
+  scanButtonDark: {
+    borderColor: '#93C5FD',
+    backgroundColor: 'rgba(17, 24, 39, 0.9)',
+  },
+  scanButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  scanButtonTextDark: {
+    color: '#93C5FD',
+  },
   listSection: {
     flex: 1,
   },
@@ -557,6 +700,10 @@ const styles = StyleSheet.create({
   fileItemLeft: {
     flex: 1,
   },
+  encodingButton: {
+    padding: 8,
+    marginLeft: 8,
+  },
   fileName: {
     fontSize: 17,
     fontWeight: '700',
@@ -571,6 +718,14 @@ const styles = StyleSheet.create({
     textShadowOffset: { width: 0, height: 1 },
     textShadowRadius: 3,
   },
+  fileMeta: {
+    marginTop: 2,
+    fontSize: 13,
+    color: '#4B5563',
+  },
+  fileMetaDark: {
+    color: '#D1D5DB',
+  },
   fileHintRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -22,7 +22,10 @@ import { useTheme } from '@/contexts/ThemeContext';
 import { auth } from '@/utils/firebaseConfig';
 import { bumpDashboardSummary } from '@/utils/firestoreDashboard';
 import { listenUserDocumentsByType, upsertUserDocument, type UserDocument } from '@/utils/firestoreDocuments';
-import { uploadJsonToStoragePath, uploadTextToStoragePath } from '@/utils/firebaseStorageHelpers';
+import { uploadProcessedDocument, uploadTextToStoragePath } from '@/utils/firebaseStorageHelpers';
+import { buildProcessedDocument, getDocumentSummary, textToBlocks } from '@/utils/processedDocument';
+import { formatReadingTime } from '@/utils/documentMetadata';
+import { importArticleFromUrl, isLinkImportAvailable, normalizeArticleUrl } from '@/utils/linkImport';
 
 const dashboardBackground = require('@/assets/images/dashboard.png');
 
@@ -37,6 +40,9 @@ export default function TextInputScreen() {
   const [savedFileName, setSavedFileName] = useState<string>('');
   const [cloudDocId, setCloudDocId] = useState<string | null>(null);
   const [documents, setDocuments] = useState<Array<{ id: string; data: UserDocument }>>([]);
+  const [showLinkInput, setShowLinkInput] = useState(false);
+  const [linkUrl, setLinkUrl] = useState('');
+  const [isImportingLink, setIsImportingLink] = useState(false);
   
   const isDark = theme === 'dark';
 
@@ -110,7 +116,8 @@ export default function TextInputScreen() {
       await uploadTextToStoragePath({ storagePath: originalPath, text, extension: 'txt', contentType: 'text/plain' });
 
       // 2) Upload paste JSON payload
-      await uploadJsonToStoragePath({ storagePath: pastePath, json: { pages: 1, text } });
+      const processedDocument = buildProcessedDocument({ blocks: textToBlocks(text), sourceFormat: 'paste', title: fileTitle });
+      await uploadProcessedDocument({ storagePath: pastePath, document: processedDocument });
 
       // 3) Firestore document metadata
       await upsertUserDocument({
@@ -119,7 +126,7 @@ export default function TextInputScreen() {
         data: {
           type: 'paste',
           title: fileTitle,
-          pages: 1,
+          ...getDocumentSummary(processedDocument),
           status: 'ready',
           storagePath: originalPath,
           processedPath: pastePath,
@@ -161,6 +168,34 @@ export default function TextInputScreen() {
     }
   };
 
+  // Import a web article from a link and open it in the reader
+  const handleImportLink = async () => {
+    const url = normalizeArticleUrl(linkUrl);
+    if (!url) {
+      Alert.alert('Invalid Link', 'Please enter a web address, e.g. https://example.com/article');
+      return;
+    }
+    if (!auth.currentUser?.uid) {
+      Alert.alert('Sign in required', 'Please sign in to import articles.');
+      return;
+    }
+
+    setIsImportingLink(true);
+    try {
+      const result = await importArticleFromUrl(url);
+      setLinkUrl('');
+      setShowLinkInput(false);
+      setSavedFileUri(result.processedPath);
+      setSavedFileName(result.title);
+      setCloudDocId(result.docId);
+      setIsReading(true);
+    } catch (error: any) {
+      Alert.alert('Could Not Import Link', error?.message || 'Unknown error occurred');
+    } finally {
+      setIsImportingLink(false);
+    }
+  };
+
   const handleClear = () => {
     Alert.alert(
       'Clear Text',
@@ -291,6 +326,16 @@ export default function TextInputScreen() {
               <View style={[styles.textInputHeader, isDark && styles.textInputHeaderDark]}>
                 <Text style={[styles.label, isDark && styles.labelDark]}>Text Content</Text>
                 <View style={styles.actionButtons}>
+                  {isLinkImportAvailable() && (
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      onPress={() => setShowLinkInput((v) => !v)}
+                      accessibilityLabel="Import from link"
+                    >
+                      <Ionicons name="link-outline" size={20} color={isDark ? '#60A5FA' : '#2563EB'} />
+                      <Text style={[styles.iconButtonText, isDark && styles.iconButtonTextDark]}>From link</Text>
+                    </TouchableOpacity>
+                  )}
                   <TouchableOpacity
                     style={styles.iconButton}
                     onPress={handlePaste}
@@ -309,6 +354,35 @@ export default function TextInputScreen() {
                   </TouchableOpacity>
                 </View>
               </View>
+              {showLinkInput && (
+                <View style={[styles.linkRow, isDark && styles.linkRowDark]}>
+                  <TextInput
+                    style={[styles.linkInput, isDark && styles.titleInputDark]}
+                    placeholder="https://example.com/article"
+                    placeholderTextColor={isDark ? '#6B7280' : '#9CA3AF'}
+                    value={linkUrl}
+                    onChangeText={setLinkUrl}
+                    onSubmitEditing={() => !isImportingLink && handleImportLink()}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    keyboardType="url"
+                    returnKeyType="go"
+                    editable={!isImportingLink}
+                  />
+                  <TouchableOpacity
+                    style={[styles.linkButton, (!linkUrl.trim() || isImportingLink) && styles.startButtonDisabled]}
+                    onPress={handleImportLink}
+                    disabled={!linkUrl.trim() || isImportingLink}
+                    accessibilityLabel="Import article"
+                  >
+                    {isImportingLink ? (
+                      <ActivityIndicator size="small" color="#ffffff" />
+                    ) : (
+                      <Text style={styles.linkButtonText}>Import</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              )}
               <TextInput
                 style={[styles.textInput, isDark && styles.textInputDark]}
                 placeholder={`Paste or type your text here...
@@ -356,7 +430,9 @@ Long press to paste from clipboard`}
               <View style={styles.instructionContent}>
                 <Text style={[styles.instructionTitle, isDark && styles.instructionTitleDark]}>How to use:</Text>
                 <Text style={[styles.instructionText, isDark && styles.instructionTextDark]}>
-                  1. Paste or type your text in the text area above{'\n'}
+                  1. Paste or type your text in the text area above
+                  {isLinkImportAvailable() ? ', or tap “From link” to import a web article' : ''}
+                  {'\n'}
                   2. Optionally add a title to identify your document{'\n'}
                   3. Tap "Start Reading" to begin{'\n'}
                   4. Read paragraph by paragraph with progress tracking{'\n'}
@@ -394,7 +470,9 @@ Long press to paste from clipboard`}
                       style={[styles.savedDocMeta, isDark && styles.savedDocMetaDark]}
                       numberOfLines={1}
                     >
-                      {doc.data.pages} page • {doc.data.status}
+                      {doc.data.pages} {doc.data.pages === 1 ? 'page' : 'pages'}
+                      {doc.data.readingMinutes ? ` • ${formatReadingTime(doc.data.readingMinutes)}` : ''} • {doc.data.status}
+                      {doc.data.sourceUrl ? ` • ${getLinkHost(doc.data.sourceUrl)}` : ''}
                     </Text>
                   </View>
                   <Ionicons
@@ -475,6 +553,14 @@ Long press to paste from clipboard`}
   );
 }
 
+function getLinkHost(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
+
 const styles = StyleSheet.create({
   backgroundImage: {
     flex: 1,
@@ -605,6 +691,43 @@ const styles = StyleSheet.create({
   iconButtonTextDark: {
     color: '#60A5FA',
   },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E7EB',
+  },
+  linkRowDark: {
+    borderBottomColor: '#374151',
+  },
+  linkInput: {
+    flex: 1,
+    backgroundColor: '#ffffff',
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#111827',
+  },
+  linkButton: {
+    minWidth: 72,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#2563EB',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  linkButtonText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#ffffff',
+  },
   textInput: {
     minHeight: 300,
     maxHeight: 400,
@@ -0,0 +1,13 @@
+import { queueIncomingShareUrl } from '@/utils/incomingShares';
+
+/**
+ * Shared files and "Open with" links are not routes: queue them for import and open the Library
+ */
+export function redirectSystemPath({ path }: { path: string; initial: boolean }): string {
+  try {
+    return queueIncomingShareUrl(path) ? '/' : path;
+  } catch (error) {
+    console.warn('[NativeIntent] Could not read incoming link:', error);
+    return '/';
+  }
+}
@@ -1,7 +1,11 @@
+import { Lexend_400Regular } from '@expo-google-fonts/lexend';
+import { Lora_400Regular } from '@expo-google-fonts/lora';
+import { Merriweather_400Regular } from '@expo-google-fonts/merriweather';
 import { DarkTheme, DefaultTheme, ThemeProvider as NavigationThemeProvider } from '@react-navigation/native';
-import { Stack } from 'expo-router';
+import { useFonts, type FontSource } from 'expo-font';
+import { Stack, useRouter } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
-import { Platform } from 'react-native';
+import { Alert, Platform } from 'react-native';
 import { useEffect, useState } from 'react';
 import 'react-native-reanimated';
 import '../global.css';
@@ -10,6 +14,16 @@ import { ThemeProvider, useTheme } from '@/contexts/ThemeContext';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import AuthModal from '@/components/auth-modal';
 import { configureGoogleSignIn } from '@/utils/firebaseAuth';
+import {
+  importIncomingShares,
+  listenIncomingShares,
+  listenWindowFileDrops,
+  takeIncomingShares,
+} from '@/utils/incomingShares';
+
+// Reader fonts bundled for native builds (utils/readerTypography); web loads them below
+const NATIVE_READER_FONTS: Record<string, FontSource> =
+  Platform.OS === 'web' ? {} : { Merriweather_400Regular, Lora_400Regular, Lexend_400Regular };
 
 // Component to load Google Fonts for web
 function WebFontLoader() {
@@ -33,7 +47,7 @@ function WebFontLoader() {
       
       const link3 = document.createElement('link');
       link3.rel = 'stylesheet';
-      link3.href = 'https://fonts.googleapis.com/css2?family=Merriweather:wght@300;400;700&family=Lora:wght@400;500;600;700&display=swap';
+      link3.href = 'https://fonts.googleapis.com/css2?family=Merriweather:wght@300;400;700&family=Lora:wght@400;500;600;700&family=Lexend:wght@300;400;600&display=swap';
       document.head.appendChild(link3);
     }
   }, []);
@@ -45,6 +59,7 @@ function RootLayoutNav() {
   const { theme } = useTheme();
   const { firebaseUser, authLoading } = useAuth();
   const [showAuth, setShowAuth] = useState(false);
+  const router = useRouter();
 
   useEffect(() => {
     configureGoogleSignIn().catch(() => {});
@@ -55,6 +70,23 @@ function RootLayoutNav() {
     setShowAuth(!firebaseUser);
   }, [authLoading, firebaseUser]);
 
+  useEffect(() => listenWindowFileDrops(), []);
+
+  // Files shared from other apps (or dropped on the web window) are imported once signed in
+  useEffect(() => {
+    if (!firebaseUser) return;
+    const importPending = () => {
+      const shares = takeIncomingShares();
+      if (shares.length === 0) return;
+      router.navigate('/(tabs)');
+      importIncomingShares(shares).catch((error) =>
+        Alert.alert('Import failed', error?.message || 'Could not import the shared item.')
+      );
+    };
+    importPending();
+    return listenIncomingShares(importPending);
+  }, [firebaseUser, router]);
+
   return (
     <NavigationThemeProvider value={theme === 'dark' ? DarkTheme : DefaultTheme}>
       <Stack>
@@ -80,6 +112,10 @@ export const unstable_settings = {
 };
 
 export default function RootLayout() {
+  const [fontsLoaded, fontError] = useFonts(NATIVE_READER_FONTS);
+  // A font that fails to load falls back to the system font
+  if (!fontsLoaded && !fontError) return null;
+
   return (
     <ThemeProvider>
       <AuthProvider>
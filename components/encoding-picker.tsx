@@ -0,0 +1,136 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Modal, ActivityIndicator, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { TEXT_ENCODINGS, type TextEncodingId } from '@/utils/textEncoding';
+
+interface EncodingPickerProps {
+  visible: boolean;
+  current?: TextEncodingId | null;
+  busy?: boolean;
+  onSelect: (encoding: TextEncodingId) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lets the user re-decode a text document when the detected encoding was wrong
+ */
+export default function EncodingPicker({ visible, current, busy, onSelect, onClose }: EncodingPickerProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={busy ? undefined : onClose}>
+      <View style={styles.backdrop}>
+        <View style={[styles.sheet, isDark && styles.sheetDark]}>
+          <Text style={[styles.title, isDark && styles.textDark]}>Text encoding</Text>
+          <Text style={[styles.subtitle, isDark && styles.subtitleDark]}>
+            If the text shows garbled characters (like â€™ or Ã©), pick the encoding the file was saved with.
+          </Text>
+
+          {TEXT_ENCODINGS.map((option) => {
+            const selected = option.id === current;
+            return (
+              <TouchableOpacity
+                key={option.id}
+                style={[styles.option, isDark && styles.optionDark, selected && styles.optionSelected]}
+                onPress={() => onSelect(option.id)}
+                disabled={busy || selected}
+                accessibilityLabel={`Use ${option.label}`}
+              >
+                <Text style={[styles.optionText, isDark && styles.textDark]}>{option.label}</Text>
+                {selected ? <Ionicons name="checkmark" size={20} color="#2563EB" /> : null}
+              </TouchableOpacity>
+            );
+          })}
+
+          {busy ? (
+            <View style={styles.busyRow}>
+              <ActivityIndicator color="#2563EB" />
+              <Text style={[styles.subtitle, isDark && styles.subtitleDark]}>Re-reading file...</Text>
+            </View>
+          ) : (
+            <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+              <Text style={styles.closeButtonText}>Cancel</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  sheet: {
+    width: '100%',
+    maxWidth: 420,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    gap: 8,
+  },
+  sheetDark: {
+    backgroundColor: '#1F2937',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  textDark: {
+    color: '#F9FAFB',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#6B7280',
+    marginBottom: 8,
+  },
+  subtitleDark: {
+    color: '#9CA3AF',
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  optionDark: {
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  optionSelected: {
+    borderColor: '#2563EB',
+  },
+  optionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  busyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  closeButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  closeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+});
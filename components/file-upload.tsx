@@ -1,24 +1,14 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { View, Text, TouchableOpacity, ActivityIndicator, Alert, StyleSheet, Platform } from 'react-native';
 import * as DocumentPicker from 'expo-document-picker';
 import { Ionicons } from '@expo/vector-icons';
-import { getFileExtension } from '@/utils/fileUtils';
+import UploadProgressList from '@/components/upload-progress-list';
+import UploadQueueList from '@/components/upload-queue-list';
+import { useAuth } from '@/contexts/AuthContext';
 import { auth } from '@/utils/firebaseConfig';
-import { getFirebaseIdToken } from '@/utils/firebaseAuth';
-import { uploadJsonToStoragePath, uploadLocalFileToStorage } from '@/utils/firebaseStorageHelpers';
-import { bumpDashboardSummary } from '@/utils/firestoreDashboard';
-import { upsertUserDocument, type DocumentType } from '@/utils/firestoreDocuments';
-import { downloadJsonFromStoragePath } from '@/utils/firebaseStorageHelpers';
-import * as FileSystem from 'expo-file-system/legacy';
-
-/**
- * Check if file format is supported
- */
-const isSupportedFormat = (filename: string): boolean => {
-  const ext = getFileExtension(filename).toLowerCase();
-  const supportedFormats = ['pdf', 'docx', 'txt', 'rtf'];
-  return supportedFormats.includes(ext);
-};
+import { getSupportedFormatsLabel } from '@/utils/converterRegistry';
+import { getFriendlyImportError } from '@/utils/importErrors';
+import { enqueueFiles, listenUploadQueue, restoreUploadQueue, type QueueItem } from '@/utils/uploadQueue';
 
 export interface UploadedFile {
   uri: string;
@@ -27,88 +17,66 @@ export interface UploadedFile {
 
 interface FileUploadProps {
   onFileUploaded?: (file: UploadedFile) => void;
+  onOpenDocument?: (docId: string) => void; // open an existing document (duplicate uploads)
 }
 
-export default function FileUpload({ onFileUploaded }: FileUploadProps) {
-  const [uploading, setUploading] = useState(false);
-
-  const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
-
-  const buildPdfFormData = async (params: { uri: string; name: string }) => {
-    // Ensures the URI is uploadable by fetch/multipart on Android (content:// can be flaky).
-    let uploadUri = params.uri;
-    let tempFileUri: string | null = null;
-
-    if (Platform.OS !== 'web' && !uploadUri.startsWith('file://')) {
-      const base64 = await FileSystem.readAsStringAsync(uploadUri, { encoding: 'base64' } as any);
-      tempFileUri = `${FileSystem.cacheDirectory || FileSystem.documentDirectory}readx-upload-${Date.now()}.pdf`;
-      await FileSystem.writeAsStringAsync(tempFileUri, base64, { encoding: 'base64' } as any);
-      uploadUri = tempFileUri;
-    }
-
-    const formData = new FormData();
-    if (Platform.OS === 'web') {
-      const blob = await (await fetch(params.uri)).blob();
-      (formData as any).append('file', blob, params.name);
-    } else {
-      formData.append('file', {
-        uri: uploadUri,
-        name: params.name,
-        type: 'application/pdf',
-      } as any);
-    }
-
-    return {
-      formData,
-      cleanup: async () => {
-        if (tempFileUri) {
-          try {
-            await FileSystem.deleteAsync(tempFileUri, { idempotent: true } as any);
-          } catch {
-            // ignore
-          }
+export default function FileUpload({ onFileUploaded, onOpenDocument }: FileUploadProps) {
+  const [picking, setPicking] = useState(false);
+  const [dragActive, setDragActive] = useState(false);
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const notifiedRef = useRef<Set<string> | null>(null);
+  const dropZoneRef = useRef<View>(null);
+  const onFileUploadedRef = useRef(onFileUploaded);
+  onFileUploadedRef.current = onFileUploaded;
+  const { uid } = useAuth();
+
+  // Continue uploads and queued imports that were interrupted by an app restart
+  useEffect(() => {
+    if (!uid) return;
+    restoreUploadQueue(uid).catch((error) =>
+      console.warn('[FileUpload] Could not restore the upload queue:', error?.message)
+    );
+  }, [uid]);
+
+  // Notify the parent once per file that finished importing
+  useEffect(
+    () =>
+      listenUploadQueue((items) => {
+        const readyIds = items.filter((item) => item.status === 'ready').map((item) => item.id);
+        if (!notifiedRef.current) {
+          // Files that finished before this screen mounted were already reported
+          notifiedRef.current = new Set(readyIds);
         }
-      },
-    };
-  };
-
-  const waitForProcessedJson = async (processedPath: string): Promise<{ pages?: number; text?: string } | null> => {
-    // Poll Storage for up to ~60s (backend processing time).
-    const maxAttempts = 10;
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
-      try {
-        const json = await downloadJsonFromStoragePath(processedPath);
-        return json;
-      } catch {
-        // backoff: 0.5s, 1s, 2s, 4s... capped
-        const delay = Math.min(8000, 500 * Math.pow(2, attempt));
-        await sleep(delay);
-      }
-    }
-    return null;
-  };
-
-  const normalizePickedFileUri = async (params: { uri: string; extension: string }) => {
-    if (Platform.OS === 'web') {
-      return { uri: params.uri, cleanup: async () => {} };
-    }
-    if (params.uri.startsWith('file://')) {
-      return { uri: params.uri, cleanup: async () => {} };
-    }
-    // Copy content:// (or other) into cache so both conversion + Storage upload are stable.
-    const tmp = `${FileSystem.cacheDirectory || FileSystem.documentDirectory}readx-picked-${Date.now()}.${params.extension}`;
-    await FileSystem.copyAsync({ from: params.uri, to: tmp });
-    return {
-      uri: tmp,
-      cleanup: async () => {
-        try {
-          await FileSystem.deleteAsync(tmp, { idempotent: true } as any);
-        } catch {
-          // ignore
+        for (const item of items) {
+          if (item.status !== 'ready' || notifiedRef.current.has(item.id)) continue;
+          notifiedRef.current.add(item.id);
+          console.log('[FileUpload] Calling onFileUploaded callback');
+          onFileUploadedRef.current?.({ uri: item.processedPath || '', name: item.name });
         }
-      },
+        setQueue(items.filter((item) => item.uid === auth.currentUser?.uid));
+      }),
+    []
+  );
+
+  // Web: highlight the upload area while files are dragged over it. Dropped files are queued
+  // by the window-level handler (utils/incomingShares), wherever they are dropped.
+  useEffect(() => {
+    if (Platform.OS !== 'web') return;
+    const node = dropZoneRef.current as unknown as HTMLElement | null;
+    if (!node?.addEventListener) return;
+
+    const onDragOver = () => setDragActive(true);
+    const onDragLeave = () => setDragActive(false);
+
+    node.addEventListener('dragover', onDragOver);
+    node.addEventListener('dragleave', onDragLeave);
+    node.addEventListener('drop', onDragLeave);
+    return () => {
+      node.removeEventListener('dragover', onDragOver);
+      node.removeEventListener('dragleave', onDragLeave);
+      node.removeEventListener('drop', onDragLeave);
     };
-  };
+  }, []);
 
   const requireSignedIn = () => {
     if (!auth.currentUser?.uid) {
@@ -118,273 +86,65 @@ export default function FileUpload({ onFileUploaded }: FileUploadProps) {
     return true;
   };
 
-  const toDocType = (ext: string): DocumentType => {
-    if (ext === 'pdf') return 'pdf';
-    if (ext === 'doc' || ext === 'docx') return 'docx';
-    return 'txt';
-  };
-
-  const contentTypeFromExt = (ext: string): string => {
-    if (ext === 'pdf') return 'application/pdf';
-    if (ext === 'docx') return 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
-    if (ext === 'doc') return 'application/msword';
-    if (ext === 'txt') return 'text/plain';
-    if (ext === 'rtf') return 'application/rtf';
-    return 'application/octet-stream';
+  const queueFiles = async (files: { uri: string; name: string; mimeType?: string | null }[]) => {
+    try {
+      await enqueueFiles(files);
+    } catch (error: any) {
+      const { message, action } = getFriendlyImportError(error);
+      Alert.alert('Upload failed', `${message} ${action}`);
+    }
   };
 
-  const pickDocument = async () => {
+  const pickDocuments = async () => {
+    if (!requireSignedIn()) return;
+    setPicking(true);
     try {
-      if (!requireSignedIn()) return;
-      setUploading(true);
       console.log('[FileUpload] Opening document picker...');
-      
       const result = await DocumentPicker.getDocumentAsync({
         type: '*/*',
         copyToCacheDirectory: true,
-        multiple: false,
+        multiple: true,
       });
 
       if (result.canceled) {
         console.log('[FileUpload] Document picker was canceled');
-        setUploading(false);
         return;
       }
 
-      const file = result.assets[0];
-      console.log('[FileUpload] File selected:', file.name, 'URI:', file.uri, 'Size:', file.size);
-
-      if (!file || !file.uri) {
-        throw new Error('Invalid file selected');
-      }
-
-      // Validate file format
-      if (!isSupportedFormat(file.name)) {
-        const ext = getFileExtension(file.name).toUpperCase() || 'Unknown';
-        Alert.alert(
-          'Unsupported File Format',
-          `The file format "${ext}" is not supported.\n\nSupported formats: PDF, DOCX, TXT, RTF only.`,
-          [{ text: 'OK' }]
-        );
-        setUploading(false);
-        return;
-      }
-
-      const uid = auth.currentUser!.uid;
-      const email = auth.currentUser?.email || '';
-      const name = auth.currentUser?.displayName || email || 'User';
-
-      const ext = getFileExtension(file.name).toLowerCase();
-      const type = toDocType(ext);
-      const title = file.name;
-      const contentType = contentTypeFromExt(ext);
-
-      // For PDFs, backend generates docId (fileId). For others, we use a timestamp docId.
-      let docId = `${Date.now()}`;
-
-      if (ext === 'pdf') {
-        // 1) Call secured backend with Firebase ID token (backend writes processed JSON to Storage)
-        const idToken = await getFirebaseIdToken();
-        const { formData, cleanup } = await buildPdfFormData({ uri: file.uri, name: file.name });
-
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 60000);
-
-        let resp: Response;
-        try {
-          resp = await fetch(`https://readx-backend-740104261370.asia-south1.run.app/extract/pdf`, {
-            method: 'POST',
-            headers: { Authorization: `Bearer ${idToken}` },
-            body: formData,
-            signal: controller.signal,
-          });
-        } finally {
-          clearTimeout(timeoutId);
-          await cleanup();
-        }
-
-        if (!resp.ok) {
-          const txt = await resp.text().catch(() => '');
-          throw new Error(txt ? 'PDF extraction failed. Please try another PDF.' : 'PDF extraction failed.');
-        }
-
-        const json = await resp.json();
-        docId = String(json.fileId || docId);
-      }
-
-      const storagePath = `users/${uid}/files/${docId}/original.${ext}`;
-      const processedPath = `users/${uid}/processed/${docId}.json`;
-
-      // 2) Create Firestore metadata early (processing → ready/error)
-      await upsertUserDocument({
-        uid,
-        docId,
-        data: {
-          type,
-          title,
-          pages: 1,
-          status: 'processing',
-          storagePath,
-          processedPath,
-        },
-      });
-
-      let normalized: { uri: string; cleanup: () => Promise<void> } | null = null;
-      try {
-        // Normalize URI once so conversion + Storage upload don't break on Android content:// URIs.
-        normalized =
-          ext === 'pdf'
-            ? { uri: file.uri, cleanup: async () => {} }
-            : await normalizePickedFileUri({ uri: file.uri, extension: ext });
-
-        // 3) Upload original file to Storage (required schema)
-        await uploadLocalFileToStorage({ storagePath, fileUri: normalized.uri, contentType });
-
-        // 4) For non-PDF types, create processed JSON ourselves (no large text in Firestore)
-        if (ext !== 'pdf') {
-          let text = '';
-          // TXT/RTF: read directly from file (fast + reliable), fallback to base64 decode
-          if (ext === 'txt' || ext === 'rtf') {
-            try {
-              text = await FileSystem.readAsStringAsync(normalized.uri);
-            } catch {
-              const base64 = await FileSystem.readAsStringAsync(normalized.uri, { encoding: 'base64' } as any);
-              const { base64ToUtf8String } = await import('@/utils/base64');
-              text = base64ToUtf8String(base64);
-            }
-          } else {
-            const { convertFileToText } = await import('@/utils/fileConverter');
-            const conversionTimeout = new Promise<never>((_, reject) =>
-              setTimeout(() => reject(new Error('File conversion timeout. Please try again.')), 30000)
-            );
-            text = await Promise.race([convertFileToText(normalized.uri, file.name), conversionTimeout]);
-          }
-          const pages = 1;
-          await uploadJsonToStoragePath({ storagePath: processedPath, json: { pages, text } });
-
-          await upsertUserDocument({
-            uid,
-            docId,
-            data: {
-              type,
-              title,
-              pages,
-              status: 'ready',
-              storagePath,
-              processedPath,
-            },
-          });
-        } else {
-          // Wait for backend processed JSON (realtime UI shows "processing" while we wait)
-          const processed = await waitForProcessedJson(processedPath);
-          if (!processed || typeof processed?.text !== 'string' || !processed.text.trim()) {
-            await upsertUserDocument({
-              uid,
-              docId,
-              data: {
-                type,
-                title,
-                pages: typeof processed?.pages === 'number' ? processed.pages : 1,
-                status: 'error',
-                storagePath,
-                processedPath,
-                errorMessage: 'PDF processing failed. Please upload a text-based PDF (not images).',
-              } as any,
-            });
-            throw new Error('PDF processing failed. Please upload a correct PDF format without images.');
-          }
-
-          await upsertUserDocument({
-            uid,
-            docId,
-            data: {
-              type,
-              title,
-              pages: typeof processed?.pages === 'number' ? processed.pages : 1,
-              status: 'ready',
-              storagePath,
-              processedPath,
-            },
-          });
-        }
-
-      } catch (e: any) {
-        // Ensure documents never get stuck in "processing"
-        const msg =
-          typeof e?.message === 'string' && e.message.trim()
-            ? e.message
-            : 'Processing failed. Please try again.';
-        await upsertUserDocument({
-          uid,
-          docId,
-          data: {
-            type,
-            title,
-            pages: 1,
-            status: 'error',
-            storagePath,
-            processedPath,
-            // Store the real error so we can debug issues in production.
-            errorMessage: msg,
-          } as any,
-        });
-        throw new Error(msg);
-      } finally {
-        try {
-          await normalized?.cleanup();
-        } catch {
-          // ignore
-        }
-      }
-
-      // 5) Update dashboard summary counters (strict path)
-      await bumpDashboardSummary({
-        uid,
-        name,
-        email,
-        filesUploadedDelta: 1,
-      });
-
-      // Notify parent component about the uploaded file
-      if (onFileUploaded) {
-        console.log('[FileUpload] Calling onFileUploaded callback');
-        onFileUploaded({ uri: processedPath, name: file.name });
-      }
-
-      Alert.alert('Success', `File "${file.name}" uploaded successfully!`);
-      
-      setUploading(false);
-    } catch (error: any) {
-      const message =
-        typeof error?.message === 'string'
-          ? error.message
-          : 'Failed to upload file. Please try again.';
-      Alert.alert('Error', `Upload failed: ${message}`);
-      setUploading(false);
+      console.log(`[FileUpload] ${result.assets.length} file(s) selected`);
+      await queueFiles(
+        result.assets.map((file) => ({ uri: file.uri, name: file.name, mimeType: file.mimeType }))
+      );
+    } finally {
+      setPicking(false);
     }
   };
 
+  const queuedUploadPaths = queue.map((item) => item.storagePath).filter((path): path is string => Boolean(path));
+
   return (
     <View style={styles.wrapper}>
-      <Text style={styles.label}>Upload a file to read</Text>
-      <TouchableOpacity
-        onPress={pickDocument}
-        disabled={uploading}
-        style={[styles.button, uploading && styles.buttonDisabled]}
-      >
-        {uploading ? (
-          <>
+      <Text style={styles.label}>Upload files to read</Text>
+      <View ref={dropZoneRef} style={[Platform.OS === 'web' && styles.dropZone, dragActive && styles.dropZoneActive]}>
+        <TouchableOpacity
+          onPress={pickDocuments}
+          disabled={picking}
+          style={[styles.button, picking && styles.buttonDisabled]}
+        >
+          {picking ? (
             <ActivityIndicator color="#ffffff" />
-            <Text style={styles.buttonText}>Uploading...</Text>
-          </>
-        ) : (
-          <>
+          ) : (
             <Ionicons name="cloud-upload-outline" size={24} color="#ffffff" />
-            <Text style={styles.buttonText}>Upload File</Text>
-          </>
+          )}
+          <Text style={styles.buttonText}>Upload Files</Text>
+        </TouchableOpacity>
+        {Platform.OS === 'web' && (
+          <Text style={styles.dropHint}>{dragActive ? 'Drop to add to the queue' : 'or drag and drop files here'}</Text>
         )}
-      </TouchableOpacity>
-      <Text style={styles.hint}>Supported formats: PDF, DOCX, TXT, RTF only</Text>
+      </View>
+      <UploadQueueList items={queue} onOpenDocument={onOpenDocument} />
+      <UploadProgressList excludeStoragePaths={queuedUploadPaths} />
+      <Text style={styles.hint}>Supported formats: {getSupportedFormatsLabel()} only</Text>
     </View>
   );
 }
@@ -420,6 +180,23 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginLeft: 8,
   },
+  dropZone: {
+    borderWidth: 2,
+    borderStyle: 'dashed',
+    borderColor: 'transparent',
+    borderRadius: 16,
+    padding: 6,
+  },
+  dropZoneActive: {
+    borderColor: '#2563EB',
+    backgroundColor: 'rgba(37, 99, 235, 0.08)',
+  },
+  dropHint: {
+    marginTop: 6,
+    fontSize: 13,
+    color: '#4B5563',
+    textAlign: 'center',
+  },
   hint: {
     marginTop: 10,
     fontSize: 13,
@@ -0,0 +1,115 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MAX_PACER_WPM, MIN_PACER_WPM, PACER_WPM_STEP, type PacerState } from '@/utils/pacer';
+
+interface PacerBarProps {
+  state: PacerState;
+  wpm: number;
+  isDark: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onStop: () => void;
+  onWpmChange: (wpm: number) => void;
+}
+
+/**
+ * Guided pacer controls: play/pause, stop and words per minute
+ */
+export default function PacerBar({ state, wpm, isDark, onPlay, onPause, onStop, onWpmChange }: PacerBarProps) {
+  const accent = isDark ? '#34D399' : '#059669';
+  const playing = state === 'playing';
+
+  return (
+    <View style={[styles.bar, isDark && styles.barDark]}>
+      <TouchableOpacity
+        style={styles.playButton}
+        onPress={playing ? onPause : onPlay}
+        accessibilityLabel={playing ? 'Pause pacer' : state === 'paused' ? 'Resume pacer' : 'Start pacer'}
+      >
+        <Ionicons name={playing ? 'pause' : 'play'} size={22} color="#ffffff" />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={onStop}
+        disabled={state === 'idle'}
+        accessibilityLabel="Stop pacer"
+      >
+        <Ionicons name="stop" size={20} color={state === 'idle' ? '#9CA3AF' : accent} />
+      </TouchableOpacity>
+
+      <View style={styles.wpmControl}>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => onWpmChange(wpm - PACER_WPM_STEP)}
+          disabled={wpm <= MIN_PACER_WPM}
+          accessibilityLabel="Slower"
+        >
+          <Ionicons name="remove" size={16} color={wpm <= MIN_PACER_WPM ? '#9CA3AF' : accent} />
+        </TouchableOpacity>
+        <Text style={[styles.wpmText, isDark && styles.textDark]}>{wpm}</Text>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => onWpmChange(wpm + PACER_WPM_STEP)}
+          disabled={wpm >= MAX_PACER_WPM}
+          accessibilityLabel="Faster"
+        >
+          <Ionicons name="add" size={16} color={wpm >= MAX_PACER_WPM ? '#9CA3AF' : accent} />
+        </TouchableOpacity>
+        <Text style={[styles.wpmLabel, isDark && styles.wpmLabelDark]}>words/min</Text>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#ECFDF5',
+    borderTopWidth: 1,
+    borderTopColor: '#D1FAE5',
+  },
+  barDark: {
+    backgroundColor: '#1E293B',
+    borderTopColor: '#334155',
+  },
+  playButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#059669',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  wpmControl: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  wpmText: {
+    minWidth: 40,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  textDark: {
+    color: '#F9FAFB',
+  },
+  wpmLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 2,
+  },
+  wpmLabelDark: {
+    color: '#9CA3AF',
+  },
+});
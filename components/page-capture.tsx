@@ -0,0 +1,724 @@
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  Image,
+  Modal,
+  ScrollView,
+  SafeAreaView,
+  StyleSheet,
+  Platform,
+} from 'react-native';
+import { CameraView, useCameraPermissions } from 'expo-camera';
+import { Ionicons } from '@expo/vector-icons';
+import * as FileSystem from 'expo-file-system/legacy';
+import { useTheme } from '@/contexts/ThemeContext';
+import { bumpDashboardSummary } from '@/utils/firestoreDashboard';
+import {
+  getUserDocument,
+  requireEmail,
+  requireName,
+  requireUid,
+  upsertUserDocument,
+  type ScanPageInfo,
+  type UserDocument,
+} from '@/utils/firestoreDocuments';
+import { uploadProcessedDocument, uploadTextToStoragePath } from '@/utils/firebaseStorageHelpers';
+import { isLowConfidence, recognizeImages, type OcrResult } from '@/utils/imageOcr';
+import { buildProcessedDocument, getDocumentSummary } from '@/utils/processedDocument';
+import { textPagesToBlocks } from '@/utils/textCleanup';
+
+interface CapturedPage {
+  id: string;
+  uri: string;
+  ocr?: OcrResult;
+  accepted?: boolean; // low-confidence page kept after review
+}
+
+type Stage = 'capture' | 'recognizing' | 'review' | 'saving';
+
+interface PageCaptureProps {
+  visible: boolean;
+  onClose: () => void;
+  onSaved?: (doc: { id: string; data: UserDocument }) => void;
+}
+
+/**
+ * Multi-page camera capture
+ * Photograph pages in order, reorder or retake them, OCR each page and save the result as
+ * one 'scan' document. Low-confidence pages must be retaken or accepted before saving.
+ */
+export default function PageCapture({ visible, onClose, onSaved }: PageCaptureProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [permission, requestPermission] = useCameraPermissions();
+  const cameraRef = useRef<CameraView>(null);
+  const [pages, setPages] = useState<CapturedPage[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [retakeIndex, setRetakeIndex] = useState<number | null>(null);
+  const [stage, setStage] = useState<Stage>('capture');
+  const [progress, setProgress] = useState({ done: 0, total: 0 });
+  const [capturing, setCapturing] = useState(false);
+  const [title, setTitle] = useState('');
+
+  const needsReview = (page: CapturedPage) => Boolean(page.ocr && isLowConfidence(page.ocr) && !page.accepted);
+  const unresolvedCount = pages.filter(needsReview).length;
+
+  const deletePhoto = (uri: string) => {
+    if (Platform.OS === 'web') return;
+    FileSystem.deleteAsync(uri, { idempotent: true } as any).catch(() => {});
+  };
+
+  const reset = () => {
+    pages.forEach((p) => deletePhoto(p.uri));
+    setPages([]);
+    setSelectedIndex(null);
+    setRetakeIndex(null);
+    setStage('capture');
+    setProgress({ done: 0, total: 0 });
+    setTitle('');
+  };
+
+  const handleClose = () => {
+    if (pages.length === 0 || stage === 'saving') {
+      if (stage !== 'saving') onClose();
+      return;
+    }
+    Alert.alert('Discard pages?', 'The captured pages have not been saved.', [
+      { text: 'Keep editing', style: 'cancel' },
+      {
+        text: 'Discard',
+        style: 'destructive',
+        onPress: () => {
+          reset();
+          onClose();
+        },
+      },
+    ]);
+  };
+
+  const takePicture = async () => {
+    if (!cameraRef.current || capturing) return;
+    setCapturing(true);
+    try {
+      const photo = await cameraRef.current.takePictureAsync({ quality: 0.7 });
+      if (!photo?.uri) throw new Error('No image returned');
+      const page: CapturedPage = { id: `${Date.now()}`, uri: photo.uri };
+
+      if (retakeIndex !== null && pages[retakeIndex]) {
+        deletePhoto(pages[retakeIndex].uri);
+        setPages((prev) => prev.map((p, i) => (i === retakeIndex ? page : p)));
+        setSelectedIndex(retakeIndex);
+        setRetakeIndex(null);
+      } else {
+        setPages((prev) => [...prev, page]);
+        setSelectedIndex(null);
+      }
+    } catch (error: any) {
+      console.error('[PageCapture] Capture failed:', error);
+      Alert.alert('Camera', `Could not take the photo: ${error?.message || 'Unknown error'}`);
+    } finally {
+      setCapturing(false);
+    }
+  };
+
+  const movePage = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= pages.length) return;
+    setPages((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+    setSelectedIndex(target);
+  };
+
+  const removePage = (index: number) => {
+    deletePhoto(pages[index].uri);
+    setPages((prev) => prev.filter((_, i) => i !== index));
+    setSelectedIndex(null);
+    setRetakeIndex(null);
+  };
+
+  const startRetake = (index: number) => {
+    setSelectedIndex(index);
+    setRetakeIndex(index);
+    setStage('capture');
+  };
+
+  const acceptPage = (index: number) => {
+    setPages((prev) => prev.map((p, i) => (i === index ? { ...p, accepted: true } : p)));
+  };
+
+  const recognizePages = async () => {
+    // Only new or retaken pages need OCR
+    const pending = pages.filter((p) => !p.ocr);
+    if (pending.length === 0) {
+      setStage('review');
+      return;
+    }
+
+    setStage('recognizing');
+    setProgress({ done: 0, total: pending.length });
+    try {
+      const results = await recognizeImages(
+        pending.map((p) => p.uri),
+        (index) => setProgress({ done: index + 1, total: pending.length })
+      );
+      const byId = new Map(pending.map((p, i) => [p.id, results[i]]));
+      setPages((prev) => prev.map((p) => (byId.has(p.id) ? { ...p, ocr: byId.get(p.id), accepted: false } : p)));
+      setStage('review');
+    } catch (error: any) {
+      console.error('[PageCapture] OCR failed:', error);
+      Alert.alert('Text recognition failed', error?.message || 'Please try again.');
+      setStage('capture');
+    }
+  };
+
+  const saveDocument = async () => {
+    if (unresolvedCount > 0) return;
+    if (!pages.some((p) => p.ocr?.text)) {
+      Alert.alert('No text found', 'None of the pages contain readable text. Please retake them in better light.');
+      return;
+    }
+
+    setStage('saving');
+    try {
+      const uid = requireUid();
+      const docId = `${Date.now()}`;
+      const docTitle = title.trim() || `Scanned Pages ${new Date().toLocaleDateString()}`;
+      const originalPath = `users/${uid}/files/${docId}/original.txt`;
+      const processedPath = `users/${uid}/processed/${docId}.json`;
+
+      const texts = pages.map((p) => p.ocr?.text || '');
+      const confidences = pages.map((p) => Math.round(p.ocr?.confidence || 0));
+      const scanPages: ScanPageInfo[] = pages.map((p, i) => ({
+        page: i + 1,
+        confidence: confidences[i],
+        needsReview: Boolean(p.ocr && isLowConfidence(p.ocr)),
+      }));
+
+      // 1) OCR text as the original (keeps schema consistent with pasted text)
+      await uploadTextToStoragePath({
+        storagePath: originalPath,
+        text: texts.join('\n\n'),
+        extension: 'txt',
+        contentType: 'text/plain',
+      });
+
+      // 2) Processed JSON with one page per photo
+      const processedDocument = buildProcessedDocument({
+        // Cleaned across pages, so running headers and page numbers in the photos are dropped
+        blocks: textPagesToBlocks(texts),
+        sourceFormat: 'scan',
+        pageCount: pages.length,
+        title: docTitle,
+        pageConfidence: confidences,
+      });
+      await uploadProcessedDocument({ storagePath: processedPath, document: processedDocument });
+
+      // 3) Firestore document metadata
+      await upsertUserDocument({
+        uid,
+        docId,
+        data: {
+          type: 'scan',
+          title: docTitle,
+          ...getDocumentSummary(processedDocument),
+          status: 'ready',
+          storagePath: originalPath,
+          processedPath,
+          scanPages,
+        },
+      });
+
+      // 4) Dashboard count
+      await bumpDashboardSummary({ uid, name: requireName(), email: requireEmail(), filesUploadedDelta: 1 });
+
+      const saved = await getUserDocument(uid, docId);
+      reset();
+      onClose();
+      if (saved) onSaved?.({ id: docId, data: saved });
+    } catch (error: any) {
+      console.error('[PageCapture] Save failed:', error);
+      Alert.alert('Error', `Saving failed: ${error?.message || 'Please try again.'}`);
+      setStage('review');
+    }
+  };
+
+  const renderCapture = () => {
+    if (!permission) {
+      return (
+        <View style={styles.centered}>
+          <ActivityIndicator />
+        </View>
+      );
+    }
+
+    if (!permission.granted) {
+      return (
+        <View style={styles.centered}>
+          <Ionicons name="camera-outline" size={48} color={isDark ? '#9CA3AF' : '#6B7280'} />
+          <Text style={[styles.message, isDark && styles.textDark]}>
+            Camera access is needed to photograph book pages.
+          </Text>
+          <TouchableOpacity style={styles.primaryButton} onPress={requestPermission}>
+            <Text style={styles.primaryButtonText}>Allow camera</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    const selected = selectedIndex !== null ? pages[selectedIndex] : null;
+
+    return (
+      <View style={styles.flex}>
+        <View style={styles.cameraWrapper}>
+          <CameraView ref={cameraRef} style={styles.camera} facing="back" mode="picture" />
+          {retakeIndex !== null && (
+            <View style={styles.retakeBanner}>
+              <Text style={styles.retakeBannerText}>Retaking page {retakeIndex + 1}</Text>
+              <TouchableOpacity onPress={() => setRetakeIndex(null)}>
+                <Text style={styles.retakeBannerCancel}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+
+        {pages.length > 0 && (
+          <ScrollView horizontal style={styles.thumbStrip} contentContainerStyle={styles.thumbStripContent}>
+            {pages.map((page, index) => (
+              <TouchableOpacity
+                key={page.id}
+                onPress={() => setSelectedIndex(selectedIndex === index ? null : index)}
+                style={[styles.thumb, selectedIndex === index && styles.thumbSelected]}
+                accessibilityLabel={`Page ${index + 1}`}
+              >
+                <Image source={{ uri: page.uri }} style={styles.thumbImage} />
+                <Text style={styles.thumbLabel}>{index + 1}</Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        {selected && selectedIndex !== null && (
+          <View style={styles.pageActions}>
+            <TouchableOpacity onPress={() => movePage(selectedIndex, -1)} accessibilityLabel="Move page earlier">
+              <Ionicons name="arrow-back" size={22} color={isDark ? '#E5E7EB' : '#1F2937'} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => movePage(selectedIndex, 1)} accessibilityLabel="Move page later">
+              <Ionicons name="arrow-forward" size={22} color={isDark ? '#E5E7EB' : '#1F2937'} />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => setRetakeIndex(selectedIndex)} accessibilityLabel="Retake page">
+              <Ionicons name="refresh" size={22} color="#2563EB" />
+            </TouchableOpacity>
+            <TouchableOpacity onPress={() => removePage(selectedIndex)} accessibilityLabel="Delete page">
+              <Ionicons name="trash-outline" size={22} color="#EF4444" />
+            </TouchableOpacity>
+          </View>
+        )}
+
+        <View style={styles.captureBar}>
+          <Text style={[styles.pageCount, isDark && styles.textDark]}>
+            {pages.length} {pages.length === 1 ? 'page' : 'pages'}
+          </Text>
+          <TouchableOpacity
+            style={[styles.shutter, capturing && styles.buttonDisabled]}
+            onPress={takePicture}
+            disabled={capturing}
+            accessibilityLabel="Take photo"
+          >
+            {capturing ? <ActivityIndicator color="#2563EB" /> : <View style={styles.shutterInner} />}
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.doneButton, pages.length === 0 && styles.buttonDisabled]}
+            onPress={recognizePages}
+            disabled={pages.length === 0}
+          >
+            <Text style={styles.primaryButtonText}>Done</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderReview = () => (
+    <View style={styles.flex}>
+      <ScrollView contentContainerStyle={styles.reviewList}>
+        <Text style={[styles.label, isDark && styles.textDark]}>Document title (optional)</Text>
+        <TextInput
+          style={[styles.titleInput, isDark && styles.titleInputDark]}
+          placeholder="e.g. Chapter 3 worksheet"
+          placeholderTextColor={isDark ? '#6B7280' : '#9CA3AF'}
+          value={title}
+          onChangeText={setTitle}
+          maxLength={100}
+        />
+
+        {pages.map((page, index) => {
+          const flagged = needsReview(page);
+          const lowConfidence = Boolean(page.ocr && isLowConfidence(page.ocr));
+          return (
+            <View key={page.id} style={[styles.reviewCard, isDark && styles.reviewCardDark, flagged && styles.reviewCardFlagged]}>
+              <Image source={{ uri: page.uri }} style={styles.reviewImage} />
+              <View style={styles.flex}>
+                <View style={styles.reviewHeader}>
+                  <Text style={[styles.reviewTitle, isDark && styles.textDark]}>Page {index + 1}</Text>
+                  <Text style={[styles.confidence, lowConfidence ? styles.confidenceLow : styles.confidenceOk]}>
+                    {Math.round(page.ocr?.confidence || 0)}%
+                  </Text>
+                </View>
+                <Text style={[styles.reviewText, isDark && styles.reviewTextDark]} numberOfLines={3}>
+                  {page.ocr?.text || 'No text found on this page.'}
+                </Text>
+                {flagged && (
+                  <Text style={styles.flagText}>Low confidence - the text may have mistakes.</Text>
+                )}
+                <View style={styles.reviewActions}>
+                  <TouchableOpacity style={styles.secondaryButton} onPress={() => startRetake(index)}>
+                    <Ionicons name="camera-outline" size={16} color="#2563EB" />
+                    <Text style={styles.secondaryButtonText}>Retake</Text>
+                  </TouchableOpacity>
+                  {flagged && (
+                    <TouchableOpacity style={styles.secondaryButton} onPress={() => acceptPage(index)}>
+                      <Ionicons name="checkmark" size={16} color="#2563EB" />
+                      <Text style={styles.secondaryButtonText}>Keep</Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </View>
+            </View>
+          );
+        })}
+      </ScrollView>
+
+      <View style={[styles.footer, isDark && styles.footerDark]}>
+        {unresolvedCount > 0 && (
+          <Text style={styles.flagText}>
+            {unresolvedCount} {unresolvedCount === 1 ? 'page needs' : 'pages need'} review before reading.
+          </Text>
+        )}
+        <View style={styles.footerButtons}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => setStage('capture')}>
+            <Ionicons name="add" size={16} color="#2563EB" />
+            <Text style={styles.secondaryButtonText}>Add pages</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.primaryButton, unresolvedCount > 0 && styles.buttonDisabled]}
+            onPress={saveDocument}
+            disabled={unresolvedCount > 0}
+          >
+            <Text style={styles.primaryButtonText}>Save & Read</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </View>
+  );
+
+  const renderBusy = (message: string) => (
+    <View style={styles.centered}>
+      <ActivityIndicator size="large" color="#2563EB" />
+      <Text style={[styles.message, isDark && styles.textDark]}>{message}</Text>
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={handleClose}>
+      <SafeAreaView style={[styles.container, isDark && styles.containerDark]}>
+        <View style={[styles.header, isDark && styles.headerDark]}>
+          <TouchableOpacity onPress={handleClose} accessibilityLabel="Close">
+            <Ionicons name="close" size={26} color={isDark ? '#E5E7EB' : '#1F2937'} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, isDark && styles.textDark]}>
+            {stage === 'review' ? 'Check pages' : 'Scan pages'}
+          </Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {stage === 'capture' && renderCapture()}
+        {stage === 'recognizing' && renderBusy(`Reading page ${Math.min(progress.done + 1, progress.total)} of ${progress.total}...`)}
+        {stage === 'review' && renderReview()}
+        {stage === 'saving' && renderBusy('Saving document...')}
+      </SafeAreaView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  flex: {
+    flex: 1,
+  },
+  container: {
+    flex: 1,
+    backgroundColor: '#F9FAFB',
+  },
+  containerDark: {
+    backgroundColor: '#111827',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  headerDark: {
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  headerSpacer: {
+    width: 26,
+  },
+  textDark: {
+    color: '#F9FAFB',
+  },
+  centered: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+    gap: 16,
+  },
+  message: {
+    fontSize: 16,
+    color: '#374151',
+    textAlign: 'center',
+  },
+  cameraWrapper: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  camera: {
+    flex: 1,
+  },
+  retakeBanner: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    right: 12,
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    borderRadius: 10,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+  },
+  retakeBannerText: {
+    color: '#ffffff',
+    fontWeight: '600',
+  },
+  retakeBannerCancel: {
+    color: '#93C5FD',
+    fontWeight: '600',
+  },
+  thumbStrip: {
+    flexGrow: 0,
+  },
+  thumbStripContent: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    gap: 8,
+  },
+  thumb: {
+    width: 56,
+    height: 76,
+    borderRadius: 6,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    overflow: 'hidden',
+  },
+  thumbSelected: {
+    borderColor: '#2563EB',
+  },
+  thumbImage: {
+    width: '100%',
+    height: '100%',
+  },
+  thumbLabel: {
+    position: 'absolute',
+    bottom: 2,
+    right: 4,
+    color: '#ffffff',
+    fontWeight: '700',
+    textShadowColor: 'rgba(0, 0, 0, 0.8)',
+    textShadowRadius: 3,
+  },
+  pageActions: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    paddingVertical: 8,
+  },
+  captureBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  pageCount: {
+    width: 80,
+    fontSize: 14,
+    color: '#374151',
+  },
+  shutter: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    borderWidth: 4,
+    borderColor: '#2563EB',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  shutterInner: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#2563EB',
+  },
+  doneButton: {
+    width: 80,
+    backgroundColor: '#2563EB',
+    borderRadius: 12,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  primaryButton: {
+    backgroundColor: '#2563EB',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 18,
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#ffffff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderWidth: 1,
+    borderColor: '#2563EB',
+    borderRadius: 10,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  secondaryButtonText: {
+    color: '#2563EB',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  reviewList: {
+    padding: 16,
+    gap: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  titleInput: {
+    borderWidth: 1,
+    borderColor: '#D1D5DB',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#111827',
+    backgroundColor: '#ffffff',
+  },
+  titleInputDark: {
+    borderColor: '#374151',
+    color: '#F9FAFB',
+    backgroundColor: '#1F2937',
+  },
+  reviewCard: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#ffffff',
+  },
+  reviewCardDark: {
+    borderColor: '#374151',
+    backgroundColor: '#1F2937',
+  },
+  reviewCardFlagged: {
+    borderColor: '#F59E0B',
+    borderWidth: 2,
+  },
+  reviewImage: {
+    width: 72,
+    height: 96,
+    borderRadius: 6,
+  },
+  reviewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  reviewTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  confidence: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+  confidenceOk: {
+    color: '#059669',
+  },
+  confidenceLow: {
+    color: '#D97706',
+  },
+  reviewText: {
+    marginTop: 4,
+    fontSize: 13,
+    color: '#4B5563',
+  },
+  reviewTextDark: {
+    color: '#D1D5DB',
+  },
+  flagText: {
+    marginTop: 6,
+    fontSize: 13,
+    color: '#D97706',
+    fontWeight: '600',
+  },
+  reviewActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  footer: {
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(0, 0, 0, 0.1)',
+    gap: 8,
+  },
+  footerDark: {
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  footerButtons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   View,
   Text,
@@ -13,8 +13,28 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useAuth } from '@/contexts/AuthContext';
 import { listenDashboardSummary, type DashboardSummary } from '@/utils/firestoreDashboard';
-import { listenUserDocuments, type UserDocument } from '@/utils/firestoreDocuments';
+import { listenUserDocuments, setDocumentSkipPolicy, type UserDocument } from '@/utils/firestoreDocuments';
 import { listenUserProgress } from '@/utils/firestoreProgress';
+import {
+  listenPolicyOverrides,
+  listenReadingPolicy,
+  saveReadingPolicy,
+  type PolicyOverride,
+  type ReadingPolicy,
+} from '@/utils/firestoreReadingPolicy';
+import {
+  checkParentPin,
+  clampDwellWpm,
+  DEFAULT_DWELL_WPM,
+  DWELL_WPM_STEP,
+  hashParentPin,
+  MAX_DWELL_WPM,
+  MIN_DWELL_WPM,
+  resolveSkipPolicy,
+  SKIP_POLICY_MODES,
+  type SkipPolicyMode,
+} from '@/utils/readingPolicy';
+import ParentPinPrompt from '@/components/parent-pin-prompt';
 
 interface DashboardStats {
   totalFiles: number;
@@ -28,6 +48,9 @@ interface DashboardStats {
   filesCompletedToday: number;
 }
 
+// Per-document rule choices, in the order a tap cycles through them; null = the profile rule
+const DOCUMENT_RULES: (SkipPolicyMode | null)[] = [null, 'free', 'sequential', 'dwell'];
+
 interface ParentDashboardProps {
   refreshKey?: number;
 }
@@ -53,8 +76,16 @@ export default function ParentDashboard({ refreshKey }: ParentDashboardProps) {
     filesCompletedToday: 0,
   });
   const [loading, setLoading] = useState(true);
+  // No Skipping rules
+  const [policy, setPolicy] = useState<ReadingPolicy | null>(null);
+  const [overrides, setOverrides] = useState<{ id: string; data: PolicyOverride }[]>([]);
+  const [pinPrompt, setPinPrompt] = useState<'verify' | 'set' | null>(null);
+  const [rulesUnlocked, setRulesUnlocked] = useState(false); // PIN entered on this visit
+  const pendingEdit = useRef<(() => void) | null>(null);
   
   const isDark = theme === 'dark';
+  const policyMode = resolveSkipPolicy(policy?.mode, null);
+  const dwellWpm = clampDwellWpm(policy?.dwellWordsPerMinute ?? DEFAULT_DWELL_WPM);
 
   const isSameDay = (a: Date, b: Date) => {
     const da = new Date(a);
@@ -72,6 +103,16 @@ export default function ParentDashboard({ refreshKey }: ParentDashboardProps) {
     return null;
   };
 
+  // Wrong PINs entered on the reader's side (counted on the policy, so they survive a reinstall)
+  const pinFailuresLabel = (p: ReadingPolicy) => {
+    const last = toDate(p.lastPinFailureAt);
+    const lastLabel = last ? `Last wrong PIN ${last.toLocaleString()}` : '';
+    if (!p.pinFailures) return lastLabel;
+    const locked = p.pinLockedUntil && p.pinLockedUntil > Date.now() ? ', PIN locked' : '';
+    const count = `${p.pinFailures} wrong PIN${p.pinFailures === 1 ? '' : 's'} in a row${locked}`;
+    return lastLabel ? `${count} • ${lastLabel.toLowerCase()}` : count;
+  };
+
   const formatDuration = (totalSeconds: number) => {
     const s = Math.max(0, Math.floor(totalSeconds || 0));
     const m = Math.floor(s / 60);
@@ -103,11 +144,15 @@ export default function ParentDashboard({ refreshKey }: ParentDashboardProps) {
       }).length;
       setCompletedTodayCount(completedToday);
     });
+    const unsubPolicy = listenReadingPolicy(uid, setPolicy);
+    const unsubOverrides = listenPolicyOverrides(uid, setOverrides, undefined, 10);
     setLoading(false);
     return () => {
       unsubSummary();
       unsubDocs();
       unsubProgress();
+      unsubPolicy();
+      unsubOverrides();
     };
   }, [refreshKey]);
 
@@ -128,6 +173,62 @@ export default function ParentDashboard({ refreshKey }: ParentDashboardProps) {
     });
   }, [summary, docCount, completedCount, uploadedTodayCount, completedTodayCount]);
 
+  // Once a PIN is set, changing the rules needs it (once per visit)
+  const withParentPin = (edit: () => void) => {
+    if (!policy?.pinHash || rulesUnlocked) {
+      edit();
+      return;
+    }
+    pendingEdit.current = edit;
+    setPinPrompt('verify');
+  };
+
+  const saveRules = (save: () => Promise<void>) => {
+    save().catch((error) => {
+      console.warn('[ParentDashboard] Could not save reading rules:', error?.message);
+      Alert.alert('Could not save', 'The reading rules were not changed. Please try again.');
+    });
+  };
+
+  const handlePolicyMode = (mode: SkipPolicyMode) => {
+    if (!uid || mode === policyMode) return;
+    withParentPin(() => saveRules(() => saveReadingPolicy(uid, { mode })));
+  };
+
+  const handleDwellWpm = (wpm: number) => {
+    if (!uid) return;
+    withParentPin(() => saveRules(() => saveReadingPolicy(uid, { dwellWordsPerMinute: clampDwellWpm(wpm) })));
+  };
+
+  const handleDocumentRule = (docId: string, current: SkipPolicyMode | null | undefined) => {
+    if (!uid) return;
+    const next = DOCUMENT_RULES[(DOCUMENT_RULES.indexOf(current ?? null) + 1) % DOCUMENT_RULES.length];
+    withParentPin(() => saveRules(() => setDocumentSkipPolicy(uid, docId, next)));
+  };
+
+  const handleVerifyPin = async (pin: string) => {
+    if (!uid) return 'Please sign in to continue.';
+    const error = await checkParentPin(uid, pin, policy);
+    if (error) return error;
+    setRulesUnlocked(true);
+    setPinPrompt(null);
+    const edit = pendingEdit.current;
+    pendingEdit.current = null;
+    edit?.();
+    return null;
+  };
+
+  const handleSetPin = async (pin: string) => {
+    if (!uid) return 'Please sign in to continue.';
+    await saveReadingPolicy(uid, await hashParentPin(pin));
+    setRulesUnlocked(true);
+    setPinPrompt(null);
+    return null;
+  };
+
+  const documentRuleLabel = (mode: SkipPolicyMode | null | undefined) =>
+    mode ? SKIP_POLICY_MODES.find((option) => option.id === mode)?.label ?? mode : 'Profile rule';
+
   const handleResetToday = async () => {
     Alert.alert('Not available', 'Reset is not enabled for cloud sync yet.');
   };
@@ -221,6 +322,11 @@ export default function ParentDashboard({ refreshKey }: ParentDashboardProps) {
           <Ionicons name="text" size={32} color="#8B5CF6" />
           <Text style={[styles.statValue, isDark && styles.statValueDark]}>{stats.totalWordsRead.toLocaleString()}</Text>
           <Text style={[styles.statLabel, isDark && styles.statLabelDark]}>Today's Words Read</Text>
+          {summary?.wordsListened ? (
+            <Text style={[styles.statLabel, isDark && styles.statLabelDark]}>
+              + {summary.wordsListened.toLocaleString()} listened
+            </Text>
+          ) : null}
         </View>
 
         <View style={[styles.statCard, styles.statCardWarning, isDark && styles.statCardDark]}>
@@ -325,12 +431,116 @@ export default function ParentDashboard({ refreshKey }: ParentDashboardProps) {
                     {doc.data.type.toUpperCase()} • {doc.data.status}
                   </Text>
                 </View>
+                <TouchableOpacity
+                  style={[styles.docRuleChip, isDark && styles.docRuleChipDark, doc.data.skipPolicy && styles.ruleChipSelected]}
+                  onPress={() => handleDocumentRule(doc.id, doc.data.skipPolicy)}
+                  accessibilityLabel={`No Skipping rule for ${doc.data.title || doc.data.name}: ${documentRuleLabel(doc.data.skipPolicy)}`}
+                >
+                  <Ionicons name="lock-closed-outline" size={14} color={isDark ? '#9CA3AF' : '#6B7280'} />
+                  <Text style={[styles.docRuleText, isDark && styles.fileMetaDark]}>
+                    {documentRuleLabel(doc.data.skipPolicy)}
+                  </Text>
+                </TouchableOpacity>
               </View>
             ))}
           </View>
         )}
       </View>
 
+      {/* No Skipping rules */}
+      <View style={styles.section}>
+        <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>Reading Rules</Text>
+        <View style={[styles.progressCard, isDark && styles.progressCardDark]}>
+          <View style={styles.ruleChips}>
+            {SKIP_POLICY_MODES.map((option) => {
+              const selected = option.id === policyMode;
+              return (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[styles.ruleChip, isDark && styles.ruleChipDark, selected && styles.ruleChipSelected]}
+                  onPress={() => handlePolicyMode(option.id)}
+                  accessibilityLabel={`No Skipping: ${option.label}`}
+                >
+                  <Text style={[styles.ruleChipText, isDark && styles.ruleChipTextDark, selected && styles.ruleChipTextSelected]}>
+                    {option.label}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+          <Text style={[styles.ruleDescription, isDark && styles.progressItemTextDark]}>
+            {SKIP_POLICY_MODES.find((option) => option.id === policyMode)?.description}. Files can have their own rule below.
+          </Text>
+
+          {policyMode === 'dwell' && (
+            <View style={styles.ruleRow}>
+              <Text style={[styles.progressItemText, isDark && styles.progressItemTextDark, styles.ruleRowLabel]}>
+                Reading speed for the minimum time
+              </Text>
+              <TouchableOpacity
+                style={styles.ruleStepper}
+                onPress={() => handleDwellWpm(dwellWpm - DWELL_WPM_STEP)}
+                disabled={dwellWpm <= MIN_DWELL_WPM}
+                accessibilityLabel="Slower"
+              >
+                <Ionicons name="remove" size={18} color={dwellWpm <= MIN_DWELL_WPM ? '#9CA3AF' : '#2563EB'} />
+              </TouchableOpacity>
+              <Text style={[styles.ruleValue, isDark && styles.progressItemTextDark]}>{dwellWpm} wpm</Text>
+              <TouchableOpacity
+                style={styles.ruleStepper}
+                onPress={() => handleDwellWpm(dwellWpm + DWELL_WPM_STEP)}
+                disabled={dwellWpm >= MAX_DWELL_WPM}
+                accessibilityLabel="Faster"
+              >
+                <Ionicons name="add" size={18} color={dwellWpm >= MAX_DWELL_WPM ? '#9CA3AF' : '#2563EB'} />
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <View style={styles.ruleRow}>
+            <Ionicons name="key-outline" size={20} color={isDark ? '#60A5FA' : '#2563EB'} />
+            <Text style={[styles.progressItemText, isDark && styles.progressItemTextDark, styles.ruleRowLabel]}>
+              {policy?.pinHash ? 'Parent PIN is set' : 'Set a PIN to unlock paragraphs early'}
+            </Text>
+            <TouchableOpacity onPress={() => withParentPin(() => setPinPrompt('set'))}>
+              <Text style={styles.rulePinButton}>{policy?.pinHash ? 'Change PIN' : 'Set PIN'}</Text>
+            </TouchableOpacity>
+          </View>
+
+          {policy?.pinHash && (policy.pinFailures || policy.lastPinFailureAt) ? (
+            <View style={styles.ruleRow}>
+              <Ionicons name="warning-outline" size={20} color="#F59E0B" />
+              <Text style={[styles.progressItemText, isDark && styles.progressItemTextDark, styles.ruleRowLabel]}>
+                {pinFailuresLabel(policy)}
+              </Text>
+            </View>
+          ) : null}
+        </View>
+
+        {overrides.length > 0 && (
+          <View style={[styles.fileList, isDark && styles.fileListDark, styles.overrideList]}>
+            <Text style={[styles.progressLabel, isDark && styles.progressLabelDark]}>Early unlocks</Text>
+            {overrides.map((item) => {
+              const at = toDate(item.data.createdAt);
+              return (
+                <View key={item.id} style={[styles.fileItem, isDark && styles.fileItemDark]}>
+                  <Ionicons name="lock-open-outline" size={24} color="#F59E0B" />
+                  <View style={styles.fileInfo}>
+                    <Text style={[styles.fileName, isDark && styles.fileNameDark]} numberOfLines={1}>
+                      {item.data.fileName}
+                    </Text>
+                    <Text style={[styles.fileMeta, isDark && styles.fileMetaDark]}>
+                      Paragraph {item.data.fromParagraph + 1} → {item.data.toParagraph + 1}
+                      {at ? ` • ${at.toLocaleString()}` : ''}
+                    </Text>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
+      </View>
+
       {/* Reading Sessions (Cloud Summary) */}
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, isDark && styles.sectionTitleDark]}>Reading Summary</Text>
@@ -370,7 +580,7 @@ export default function ParentDashboard({ refreshKey }: ParentDashboardProps) {
             <View style={styles.featureContent}>
               <Text style={[styles.featureTitle, isDark && styles.featureTitleDark]}>No Skipping</Text>
               <Text style={[styles.featureDescription, isDark && styles.featureDescriptionDark]}>
-                Students must read each paragraph completely before moving to the next
+                Choose in Reading Rules whether each paragraph must be finished, or read for a minimum time, before the next one opens
               </Text>
             </View>
           </View>
@@ -400,6 +610,24 @@ export default function ParentDashboard({ refreshKey }: ParentDashboardProps) {
           </View>
         </View>
       </View>
+
+      <ParentPinPrompt
+        key={pinPrompt ?? 'closed'}
+        visible={pinPrompt !== null}
+        title={pinPrompt === 'set' ? 'Set a parent PIN' : 'Enter the parent PIN'}
+        message={
+          pinPrompt === 'set'
+            ? 'Use 6 to 8 digits. The PIN unlocks paragraphs early and protects these rules.'
+            : 'The PIN is needed to change the reading rules.'
+        }
+        confirm={pinPrompt === 'set'}
+        submitLabel={pinPrompt === 'set' ? 'Save PIN' : 'Continue'}
+        onSubmit={pinPrompt === 'set' ? handleSetPin : handleVerifyPin}
+        onClose={() => {
+          pendingEdit.current = null;
+          setPinPrompt(null);
+        }}
+      />
     </ScrollView>
   );
 }
@@ -789,6 +1017,87 @@ const styles = StyleSheet.create({
     marginTop: 12,
     fontWeight: '600',
   },
+  ruleChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  ruleChip: {
+    paddingVertical: 8,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.12)',
+  },
+  ruleChipDark: {
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  ruleChipSelected: {
+    borderColor: '#2563EB',
+    borderWidth: 2,
+  },
+  ruleChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  ruleChipTextDark: {
+    color: '#F9FAFB',
+  },
+  ruleChipTextSelected: {
+    color: '#2563EB',
+  },
+  ruleDescription: {
+    fontSize: 14,
+    color: '#374151',
+    marginTop: 12,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+  },
+  ruleRowLabel: {
+    flex: 1,
+  },
+  ruleStepper: {
+    padding: 6,
+  },
+  ruleValue: {
+    minWidth: 64,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  rulePinButton: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#2563EB',
+  },
+  docRuleChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.12)',
+    marginLeft: 8,
+  },
+  docRuleChipDark: {
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  docRuleText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+  },
+  overrideList: {
+    marginTop: 12,
+  },
   featuresList: {
     gap: 16,
   },
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { ActivityIndicator, View, Text, TextInput, TouchableOpacity, Modal, StyleSheet } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { isValidNewPin, isValidPin } from '@/utils/readingPolicy';
+
+interface ParentPinPromptProps {
+  visible: boolean;
+  title: string;
+  message?: string;
+  confirm?: boolean; // new PIN: ask for it twice
+  submitLabel?: string;
+  onSubmit?: (pin: string) => Promise<string | null>; // error to show, or null when accepted; none = message only
+  onClose: () => void;
+}
+
+/**
+ * Asks for the parent PIN before a No Skipping rule is bypassed or changed. New PINs are 6 to
+ * 8 digits; PINs set earlier may have 4.
+ */
+export default function ParentPinPrompt({
+  visible,
+  title,
+  message,
+  confirm = false,
+  submitLabel = 'Unlock',
+  onSubmit,
+  onClose,
+}: ParentPinPromptProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const [pin, setPin] = useState('');
+  const [repeat, setRepeat] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    setPin('');
+    setRepeat('');
+    setError(null);
+  }, [visible]);
+
+  const handleSubmit = async () => {
+    if (!onSubmit || busy) return;
+    if (confirm ? !isValidNewPin(pin) : !isValidPin(pin)) {
+      setError(confirm ? 'The new PIN must be 6 to 8 digits.' : 'The PIN is 4 to 8 digits.');
+      return;
+    }
+    if (confirm && pin !== repeat) {
+      setError('The PINs do not match.');
+      return;
+    }
+    setBusy(true);
+    try {
+      const result = await onSubmit(pin);
+      setError(result);
+      if (result) setPin('');
+    } catch (e: any) {
+      setError(e?.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputStyle = [styles.input, isDark && styles.inputDark];
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={[styles.sheet, isDark && styles.sheetDark]}>
+          <Text style={[styles.title, isDark && styles.textDark]}>{title}</Text>
+          {message ? <Text style={[styles.message, isDark && styles.subtitleDark]}>{message}</Text> : null}
+
+          {onSubmit && (
+            <>
+              <TextInput
+                value={pin}
+                onChangeText={(text) => setPin(text.replace(/\D/g, ''))}
+                placeholder={confirm ? 'New PIN' : 'Parent PIN'}
+                placeholderTextColor="#9CA3AF"
+                style={inputStyle}
+                keyboardType="number-pad"
+                maxLength={8}
+                secureTextEntry
+                autoFocus
+                onSubmitEditing={confirm ? undefined : handleSubmit}
+              />
+              {confirm && (
+                <TextInput
+                  value={repeat}
+                  onChangeText={(text) => setRepeat(text.replace(/\D/g, ''))}
+                  placeholder="Repeat new PIN"
+                  placeholderTextColor="#9CA3AF"
+                  style={inputStyle}
+                  keyboardType="number-pad"
+                  maxLength={8}
+                  secureTextEntry
+                  onSubmitEditing={handleSubmit}
+                />
+              )}
+              {error ? <Text style={styles.error}>{error}</Text> : null}
+            </>
+          )}
+
+          <View style={styles.footer}>
+            <TouchableOpacity style={styles.footerButton} onPress={onClose}>
+              <Text style={[styles.footerButtonText, styles.cancelText]}>{onSubmit ? 'Cancel' : 'OK'}</Text>
+            </TouchableOpacity>
+            {onSubmit && (
+              <TouchableOpacity style={styles.footerButton} onPress={handleSubmit} disabled={busy}>
+                {busy ? (
+                  <ActivityIndicator color="#2563EB" />
+                ) : (
+                  <Text style={styles.footerButtonText}>{submitLabel}</Text>
+                )}
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  sheet: {
+    width: '100%',
+    maxWidth: 380,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+  },
+  sheetDark: {
+    backgroundColor: '#1F2937',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  textDark: {
+    color: '#F9FAFB',
+  },
+  message: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#6B7280',
+  },
+  subtitleDark: {
+    color: '#9CA3AF',
+  },
+  input: {
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.15)',
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    fontSize: 18,
+    letterSpacing: 4,
+    color: '#1F2937',
+  },
+  inputDark: {
+    borderColor: 'rgba(255, 255, 255, 0.15)',
+    color: '#F9FAFB',
+  },
+  error: {
+    fontSize: 13,
+    color: '#EF4444',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  footerButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+  },
+  footerButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  cancelText: {
+    color: '#6B7280',
+  },
+});
@@ -160,6 +160,11 @@ export default function PersonalDashboard({ refreshKey }: PersonalDashboardProps
           <Ionicons name="text" size={32} color="#8B5CF6" />
           <Text style={[styles.statValue, isDark && styles.statValueDark]}>{stats.totalWordsRead.toLocaleString()}</Text>
           <Text style={[styles.statLabel, isDark && styles.statLabelDark]}>Words Read</Text>
+          {summary?.wordsListened ? (
+            <Text style={[styles.statLabel, isDark && styles.statLabelDark]}>
+              + {summary.wordsListened.toLocaleString()} listened
+            </Text>
+          ) : null}
         </View>
 
         <View style={[styles.statCard, styles.statCardWarning, isDark && styles.statCardDark]}>
@@ -0,0 +1,135 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { MAX_RATE, MIN_RATE, RATE_STEP, type ReadAloudState } from '@/utils/readAloud';
+
+interface ReadAloudBarProps {
+  state: ReadAloudState;
+  rate: number;
+  voiceName: string;
+  isDark: boolean;
+  onPlay: () => void;
+  onPause: () => void;
+  onStop: () => void;
+  onRateChange: (rate: number) => void;
+  onChooseVoice: () => void;
+}
+
+/**
+ * Read-aloud controls: play/pause, stop, speed and voice
+ */
+export default function ReadAloudBar({
+  state,
+  rate,
+  voiceName,
+  isDark,
+  onPlay,
+  onPause,
+  onStop,
+  onRateChange,
+  onChooseVoice,
+}: ReadAloudBarProps) {
+  const accent = isDark ? '#60A5FA' : '#2563EB';
+  const playing = state === 'playing';
+
+  return (
+    <View style={[styles.bar, isDark && styles.barDark]}>
+      <TouchableOpacity
+        style={styles.playButton}
+        onPress={playing ? onPause : onPlay}
+        accessibilityLabel={playing ? 'Pause reading aloud' : state === 'paused' ? 'Resume reading aloud' : 'Read aloud'}
+      >
+        <Ionicons name={playing ? 'pause' : 'play'} size={22} color="#ffffff" />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={onStop}
+        disabled={state === 'idle'}
+        accessibilityLabel="Stop reading aloud"
+      >
+        <Ionicons name="stop" size={20} color={state === 'idle' ? '#9CA3AF' : accent} />
+      </TouchableOpacity>
+
+      <View style={styles.rateControl}>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => onRateChange(rate - RATE_STEP)}
+          disabled={rate <= MIN_RATE}
+          accessibilityLabel="Slower"
+        >
+          <Ionicons name="remove" size={16} color={rate <= MIN_RATE ? '#9CA3AF' : accent} />
+        </TouchableOpacity>
+        <Text style={[styles.rateText, isDark && styles.textDark]}>{Number(rate.toFixed(2))}×</Text>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => onRateChange(rate + RATE_STEP)}
+          disabled={rate >= MAX_RATE}
+          accessibilityLabel="Faster"
+        >
+          <Ionicons name="add" size={16} color={rate >= MAX_RATE ? '#9CA3AF' : accent} />
+        </TouchableOpacity>
+      </View>
+
+      <TouchableOpacity style={styles.voiceButton} onPress={onChooseVoice} accessibilityLabel="Choose voice">
+        <Ionicons name="person-circle-outline" size={18} color={accent} />
+        <Text style={[styles.voiceText, { color: accent }]} numberOfLines={1}>
+          {voiceName}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#EFF6FF',
+    borderTopWidth: 1,
+    borderTopColor: '#DBEAFE',
+  },
+  barDark: {
+    backgroundColor: '#1E293B',
+    borderTopColor: '#334155',
+  },
+  playButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: '#2563EB',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  rateControl: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  rateText: {
+    minWidth: 44,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  textDark: {
+    color: '#F9FAFB',
+  },
+  voiceButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 4,
+  },
+  voiceText: {
+    flexShrink: 1,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,321 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Modal, ScrollView, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import {
+  applyWordSpacing,
+  DEFAULT_TYPOGRAPHY,
+  getFontFamily,
+  getLineHeightPx,
+  getReaderThemeColors,
+  READER_FONTS,
+  stepTypography,
+  TYPOGRAPHY_LIMITS,
+  type ReaderTextAlign,
+  type ReaderTheme,
+  type ReaderTypography,
+  type TypographyNumber,
+} from '@/utils/readerTypography';
+
+interface ReaderSettingsPanelProps {
+  visible: boolean;
+  typography: ReaderTypography;
+  onChange: (typography: ReaderTypography) => void;
+  onClose: () => void;
+}
+
+const SAMPLE_TEXT = 'The quick brown fox jumps over the lazy dog. Reading is easier when the text feels right.';
+
+const STEPPERS: { key: TypographyNumber; label: string; format: (value: number) => string }[] = [
+  { key: 'fontSize', label: 'Font size', format: (value) => `${value}px` },
+  { key: 'lineHeight', label: 'Line height', format: (value) => `${value.toFixed(1)}×` },
+  { key: 'letterSpacing', label: 'Letter spacing', format: (value) => `${value.toFixed(1)}px` },
+  { key: 'wordSpacing', label: 'Word spacing', format: (value) => `${value}px` },
+  { key: 'margin', label: 'Margins', format: (value) => `${value}px` },
+];
+
+const ALIGNMENTS: { id: ReaderTextAlign; label: string; icon: 'reorder-four' | 'menu' }[] = [
+  { id: 'left', label: 'Left', icon: 'menu' },
+  { id: 'justify', label: 'Justified', icon: 'reorder-four' },
+];
+
+const THEMES: { id: ReaderTheme; label: string }[] = [
+  { id: 'default', label: 'Light / dark' },
+  { id: 'sepia', label: 'Sepia' },
+  { id: 'high-contrast', label: 'High contrast' },
+];
+
+/**
+ * Reader typography: font, size, spacing, margins, alignment and reading theme
+ */
+export default function ReaderSettingsPanel({ visible, typography, onChange, onClose }: ReaderSettingsPanelProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+  const themeColors = getReaderThemeColors(typography.theme);
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={[styles.sheet, isDark && styles.sheetDark]}>
+          <Text style={[styles.title, isDark && styles.textDark]}>Reading settings</Text>
+
+          <View
+            style={[
+              styles.preview,
+              themeColors ? { backgroundColor: themeColors.card } : isDark && styles.previewDark,
+              { paddingHorizontal: typography.margin / 2 },
+            ]}
+          >
+            <Text
+              style={[
+                styles.previewText,
+                isDark && !themeColors && styles.textDark,
+                themeColors && { color: themeColors.text },
+                {
+                  fontFamily: getFontFamily(typography.fontFamily),
+                  fontSize: typography.fontSize,
+                  lineHeight: getLineHeightPx(typography),
+                  letterSpacing: typography.letterSpacing,
+                  textAlign: typography.textAlign,
+                },
+              ]}
+              numberOfLines={3}
+            >
+              {applyWordSpacing(SAMPLE_TEXT, typography)}
+            </Text>
+          </View>
+
+          <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+            <Text style={[styles.sectionLabel, isDark && styles.subtitleDark]}>Font</Text>
+            <View style={styles.chips}>
+              {READER_FONTS.map((font) => {
+                const selected = font.id === typography.fontFamily;
+                return (
+                  <TouchableOpacity
+                    key={font.id}
+                    style={[styles.chip, isDark && styles.chipDark, selected && styles.chipSelected]}
+                    onPress={() => onChange({ ...typography, fontFamily: font.id })}
+                    accessibilityLabel={`Use ${font.label}`}
+                  >
+                    <Text style={[styles.chipText, isDark && styles.textDark, { fontFamily: font.family }]}>
+                      {font.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            {STEPPERS.map(({ key, label, format }) => {
+              const { min, max } = TYPOGRAPHY_LIMITS[key];
+              return (
+                <View key={key} style={styles.stepperRow}>
+                  <Text style={[styles.stepperLabel, isDark && styles.textDark]}>{label}</Text>
+                  <TouchableOpacity
+                    style={styles.stepperButton}
+                    onPress={() => onChange(stepTypography(typography, key, -1))}
+                    disabled={typography[key] <= min}
+                    accessibilityLabel={`Decrease ${label.toLowerCase()}`}
+                  >
+                    <Ionicons name="remove" size={18} color={typography[key] <= min ? '#9CA3AF' : '#2563EB'} />
+                  </TouchableOpacity>
+                  <Text style={[styles.stepperValue, isDark && styles.textDark]}>{format(typography[key])}</Text>
+                  <TouchableOpacity
+                    style={styles.stepperButton}
+                    onPress={() => onChange(stepTypography(typography, key, 1))}
+                    disabled={typography[key] >= max}
+                    accessibilityLabel={`Increase ${label.toLowerCase()}`}
+                  >
+                    <Ionicons name="add" size={18} color={typography[key] >= max ? '#9CA3AF' : '#2563EB'} />
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
+
+            <Text style={[styles.sectionLabel, isDark && styles.subtitleDark]}>Alignment</Text>
+            <View style={styles.chips}>
+              {ALIGNMENTS.map((option) => {
+                const selected = option.id === typography.textAlign;
+                return (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[styles.chip, styles.chipRow, isDark && styles.chipDark, selected && styles.chipSelected]}
+                    onPress={() => onChange({ ...typography, textAlign: option.id })}
+                    accessibilityLabel={`Align text ${option.label.toLowerCase()}`}
+                  >
+                    <Ionicons name={option.icon} size={16} color={isDark ? '#F9FAFB' : '#1F2937'} />
+                    <Text style={[styles.chipText, isDark && styles.textDark]}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <Text style={[styles.sectionLabel, isDark && styles.subtitleDark]}>Theme</Text>
+            <View style={styles.chips}>
+              {THEMES.map((option) => {
+                const selected = option.id === typography.theme;
+                const colors = getReaderThemeColors(option.id);
+                return (
+                  <TouchableOpacity
+                    key={option.id}
+                    style={[
+                      styles.chip,
+                      isDark && styles.chipDark,
+                      colors && { backgroundColor: colors.card },
+                      selected && styles.chipSelected,
+                    ]}
+                    onPress={() => onChange({ ...typography, theme: option.id })}
+                    accessibilityLabel={`Use ${option.label} theme`}
+                  >
+                    <Text
+                      style={[
+                        styles.chipText,
+                        isDark && styles.textDark,
+                        colors && { color: colors.text },
+                      ]}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </ScrollView>
+
+          <View style={styles.footer}>
+            <TouchableOpacity style={styles.footerButton} onPress={() => onChange(DEFAULT_TYPOGRAPHY)}>
+              <Text style={[styles.footerButtonText, styles.resetText]}>Reset</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.footerButton} onPress={onClose}>
+              <Text style={styles.footerButtonText}>Done</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  sheet: {
+    width: '100%',
+    maxWidth: 460,
+    maxHeight: '90%',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    gap: 12,
+  },
+  sheetDark: {
+    backgroundColor: '#1F2937',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  textDark: {
+    color: '#F9FAFB',
+  },
+  subtitleDark: {
+    color: '#9CA3AF',
+  },
+  preview: {
+    borderRadius: 10,
+    paddingVertical: 12,
+    backgroundColor: '#F9FAFB',
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  previewDark: {
+    backgroundColor: '#111827',
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  previewText: {
+    color: '#111827',
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    gap: 10,
+  },
+  sectionLabel: {
+    fontSize: 12,
+    fontWeight: '700',
+    color: '#6B7280',
+    textTransform: 'uppercase',
+    letterSpacing: 0.5,
+    marginTop: 4,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  chipDark: {
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  chipSelected: {
+    borderColor: '#2563EB',
+    borderWidth: 2,
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1F2937',
+  },
+  stepperRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperLabel: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  stepperButton: {
+    padding: 8,
+  },
+  stepperValue: {
+    minWidth: 56,
+    textAlign: 'center',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  footerButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+  },
+  footerButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  resetText: {
+    color: '#6B7280',
+  },
+});
@@ -5,6 +5,7 @@ import React, { useEffect, useRef, useState, useCallback } from 'react';
 import {
   ActivityIndicator,
   Animated,
+  AppState,
   Dimensions,
   Platform,
   ScrollView,
@@ -19,10 +20,65 @@ import { TextLineMapper, LineBounds } from '@/utils/textLineMapper';
 import { ReadingProgressTracker, ReadingProgress } from '@/utils/readingProgressTracker';
 import EyeTrackingCamera from '@/components/eyeTrackingCamera';
 import EyeTrackingServiceComponent from '@/components/EyeTrackingServiceComponent';
+import PacerBar from '@/components/pacer-bar';
+import ParentPinPrompt from '@/components/parent-pin-prompt';
+import ReadAloudBar from '@/components/read-aloud-bar';
+import ReaderSettingsPanel from '@/components/reader-settings-panel';
+import RsvpView from '@/components/rsvp-view';
+import VoicePicker from '@/components/voice-picker';
 import { auth } from '@/utils/firebaseConfig';
-import { downloadJsonFromStoragePath } from '@/utils/firebaseStorageHelpers';
-import { getProgress, upsertProgress } from '@/utils/firestoreProgress';
+import { downloadProcessedDocument } from '@/utils/firebaseStorageHelpers';
+import { getUserDocument } from '@/utils/firestoreDocuments';
+import { getProgress, upsertProgress, type ReadingMode } from '@/utils/firestoreProgress';
+import { getReaderSettings, saveReaderSettings, type ReaderSettings } from '@/utils/firestoreReaderSettings';
+import {
+  cacheReadingPolicy,
+  getCachedReadingPolicy,
+  getReadingPolicy,
+  logPolicyOverride,
+  type ReadingPolicy,
+} from '@/utils/firestoreReadingPolicy';
+import {
+  buildPacerLines,
+  clampWpm,
+  DEFAULT_PACER_WPM,
+  Pacer,
+  type PacerPosition,
+  type PacerState,
+} from '@/utils/pacer';
+import {
+  applyWordSpacing,
+  changesTextLayout,
+  DEFAULT_TYPOGRAPHY,
+  getFontFamily,
+  getLineHeightPx,
+  getReaderThemeColors,
+  getScreenTextCapacity,
+  normalizeTypography,
+  stepTypography,
+  TYPOGRAPHY_LIMITS,
+  type ReaderTypography,
+} from '@/utils/readerTypography';
+import { checkParentPin, getMinDwellMs, resolveSkipPolicy, type SkipPolicyMode } from '@/utils/readingPolicy';
+import { clampRsvpWpm, DEFAULT_RSVP_WPM } from '@/utils/rsvp';
+import {
+  clampRate,
+  getReadAloudVoices,
+  ReadAloudPlayer,
+  type ReadAloudState,
+  type ReadAloudVoice,
+  type SpokenWord,
+} from '@/utils/readAloud';
 import { bumpDashboardSummary } from '@/utils/firestoreDashboard';
+import { blockDisplayText, countWords, type ProcessedDocument } from '@/utils/processedDocument';
+import {
+  abortable,
+  formatConversionProgress,
+  getProgressFraction,
+  isConversionCancelled,
+  withTimeout,
+  type ConversionProgress,
+} from '@/utils/conversionControl';
 
 interface ReadingViewerProps {
   fileUri: string;
@@ -33,9 +89,11 @@ interface ReadingViewerProps {
 }
 
 interface ReadingStats {
-  totalWords: number;
+  totalWords: number; // words read on screen
   totalParagraphs: number;
   completedParagraphs: number;
+  listenedParagraphs: number; // completed with read-aloud
+  wordsListened: number;
   readingTime: number;
   completionPercentage: number;
 }
@@ -44,7 +102,10 @@ interface Paragraph {
   id: number;
   text: string;
   wordCount: number;
+  chapterTitle?: string; // Set on the first paragraph of each chapter
+  blockIds: string[]; // Processed document blocks shown on this screen (stable across screen sizes)
   isCompleted: boolean;
+  completedBy?: ReadingMode; // 'listened' when read-aloud finished it
   readingStartTime?: number;
   readingDuration?: number;
   lines?: LineReadingState[];
@@ -65,7 +126,19 @@ interface LineReadingState {
   completionPercentage: number;
 }
 
-type TextSize = 'small' | 'medium' | 'large';
+// Words in completed paragraphs, read on screen or heard with read-aloud
+function completedWords(paragraphs: Paragraph[], mode: ReadingMode): number {
+  return paragraphs
+    .filter(p => p.isCompleted && (p.completedBy ?? 'read') === mode)
+    .reduce((sum, p) => sum + p.wordCount, 0);
+}
+
+// Saved with progress: how most completed paragraphs were finished
+function progressMode(paragraphs: Paragraph[]): ReadingMode {
+  const listened = paragraphs.filter(p => p.isCompleted && p.completedBy === 'listened').length;
+  const read = paragraphs.filter(p => p.isCompleted && p.completedBy !== 'listened').length;
+  return listened > read ? 'listened' : 'read';
+}
 
 export default function ReadingViewer({ fileUri, filename, docId, onClose, onComplete }: ReadingViewerProps) {
   const { theme, toggleTheme } = useTheme();
@@ -73,11 +146,22 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
   const [currentParagraphIndex, setCurrentParagraphIndex] = useState(0);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [textSize, setTextSize] = useState<TextSize>('medium');
+  const [conversionProgress, setConversionProgress] = useState<ConversionProgress | null>(null);
+  const loadControllerRef = useRef<AbortController | null>(null);
+  const [typography, setTypography] = useState<ReaderTypography>(DEFAULT_TYPOGRAPHY);
+  const typographyRef = useRef(typography);
+  typographyRef.current = typography;
+  const loadedDocument = useRef<ProcessedDocument | null>(null); // kept to re-chunk when the typography changes
+  const chunkTypography = useRef<ReaderTypography | null>(null); // settings the paragraphs were chunked with
+  const [settingsPanelVisible, setSettingsPanelVisible] = useState(false);
+  const typographyLoaded = useRef(false); // saved settings arrived; later changes are saved back
+  const linesTypography = useRef<ReaderTypography | null>(null); // settings the line bounds were computed with
   const [readingStats, setReadingStats] = useState<ReadingStats>({
     totalWords: 0,
     totalParagraphs: 0,
     completedParagraphs: 0,
+    listenedParagraphs: 0,
+    wordsListened: 0,
     readingTime: 0,
     completionPercentage: 0,
   });
@@ -94,40 +178,138 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
   const completionTriggeredRef = useRef(false);
   const eyeTrackingService = useRef<EyeTrackingService | null>(null);
   const progressTrackers = useRef<Map<number, ReadingProgressTracker>>(new Map());
+  const [documentLanguage, setDocumentLanguage] = useState<string | undefined>(undefined);
+  // Read aloud
+  const [readAloudOn, setReadAloudOn] = useState(false);
+  const [readAloudState, setReadAloudState] = useState<ReadAloudState>('idle');
+  const [spokenWord, setSpokenWord] = useState<SpokenWord | null>(null);
+  const [readAloudRate, setReadAloudRate] = useState(1);
+  const [readAloudVoice, setReadAloudVoice] = useState<string | null>(null);
+  const [voices, setVoices] = useState<ReadAloudVoice[]>([]);
+  const [voicePickerVisible, setVoicePickerVisible] = useState(false);
+  const readAloudPlayer = useRef<ReadAloudPlayer | null>(null);
+  const keepSpeaking = useRef(false); // go on to the next paragraph when one is spoken
+  const onParagraphSpoken = useRef<() => void>(() => {});
+  // Guided pacer
+  const [pacerOn, setPacerOn] = useState(false);
+  const [pacerState, setPacerState] = useState<PacerState>('idle');
+  const [pacerPosition, setPacerPosition] = useState<PacerPosition | null>(null);
+  const [pacerWpm, setPacerWpm] = useState(DEFAULT_PACER_WPM);
+  const pacer = useRef<Pacer | null>(null);
+  const keepPacing = useRef(false); // go on to the next paragraph when the marker reaches the end
+  const pacedParagraph = useRef(-1);
+  const onParagraphPaced = useRef<() => void>(() => {});
+  // RSVP speed reading
+  const [rsvpOn, setRsvpOn] = useState(false);
+  const [rsvpWpm, setRsvpWpm] = useState(DEFAULT_RSVP_WPM);
+  const [rsvpPhrases, setRsvpPhrases] = useState(false);
+  // No Skipping policy set by a parent
+  const [readingPolicy, setReadingPolicy] = useState<ReadingPolicy | null>(null);
+  const [skipPolicy, setSkipPolicy] = useState<SkipPolicyMode>('free');
+  const [policyLoaded, setPolicyLoaded] = useState(false); // nothing unlocks before the rule is known
+  const [unlockTarget, setUnlockTarget] = useState<number | null>(null); // paragraph waiting for the parent PIN
+  const [, setDwellTick] = useState(0);
+  const [appActive, setAppActive] = useState(AppState.currentState === 'active');
+  const dwellTimes = useRef<Map<number, number>>(new Map()); // ms spent on each earlier visit to a paragraph
+  const dwellVisit = useRef<{ index: number; since: number } | null>(null); // the visit being timed, if any
+  const canMoveOn = useRef<(target: number, completedIndex?: number) => boolean>(() => true);
+  const dwellWait = useRef<ReturnType<typeof setTimeout> | null>(null); // a finished paragraph waiting for its minimum time
+  const onRsvpParagraphDone = useRef<() => boolean>(() => false);
   
   const isDark = theme === 'dark';
+  const themeColors = getReaderThemeColors(typography.theme);
+  const typographyStyle = {
+    fontFamily: getFontFamily(typography.fontFamily),
+    fontSize: typography.fontSize,
+    lineHeight: getLineHeightPx(typography),
+    letterSpacing: typography.letterSpacing,
+    textAlign: typography.textAlign,
+  } as const;
+  const spaced = (text: string) => applyWordSpacing(text, typography);
   const isCloudDoc = Boolean(docId && auth.currentUser?.uid);
   const isStorageJsonPath = fileUri.startsWith('users/') && fileUri.endsWith('.json');
 
   useEffect(() => {
     loadAndParseFile();
+    // Stop a conversion still running when the reader closes or the file changes
+    return () => loadControllerRef.current?.abort();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [fileUri, filename]);
 
-  // Initialize line bounds for paragraphs when they're loaded or text size changes
+  // Line estimates use the reader's typography settings. The measured text box already
+  // excludes the paragraph margins, so no padding is subtracted.
+  const createLineMapper = useCallback(
+    (textBounds: { x: number; y: number; width: number }) =>
+      new TextLineMapper({
+        fontSize: typography.fontSize,
+        lineHeight: getLineHeightPx(typography),
+        letterSpacing: typography.letterSpacing,
+        wordSpacing: typography.wordSpacing,
+        containerWidth: textBounds.width,
+        containerX: textBounds.x,
+        containerY: textBounds.y,
+        padding: 0,
+      }),
+    [typography]
+  );
+
+  // Screens hold more or less text when the font size, spacing or margins change: chunk the
+  // document again and stay on the block being read. Runs before the line bounds below, which
+  // are then computed for the new chunks.
+  useEffect(() => {
+    const processed = loadedDocument.current;
+    const chunkedWith = chunkTypography.current;
+    if (!processed || !chunkedWith || paragraphs.length === 0 || !changesTextLayout(chunkedWith, typography)) return;
+    chunkTypography.current = typography;
+
+    const rechunked = parseDocumentIntoParagraphs(processed, typography);
+    if (rechunked.length === 0) return;
+
+    // A block counts as read when every screen that showed part of it was completed
+    const unreadBlocks = new Set(paragraphs.filter(p => !p.isCompleted).flatMap(p => p.blockIds));
+    rechunked.forEach(para => {
+      para.isCompleted = para.blockIds.length > 0 && para.blockIds.every(id => !unreadBlocks.has(id));
+    });
+    const currentBlockId = paragraphs[currentParagraphIndex]?.blockIds[0];
+    const found = currentBlockId ? rechunked.findIndex(p => p.blockIds.includes(currentBlockId)) : -1;
+    const index = found >= 0
+      ? found
+      : Math.min(rechunked.length - 1, Math.floor((currentParagraphIndex / paragraphs.length) * rechunked.length));
+
+    // Playback and timings refer to the old screens
+    keepSpeaking.current = false;
+    readAloudPlayer.current?.stop();
+    keepPacing.current = false;
+    pacer.current?.stop();
+    dwellTimes.current.clear();
+    paragraphPositions.current.clear();
+
+    console.log(`[ReadingViewer] Re-chunked into ${rechunked.length} paragraphs for the new text size`);
+    setParagraphs(rechunked);
+    setCurrentParagraphIndex(index);
+    setTimeout(() => {
+      const position = paragraphPositions.current.get(index);
+      scrollViewRef.current?.scrollTo({ y: position !== undefined ? position - 20 : index * 350, animated: false });
+    }, 300);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [typography]);
+
+  // Initialize line bounds for paragraphs when they're loaded or the typography changes
   useEffect(() => {
     if (paragraphs.length === 0) return;
 
-    const screenData = Dimensions.get('window');
-    const fontSize = textSize === 'small' ? 16 : textSize === 'medium' ? 20 : 24;
-    const lineHeight = textSize === 'small' ? 28 : textSize === 'medium' ? 36 : 42;
-    const containerWidth = screenData.width - 40;
+    const typographyChanged = linesTypography.current !== typography;
+    linesTypography.current = typography;
+    if (typographyChanged) progressTrackers.current.clear();
 
     setParagraphs(prev => prev.map(para => {
-      if (para.lines && para.lines.length > 0) return para; // Already initialized
+      if (!typographyChanged && para.lines && para.lines.length > 0) return para; // Already initialized
 
       const textBounds = paragraphTextRefs.current.get(para.id);
       if (!textBounds) return para;
 
       // Use TextLineMapper to calculate line bounds
-      const textMapper = new TextLineMapper({
-        fontSize,
-        lineHeight,
-        containerWidth: textBounds.width,
-        containerX: textBounds.x,
-        containerY: textBounds.y,
-        padding: 24,
-      });
+      const textMapper = createLineMapper(textBounds);
 
       const lineBounds = textMapper.mapTextToLines(para.text);
 
@@ -151,7 +333,8 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
         currentLineIndex: 0,
       };
     }));
-  }, [paragraphs.length, textSize]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [paragraphs.length, typography]);
 
   // Initialize eye-tracking service
   useEffect(() => {
@@ -178,13 +361,14 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
   }, [eyeTrackingEnabled]);
 
   // Define markParagraphComplete before handleGazeDetected
-  const markParagraphComplete = useCallback((index: number) => {
+  const markParagraphComplete = useCallback((index: number, mode: ReadingMode = 'read') => {
     setParagraphs(prev => {
       const updated = [...prev];
       if (updated[index] && !updated[index].isCompleted) {
         updated[index] = {
           ...updated[index],
           isCompleted: true,
+          completedBy: mode,
           readingDuration: updated[index].readingStartTime
             ? Date.now() - updated[index].readingStartTime
             : undefined,
@@ -201,9 +385,11 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
           // Use setTimeout to ensure state is updated
           setTimeout(() => {
             const finalStats = {
-              totalWords: updated.reduce((sum, p) => sum + (p.isCompleted ? p.wordCount : 0), 0),
+              totalWords: completedWords(updated, 'read'),
               totalParagraphs: updated.length,
               completedParagraphs: completedCount,
+              listenedParagraphs: updated.filter(p => p.completedBy === 'listened').length,
+              wordsListened: completedWords(updated, 'listened'),
               readingTime: Math.floor((Date.now() - startTime) / 1000),
               completionPercentage: 100,
             };
@@ -229,18 +415,7 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
       const textBounds = paragraphTextRefs.current.get(currentPara.id);
       if (!textBounds) return;
 
-      const screenData = Dimensions.get('window');
-      const fontSize = textSize === 'small' ? 16 : textSize === 'medium' ? 20 : 24;
-      const lineHeight = textSize === 'small' ? 28 : textSize === 'medium' ? 36 : 42;
-
-      const textMapper = new TextLineMapper({
-        fontSize,
-        lineHeight,
-        containerWidth: textBounds.width,
-        containerX: textBounds.x,
-        containerY: textBounds.y,
-        padding: 24,
-      });
+      const textMapper = createLineMapper(textBounds);
 
       tracker = new ReadingProgressTracker(textMapper);
       tracker.initializeLines(currentPara.text, textBounds.x, textBounds.y);
@@ -260,8 +435,8 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
         // All lines in paragraph complete - mark paragraph as complete
         markParagraphComplete(currentParagraphIndex);
         
-        // Auto-advance to next paragraph
-        if (currentParagraphIndex < paragraphs.length - 1) {
+        // Auto-advance to next paragraph (unless a No Skipping rule still holds it)
+        if (currentParagraphIndex < paragraphs.length - 1 && canMoveOn.current(currentParagraphIndex + 1, currentParagraphIndex)) {
           setTimeout(() => {
             const nextIndex = currentParagraphIndex + 1;
             setCurrentParagraphIndex(nextIndex);
@@ -281,7 +456,7 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
               }
             }, 100);
           }, 500);
-        } else {
+        } else if (currentParagraphIndex === paragraphs.length - 1) {
           // Last paragraph - completion handled by markParagraphComplete
           console.log('Last line of last paragraph completed - checking for full completion...');
         }
@@ -297,6 +472,7 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
     eyeTrackingEnabled,
     paragraphs,
     currentParagraphIndex,
+    createLineMapper,
     startTime,
     onComplete,
     markParagraphComplete,
@@ -322,7 +498,9 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
               name,
               email,
               currentPage: currentParagraphIndex,
+              currentBlockId: paragraphs[currentParagraphIndex]?.blockIds[0],
               completed: completedIndices.length >= paragraphs.length && paragraphs.length > 0,
+              mode: progressMode(paragraphs),
             });
           } else {
             // Legacy local-only fallback
@@ -355,15 +533,15 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
   const lastSessionSaveTime = useRef<number>(0);
   const lastCompletedCount = useRef<number>(0);
   const lastSummaryWords = useRef<number>(0);
+  const lastSummaryListened = useRef<number>(0);
   const lastSummaryTime = useRef<number>(0);
   const summarySessionBumped = useRef<boolean>(false);
   
   const saveSessionIfNeeded = useCallback(async () => {
     try {
       const completedParagraphs = paragraphs.filter(p => p.isCompleted).length;
-      const wordsRead = paragraphs
-        .filter(p => p.isCompleted)
-        .reduce((sum, p) => sum + p.wordCount, 0);
+      const wordsRead = completedWords(paragraphs, 'read');
+      const wordsListened = completedWords(paragraphs, 'listened');
       const currentTime = Date.now();
       const readingTime = Math.floor((currentTime - startTime) / 1000);
       
@@ -382,6 +560,7 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
             totalParagraphs: paragraphs.length,
             completedParagraphs: completedParagraphs,
             totalWords: wordsRead,
+            wordsListened,
             readingTime: readingTime,
             completionPercentage: paragraphs.length > 0
               ? Math.round((completedParagraphs / paragraphs.length) * 100)
@@ -400,6 +579,7 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
           const name = auth.currentUser.displayName || email || 'User';
 
           const deltaWords = Math.max(0, wordsRead - lastSummaryWords.current);
+          const deltaListened = Math.max(0, wordsListened - lastSummaryListened.current);
           const deltaTime = Math.max(0, readingTime - lastSummaryTime.current);
           const sessionDelta = summarySessionBumped.current ? 0 : 1;
 
@@ -409,11 +589,13 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
             email,
             readingSessionsDelta: sessionDelta,
             wordsReadDelta: deltaWords,
+            wordsListenedDelta: deltaListened,
             totalReadingTimeSecDelta: deltaTime,
           });
 
           summarySessionBumped.current = true;
           lastSummaryWords.current = wordsRead;
+          lastSummaryListened.current = wordsListened;
           lastSummaryTime.current = readingTime;
         }
       }
@@ -428,15 +610,18 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
     const email = auth.currentUser.email || '';
     const name = auth.currentUser.displayName || email || 'User';
     const lastIndex = Math.max(0, paragraphs.length - 1);
+    const finalIndex = Math.max(currentParagraphIndex, lastIndex);
     await upsertProgress({
       uid,
       docId,
       name,
       email,
-      currentPage: Math.max(currentParagraphIndex, lastIndex),
+      currentPage: finalIndex,
+      currentBlockId: paragraphs[finalIndex]?.blockIds[0],
       completed: true,
+      mode: progressMode(paragraphs),
     });
-  }, [currentParagraphIndex, docId, isCloudDoc, paragraphs.length]);
+  }, [currentParagraphIndex, docId, isCloudDoc, paragraphs]);
 
   // Save session periodically
   useEffect(() => {
@@ -467,9 +652,11 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
         completionTriggeredRef.current = true;
         setTimeout(() => {
           const finalStats = {
-            totalWords: paragraphs.reduce((sum, p) => sum + (p.isCompleted ? p.wordCount : 0), 0),
+            totalWords: completedWords(paragraphs, 'read'),
             totalParagraphs: paragraphs.length,
             completedParagraphs: completedCount,
+            listenedParagraphs: paragraphs.filter(p => p.completedBy === 'listened').length,
+            wordsListened: completedWords(paragraphs, 'listened'),
             readingTime: Math.floor((Date.now() - startTime) / 1000),
             completionPercentage: 100,
           };
@@ -488,6 +675,17 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
     };
   }, [paragraphs.length, saveSessionIfNeeded]);
 
+  // Cancel from the loading screen: stop the conversion and leave the reader
+  const cancelLoading = () => {
+    loadControllerRef.current?.abort();
+    if (onClose) {
+      onClose();
+    } else {
+      setError('Loading cancelled.');
+      setLoading(false);
+    }
+  };
+
   // Wrapper for onClose that saves session before closing
   const handleClose = async () => {
     if (paragraphs.length > 0) {
@@ -499,10 +697,8 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
   };
 
   const updateStats = useCallback(() => {
-    // Calculate words read from completed paragraphs only
-    const wordsRead = paragraphs
-      .filter(p => p.isCompleted)
-      .reduce((sum, p) => sum + p.wordCount, 0);
+    // Calculate words read from completed paragraphs only (heard paragraphs are counted apart)
+    const wordsRead = completedWords(paragraphs, 'read');
     const totalWords = paragraphs.reduce((sum, p) => sum + p.wordCount, 0);
     const completedParagraphs = paragraphs.filter(p => p.isCompleted).length;
     const readingTime = Math.floor((Date.now() - startTime) / 1000);
@@ -514,6 +710,8 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
       totalWords: wordsRead, // Show words actually read, not total words
       totalParagraphs: paragraphs.length,
       completedParagraphs,
+      listenedParagraphs: paragraphs.filter(p => p.isCompleted && p.completedBy === 'listened').length,
+      wordsListened: completedWords(paragraphs, 'listened'),
       readingTime,
       completionPercentage,
     });
@@ -535,9 +733,14 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
   }, [paragraphs.length, updateStats]);
 
   const loadAndParseFile = async () => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
+
     try {
       setLoading(true);
       setError(null);
+      setConversionProgress(null);
       
       console.log('[ReadingViewer] Loading file for reading:', filename, 'URI:', fileUri);
       
@@ -584,6 +787,7 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
           if (p) {
             savedProgress = {
               currentParagraphIndex: Math.max(0, p.currentPage || 0),
+              currentBlockId: p.currentBlockId,
               // We don't store per-paragraph completion in Firestore schema.
               // We'll assume paragraphs before currentPage were completed.
               completedParagraphs: [],
@@ -606,48 +810,53 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
 
       // Validate file format only for legacy local flow.
       if (!isStorageJsonPath) {
-        const { getFileExtension } = await import('@/utils/fileUtils');
-        const fileExt = getFileExtension(filename).toLowerCase();
-        const supportedFormats = ['pdf', 'doc', 'docx', 'txt', 'rtf'];
-
-        if (!supportedFormats.includes(fileExt)) {
-          const ext = fileExt.toUpperCase() || 'Unknown';
+        const { findConverterByExtension, getSupportedFormatsLabel, getUnsupportedReason } = await import(
+          '@/utils/converterRegistry'
+        );
+        const unsupportedReason = getUnsupportedReason(filename);
+        if (unsupportedReason || !findConverterByExtension(filename)) {
+          const { getFileExtension } = await import('@/utils/fileUtils');
+          const ext = getFileExtension(filename).toUpperCase() || 'Unknown';
           setError(
-            `Unsupported file format: "${ext}".\n\nSupported formats: PDF, DOC, DOCX, TXT, RTF only.\n\nPlease upload a file in one of these formats.`
+            `${unsupportedReason || `Unsupported file format: "${ext}".`}\n\nSupported formats: ${getSupportedFormatsLabel()} only.\n\nPlease upload a file in one of these formats.`
           );
           setLoading(false);
           return;
         }
       }
 
-      // Load text content:
+      // Load processed document:
       // - If fileUri is a Firebase Storage processed path (`users/{uid}/processed/{docId}.json`), load it.
       // - Else, fall back to local conversion.
-      let textContent: string;
+      let processedDocument: ProcessedDocument;
       if (isStorageJsonPath) {
-        const processed = await downloadJsonFromStoragePath(fileUri);
-        textContent = typeof processed?.text === 'string' ? processed.text : '';
-        if (!textContent.trim()) {
+        processedDocument = await abortable(downloadProcessedDocument(fileUri), controller.signal);
+        if (!processedDocument.text.trim()) {
           throw new Error('No text detected in this PDF. Please upload a text-based PDF (not images).');
         }
       } else {
-        const { convertFileToText, detectFileType } = await import('@/utils/fileConverter');
-        const fileType = detectFileType(filename);
-        console.log(`[ReadingViewer] Detected file type: ${fileType}`);
-
-        const conversionPromise = convertFileToText(fileUri, filename);
-        const timeoutPromise = new Promise<never>((_, reject) =>
-          setTimeout(() => reject(new Error('File conversion timeout - the file may be too large or corrupted')), 60000)
+        const { convertFileToDocument } = await import('@/utils/fileConverter');
+
+        processedDocument = await withTimeout(
+          (signal) => convertFileToDocument(fileUri, filename, { signal, onProgress: setConversionProgress }),
+          {
+            timeoutMs: 60000,
+            timeoutMessage: 'File conversion timeout - the file may be too large or corrupted',
+            signal: controller.signal,
+          }
         );
-        textContent = await Promise.race([conversionPromise, timeoutPromise]);
-        if (!textContent || textContent.trim().length === 0) {
+        if (!processedDocument.text.trim()) {
           throw new Error('No text content extracted from file. The file may be empty or contain only images.');
         }
       }
 
-      // Parse text into paragraphs
+      setDocumentLanguage(processedDocument.metadata?.language);
+
+      // Parse document blocks into screen-sized paragraphs
       try {
-        const parsedParagraphs = parseTextIntoParagraphs(textContent);
+        const parsedParagraphs = parseDocumentIntoParagraphs(processedDocument, typographyRef.current);
+        loadedDocument.current = processedDocument;
+        chunkTypography.current = typographyRef.current;
         if (parsedParagraphs.length === 0) {
           setError('No readable paragraphs found in the file. The file may be empty or improperly formatted.');
           setLoading(false);
@@ -657,7 +866,14 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
         // Restore saved progress if available
         if (savedProgress) {
           console.log('[ReadingViewer] Restoring saved progress...');
-          const resumeIndex = Math.min(savedProgress.currentParagraphIndex || 0, parsedParagraphs.length - 1);
+          // Prefer the saved block id: chunk indexes change with screen and text size
+          const blockIndex = savedProgress.currentBlockId
+            ? parsedParagraphs.findIndex(p => p.blockIds.includes(savedProgress.currentBlockId))
+            : -1;
+          const resumeIndex = blockIndex >= 0
+            ? blockIndex
+            : Math.min(savedProgress.currentParagraphIndex || 0, parsedParagraphs.length - 1);
+          savedProgress.currentParagraphIndex = resumeIndex;
           // Mark completed paragraphs up to resumeIndex (cloud schema doesn't store per-paragraph)
           for (let i = 0; i < resumeIndex; i++) {
             parsedParagraphs[i].isCompleted = true;
@@ -685,13 +901,17 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
         setLoading(false);
       }
     } catch (err: any) {
+      if (isConversionCancelled(err) || controller.signal.aborted) {
+        console.log('[ReadingViewer] Loading cancelled');
+        return;
+      }
       console.error('Error loading file:', err);
       setError(`Failed to load file: ${err.message || 'Unknown error'}. Please try again or check if the file is accessible.`);
       setLoading(false);
     }
   };
 
-  const parseTextIntoParagraphs = (text: string): Paragraph[] => {
+  const parseDocumentIntoParagraphs = (processedDocument: ProcessedDocument, layout: ReaderTypography): Paragraph[] => {
     // Get screen dimensions
     const screenData = Dimensions.get('window');
     const screenHeight = screenData.height;
@@ -705,71 +925,105 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
     const containerPadding = 48; // 24px top + 24px bottom
     const availableHeight = screenHeight - headerHeight - progressBarHeight - scrollPadding - containerPadding;
     
-    // Text styling constants (matching currentParagraphText for active paragraph)
-    const fontSize = 24;
-    const lineHeight = 42;
-    const containerPaddingHorizontal = 24; // Left + right padding
-    const estimatedContainerWidth = screenData.width - scrollPadding - containerPaddingHorizontal;
-    
-    // Calculate lines per screen
-    const linesPerScreen = Math.floor(availableHeight / lineHeight);
-    
-    // Estimate characters per line (average character width ~12px for serif font at 24px)
-    const avgCharWidth = 12;
-    const charsPerLine = Math.floor(estimatedContainerWidth / avgCharWidth);
-    
-    // Estimate words per screen (average word length ~5 characters + 1 space)
-    const avgWordLength = 5;
-    const wordsPerLine = Math.floor(charsPerLine / (avgWordLength + 1));
-    const estimatedWordsPerScreen = linesPerScreen * wordsPerLine;
+    // Lines and words per screen with the reader's font size, spacing and margins
+    // (the card's side padding is the margin)
+    const { wordsPerScreen } = getScreenTextCapacity(layout, {
+      width: screenData.width - scrollPadding,
+      height: availableHeight,
+    });
     
-    // Split text into words
-    const allWords = text.split(/\s+/).filter(w => w.length > 0);
+    // Use 90% of estimated to ensure a chunk fits comfortably on one screen
+    const wordBudget = Math.max(1, Math.floor(wordsPerScreen * 0.9));
+
+    // Split a block that is longer than one screen, preferring sentence boundaries
+    const splitOversizedBlock = (block: string): string[] => {
+      const sentences = block.match(/[^.!?。]+(?:[.!?。]+["'”’)\]]*|$)\s*/g) || [block];
+      const pieces: string[] = [];
+      let current = '';
+      for (const sentence of sentences) {
+        if (current && countWords(current) + countWords(sentence) > wordBudget) {
+          pieces.push(current.trim());
+          current = '';
+        }
+        current += sentence;
+      }
+      if (current.trim()) pieces.push(current.trim());
+
+      // A single sentence may still be too long - fall back to word boundaries
+      return pieces.flatMap(piece => {
+        const words = piece.split(/\s+/).filter(w => w.length > 0);
+        if (words.length <= wordBudget) return [piece];
+        const parts: string[] = [];
+        for (let i = 0; i < words.length; i += wordBudget) {
+          parts.push(words.slice(i, i + wordBudget).join(' '));
+        }
+        return parts;
+      });
+    };
     
-    // Split into screen-sized chunks
+    // Pack document blocks into screen-sized chunks (chunks never span a chapter boundary)
+    const chapterTitles = new Map(processedDocument.chapters.map(c => [c.blockId, c.title]));
     const processedParagraphs: Paragraph[] = [];
     let globalIndex = 0;
-    let currentChunk: string[] = [];
+    let currentChunk: { text: string; blockId: string; isHeading: boolean }[] = [];
     let currentChunkWordCount = 0;
-    
-    for (const word of allWords) {
-      currentChunk.push(word);
-      currentChunkWordCount++;
-      
-      // If we've reached approximately one screen worth of words, create a paragraph
-      // Use 90% of estimated to ensure it fits comfortably
-      if (currentChunkWordCount >= Math.floor(estimatedWordsPerScreen * 0.9)) {
-        const chunkText = currentChunk.join(' ');
-        processedParagraphs.push({
-          id: globalIndex++,
-          text: chunkText,
-          wordCount: currentChunkWordCount,
-          isCompleted: false,
-        });
-        
-        // Reset for next chunk
-        currentChunk = [];
-        currentChunkWordCount = 0;
-      }
-    }
-    
-    // Add any remaining words as the last paragraph
-    if (currentChunk.length > 0) {
-      const chunkText = currentChunk.join(' ');
+    let chapterTitle: string | undefined;
+
+    const pushChunk = () => {
+      if (currentChunk.length === 0) return;
       processedParagraphs.push({
         id: globalIndex++,
-        text: chunkText,
+        text: currentChunk.map(piece => piece.text).join('\n\n'),
         wordCount: currentChunkWordCount,
+        chapterTitle,
+        blockIds: Array.from(new Set(currentChunk.map(piece => piece.blockId))),
         isCompleted: false,
       });
+
+      // Reset for next chunk (only the first chunk carries the chapter title)
+      currentChunk = [];
+      currentChunkWordCount = 0;
+      chapterTitle = undefined;
+    };
+
+    for (const block of processedDocument.blocks) {
+      const title = chapterTitles.get(block.id);
+      if (title !== undefined) {
+        pushChunk();
+        chapterTitle = title;
+        // The chapter header already shows the title
+        if (block.type === 'heading' && block.text.toLowerCase() === title.toLowerCase()) continue;
+      }
+
+      const text = blockDisplayText(block);
+      const pieces = countWords(text) > wordBudget ? splitOversizedBlock(text) : [text];
+      for (const piece of pieces) {
+        const pieceWordCount = countWords(piece);
+        // Start a new screen rather than cutting a paragraph in the middle
+        if (currentChunk.length > 0 && currentChunkWordCount + pieceWordCount > wordBudget) {
+          // Keep a heading together with the text that follows it
+          const last = currentChunk[currentChunk.length - 1];
+          const carried = currentChunk.length > 1 && last.isHeading ? currentChunk.pop() : undefined;
+          if (carried) currentChunkWordCount -= countWords(carried.text);
+          pushChunk();
+          if (carried) {
+            currentChunk.push(carried);
+            currentChunkWordCount += countWords(carried.text);
+          }
+        }
+        currentChunk.push({ text: piece, blockId: block.id, isHeading: block.type === 'heading' });
+        currentChunkWordCount += pieceWordCount;
+      }
     }
+    pushChunk();
     
     // If no paragraphs were created (empty text), create at least one empty paragraph
     if (processedParagraphs.length === 0) {
       processedParagraphs.push({
         id: 0,
-        text: text.trim() || ' ',
+        text: processedDocument.text.trim() || ' ',
         wordCount: 0,
+        blockIds: [],
         isCompleted: false,
       });
     }
@@ -937,9 +1191,447 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
     }
   };
 
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState) => setAppActive(nextAppState === 'active'));
+    return () => subscription.remove();
+  }, []);
+
+  // No Skipping: time on each paragraph counts towards the minimum-time rule, only while the
+  // paragraphs are on screen and the app is in the foreground
+  const timingDwell = !loading && paragraphs.length > 0 && appActive;
+  useEffect(() => {
+    if (!timingDwell) return;
+    const times = dwellTimes.current;
+    const visit = { index: currentParagraphIndex, since: Date.now() };
+    dwellVisit.current = visit;
+    return () => {
+      times.set(visit.index, (times.get(visit.index) ?? 0) + Date.now() - visit.since);
+      dwellVisit.current = null;
+    };
+  }, [currentParagraphIndex, timingDwell]);
+
+  const getDwellMs = (index: number) => {
+    const visit = dwellVisit.current;
+    return (dwellTimes.current.get(index) ?? 0) + (visit?.index === index ? Date.now() - visit.since : 0);
+  };
+
+  // `dwell` needs the minimum time to move on; `sequential` needs it to mark a paragraph read
+  // by hand, by read aloud, pacer or RSVP (completion by eye tracking counts at once)
+  const getDwellRemainingMs = (index: number) => {
+    const para = paragraphs[index];
+    if (skipPolicy === 'free' || !para || (skipPolicy === 'sequential' && para.isCompleted)) return 0;
+    return Math.max(0, getMinDwellMs(para.wordCount, readingPolicy?.dwellWordsPerMinute) - getDwellMs(index));
+  };
+
+  // Re-render every second while the minimum time counts down
+  const dwellPending = getDwellRemainingMs(currentParagraphIndex) > 0;
+  useEffect(() => {
+    if (!dwellPending) return;
+    const timer = setInterval(() => setDwellTick((tick) => tick + 1), 1000);
+    return () => clearInterval(timer);
+  }, [dwellPending, currentParagraphIndex]);
+
+  // `completedIndex` was just marked complete (the state update has not landed yet)
+  const isParagraphSatisfied = (index: number, completedIndex?: number) => {
+    if (!policyLoaded) return false;
+    if (skipPolicy === 'sequential') return Boolean(paragraphs[index]?.isCompleted) || index === completedIndex;
+    if (skipPolicy === 'dwell') return getDwellRemainingMs(index) === 0;
+    return true;
+  };
+
+  // Going back is always allowed; going on needs every paragraph on the way satisfied
+  const canMoveTo = (target: number, completedIndex?: number) => {
+    for (let index = currentParagraphIndex; index < target; index++) {
+      if (!isParagraphSatisfied(index, completedIndex)) return false;
+    }
+    return true;
+  };
+  canMoveOn.current = canMoveTo;
+
+  // Read aloud, the pacer and RSVP can finish a paragraph before its minimum time is up (or
+  // before the rule is known): hold the completion and try again once the time has passed
+  const waitForDwell = (index: number, retry: () => void) => {
+    const remaining = policyLoaded ? getDwellRemainingMs(index) : 1000;
+    if (remaining <= 0) return false;
+    if (dwellWait.current) clearTimeout(dwellWait.current);
+    dwellWait.current = setTimeout(() => {
+      dwellWait.current = null;
+      retry();
+    }, Math.max(remaining, 250));
+    return true;
+  };
+
+  // A held completion belongs to the paragraph it was made on
+  useEffect(() => {
+    return () => {
+      if (dwellWait.current) clearTimeout(dwellWait.current);
+      dwellWait.current = null;
+    };
+  }, [currentParagraphIndex]);
+
+  // Moving on early asks for the parent PIN
+  const requestParagraph = (index: number) => {
+    if (canMoveTo(index)) jumpToParagraph(index);
+    else setUnlockTarget(index);
+  };
+
+  const handleParentUnlock = async (pin: string) => {
+    if (unlockTarget === null) return null;
+    const uid = auth.currentUser?.uid;
+    if (!uid) return 'Please sign in to continue.';
+    const error = await checkParentPin(uid, pin, readingPolicy);
+    if (error) return error;
+    logPolicyOverride(uid, {
+      docId: docId ?? null,
+      fileName: filename,
+      mode: skipPolicy,
+      fromParagraph: currentParagraphIndex,
+      toParagraph: unlockTarget,
+    }).catch((logError) => console.warn('[ReadingViewer] Could not log the unlock:', logError?.message));
+    console.log(`[ReadingViewer] Paragraph ${unlockTarget + 1} unlocked with the parent PIN`);
+    jumpToParagraph(unlockTarget);
+    setUnlockTarget(null);
+    return null;
+  };
+
+  // Read aloud: speak the current paragraph, then go on to the next one
+  const getReadAloudPlayer = () => {
+    if (!readAloudPlayer.current) {
+      readAloudPlayer.current = new ReadAloudPlayer({
+        onWord: setSpokenWord,
+        onStateChange: setReadAloudState,
+        onDone: () => onParagraphSpoken.current(),
+        onError: () => {
+          keepSpeaking.current = false;
+        },
+      });
+    }
+    return readAloudPlayer.current;
+  };
+
+  const speakParagraph = (index: number) => {
+    const para = paragraphs[index];
+    if (!para) return;
+    keepSpeaking.current = true;
+    getReadAloudPlayer().speak(para.text, { voice: readAloudVoice, rate: readAloudRate, language: documentLanguage });
+  };
+
+  onParagraphSpoken.current = () => {
+    const index = currentParagraphIndex;
+    if (waitForDwell(index, () => onParagraphSpoken.current())) return;
+    markParagraphComplete(index, 'listened');
+    if (keepSpeaking.current && index < paragraphs.length - 1 && canMoveTo(index + 1, index)) {
+      jumpToParagraph(index + 1);
+      speakParagraph(index + 1);
+    } else {
+      keepSpeaking.current = false;
+    }
+  };
+
+  // Moving to another paragraph while speaking reads that one instead
+  useEffect(() => {
+    const player = readAloudPlayer.current;
+    if (!player || player.state === 'idle' || player.currentText === paragraphs[currentParagraphIndex]?.text) return;
+    if (keepSpeaking.current) {
+      speakParagraph(currentParagraphIndex);
+    } else {
+      player.stop();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentParagraphIndex]);
+
+  // Voice, the read-aloud, pacer and RSVP speeds and the typography are saved per user
+  useEffect(() => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+    getReaderSettings(uid)
+      .then((settings) => {
+        if (typeof settings?.readAloudRate === 'number') setReadAloudRate(clampRate(settings.readAloudRate));
+        if (settings?.readAloudVoice !== undefined) setReadAloudVoice(settings.readAloudVoice);
+        if (typeof settings?.pacerWpm === 'number') setPacerWpm(clampWpm(settings.pacerWpm));
+        if (typeof settings?.rsvpWpm === 'number') setRsvpWpm(clampRsvpWpm(settings.rsvpWpm));
+        if (typeof settings?.rsvpPhrases === 'boolean') setRsvpPhrases(settings.rsvpPhrases);
+        if (settings?.typography) setTypography(normalizeTypography(settings.typography));
+      })
+      .catch((error) => console.warn('[ReadingViewer] Could not load reader settings:', error?.message))
+      .finally(() => {
+        typographyLoaded.current = true;
+      });
+  }, []);
+
+  // The parent's No Skipping rule: the document's own, otherwise the profile's
+  // Offline, the rule last read on this device applies; with none, reading is free
+  useEffect(() => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) {
+      setSkipPolicy('free');
+      setPolicyLoaded(true);
+      return;
+    }
+    let cancelled = false;
+    setPolicyLoaded(false);
+    Promise.all([getReadingPolicy(uid), docId ? getUserDocument(uid, docId) : Promise.resolve(null)])
+      .then(([policy, document]) => {
+        if (cancelled) return;
+        const documentMode = document?.skipPolicy ?? null;
+        setReadingPolicy(policy);
+        setSkipPolicy(resolveSkipPolicy(policy?.mode, documentMode));
+        cacheReadingPolicy(uid, policy, docId ? { docId, mode: documentMode } : undefined);
+      })
+      .catch(async (error) => {
+        console.warn('[ReadingViewer] Could not load the reading policy, using the cached one:', error?.message);
+        const cached = await getCachedReadingPolicy(uid);
+        if (cancelled) return;
+        setReadingPolicy(cached?.policy ?? null);
+        setSkipPolicy(
+          cached ? resolveSkipPolicy(cached.policy?.mode, docId ? cached.documentModes[docId] : null) : 'free'
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setPolicyLoaded(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [docId]);
+
+  // Typography changes are saved once the reader stops adjusting
+  useEffect(() => {
+    if (!typographyLoaded.current) return;
+    const timer = setTimeout(() => saveUserReaderSettings({ typography }), 800);
+    return () => clearTimeout(timer);
+  }, [typography]);
+
+  useEffect(() => {
+    if (!readAloudOn) return;
+    let cancelled = false;
+    getReadAloudVoices(documentLanguage).then((list) => {
+      if (!cancelled) setVoices(list);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [readAloudOn, documentLanguage]);
+
+  // Stop speaking when the reader closes
+  useEffect(() => {
+    return () => {
+      keepSpeaking.current = false;
+      readAloudPlayer.current?.stop();
+    };
+  }, []);
+
+  const saveUserReaderSettings = (settings: Partial<Omit<ReaderSettings, 'uid' | 'updatedAt'>>) => {
+    const uid = auth.currentUser?.uid;
+    if (!uid) return;
+    saveReaderSettings(uid, settings).catch((error) =>
+      console.warn('[ReadingViewer] Could not save reader settings:', error?.message)
+    );
+  };
+
+  const toggleReadAloud = () => {
+    if (readAloudOn) {
+      keepSpeaking.current = false;
+      readAloudPlayer.current?.stop();
+    } else {
+      if (pacerOn) togglePacer();
+      setRsvpOn(false);
+    }
+    setReadAloudOn(!readAloudOn);
+  };
+
+  const handleReadAloudPlay = () => {
+    const player = getReadAloudPlayer();
+    if (player.state === 'paused') {
+      keepSpeaking.current = true;
+      player.resume();
+    } else {
+      speakParagraph(currentParagraphIndex);
+    }
+  };
+
+  const handleReadAloudPause = () => {
+    keepSpeaking.current = false;
+    readAloudPlayer.current?.pause();
+  };
+
+  const handleReadAloudStop = () => {
+    keepSpeaking.current = false;
+    readAloudPlayer.current?.stop();
+  };
+
+  const handleReadAloudRate = (value: number) => {
+    const rate = clampRate(value);
+    setReadAloudRate(rate);
+    readAloudPlayer.current?.setOptions({ voice: readAloudVoice, rate, language: documentLanguage });
+    saveUserReaderSettings({ readAloudRate: rate });
+  };
+
+  const handleReadAloudVoice = (voice: string | null) => {
+    setReadAloudVoice(voice);
+    setVoicePickerVisible(false);
+    readAloudPlayer.current?.setOptions({ voice, rate: readAloudRate, language: documentLanguage });
+    saveUserReaderSettings({ readAloudVoice: voice });
+  };
+
+  // Guided pacer: a marker moves across the current line at the chosen speed
+  const getPacer = () => {
+    if (!pacer.current) {
+      pacer.current = new Pacer({
+        onPosition: setPacerPosition,
+        onStateChange: setPacerState,
+        onDone: () => onParagraphPaced.current(),
+      });
+    }
+    return pacer.current;
+  };
+
+  const getPacerLines = (index: number, wpm: number) => {
+    const para = paragraphs[index];
+    if (!para) return [];
+    const textBounds = paragraphTextRefs.current.get(para.id);
+    // The measured text box excludes the margins; before layout, estimate it from the window
+    const containerWidth = textBounds ? textBounds.width : Dimensions.get('window').width - 40 - typography.margin * 2;
+    return buildPacerLines(para.text, containerWidth, typography.fontSize, wpm, {
+      padding: 0,
+      letterSpacing: typography.letterSpacing,
+      wordSpacing: typography.wordSpacing,
+    });
+  };
+
+  const paceParagraph = (index: number) => {
+    if (!paragraphs[index]) return;
+    keepPacing.current = true;
+    pacedParagraph.current = index;
+    getPacer().start(getPacerLines(index, pacerWpm));
+  };
+
+  onParagraphPaced.current = () => {
+    const index = pacedParagraph.current;
+    if (waitForDwell(index, () => onParagraphPaced.current())) return;
+    markParagraphComplete(index);
+    if (keepPacing.current && index < paragraphs.length - 1 && canMoveTo(index + 1, index)) {
+      jumpToParagraph(index + 1);
+      paceParagraph(index + 1);
+    } else {
+      keepPacing.current = false;
+    }
+  };
+
+  // Moving to another paragraph while pacing paces that one instead
+  useEffect(() => {
+    const current = pacer.current;
+    if (!current || current.state === 'idle' || pacedParagraph.current === currentParagraphIndex) return;
+    if (keepPacing.current) {
+      paceParagraph(currentParagraphIndex);
+    } else {
+      current.stop();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentParagraphIndex]);
+
+  // Lines change with the typography
+  useEffect(() => {
+    if (pacer.current && pacer.current.state !== 'idle') {
+      pacer.current.setLines(getPacerLines(pacedParagraph.current, pacerWpm));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [typography]);
+
+  // Pause when the app goes to the background
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState !== 'active' && pacer.current?.state === 'playing') {
+        keepPacing.current = false;
+        pacer.current.pause();
+      }
+    });
+    return () => {
+      subscription.remove();
+      keepPacing.current = false;
+      pacer.current?.stop();
+    };
+  }, []);
+
+  const togglePacer = () => {
+    if (pacerOn) {
+      keepPacing.current = false;
+      pacer.current?.stop();
+    } else {
+      if (readAloudOn) toggleReadAloud();
+      setRsvpOn(false);
+    }
+    setPacerOn(!pacerOn);
+  };
+
+  const handlePacerPlay = () => {
+    const current = getPacer();
+    if (current.state === 'paused' && pacedParagraph.current === currentParagraphIndex) {
+      keepPacing.current = true;
+      current.resume();
+    } else {
+      paceParagraph(currentParagraphIndex);
+    }
+  };
+
+  const handlePacerPause = () => {
+    keepPacing.current = false;
+    pacer.current?.pause();
+  };
+
+  const handlePacerStop = () => {
+    keepPacing.current = false;
+    pacer.current?.stop();
+  };
+
+  const handlePacerWpm = (value: number) => {
+    const wpm = clampWpm(value);
+    setPacerWpm(wpm);
+    if (pacer.current && pacer.current.state !== 'idle') {
+      pacer.current.setLines(getPacerLines(pacedParagraph.current, wpm));
+    }
+    saveUserReaderSettings({ pacerWpm: wpm });
+  };
+
+  // RSVP: finishing a paragraph completes it like normal reading
+  const toggleRsvp = () => {
+    if (!rsvpOn) {
+      if (readAloudOn) toggleReadAloud();
+      if (pacerOn) togglePacer();
+    }
+    setRsvpOn(!rsvpOn);
+  };
+
+  // While the minimum time runs the view keeps playing and picks up the next paragraph when it arrives
+  const handleRsvpParagraphDone = () => {
+    if (waitForDwell(currentParagraphIndex, () => onRsvpParagraphDone.current())) {
+      return currentParagraphIndex < paragraphs.length - 1;
+    }
+    markParagraphComplete(currentParagraphIndex);
+    if (currentParagraphIndex < paragraphs.length - 1 && canMoveTo(currentParagraphIndex + 1, currentParagraphIndex)) {
+      jumpToParagraph(currentParagraphIndex + 1);
+      return true;
+    }
+    return false;
+  };
+  onRsvpParagraphDone.current = handleRsvpParagraphDone;
+
+  const handleRsvpWpm = (value: number) => {
+    const wpm = clampRsvpWpm(value);
+    setRsvpWpm(wpm);
+    saveUserReaderSettings({ rsvpWpm: wpm });
+  };
+
+  const handleRsvpPhrases = (phrases: boolean) => {
+    setRsvpPhrases(phrases);
+    saveUserReaderSettings({ rsvpPhrases: phrases });
+  };
+
   const handleNextParagraph = async () => {
-    // Move to next paragraph (no longer requires completion)
-    if (currentParagraphIndex < paragraphs.length - 1) {
+    // Move to next paragraph (the No Skipping rule may ask for the parent PIN first)
+    if (currentParagraphIndex < paragraphs.length - 1 && !canMoveTo(currentParagraphIndex + 1)) {
+      setUnlockTarget(currentParagraphIndex + 1);
+    } else if (currentParagraphIndex < paragraphs.length - 1) {
       const nextIndex = currentParagraphIndex + 1;
       setCurrentParagraphIndex(nextIndex);
       // Scroll to next paragraph using measured position or fallback
@@ -974,6 +1666,7 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
           totalParagraphs: finalStats.totalParagraphs,
           completedParagraphs: finalStats.completedParagraphs,
           totalWords: finalStats.totalWords,
+          wordsListened: finalStats.wordsListened,
           readingTime: finalStats.readingTime,
           completionPercentage: finalStats.completionPercentage,
           date: new Date(),
@@ -997,10 +1690,13 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
   };
 
   const handleMarkComplete = () => {
+    // Sequential: marking a paragraph read by hand waits for its minimum reading time
+    if (skipPolicy === 'sequential' && getDwellRemainingMs(currentParagraphIndex) > 0) return;
     markParagraphComplete(currentParagraphIndex);
     
-    // Auto-advance to next paragraph immediately if not the last paragraph
-    if (currentParagraphIndex < paragraphs.length - 1) {
+    // Auto-advance to next paragraph immediately if not the last paragraph and the
+    // No Skipping rule allows it (the minimum time may still be running)
+    if (currentParagraphIndex < paragraphs.length - 1 && canMoveTo(currentParagraphIndex + 1, currentParagraphIndex)) {
       const nextIndex = currentParagraphIndex + 1;
       setCurrentParagraphIndex(nextIndex);
       
@@ -1024,31 +1720,21 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
   };
 
   const handleUnlockParagraph = (index: number) => {
-    // Jump to the selected paragraph (unlocks it by making it current)
-    jumpToParagraph(index);
+    // Jump to the selected paragraph (unlocks it by making it current), with the parent PIN if the rule needs it
+    requestParagraph(index);
   };
 
   const decreaseTextSize = () => {
-    setTextSize(prev => {
-      if (prev === 'large') return 'medium';
-      if (prev === 'medium') return 'small';
-      return 'small'; // Already at smallest
-    });
+    setTypography(prev => stepTypography(prev, 'fontSize', -1));
   };
 
   const increaseTextSize = () => {
-    setTextSize(prev => {
-      if (prev === 'small') return 'medium';
-      if (prev === 'medium') return 'large';
-      return 'large'; // Already at largest
-    });
+    setTypography(prev => stepTypography(prev, 'fontSize', 1));
   };
 
   const handleMarkAsFullyCompleted = async () => {
     try {
-      const wordsRead = paragraphs
-        .filter(p => p.isCompleted)
-        .reduce((sum, p) => sum + p.wordCount, 0);
+      const wordsRead = completedWords(paragraphs, 'read');
       const finalStats = {
         ...readingStats,
         readingTime: Math.floor((Date.now() - startTime) / 1000),
@@ -1062,6 +1748,7 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
         totalParagraphs: finalStats.totalParagraphs,
         completedParagraphs: finalStats.completedParagraphs,
         totalWords: wordsRead,
+        wordsListened: finalStats.wordsListened,
         readingTime: finalStats.readingTime,
         completionPercentage: 100,
         date: new Date(),
@@ -1094,6 +1781,7 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
   };
 
   if (loading) {
+    const loadingFraction = conversionProgress ? getProgressFraction(conversionProgress) : null;
     return (
       <View style={[styles.container, isDark && styles.containerDark]}>
         <View style={[styles.header, isDark && styles.headerDark]}>
@@ -1107,6 +1795,26 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color={isDark ? '#60A5FA' : '#2563EB'} />
           <Text style={[styles.loadingText, isDark && styles.loadingTextDark]}>Preparing your reading material...</Text>
+          {conversionProgress && (
+            <>
+              <Text style={[styles.loadingStageText, isDark && styles.loadingTextDark]}>
+                {formatConversionProgress(conversionProgress)}
+              </Text>
+              {loadingFraction !== null && (
+                <View style={[styles.loadingProgressTrack, isDark && styles.loadingProgressTrackDark]}>
+                  <View
+                    style={[
+                      styles.loadingProgressFill,
+                      { width: `${Math.round(loadingFraction * 100)}%` },
+                    ]}
+                  />
+                </View>
+              )}
+            </>
+          )}
+          <TouchableOpacity onPress={cancelLoading} style={styles.loadingCancelButton} accessibilityLabel="Cancel loading">
+            <Text style={[styles.loadingCancelText, isDark && styles.backButtonTextDark]}>Cancel</Text>
+          </TouchableOpacity>
         </View>
       </View>
     );
@@ -1150,8 +1858,11 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
   }
 
   const currentPara = paragraphs[currentParagraphIndex];
-  // Allow proceeding even if not completed - removed the lock requirement
-  const canProceed = true;
+  // No Skipping: paragraphs after `reachableIndex` need the parent PIN
+  let reachableIndex = currentParagraphIndex;
+  while (reachableIndex < paragraphs.length - 1 && isParagraphSatisfied(reachableIndex)) reachableIndex++;
+  const canProceed = reachableIndex > currentParagraphIndex;
+  const dwellRemainingSec = Math.ceil(getDwellRemainingMs(currentParagraphIndex) / 1000);
 
   return (
     <View style={[styles.container, isDark && styles.containerDark]}>
@@ -1175,24 +1886,53 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
               <Text style={[styles.wordCount, isDark && styles.wordCountDark, styles.wordCountInStats]}>{readingStats.totalWords.toLocaleString()}</Text>
               <Text style={[styles.wordCountLabel, isDark && styles.wordCountLabelDark, styles.wordCountLabelInStats]}>words</Text>
             </View>
+            {readingStats.wordsListened > 0 && (
+              <Text style={[styles.statsSubtext, isDark && styles.statsSubtextDark]}>
+                {readingStats.wordsListened.toLocaleString()} words listened
+              </Text>
+            )}
           </View>
         </View>
         <View style={styles.headerRight}>
-          <TouchableOpacity
-            style={styles.themeToggle}
-            onPress={toggleTheme}
-            accessibilityLabel={isDark ? 'Switch to light mode' : 'Switch to dark mode'}
-          >
-            <Ionicons 
-              name={isDark ? 'sunny' : 'moon'} 
-              size={20} 
-              color={isDark ? '#FBBF24' : '#6B7280'} 
-            />
-          </TouchableOpacity>
+          <View style={styles.headerToggles}>
+            <TouchableOpacity
+              style={[styles.themeToggle, readAloudOn && styles.readAloudToggleActive]}
+              onPress={toggleReadAloud}
+              accessibilityLabel={readAloudOn ? 'Turn off read aloud' : 'Read aloud'}
+            >
+              <Ionicons name="headset" size={20} color={readAloudOn ? '#2563EB' : isDark ? '#9CA3AF' : '#6B7280'} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.themeToggle, pacerOn && styles.pacerToggleActive]}
+              onPress={togglePacer}
+              accessibilityLabel={pacerOn ? 'Turn off pacer' : 'Guided pacer'}
+            >
+              <Ionicons name="speedometer" size={20} color={pacerOn ? '#059669' : isDark ? '#9CA3AF' : '#6B7280'} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.themeToggle, rsvpOn && styles.readAloudToggleActive]}
+              onPress={toggleRsvp}
+              accessibilityLabel={rsvpOn ? 'Turn off speed reading' : 'Speed reading'}
+            >
+              <Ionicons name="flash" size={20} color={rsvpOn ? '#2563EB' : isDark ? '#9CA3AF' : '#6B7280'} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.themeToggle}
+              onPress={toggleTheme}
+              accessibilityLabel={isDark ? 'Switch to light mode' : 'Switch to dark mode'}
+            >
+              <Ionicons 
+                name={isDark ? 'sunny' : 'moon'} 
+                size={20} 
+                color={isDark ? '#FBBF24' : '#6B7280'} 
+              />
+            </TouchableOpacity>
+          </View>
           <View style={[styles.textSizeButton, isDark && styles.textSizeButtonDark]}>
             <TouchableOpacity
               style={styles.textSizeControlButton}
               onPress={decreaseTextSize}
+              disabled={typography.fontSize <= TYPOGRAPHY_LIMITS.fontSize.min}
               accessibilityLabel="Decrease text size"
             >
               <Ionicons 
@@ -1201,15 +1941,20 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
                 color={isDark ? '#60A5FA' : '#2563EB'} 
               />
             </TouchableOpacity>
-            <Text style={[styles.textSizeButtonText, isDark && styles.textSizeButtonTextDark]}>
-              Text Size
-            </Text>
-            <Text style={[styles.textSizeIndicator, isDark && styles.textSizeIndicatorDark]}>
-              {textSize === 'small' ? 'S' : textSize === 'medium' ? 'M' : 'L'}
-            </Text>
+            <TouchableOpacity
+              style={styles.textSizeLabel}
+              onPress={() => setSettingsPanelVisible(true)}
+              accessibilityLabel="Reading settings"
+            >
+              <Text style={[styles.textSizeButtonText, isDark && styles.textSizeButtonTextDark]}>Aa</Text>
+              <Text style={[styles.textSizeIndicator, isDark && styles.textSizeIndicatorDark]}>
+                {typography.fontSize}
+              </Text>
+            </TouchableOpacity>
             <TouchableOpacity
               style={styles.textSizeControlButton}
               onPress={increaseTextSize}
+              disabled={typography.fontSize >= TYPOGRAPHY_LIMITS.fontSize.max}
               accessibilityLabel="Increase text size"
             >
               <Ionicons 
@@ -1247,188 +1992,302 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
       )}
 
       {/* Reading area */}
-      <ScrollView
-        ref={scrollViewRef}
-        style={styles.scrollView}
-        contentContainerStyle={styles.scrollContent}
-      >
-        {paragraphs.map((para, index) => {
-          const isCurrent = index === currentParagraphIndex;
-          const isPast = index < currentParagraphIndex;
-          const isLocked = index > currentParagraphIndex;
-
-          return (
-            <Animated.View
-              key={para.id}
-              style={[
-                styles.paragraphContainer,
-                isDark && styles.paragraphContainerDark,
-                isCurrent && (isDark ? styles.currentParagraphDark : styles.currentParagraph),
-                isLocked && (isDark ? styles.lockedParagraphDark : styles.lockedParagraph),
-                isPast && para.isCompleted && (isDark ? styles.completedParagraphDark : styles.completedParagraph),
-                isPast && !para.isCompleted && (isDark ? styles.incompleteParagraphDark : styles.incompleteParagraph),
-                { opacity: isCurrent ? fadeAnim : 1 },
-              ]}
-              onLayout={(event) => {
-                // Store the Y position of this paragraph for accurate scrolling
-                const { y } = event.nativeEvent.layout;
-                paragraphPositions.current.set(index, y);
-                
-                if (isCurrent) {
-                  handleParagraphFocus(index);
-                }
-              }}
-            >
-              {/* Paragraph status indicator */}
-              <View style={styles.paragraphHeader}>
-                <Text style={[styles.paragraphNumber, isDark && styles.paragraphNumberDark]}>
-                  Paragraph {index + 1} of {paragraphs.length}
-                </Text>
-                {para.isCompleted ? (
-                  <View style={styles.statusBadge}>
-                    <Ionicons name="checkmark-circle" size={20} color="#10B981" />
-                    <Text style={styles.statusText}>Complete</Text>
-                  </View>
-                ) : isPast ? (
-                  <View style={[styles.statusBadge, styles.incompleteBadge]}>
-                    <Ionicons name="close-circle" size={20} color="#EF4444" />
-                    <Text style={[styles.statusText, styles.incompleteText]}>Incomplete</Text>
-                  </View>
-                ) : isLocked ? (
-                  <TouchableOpacity
-                    style={[styles.statusBadge, styles.lockedBadge]}
-                    onPress={() => handleUnlockParagraph(index)}
-                  >
-                    <Ionicons name="lock-open" size={20} color="#6B7280" />
-                    <Text style={[styles.statusText, styles.lockedText]}>Tap to unlock</Text>
-                  </TouchableOpacity>
-                ) : (
-                  <View style={[styles.statusBadge, styles.activeBadge]}>
-                    <Ionicons name="eye" size={20} color="#2563EB" />
-                    <Text style={[styles.statusText, styles.activeText]}>Reading...</Text>
-                  </View>
-                )}
-              </View>
-
-              {/* Paragraph text */}
-              <TouchableOpacity
-                activeOpacity={isLocked ? 0.7 : 1}
-                onPress={() => {
-                  if (isLocked) {
-                    handleUnlockParagraph(index);
-                  }
-                }}
-                disabled={!isLocked}
+      <View style={styles.readingArea}>
+        <ScrollView
+          ref={scrollViewRef}
+          style={[styles.scrollView, themeColors && { backgroundColor: themeColors.background }]}
+          contentContainerStyle={styles.scrollContent}
+        >
+          {paragraphs.map((para, index) => {
+            const isCurrent = index === currentParagraphIndex;
+            const isPast = index < currentParagraphIndex;
+            const isLocked = index > currentParagraphIndex;
+
+            return (
+              <Animated.View
+                key={para.id}
+                style={[
+                  styles.paragraphContainer,
+                  isDark && styles.paragraphContainerDark,
+                  isCurrent && (isDark ? styles.currentParagraphDark : styles.currentParagraph),
+                  isLocked && (isDark ? styles.lockedParagraphDark : styles.lockedParagraph),
+                  isPast && para.isCompleted && (isDark ? styles.completedParagraphDark : styles.completedParagraph),
+                  isPast && !para.isCompleted && (isDark ? styles.incompleteParagraphDark : styles.incompleteParagraph),
+                  themeColors && {
+                    backgroundColor: isCurrent ? themeColors.currentCard : themeColors.card,
+                    borderColor: themeColors.currentBorder,
+                  },
+                  { paddingHorizontal: typography.margin, opacity: isCurrent ? fadeAnim : 1 },
+                ]}
                 onLayout={(event) => {
-                  // Store text bounds for gaze mapping
-                  const { x, y, width, height } = event.nativeEvent.layout;
-                  paragraphTextRefs.current.set(para.id, { x, y, width, height });
+                  // Store the Y position of this paragraph for accurate scrolling
+                  const { y } = event.nativeEvent.layout;
+                  paragraphPositions.current.set(index, y);
                   
-                  // Initialize line bounds if not already done
-                  if (isCurrent && (!para.lines || para.lines.length === 0)) {
-                    const screenData = Dimensions.get('window');
-                    const fontSize = textSize === 'small' ? 16 : textSize === 'medium' ? 20 : 24;
-                    const lineHeight = textSize === 'small' ? 28 : textSize === 'medium' ? 36 : 42;
-                    
-                    // Use TextLineMapper to calculate line bounds
-                    const textMapper = new TextLineMapper({
-                      fontSize,
-                      lineHeight,
-                      containerWidth: width,
-                      containerX: x,
-                      containerY: y,
-                      padding: 24,
-                    });
-
-                    const lineBounds = textMapper.mapTextToLines(para.text);
-
-                    const lines: LineReadingState[] = lineBounds.map((bounds, lineIndex) => ({
-                      lineIndex,
-                      bounds: {
-                        x: bounds.x,
-                        y: bounds.y,
-                        width: bounds.width,
-                        height: bounds.height,
-                      },
-                      gazePoints: [],
-                      startTime: Date.now(),
-                      isComplete: false,
-                      completionPercentage: 0,
-                    }));
-
-                    setParagraphs(prev => prev.map((p, pIdx) => {
-                      if (pIdx !== index) return p;
-                      return {
-                        ...p,
-                        lines,
-                        currentLineIndex: 0,
-                      };
-                    }));
+                  if (isCurrent) {
+                    handleParagraphFocus(index);
                   }
                 }}
               >
-                <Text
-                  style={[
-                    styles.paragraphText,
-                    isDark && styles.paragraphTextDark,
-                    isCurrent && (isDark ? styles.currentParagraphTextDark : styles.currentParagraphText),
-                    isLocked && (isDark ? styles.lockedParagraphTextDark : styles.lockedParagraphText),
-                    textSize === 'small' && (isCurrent ? styles.currentParagraphTextSmall : styles.paragraphTextSmall),
-                    textSize === 'medium' && (isCurrent ? styles.currentParagraphTextMedium : styles.paragraphTextMedium),
-                    textSize === 'large' && (isCurrent ? styles.currentParagraphTextLarge : styles.paragraphTextLarge),
-                  ]}
-                >
-                  {para.text}
-                </Text>
-              </TouchableOpacity>
-
-              {/* Word count for paragraph */}
-              <Text style={[styles.paragraphWordCount, isDark && styles.paragraphWordCountDark]}>
-                {para.wordCount} {para.wordCount === 1 ? 'word' : 'words'}
-              </Text>
+                {/* Chapter boundary */}
+                {para.chapterTitle && (
+                  <View style={[styles.chapterHeader, isDark && styles.chapterHeaderDark]}>
+                    <Ionicons name="bookmark-outline" size={16} color={isDark ? '#A78BFA' : '#8B5CF6'} />
+                    <Text style={[styles.chapterTitle, isDark && styles.chapterTitleDark]} numberOfLines={2}>
+                      {para.chapterTitle}
+                    </Text>
+                  </View>
+                )}
 
-              {/* Action button for current paragraph */}
-              {isCurrent && (
+                {/* Paragraph status indicator */}
+                <View style={styles.paragraphHeader}>
+                  <Text style={[styles.paragraphNumber, isDark && styles.paragraphNumberDark]}>
+                    Paragraph {index + 1} of {paragraphs.length}
+                  </Text>
+                  {para.isCompleted ? (
+                    <View style={styles.statusBadge}>
+                      <Ionicons name={para.completedBy === 'listened' ? 'headset' : 'checkmark-circle'} size={20} color="#10B981" />
+                      <Text style={styles.statusText}>{para.completedBy === 'listened' ? 'Listened' : 'Complete'}</Text>
+                    </View>
+                  ) : isPast ? (
+                    <View style={[styles.statusBadge, styles.incompleteBadge]}>
+                      <Ionicons name="close-circle" size={20} color="#EF4444" />
+                      <Text style={[styles.statusText, styles.incompleteText]}>Incomplete</Text>
+                    </View>
+                  ) : isLocked ? (
+                    <TouchableOpacity
+                      style={[styles.statusBadge, styles.lockedBadge]}
+                      onPress={() => handleUnlockParagraph(index)}
+                    >
+                      <Ionicons name={index > reachableIndex ? 'lock-closed' : 'lock-open'} size={20} color="#6B7280" />
+                      <Text style={[styles.statusText, styles.lockedText]}>
+                        {index > reachableIndex ? 'Parent PIN to unlock' : 'Tap to unlock'}
+                      </Text>
+                    </TouchableOpacity>
+                  ) : (
+                    <View style={[styles.statusBadge, styles.activeBadge]}>
+                      <Ionicons
+                        name={readAloudState === 'playing' ? 'volume-high' : pacerState === 'playing' ? 'speedometer' : 'eye'}
+                        size={20}
+                        color="#2563EB"
+                      />
+                      <Text style={[styles.statusText, styles.activeText]}>
+                        {readAloudState === 'playing' ? 'Listening...' : pacerState === 'playing' ? `Pacing at ${pacerWpm} wpm` : 'Reading...'}
+                      </Text>
+                    </View>
+                  )}
+                </View>
+
+                {/* Paragraph text */}
                 <TouchableOpacity
-                  style={[
-                    styles.completeButton,
-                    isDark && styles.completeButtonDark,
-                    currentPara.isCompleted && styles.completeButtonActive,
-                  ]}
-                  onPress={handleMarkComplete}
+                  activeOpacity={isLocked ? 0.7 : 1}
+                  onPress={() => {
+                    if (isLocked) {
+                      handleUnlockParagraph(index);
+                    }
+                  }}
+                  disabled={!isLocked}
+                  onLayout={(event) => {
+                    // Store text bounds for gaze mapping
+                    const { x, y, width, height } = event.nativeEvent.layout;
+                    paragraphTextRefs.current.set(para.id, { x, y, width, height });
+                    
+                    // Initialize line bounds if not already done
+                    if (isCurrent && (!para.lines || para.lines.length === 0)) {
+                      // Use TextLineMapper to calculate line bounds
+                      const textMapper = createLineMapper({ x, y, width });
+
+                      const lineBounds = textMapper.mapTextToLines(para.text);
+
+                      const lines: LineReadingState[] = lineBounds.map((bounds, lineIndex) => ({
+                        lineIndex,
+                        bounds: {
+                          x: bounds.x,
+                          y: bounds.y,
+                          width: bounds.width,
+                          height: bounds.height,
+                        },
+                        gazePoints: [],
+                        startTime: Date.now(),
+                        isComplete: false,
+                        completionPercentage: 0,
+                      }));
+
+                      setParagraphs(prev => prev.map((p, pIdx) => {
+                        if (pIdx !== index) return p;
+                        return {
+                          ...p,
+                          lines,
+                          currentLineIndex: 0,
+                        };
+                      }));
+                    }
+                  }}
                 >
-                  <Ionicons
-                    name={currentPara.isCompleted ? 'checkmark-circle' : 'checkmark-circle-outline'}
-                    size={24}
-                    color={currentPara.isCompleted ? '#ffffff' : (isDark ? '#60A5FA' : '#2563EB')}
-                  />
                   <Text
                     style={[
-                      styles.completeButtonText,
-                      isDark && !currentPara.isCompleted && styles.completeButtonTextDark,
-                      currentPara.isCompleted && styles.completeButtonTextActive,
-                      !currentPara.isCompleted && styles.completeButtonTextIncomplete,
+                      styles.paragraphText,
+                      isDark && styles.paragraphTextDark,
+                      isCurrent && (isDark ? styles.currentParagraphTextDark : styles.currentParagraphText),
+                      isLocked && (isDark ? styles.lockedParagraphTextDark : styles.lockedParagraphText),
+                      typographyStyle,
+                      themeColors && { color: isLocked ? themeColors.mutedText : themeColors.text },
                     ]}
                   >
-                    {currentPara.isCompleted ? 'Completed' : 'Mark as Read'}
+                    {isCurrent && spokenWord ? (
+                      <>
+                        {spaced(para.text.slice(0, spokenWord.start))}
+                        <Text style={[styles.spokenWord, isDark && styles.spokenWordDark]}>
+                          {spaced(para.text.slice(spokenWord.start, spokenWord.end))}
+                        </Text>
+                        {spaced(para.text.slice(spokenWord.end))}
+                      </>
+                    ) : isCurrent && pacerPosition ? (
+                      <>
+                        {spaced(para.text.slice(0, pacerPosition.lineStart))}
+                        <Text style={[styles.pacerLine, isDark && styles.pacerLineDark]}>
+                          <Text style={[styles.pacerMarker, isDark && styles.pacerMarkerDark]}>
+                            {spaced(para.text.slice(pacerPosition.lineStart, pacerPosition.markerEnd))}
+                          </Text>
+                          {spaced(para.text.slice(pacerPosition.markerEnd, pacerPosition.lineEnd))}
+                        </Text>
+                        {spaced(para.text.slice(pacerPosition.lineEnd))}
+                      </>
+                    ) : (
+                      spaced(para.text)
+                    )}
                   </Text>
                 </TouchableOpacity>
-              )}
-              
-              {/* Unlock button for locked paragraphs */}
-              {isLocked && (
-                <TouchableOpacity
-                  style={[styles.unlockButton, isDark && styles.unlockButtonDark]}
-                  onPress={() => handleUnlockParagraph(index)}
+
+                {/* Word count for paragraph */}
+                <Text
+                  style={[
+                    styles.paragraphWordCount,
+                    isDark && styles.paragraphWordCountDark,
+                    themeColors && { color: themeColors.mutedText },
+                  ]}
                 >
-                  <Ionicons name="lock-open" size={20} color={isDark ? '#60A5FA' : '#2563EB'} />
-                  <Text style={[styles.unlockButtonText, isDark && styles.unlockButtonTextDark]}>Tap to unlock and read</Text>
-                </TouchableOpacity>
-              )}
-            </Animated.View>
-          );
-        })}
-      </ScrollView>
+                  {para.wordCount} {para.wordCount === 1 ? 'word' : 'words'}
+                </Text>
+
+                {/* Action button for current paragraph */}
+                {isCurrent && (
+                  <TouchableOpacity
+                    style={[
+                      styles.completeButton,
+                      isDark && styles.completeButtonDark,
+                      currentPara.isCompleted && styles.completeButtonActive,
+                    ]}
+                    onPress={handleMarkComplete}
+                    disabled={!currentPara.isCompleted && skipPolicy === 'sequential' && dwellRemainingSec > 0}
+                  >
+                    <Ionicons
+                      name={currentPara.isCompleted ? 'checkmark-circle' : 'checkmark-circle-outline'}
+                      size={24}
+                      color={currentPara.isCompleted ? '#ffffff' : (isDark ? '#60A5FA' : '#2563EB')}
+                    />
+                    <Text
+                      style={[
+                        styles.completeButtonText,
+                        isDark && !currentPara.isCompleted && styles.completeButtonTextDark,
+                        currentPara.isCompleted && styles.completeButtonTextActive,
+                        !currentPara.isCompleted && styles.completeButtonTextIncomplete,
+                      ]}
+                    >
+                      {currentPara.isCompleted
+                        ? 'Completed'
+                        : skipPolicy === 'sequential' && dwellRemainingSec > 0
+                          ? `Mark as Read in ${dwellRemainingSec}s`
+                          : 'Mark as Read'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+                
+                {/* Unlock button for locked paragraphs */}
+                {isLocked && (
+                  <TouchableOpacity
+                    style={[styles.unlockButton, isDark && styles.unlockButtonDark]}
+                    onPress={() => handleUnlockParagraph(index)}
+                  >
+                    <Ionicons
+                      name={index > reachableIndex ? 'lock-closed' : 'lock-open'}
+                      size={20}
+                      color={isDark ? '#60A5FA' : '#2563EB'}
+                    />
+                    <Text style={[styles.unlockButtonText, isDark && styles.unlockButtonTextDark]}>
+                      {index > reachableIndex ? 'Unlock early with the parent PIN' : 'Tap to unlock and read'}
+                    </Text>
+                  </TouchableOpacity>
+                )}
+              </Animated.View>
+            );
+          })}
+        </ScrollView>
+        {rsvpOn && paragraphs[currentParagraphIndex] && (
+          <RsvpView
+            text={paragraphs[currentParagraphIndex].text}
+            paragraphLabel={`Paragraph ${currentParagraphIndex + 1} of ${paragraphs.length}`}
+            wpm={rsvpWpm}
+            phrases={rsvpPhrases}
+            isDark={isDark}
+            onWpmChange={handleRsvpWpm}
+            onPhrasesChange={handleRsvpPhrases}
+            onParagraphDone={handleRsvpParagraphDone}
+            onClose={() => setRsvpOn(false)}
+          />
+        )}
+      </View>
+
+      {pacerOn && (
+        <PacerBar
+          state={pacerState}
+          wpm={pacerWpm}
+          isDark={isDark}
+          onPlay={handlePacerPlay}
+          onPause={handlePacerPause}
+          onStop={handlePacerStop}
+          onWpmChange={handlePacerWpm}
+        />
+      )}
+      {readAloudOn && (
+        <ReadAloudBar
+          state={readAloudState}
+          rate={readAloudRate}
+          voiceName={voices.find(v => v.id === readAloudVoice)?.name || 'Default voice'}
+          isDark={isDark}
+          onPlay={handleReadAloudPlay}
+          onPause={handleReadAloudPause}
+          onStop={handleReadAloudStop}
+          onRateChange={handleReadAloudRate}
+          onChooseVoice={() => setVoicePickerVisible(true)}
+        />
+      )}
+      <ReaderSettingsPanel
+        visible={settingsPanelVisible}
+        typography={typography}
+        onChange={setTypography}
+        onClose={() => setSettingsPanelVisible(false)}
+      />
+      <VoicePicker
+        visible={voicePickerVisible}
+        voices={voices}
+        current={readAloudVoice}
+        onSelect={handleReadAloudVoice}
+        onClose={() => setVoicePickerVisible(false)}
+      />
+      <ParentPinPrompt
+        visible={unlockTarget !== null}
+        title={readingPolicy?.pinHash ? 'Ask a parent to unlock' : 'Paragraph locked'}
+        message={
+          readingPolicy?.pinHash
+            ? skipPolicy === 'dwell'
+              ? 'This paragraph needs a little more reading time. A parent can enter their PIN to move on now.'
+              : 'Finish this paragraph first, or a parent can enter their PIN to move on now.'
+            : 'Finish this paragraph first. To unlock paragraphs early, a parent needs to set a PIN in the Parent Dashboard.'
+        }
+        onSubmit={readingPolicy?.pinHash ? handleParentUnlock : undefined}
+        onClose={() => setUnlockTarget(null)}
+      />
 
       {/* Navigation footer */}
       <View style={[styles.footer, isDark && styles.footerDark]}>
@@ -1475,6 +2334,15 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
               <Text style={[styles.footerText, isDark && styles.footerTextDark]}>
                 {currentParagraphIndex + 1} of {paragraphs.length}
               </Text>
+              {!canProceed && currentParagraphIndex < paragraphs.length - 1 && (
+                <Text style={[styles.footerHint, isDark && styles.footerTextDark]}>
+                  {!policyLoaded
+                    ? 'Loading reading rules…'
+                    : skipPolicy === 'dwell'
+                      ? `Next unlocks in ${dwellRemainingSec}s`
+                      : 'Finish to unlock Next'}
+                </Text>
+              )}
             </View>
 
             <TouchableOpacity
@@ -1498,7 +2366,7 @@ export default function ReadingViewer({ fileUri, filename, docId, onClose, onCom
                 Next
               </Text>
               <Ionicons
-                name="chevron-forward"
+                name={canProceed || currentParagraphIndex === paragraphs.length - 1 ? 'chevron-forward' : 'lock-closed'}
                 size={19}
                 color={
                   currentParagraphIndex === paragraphs.length - 1
@@ -1626,6 +2494,11 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  textSizeLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
   textSizeButtonText: {
     fontSize: 11,
     fontWeight: '600',
@@ -1644,6 +2517,9 @@ const styles = StyleSheet.create({
   textSizeIndicatorDark: {
     color: '#60A5FA',
   },
+  readingArea: {
+    flex: 1,
+  },
   scrollView: {
     flex: 1,
   },
@@ -1683,6 +2559,27 @@ const styles = StyleSheet.create({
     borderLeftWidth: 4,
     borderLeftColor: '#EF4444',
   },
+  chapterHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingBottom: 10,
+    marginBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E9D5FF',
+  },
+  chapterHeaderDark: {
+    borderBottomColor: '#4C1D95',
+  },
+  chapterTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#6D28D9',
+  },
+  chapterTitleDark: {
+    color: '#C4B5FD',
+  },
   paragraphHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -1754,30 +2651,6 @@ const styles = StyleSheet.create({
       default: 'serif',
     }),
   },
-  paragraphTextSmall: {
-    fontSize: 16,
-    lineHeight: 28,
-  },
-  currentParagraphTextSmall: {
-    fontSize: 16,
-    lineHeight: 28,
-  },
-  paragraphTextMedium: {
-    fontSize: 20,
-    lineHeight: 36,
-  },
-  currentParagraphTextMedium: {
-    fontSize: 20,
-    lineHeight: 36,
-  },
-  paragraphTextLarge: {
-    fontSize: 24,
-    lineHeight: 42,
-  },
-  currentParagraphTextLarge: {
-    fontSize: 24,
-    lineHeight: 42,
-  },
   lockedParagraphText: {
     color: '#9CA3AF',
     fontFamily: Platform.select({
@@ -1898,6 +2771,11 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#6B7280',
   },
+  footerHint: {
+    fontSize: 11,
+    color: '#6B7280',
+    marginTop: 2,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -1908,6 +2786,36 @@ const styles = StyleSheet.create({
     fontSize: 18, // Increased from 16 (10% increase)
     color: '#6B7280',
   },
+  loadingStageText: {
+    marginTop: 8,
+    fontSize: 14,
+    color: '#6B7280',
+  },
+  loadingProgressTrack: {
+    width: 200,
+    height: 6,
+    marginTop: 12,
+    borderRadius: 3,
+    overflow: 'hidden',
+    backgroundColor: '#E5E7EB',
+  },
+  loadingProgressTrackDark: {
+    backgroundColor: '#374151',
+  },
+  loadingProgressFill: {
+    height: '100%',
+    backgroundColor: '#2563EB',
+  },
+  loadingCancelButton: {
+    marginTop: 24,
+    paddingVertical: 10,
+    paddingHorizontal: 24,
+  },
+  loadingCancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
   errorContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -1989,6 +2897,39 @@ const styles = StyleSheet.create({
     marginRight: 12,
     borderRadius: 8,
   },
+  headerToggles: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  readAloudToggleActive: {
+    backgroundColor: '#DBEAFE',
+  },
+  spokenWord: {
+    backgroundColor: '#FDE68A',
+    color: '#111827',
+  },
+  spokenWordDark: {
+    backgroundColor: '#B45309',
+    color: '#F9FAFB',
+  },
+  pacerToggleActive: {
+    backgroundColor: '#D1FAE5',
+  },
+  pacerLine: {
+    backgroundColor: '#ECFDF5',
+  },
+  pacerLineDark: {
+    backgroundColor: '#064E3B',
+  },
+  pacerMarker: {
+    textDecorationLine: 'underline',
+    textDecorationColor: '#059669',
+    color: '#065F46',
+  },
+  pacerMarkerDark: {
+    textDecorationColor: '#34D399',
+    color: '#D1FAE5',
+  },
   paragraphContainerDark: {
     backgroundColor: '#1F2937',
   },
@@ -0,0 +1,326 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AppState, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import {
+  buildRsvpFrames,
+  MAX_RSVP_WPM,
+  MIN_RSVP_WPM,
+  RSVP_WPM_STEP,
+  RsvpPlayer,
+  type RsvpFrame,
+  type RsvpState,
+} from '@/utils/rsvp';
+
+interface RsvpViewProps {
+  text: string; // current paragraph
+  paragraphLabel: string;
+  wpm: number;
+  phrases: boolean;
+  isDark: boolean;
+  onWpmChange: (wpm: number) => void;
+  onPhrasesChange: (phrases: boolean) => void;
+  onParagraphDone: () => boolean; // true when the reader moved on (or will once the minimum time is up)
+  onClose: () => void;
+}
+
+/**
+ * Speed-reading view: the current paragraph one word (or short phrase) at a time, with the
+ * optimal recognition point held at a fixed focal point
+ */
+export default function RsvpView({
+  text,
+  paragraphLabel,
+  wpm,
+  phrases,
+  isDark,
+  onWpmChange,
+  onPhrasesChange,
+  onParagraphDone,
+  onClose,
+}: RsvpViewProps) {
+  const [state, setState] = useState<RsvpState>('idle');
+  const [frame, setFrame] = useState<RsvpFrame | null>(null);
+  const [progress, setProgress] = useState(0);
+  const player = useRef<RsvpPlayer | null>(null);
+  const keepPlaying = useRef(false); // start the next paragraph when it arrives
+  const onDone = useRef<() => void>(() => {});
+
+  onDone.current = () => {
+    setProgress(1);
+    keepPlaying.current = onParagraphDone();
+  };
+
+  const getPlayer = () => {
+    if (!player.current) {
+      player.current = new RsvpPlayer({
+        onFrame: (next, index, total) => {
+          setFrame(next);
+          setProgress(total > 0 ? index / total : 0);
+        },
+        onStateChange: setState,
+        onDone: () => onDone.current(),
+      });
+    }
+    return player.current;
+  };
+
+  // A new paragraph (finished, or chosen with Previous/Next) plays on if the last one was playing
+  useEffect(() => {
+    const current = getPlayer();
+    if (keepPlaying.current || current.state === 'playing') {
+      keepPlaying.current = false;
+      current.start(buildRsvpFrames(text, wpm, phrases));
+    } else {
+      current.stop();
+      setProgress(0);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [text, paragraphLabel]);
+
+  useEffect(() => {
+    player.current?.setFrames(buildRsvpFrames(text, wpm, phrases));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [wpm, phrases]);
+
+  // Pause when the app goes to the background; stop when the view closes
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (nextAppState) => {
+      if (nextAppState !== 'active') player.current?.pause();
+    });
+    return () => {
+      subscription.remove();
+      player.current?.stop();
+    };
+  }, []);
+
+  const handlePlay = () => {
+    const current = getPlayer();
+    if (current.state === 'paused') current.resume();
+    else current.start(buildRsvpFrames(text, wpm, phrases));
+  };
+
+  const accent = isDark ? '#60A5FA' : '#2563EB';
+  const playing = state === 'playing';
+  const before = frame ? frame.text.slice(0, frame.orp) : '';
+  const focus = frame ? frame.text[frame.orp] : '';
+  const after = frame ? frame.text.slice(frame.orp + 1) : '';
+
+  return (
+    <View style={[styles.container, isDark && styles.containerDark]}>
+      <View style={styles.topRow}>
+        <Text style={[styles.label, isDark && styles.labelDark]}>{paragraphLabel}</Text>
+        <TouchableOpacity onPress={onClose} style={styles.iconButton} accessibilityLabel="Close speed reading">
+          <Ionicons name="close" size={24} color={isDark ? '#9CA3AF' : '#6B7280'} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.stage}>
+        <View style={[styles.focalTick, isDark && styles.focalTickDark]} />
+        <View style={styles.frameRow}>
+          {frame ? (
+            <>
+              <Text style={[styles.frameText, styles.frameBefore, isDark && styles.frameTextDark]} numberOfLines={1}>
+                {before}
+              </Text>
+              <Text style={[styles.frameText, styles.frameFocus]}>{focus}</Text>
+              <Text style={[styles.frameText, styles.frameAfter, isDark && styles.frameTextDark]} numberOfLines={1}>
+                {after}
+              </Text>
+            </>
+          ) : (
+            <Text style={[styles.hint, isDark && styles.labelDark]}>Press play to start</Text>
+          )}
+        </View>
+        <View style={[styles.focalTick, isDark && styles.focalTickDark]} />
+        <View style={[styles.progressTrack, isDark && styles.progressTrackDark]}>
+          <View style={[styles.progressFill, { width: `${Math.round(progress * 100)}%` }]} />
+        </View>
+      </View>
+
+      <View style={styles.controls}>
+        <TouchableOpacity
+          style={styles.playButton}
+          onPress={playing ? () => player.current?.pause() : handlePlay}
+          accessibilityLabel={playing ? 'Pause' : state === 'paused' ? 'Resume' : 'Play'}
+        >
+          <Ionicons name={playing ? 'pause' : 'play'} size={26} color="#ffffff" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.iconButton}
+          onPress={() => {
+            player.current?.stop();
+            setProgress(0);
+          }}
+          disabled={state === 'idle'}
+          accessibilityLabel="Stop"
+        >
+          <Ionicons name="stop" size={22} color={state === 'idle' ? '#9CA3AF' : accent} />
+        </TouchableOpacity>
+
+        <View style={styles.wpmControl}>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => onWpmChange(wpm - RSVP_WPM_STEP)}
+            disabled={wpm <= MIN_RSVP_WPM}
+            accessibilityLabel="Slower"
+          >
+            <Ionicons name="remove" size={18} color={wpm <= MIN_RSVP_WPM ? '#9CA3AF' : accent} />
+          </TouchableOpacity>
+          <Text style={[styles.wpmText, isDark && styles.frameTextDark]}>{wpm}</Text>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={() => onWpmChange(wpm + RSVP_WPM_STEP)}
+            disabled={wpm >= MAX_RSVP_WPM}
+            accessibilityLabel="Faster"
+          >
+            <Ionicons name="add" size={18} color={wpm >= MAX_RSVP_WPM ? '#9CA3AF' : accent} />
+          </TouchableOpacity>
+          <Text style={[styles.wpmLabel, isDark && styles.labelDark]}>words/min</Text>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.phrasesButton, phrases && styles.phrasesButtonActive]}
+          onPress={() => onPhrasesChange(!phrases)}
+          accessibilityLabel={phrases ? 'Show one word at a time' : 'Show short phrases'}
+        >
+          <Text style={[styles.phrasesText, phrases && styles.phrasesTextActive]}>Phrases</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: '#F9FAFB',
+    padding: 20,
+    justifyContent: 'space-between',
+  },
+  containerDark: {
+    backgroundColor: '#111827',
+  },
+  topRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6B7280',
+  },
+  labelDark: {
+    color: '#9CA3AF',
+  },
+  stage: {
+    alignItems: 'center',
+  },
+  focalTick: {
+    width: 2,
+    height: 16,
+    backgroundColor: '#D1D5DB',
+  },
+  focalTickDark: {
+    backgroundColor: '#4B5563',
+  },
+  frameRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    height: 72,
+    alignSelf: 'stretch',
+  },
+  frameText: {
+    fontSize: 36,
+    fontWeight: '500',
+    color: '#111827',
+  },
+  frameTextDark: {
+    color: '#F9FAFB',
+  },
+  // Equal-width sides keep the focus letter on the focal point
+  frameBefore: {
+    flex: 1,
+    textAlign: 'right',
+  },
+  frameFocus: {
+    color: '#DC2626',
+    fontWeight: '700',
+  },
+  frameAfter: {
+    flex: 1,
+    textAlign: 'left',
+  },
+  hint: {
+    fontSize: 16,
+    color: '#6B7280',
+  },
+  progressTrack: {
+    alignSelf: 'stretch',
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#E5E7EB',
+    marginTop: 24,
+    overflow: 'hidden',
+  },
+  progressTrackDark: {
+    backgroundColor: '#374151',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: '#2563EB',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  playButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    backgroundColor: '#2563EB',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  iconButton: {
+    padding: 6,
+  },
+  wpmControl: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  wpmText: {
+    minWidth: 40,
+    textAlign: 'center',
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  wpmLabel: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginLeft: 2,
+  },
+  phrasesButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#2563EB',
+  },
+  phrasesButtonActive: {
+    backgroundColor: '#2563EB',
+  },
+  phrasesText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+  phrasesTextActive: {
+    color: '#ffffff',
+  },
+});
@@ -0,0 +1,115 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { getUploadTask, listenUploads, type UploadProgress } from '@/utils/resumableUpload';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * One row per file being uploaded: byte progress with pause, resume and cancel.
+ * `excludeStoragePaths`: uploads already shown elsewhere (the upload queue).
+ */
+export default function UploadProgressList({ excludeStoragePaths = [] }: { excludeStoragePaths?: string[] }) {
+  const [uploads, setUploads] = useState<UploadProgress[]>([]);
+
+  useEffect(() => listenUploads(setUploads), []);
+
+  const visible = uploads.filter((upload) => !excludeStoragePaths.includes(upload.storagePath));
+  if (visible.length === 0) return null;
+
+  return (
+    <View style={styles.list}>
+      {visible.map((upload) => {
+        const fraction = upload.totalBytes > 0 ? upload.bytesUploaded / upload.totalBytes : 0;
+        const task = getUploadTask(upload.id);
+        const statusLabel =
+          upload.status === 'paused'
+            ? 'Paused'
+            : upload.status === 'completed'
+              ? 'Uploaded'
+              : `${formatBytes(upload.bytesUploaded)} of ${formatBytes(upload.totalBytes)}`;
+
+        return (
+          <View key={upload.id} style={styles.row}>
+            <View style={styles.rowHeader}>
+              <Text style={styles.name} numberOfLines={1}>
+                {upload.name}
+              </Text>
+              {upload.status === 'uploading' && (
+                <TouchableOpacity onPress={() => task?.pause()} accessibilityLabel={`Pause ${upload.name}`}>
+                  <Ionicons name="pause" size={18} color="#2563EB" />
+                </TouchableOpacity>
+              )}
+              {upload.status === 'paused' && (
+                <TouchableOpacity onPress={() => task?.resume()} accessibilityLabel={`Resume ${upload.name}`}>
+                  <Ionicons name="play" size={18} color="#2563EB" />
+                </TouchableOpacity>
+              )}
+              {(upload.status === 'uploading' || upload.status === 'paused') && (
+                <TouchableOpacity onPress={() => task?.cancel()} accessibilityLabel={`Cancel ${upload.name}`}>
+                  <Ionicons name="close" size={18} color="#DC2626" />
+                </TouchableOpacity>
+              )}
+            </View>
+            <View style={styles.track}>
+              <View
+                style={[
+                  styles.fill,
+                  upload.status === 'paused' && styles.fillPaused,
+                  { width: `${Math.round(fraction * 100)}%` },
+                ]}
+              />
+            </View>
+            <Text style={styles.status}>{statusLabel}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    marginTop: 12,
+    gap: 10,
+  },
+  row: {
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.85)',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  name: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  track: {
+    height: 6,
+    marginTop: 8,
+    borderRadius: 3,
+    overflow: 'hidden',
+    backgroundColor: '#DBEAFE',
+  },
+  fill: {
+    height: '100%',
+    backgroundColor: '#2563EB',
+  },
+  fillPaused: {
+    backgroundColor: '#9CA3AF',
+  },
+  status: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#4B5563',
+  },
+});
@@ -0,0 +1,217 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { formatConversionProgress, getProgressFraction } from '@/utils/conversionControl';
+import { getFriendlyImportError } from '@/utils/importErrors';
+import { getUploadTask, listenUploads, type UploadProgress } from '@/utils/resumableUpload';
+import {
+  cancelQueueItem,
+  clearFinishedQueueItems,
+  keepDuplicateCopy,
+  retryQueueItem,
+  type QueueItem,
+} from '@/utils/uploadQueue';
+
+const STATUS_LABELS: Record<QueueItem['status'], string> = {
+  queued: 'Queued',
+  uploading: 'Uploading...',
+  converting: 'Converting...',
+  ready: 'Ready',
+  error: 'Failed',
+  duplicate: 'Already in your library',
+};
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+interface UploadQueueListProps {
+  items: QueueItem[];
+  onOpenDocument?: (docId: string) => void;
+}
+
+/**
+ * One row per queued file: status, progress (bytes while uploading) and retry/cancel/remove.
+ * Duplicates ask whether to open the existing document or keep a separate copy.
+ */
+export default function UploadQueueList({ items, onOpenDocument }: UploadQueueListProps) {
+  const [uploads, setUploads] = useState<UploadProgress[]>([]);
+
+  useEffect(() => listenUploads(setUploads), []);
+
+  if (items.length === 0) return null;
+
+  const hasFinished = items.some((item) => item.status === 'ready');
+
+  return (
+    <View style={styles.list}>
+      {items.map((item) => {
+        const upload = item.status === 'uploading' ? uploads.find((u) => u.storagePath === item.storagePath) : undefined;
+        const task = upload ? getUploadTask(upload.id) : null;
+        const active = item.status === 'uploading' || item.status === 'converting';
+
+        let fraction: number | null = null;
+        let statusLabel = STATUS_LABELS[item.status];
+        if (upload) {
+          fraction = upload.totalBytes > 0 ? upload.bytesUploaded / upload.totalBytes : 0;
+          statusLabel =
+            upload.status === 'paused'
+              ? 'Paused'
+              : `Uploading ${formatBytes(upload.bytesUploaded)} of ${formatBytes(upload.totalBytes)}`;
+        } else if (active && item.progress) {
+          fraction = getProgressFraction(item.progress);
+          statusLabel = formatConversionProgress(item.progress);
+        } else if (item.status === 'error' && item.errorCode) {
+          const { message, action } = getFriendlyImportError(item.errorCode);
+          statusLabel = `Failed: ${message} ${action}`;
+        } else if (item.status === 'error' && item.errorMessage) {
+          statusLabel = `Failed: ${item.errorMessage}`;
+        } else if (item.status === 'duplicate' && item.duplicateOf) {
+          statusLabel = `Already in your library as "${item.duplicateOf.title}"`;
+        }
+
+        return (
+          <View key={item.id} style={styles.row}>
+            <View style={styles.rowHeader}>
+              {item.status === 'ready' && <Ionicons name="checkmark-circle" size={18} color="#16A34A" />}
+              {item.status === 'error' && <Ionicons name="alert-circle" size={18} color="#DC2626" />}
+              <Text style={styles.name} numberOfLines={1}>
+                {item.name}
+              </Text>
+              {upload?.status === 'uploading' && (
+                <TouchableOpacity onPress={() => task?.pause()} accessibilityLabel={`Pause ${item.name}`}>
+                  <Ionicons name="pause" size={18} color="#2563EB" />
+                </TouchableOpacity>
+              )}
+              {upload?.status === 'paused' && (
+                <TouchableOpacity onPress={() => task?.resume()} accessibilityLabel={`Resume ${item.name}`}>
+                  <Ionicons name="play" size={18} color="#2563EB" />
+                </TouchableOpacity>
+              )}
+              {item.status === 'error' && (
+                <TouchableOpacity onPress={() => retryQueueItem(item.id)} accessibilityLabel={`Retry ${item.name}`}>
+                  <Ionicons name="refresh" size={18} color="#2563EB" />
+                </TouchableOpacity>
+              )}
+              {item.status !== 'ready' && (
+                <TouchableOpacity
+                  onPress={() => cancelQueueItem(item.id)}
+                  accessibilityLabel={`${active ? 'Cancel' : 'Remove'} ${item.name}`}
+                >
+                  <Ionicons name="close" size={18} color="#DC2626" />
+                </TouchableOpacity>
+              )}
+            </View>
+            {active && (
+              <View style={styles.track}>
+                <View
+                  style={[
+                    styles.fill,
+                    upload?.status === 'paused' && styles.fillPaused,
+                    { width: `${Math.round((fraction ?? 0) * 100)}%` },
+                  ]}
+                />
+              </View>
+            )}
+            <Text style={[styles.status, item.status === 'error' && styles.statusError]} numberOfLines={2}>
+              {statusLabel}
+            </Text>
+            {item.status === 'duplicate' && item.duplicateOf && (
+              <View style={styles.duplicateActions}>
+                {onOpenDocument && (
+                  <TouchableOpacity
+                    style={styles.duplicateButton}
+                    onPress={() => {
+                      onOpenDocument(item.duplicateOf!.docId);
+                      cancelQueueItem(item.id);
+                    }}
+                  >
+                    <Text style={styles.duplicateButtonText}>Open existing</Text>
+                  </TouchableOpacity>
+                )}
+                <TouchableOpacity style={styles.duplicateButton} onPress={() => keepDuplicateCopy(item.id)}>
+                  <Text style={styles.duplicateButtonText}>Keep a copy</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+          </View>
+        );
+      })}
+      {hasFinished && (
+        <TouchableOpacity onPress={clearFinishedQueueItems} style={styles.clearButton}>
+          <Text style={styles.clearButtonText}>Clear finished</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  list: {
+    marginTop: 12,
+    gap: 10,
+  },
+  row: {
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.85)',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  name: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  track: {
+    height: 6,
+    marginTop: 8,
+    borderRadius: 3,
+    overflow: 'hidden',
+    backgroundColor: '#DBEAFE',
+  },
+  fill: {
+    height: '100%',
+    backgroundColor: '#2563EB',
+  },
+  fillPaused: {
+    backgroundColor: '#9CA3AF',
+  },
+  status: {
+    marginTop: 4,
+    fontSize: 12,
+    color: '#4B5563',
+  },
+  statusError: {
+    color: '#DC2626',
+  },
+  duplicateActions: {
+    flexDirection: 'row',
+    gap: 16,
+    marginTop: 6,
+  },
+  duplicateButton: {
+    paddingVertical: 4,
+  },
+  duplicateButtonText: {
+    color: '#2563EB',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  clearButton: {
+    alignSelf: 'center',
+    paddingVertical: 4,
+    paddingHorizontal: 12,
+  },
+  clearButtonText: {
+    color: '#2563EB',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
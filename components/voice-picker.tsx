@@ -0,0 +1,157 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, Modal, ScrollView, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { ReadAloudVoice } from '@/utils/readAloud';
+
+interface VoicePickerProps {
+  visible: boolean;
+  voices: ReadAloudVoice[];
+  current?: string | null;
+  onSelect: (voiceId: string | null) => void;
+  onClose: () => void;
+}
+
+/**
+ * Voice used for read-aloud; voices in the document's language are listed first
+ */
+export default function VoicePicker({ visible, voices, current, onSelect, onClose }: VoicePickerProps) {
+  const { theme } = useTheme();
+  const isDark = theme === 'dark';
+
+  const options: { id: string | null; label: string; detail?: string }[] = [
+    { id: null, label: 'Default voice' },
+    ...voices.map((voice) => ({
+      id: voice.id,
+      label: voice.name,
+      detail: [voice.language, voice.enhanced ? 'enhanced' : ''].filter(Boolean).join(' • '),
+    })),
+  ];
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={[styles.sheet, isDark && styles.sheetDark]}>
+          <Text style={[styles.title, isDark && styles.textDark]}>Voice</Text>
+          {voices.length === 0 && (
+            <Text style={[styles.subtitle, isDark && styles.subtitleDark]}>
+              No other voices are installed on this device.
+            </Text>
+          )}
+
+          <ScrollView style={styles.list} contentContainerStyle={styles.listContent}>
+            {options.map((option) => {
+              const selected = option.id === (current ?? null);
+              return (
+                <TouchableOpacity
+                  key={option.id ?? 'default'}
+                  style={[styles.option, isDark && styles.optionDark, selected && styles.optionSelected]}
+                  onPress={() => onSelect(option.id)}
+                  disabled={selected}
+                  accessibilityLabel={`Use ${option.label}`}
+                >
+                  <View style={styles.optionLabel}>
+                    <Text style={[styles.optionText, isDark && styles.textDark]} numberOfLines={1}>
+                      {option.label}
+                    </Text>
+                    {option.detail ? (
+                      <Text style={[styles.optionDetail, isDark && styles.subtitleDark]}>{option.detail}</Text>
+                    ) : null}
+                  </View>
+                  {selected ? <Ionicons name="checkmark" size={20} color="#2563EB" /> : null}
+                </TouchableOpacity>
+              );
+            })}
+          </ScrollView>
+
+          <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+            <Text style={styles.closeButtonText}>Close</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  sheet: {
+    width: '100%',
+    maxWidth: 420,
+    maxHeight: '80%',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+    gap: 8,
+  },
+  sheetDark: {
+    backgroundColor: '#1F2937',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1F2937',
+  },
+  textDark: {
+    color: '#F9FAFB',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: '#6B7280',
+  },
+  subtitleDark: {
+    color: '#9CA3AF',
+  },
+  list: {
+    flexGrow: 0,
+  },
+  listContent: {
+    gap: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: 'rgba(0, 0, 0, 0.1)',
+  },
+  optionDark: {
+    borderColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  optionSelected: {
+    borderColor: '#2563EB',
+  },
+  optionLabel: {
+    flex: 1,
+    marginRight: 8,
+  },
+  optionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1F2937',
+  },
+  optionDetail: {
+    fontSize: 12,
+    color: '#6B7280',
+    marginTop: 2,
+  },
+  closeButton: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  closeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#2563EB',
+  },
+});
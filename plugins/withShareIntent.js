@@ -0,0 +1,76 @@
+/**
+ * Config plugin: Android share / "Open with" target
+ * React Native's Linking only reports ACTION_VIEW intents that carry a URL, while shares
+ * (ACTION_SEND) put the file or text in extras. MainActivity rewrites both into an
+ * omgreadx://share?uri=...&name=...&type=... (or ?text=...) URL that
+ * utils/incomingShares.ts reads. The intent filters themselves are in app.json.
+ */
+
+const { withMainActivity } = require('expo/config-plugins');
+
+const MARKER = '// readx-share-intent';
+
+const IMPORTS = ['android.content.Intent', 'android.net.Uri', 'android.provider.OpenableColumns'];
+
+const METHODS = `
+  ${MARKER}: shares and "Open with" become omgreadx://share URLs readable through Linking
+  override fun onNewIntent(intent: Intent) {
+    toShareUrl(intent)
+    super.onNewIntent(intent)
+  }
+
+  private fun toShareUrl(intent: Intent?) {
+    if (intent == null) return
+    val uri: Uri? = when (intent.action) {
+      Intent.ACTION_SEND -> intent.getParcelableExtra(Intent.EXTRA_STREAM)
+      Intent.ACTION_VIEW -> intent.data?.takeIf { it.scheme == "content" || it.scheme == "file" }
+      else -> null
+    }
+    val url = Uri.Builder().scheme("omgreadx").authority("share")
+    if (uri != null) {
+      url.appendQueryParameter("uri", uri.toString())
+      intent.type?.let { url.appendQueryParameter("type", it) }
+      displayName(uri)?.let { url.appendQueryParameter("name", it) }
+    } else if (intent.action == Intent.ACTION_SEND) {
+      val text = intent.getStringExtra(Intent.EXTRA_TEXT) ?: return
+      url.appendQueryParameter("text", text)
+      intent.getStringExtra(Intent.EXTRA_SUBJECT)?.let { url.appendQueryParameter("subject", it) }
+    } else {
+      return
+    }
+    intent.action = Intent.ACTION_VIEW
+    intent.data = url.build()
+  }
+
+  private fun displayName(uri: Uri): String? =
+    try {
+      contentResolver.query(uri, arrayOf(OpenableColumns.DISPLAY_NAME), null, null, null)?.use { cursor ->
+        if (cursor.moveToFirst()) cursor.getString(0) else null
+      }
+    } catch (e: Exception) {
+      null
+    }
+`;
+
+function addShareIntentHandling(contents) {
+  if (contents.includes(MARKER)) return contents;
+
+  const missing = IMPORTS.filter((name) => !contents.includes(`import ${name}\n`));
+  let out = contents.replace(/^(package [^\n]+\n)/, `$1\n${missing.map((name) => `import ${name}`).join('\n')}\n`);
+
+  // The launch intent is rewritten before React Native reads it
+  out = out.replace(/(\n(\s*)super\.onCreate\()/, `\n$2toShareUrl(intent)$1`);
+
+  const classEnd = out.lastIndexOf('}');
+  return `${out.slice(0, classEnd)}${METHODS}${out.slice(classEnd)}`;
+}
+
+module.exports = function withShareIntent(config) {
+  return withMainActivity(config, (mod) => {
+    if (mod.modResults.language !== 'kt') {
+      throw new Error('withShareIntent: MainActivity must be Kotlin');
+    }
+    mod.modResults.contents = addShareIntentHandling(mod.modResults.contents);
+    return mod;
+  });
+};
@@ -0,0 +1,78 @@
+/**
+ * Firebase ID token verification (no firebase-admin dependency)
+ * Verifies RS256 signatures against Google's securetoken certificates, or accepts the
+ * unsigned tokens issued by the Auth emulator when emulator mode is enabled.
+ */
+
+import { createVerify } from 'node:crypto';
+
+const GOOGLE_CERTS_URL =
+  'https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com';
+
+export interface VerifiedUser {
+  uid: string;
+  email?: string;
+}
+
+export class AuthError extends Error {}
+
+let certCache: { certs: { [kid: string]: string }; expiresAt: number } | null = null;
+
+async function getGoogleCerts(): Promise<{ [kid: string]: string }> {
+  if (certCache && certCache.expiresAt > Date.now()) return certCache.certs;
+
+  const resp = await fetch(GOOGLE_CERTS_URL);
+  if (!resp.ok) throw new Error(`Failed to fetch token certificates (${resp.status})`);
+  const certs = (await resp.json()) as { [kid: string]: string };
+
+  const maxAge = Number(resp.headers.get('cache-control')?.match(/max-age=(\d+)/)?.[1] || 3600);
+  certCache = { certs, expiresAt: Date.now() + maxAge * 1000 };
+  return certs;
+}
+
+function decodeSegment(segment: string): any {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new AuthError('Malformed token');
+  }
+}
+
+/**
+ * Verify a Firebase ID token and return the signed-in user
+ */
+export async function verifyIdToken(
+  token: string,
+  options: { projectId: string; allowEmulatorTokens: boolean }
+): Promise<VerifiedUser> {
+  const parts = token.split('.');
+  if (parts.length !== 3) throw new AuthError('Malformed token');
+
+  const header = decodeSegment(parts[0]);
+  const payload = decodeSegment(parts[1]);
+
+  if (header.alg === 'none') {
+    // Auth emulator tokens are unsigned
+    if (!options.allowEmulatorTokens) throw new AuthError('Unsigned tokens are only accepted in emulator mode');
+  } else {
+    if (header.alg !== 'RS256' || typeof header.kid !== 'string') throw new AuthError('Unsupported token algorithm');
+    const certs = await getGoogleCerts();
+    const cert = certs[header.kid];
+    if (!cert) throw new AuthError('Unknown token key id');
+
+    const verifier = createVerify('RSA-SHA256');
+    verifier.update(`${parts[0]}.${parts[1]}`);
+    if (!verifier.verify(cert, Buffer.from(parts[2], 'base64url'))) {
+      throw new AuthError('Invalid token signature');
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.aud !== options.projectId) throw new AuthError('Token was issued for another project');
+  if (payload.iss !== `https://securetoken.google.com/${options.projectId}`) throw new AuthError('Invalid token issuer');
+  if (typeof payload.exp !== 'number' || payload.exp <= now) throw new AuthError('Token has expired');
+  if (typeof payload.iat === 'number' && payload.iat > now + 300) throw new AuthError('Token issued in the future');
+  if (typeof payload.sub !== 'string' || !payload.sub) throw new AuthError('Token has no subject');
+
+  return { uid: payload.sub, email: typeof payload.email === 'string' ? payload.email : undefined };
+}
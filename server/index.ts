@@ -0,0 +1,277 @@
+/**
+ * Local development extraction server
+ * Implements the same contract as the hosted backend (Authorization: Bearer <Firebase ID token>):
+ *   POST /extract/pdf (multipart "file")
+ *   -> writes users/{uid}/processed/{fileId}.json and responds { fileId, pages, method }
+ *      (pages without a text layer are rendered and OCR'd; method is then "pdf-parse+ocr")
+ *   POST /extract/pdf-pages (multipart "file" and "pages", e.g. "2,5")
+ *   -> renders and OCRs those pages and responds { pages: [{ page, text, confidence }] } in the
+ *      order asked; the app uses it for scanned pages it cannot render itself (native)
+ *   POST /extract/image (multipart "file": a JPEG, PNG, WebP or BMP photo of a page)
+ *   -> OCRs it and responds { text, confidence }; native camera capture uses it
+ *
+ * Run with `npm run server`. Environment:
+ *   PORT                            default 8787
+ *   FIREBASE_PROJECT_ID             default omgreadx
+ *   FIREBASE_STORAGE_BUCKET         default omgreadx.firebasestorage.app
+ *   FIREBASE_STORAGE_EMULATOR_HOST  e.g. 127.0.0.1:9199 - write to the Storage emulator
+ *   FIREBASE_AUTH_EMULATOR_HOST     set when the Auth emulator is used (accepts its unsigned tokens)
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { PDFParse } from 'pdf-parse';
+import { createWorker, type Worker } from 'tesseract.js';
+import { readPdfInfo } from '../utils/documentMetadata';
+import { findPagesWithoutText, OCR_RENDER_WIDTH } from '../utils/pdfLocalExtractor';
+import { buildProcessedDocument } from '../utils/processedDocument';
+import { textPagesToBlocks } from '../utils/textCleanup';
+import { AuthError, verifyIdToken } from './auth';
+import { getBoundary, parseMultipart, type MultipartPart } from './multipart';
+import { writeJsonToStorage } from './storage';
+
+const config = {
+  port: Number(process.env.PORT || 8787),
+  projectId: process.env.FIREBASE_PROJECT_ID || 'omgreadx',
+  bucket: process.env.FIREBASE_STORAGE_BUCKET || 'omgreadx.firebasestorage.app',
+  storageEmulatorHost: process.env.FIREBASE_STORAGE_EMULATOR_HOST || undefined,
+  allowEmulatorTokens: Boolean(process.env.FIREBASE_AUTH_EMULATOR_HOST),
+  maxUploadBytes: 50 * 1024 * 1024,
+};
+
+class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req: IncomingMessage, limit: number): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > limit) throw new HttpError(413, `File is too large (max ${Math.round(limit / 1024 / 1024)} MB)`);
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Tesseract worker shared across requests (jobs are queued); language data loads on first use
+let ocrWorker: Promise<Worker> | null = null;
+
+function getOcrWorker(): Promise<Worker> {
+  if (!ocrWorker) {
+    ocrWorker = createWorker('eng').catch((error) => {
+      ocrWorker = null; // retry on the next request
+      throw error;
+    });
+  }
+  return ocrWorker;
+}
+
+/**
+ * Render pages (1-based) and OCR them; results are in the order of `pageNumbers`
+ */
+async function ocrPdfPages(parser: PDFParse, pageNumbers: number[]): Promise<{ text: string; confidence: number }[]> {
+  console.log(`[Server] OCR ${pageNumbers.length} scanned pages`);
+  const screenshots = await parser.getScreenshot({
+    partial: pageNumbers,
+    desiredWidth: OCR_RENDER_WIDTH,
+    imageBuffer: true,
+    imageDataUrl: false,
+  });
+  const worker = await getOcrWorker();
+  const results = new Map<number, { text: string; confidence: number }>();
+  for (const screenshot of screenshots.pages) {
+    const { data: ocr } = await worker.recognize(Buffer.from(screenshot.data));
+    results.set(screenshot.pageNumber, { text: ocr.text.trim(), confidence: Math.round(ocr.confidence) });
+  }
+  return pageNumbers.map((pageNumber) => results.get(pageNumber) ?? { text: '', confidence: 0 });
+}
+
+/**
+ * Text of each page; pages without a text layer (scans) are rendered and OCR'd in place
+ */
+async function extractPdf(data: Buffer) {
+  const parser = new PDFParse({ data: new Uint8Array(data) });
+  try {
+    const text = await parser.getText();
+    const info = await parser.getInfo().then((result) => result.info).catch(() => null);
+    const pageTexts: string[] = new Array(text.total).fill('');
+    for (const page of text.pages) pageTexts[page.num - 1] = page.text;
+
+    const scannedPages = findPagesWithoutText(pageTexts);
+    let pageConfidence: number[] | undefined;
+    if (scannedPages.length > 0) {
+      const ocr = await ocrPdfPages(parser, scannedPages);
+      // Text-layer pages are exact; scanned pages carry their OCR confidence
+      pageConfidence = pageTexts.map(() => 100);
+      scannedPages.forEach((pageNumber, i) => {
+        pageTexts[pageNumber - 1] = ocr[i].text;
+        pageConfidence![pageNumber - 1] = ocr[i].confidence;
+      });
+    }
+    return { pageTexts, total: text.total, info, pageConfidence };
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function authenticate(req: IncomingMessage): Promise<{ uid: string; idToken: string }> {
+  const idToken = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i)?.[1];
+  if (!idToken) throw new HttpError(401, 'Missing bearer token');
+
+  try {
+    const { uid } = await verifyIdToken(idToken, {
+      projectId: config.projectId,
+      allowEmulatorTokens: config.allowEmulatorTokens,
+    });
+    return { uid, idToken };
+  } catch (error: any) {
+    if (error instanceof AuthError) throw new HttpError(401, error.message);
+    throw error;
+  }
+}
+
+async function readFormParts(req: IncomingMessage): Promise<MultipartPart[]> {
+  const boundary = getBoundary(req.headers['content-type']);
+  if (!boundary) throw new HttpError(400, 'Expected multipart/form-data with a "file" field');
+
+  const body = await readBody(req, config.maxUploadBytes);
+  return parseMultipart(body, boundary);
+}
+
+function getPdfPart(parts: MultipartPart[]): MultipartPart {
+  const file = parts.find((part) => part.name === 'file');
+  if (!file || file.data.length === 0) throw new HttpError(400, 'Missing "file" field');
+  if (!file.data.subarray(0, 1024).toString('latin1').includes('%PDF-')) {
+    throw new HttpError(400, 'Uploaded file is not a PDF');
+  }
+  return file;
+}
+
+// Formats Tesseract reads, by their leading bytes
+function isSupportedImage(data: Buffer): boolean {
+  const head = data.subarray(0, 12);
+  return (
+    (head[0] === 0xff && head[1] === 0xd8) || // JPEG
+    head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) || // PNG
+    (head.toString('latin1', 0, 4) === 'RIFF' && head.toString('latin1', 8, 12) === 'WEBP') ||
+    head.toString('latin1', 0, 2) === 'BM'
+  );
+}
+
+async function handleExtractPdf(req: IncomingMessage, res: ServerResponse) {
+  const { uid, idToken } = await authenticate(req);
+  const file = getPdfPart(await readFormParts(req));
+
+  console.log(`[Server] Extracting ${file.filename || 'document.pdf'} (${file.data.length} bytes) for ${uid}`);
+  const result = await extractPdf(file.data);
+  const blocks = textPagesToBlocks(result.pageTexts);
+  if (blocks.length === 0) {
+    throw new HttpError(
+      422,
+      result.pageConfidence
+        ? 'No readable text found in this PDF, even after OCR of its scanned pages.'
+        : 'No text detected in this PDF. Please upload a text-based PDF (not images).'
+    );
+  }
+
+  const fileId = `${Date.now()}`;
+  const processed = buildProcessedDocument({
+    blocks,
+    sourceFormat: 'pdf',
+    pageCount: result.total,
+    pageConfidence: result.pageConfidence,
+    ...readPdfInfo(result.info),
+  });
+  await writeJsonToStorage({
+    bucket: config.bucket,
+    path: `users/${uid}/processed/${fileId}.json`,
+    json: processed,
+    idToken,
+    emulatorHost: config.storageEmulatorHost,
+  });
+
+  console.log(`[Server] Wrote users/${uid}/processed/${fileId}.json (${result.total} pages)`);
+  sendJson(res, 200, { fileId, pages: result.total, method: result.pageConfidence ? 'pdf-parse+ocr' : 'pdf-parse' });
+}
+
+async function handleExtractPdfPages(req: IncomingMessage, res: ServerResponse) {
+  const { uid } = await authenticate(req);
+  const parts = await readFormParts(req);
+  const file = getPdfPart(parts);
+  const pagesField = parts.find((part) => part.name === 'pages')?.data.toString('utf8') || '';
+  const pageNumbers = pagesField.split(',').map((value) => Number(value.trim()));
+  // An empty page list would render every page
+  if (!pagesField.trim() || pageNumbers.some((n) => !Number.isInteger(n) || n < 1)) {
+    throw new HttpError(400, 'Expected "pages" as comma-separated page numbers');
+  }
+
+  console.log(`[Server] OCR of ${pageNumbers.length} pages of ${file.filename || 'document.pdf'} for ${uid}`);
+  const parser = new PDFParse({ data: new Uint8Array(file.data) });
+  try {
+    const ocr = await ocrPdfPages(parser, pageNumbers);
+    sendJson(res, 200, { pages: pageNumbers.map((page, i) => ({ page, ...ocr[i] })) });
+  } finally {
+    await parser.destroy();
+  }
+}
+
+async function handleExtractImage(req: IncomingMessage, res: ServerResponse) {
+  const { uid } = await authenticate(req);
+  const file = (await readFormParts(req)).find((part) => part.name === 'file');
+  if (!file || file.data.length === 0) throw new HttpError(400, 'Missing "file" field');
+  if (!isSupportedImage(file.data)) throw new HttpError(400, 'Uploaded file is not a JPEG, PNG, WebP or BMP image');
+
+  console.log(`[Server] OCR of ${file.filename || 'image'} (${file.data.length} bytes) for ${uid}`);
+  const worker = await getOcrWorker();
+  const { data: ocr } = await worker.recognize(file.data);
+  sendJson(res, 200, { text: ocr.text.trim(), confidence: Math.round(ocr.confidence) });
+}
+
+const server = createServer(async (req, res) => {
+  // The web build calls the server from another origin
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const path = (req.url || '/').split('?')[0];
+  try {
+    if (req.method === 'GET' && path === '/health') {
+      sendJson(res, 200, { ok: true });
+    } else if (req.method === 'POST' && path === '/extract/pdf') {
+      await handleExtractPdf(req, res);
+    } else if (req.method === 'POST' && path === '/extract/pdf-pages') {
+      await handleExtractPdfPages(req, res);
+    } else if (req.method === 'POST' && path === '/extract/image') {
+      await handleExtractImage(req, res);
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+    }
+  } catch (error: any) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status === 500) console.error('[Server] Request failed:', error);
+    sendJson(res, status, { error: error?.message || 'Internal error' });
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`[Server] Extraction server listening on http://localhost:${config.port}`);
+  console.log(
+    `[Server] Storage: ${config.storageEmulatorHost ? `emulator at ${config.storageEmulatorHost}` : `bucket ${config.bucket}`}` +
+      (config.allowEmulatorTokens ? ' (accepting Auth emulator tokens)' : '')
+  );
+});
@@ -0,0 +1,51 @@
+/**
+ * Minimal multipart/form-data parser for buffered request bodies
+ */
+
+export interface MultipartPart {
+  name: string;
+  filename?: string;
+  contentType?: string;
+  data: Buffer;
+}
+
+export function getBoundary(contentType: string | undefined): string | null {
+  const match = (contentType || '').match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  return match ? (match[1] || match[2]).trim() : null;
+}
+
+export function parseMultipart(body: Buffer, boundary: string): MultipartPart[] {
+  const delimiter = Buffer.from(`--${boundary}`);
+  const parts: MultipartPart[] = [];
+
+  let pos = body.indexOf(delimiter);
+  while (pos !== -1) {
+    let start = pos + delimiter.length;
+    // Closing delimiter: "--boundary--"
+    if (body[start] === 0x2d && body[start + 1] === 0x2d) break;
+    if (body[start] === 0x0d && body[start + 1] === 0x0a) start += 2;
+
+    const headerEnd = body.indexOf('\r\n\r\n', start);
+    if (headerEnd === -1) break;
+    const next = body.indexOf(delimiter, headerEnd + 4);
+    if (next === -1) break;
+
+    const headers = body.subarray(start, headerEnd).toString('utf8');
+    // Part data ends with the CRLF that precedes the next delimiter
+    const data = body.subarray(headerEnd + 4, Math.max(headerEnd + 4, next - 2));
+
+    const disposition = headers.match(/content-disposition:[^\r\n]*/i)?.[0] || '';
+    const name = disposition.match(/\sname="([^"]*)"/i)?.[1];
+    if (name !== undefined) {
+      parts.push({
+        name,
+        filename: disposition.match(/filename="([^"]*)"/i)?.[1],
+        contentType: headers.match(/content-type:\s*([^\r\n]+)/i)?.[1].trim(),
+        data,
+      });
+    }
+    pos = next;
+  }
+
+  return parts;
+}
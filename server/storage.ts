@@ -0,0 +1,30 @@
+/**
+ * Write objects to Firebase Storage over the REST API
+ * With an emulator host the emulator's admin token is used; otherwise the request runs as
+ * the signed-in user, so the project's Storage rules apply exactly as they do for the app.
+ */
+
+export async function writeJsonToStorage(params: {
+  bucket: string;
+  path: string;
+  json: unknown;
+  idToken: string;
+  emulatorHost?: string;
+}): Promise<void> {
+  const base = params.emulatorHost ? `http://${params.emulatorHost}` : 'https://firebasestorage.googleapis.com';
+  const url = `${base}/v0/b/${encodeURIComponent(params.bucket)}/o?uploadType=media&name=${encodeURIComponent(params.path)}`;
+
+  const resp = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: params.emulatorHost ? 'Bearer owner' : `Firebase ${params.idToken}`,
+    },
+    body: JSON.stringify(params.json),
+  });
+
+  if (!resp.ok) {
+    const details = await resp.text().catch(() => '');
+    throw new Error(`Storage write failed (${resp.status})${details ? `: ${details}` : ''}`);
+  }
+}
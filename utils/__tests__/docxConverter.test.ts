@@ -0,0 +1,167 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseDocxBlocks, parseDocxProperties } from '../docxConverter';
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+
+function documentXml(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:document ${W_NS}><w:body>${body}<w:sectPr/></w:body></w:document>`;
+}
+
+function para(text: string, pPr = ''): string {
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}<w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+function listPara(text: string, numId: string, ilvl = 0): string {
+  return para(text, `<w:numPr><w:ilvl w:val="${ilvl}"/><w:numId w:val="${numId}"/></w:numPr>`);
+}
+
+// A German template: style ids are localized, the names are not
+const STYLES_XML = `<w:styles ${W_NS}>
+  <w:style w:type="paragraph" w:styleId="berschrift1"><w:name w:val="heading 1"/></w:style>
+  <w:style w:type="paragraph" w:styleId="berschrift2"><w:name w:val="heading 2"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Titel"><w:name w:val="Title"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Zitat"><w:name w:val="Quote"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Code"><w:name w:val="HTML Preformatted"/></w:style>
+  <w:style w:type="paragraph" w:styleId="Aufzhlung"><w:name w:val="List Bullet"/><w:pPr><w:numPr><w:numId w:val="1"/></w:numPr></w:pPr></w:style>
+</w:styles>`;
+
+// numId 1 is a bullet list; numId 2 is decimal at level 0 and bullets at level 1
+const NUMBERING_XML = `<w:numbering ${W_NS}>
+  <w:abstractNum w:abstractNumId="10"><w:lvl w:ilvl="0"><w:numFmt w:val="bullet"/></w:lvl></w:abstractNum>
+  <w:abstractNum w:abstractNumId="20">
+    <w:lvl w:ilvl="0"><w:numFmt w:val="decimal"/></w:lvl>
+    <w:lvl w:ilvl="1"><w:numFmt w:val="bullet"/></w:lvl>
+  </w:abstractNum>
+  <w:num w:numId="1"><w:abstractNumId w:val="10"/></w:num>
+  <w:num w:numId="2"><w:abstractNumId w:val="20"/></w:num>
+</w:numbering>`;
+
+describe('parseDocxBlocks', () => {
+  it('maps heading styles through their names, built-in ids and outline levels', () => {
+    const blocks = parseDocxBlocks({
+      documentXml: documentXml(
+        para('The Water Cycle', '<w:pStyle w:val="Titel"/>') +
+          para('Evaporation', '<w:pStyle w:val="berschrift1"/>') +
+          para('Oceans', '<w:pStyle w:val="berschrift2"/>') +
+          para('Rivers', '<w:pStyle w:val="Heading3"/>') +
+          para('Lakes', '<w:outlineLvl w:val="3"/>') +
+          para('Water moves between the sea, the air and the land.')
+      ),
+      stylesXml: STYLES_XML,
+    });
+    assert.deepEqual(blocks, [
+      { type: 'heading', level: 1, text: 'The Water Cycle' },
+      { type: 'heading', level: 1, text: 'Evaporation' },
+      { type: 'heading', level: 2, text: 'Oceans' },
+      { type: 'heading', level: 3, text: 'Rivers' },
+      { type: 'heading', level: 4, text: 'Lakes' },
+      { type: 'paragraph', text: 'Water moves between the sea, the air and the land.' },
+    ]);
+  });
+
+  it('numbers ordered lists per level and restarts them after other content', () => {
+    const blocks = parseDocxBlocks({
+      documentXml: documentXml(
+        listPara('Heat the water', '2') +
+          listPara('Small bubbles form', '2', 1) +
+          listPara('Steam rises', '2', 1) +
+          listPara('Cool the steam', '2') +
+          para('Then start again:') +
+          listPara('Collect the drops', '2')
+      ),
+      numberingXml: NUMBERING_XML,
+    });
+    assert.deepEqual(blocks, [
+      { type: 'listItem', level: 0, marker: '1.', text: 'Heat the water' },
+      { type: 'listItem', level: 1, marker: '•', text: 'Small bubbles form' },
+      { type: 'listItem', level: 1, marker: '•', text: 'Steam rises' },
+      { type: 'listItem', level: 0, marker: '2.', text: 'Cool the steam' },
+      { type: 'paragraph', text: 'Then start again:' },
+      { type: 'listItem', level: 0, marker: '1.', text: 'Collect the drops' },
+    ]);
+  });
+
+  it('reads bullets from a numbered style and ignores numbering removed with numId 0', () => {
+    const blocks = parseDocxBlocks({
+      documentXml: documentXml(
+        para('Rain', '<w:pStyle w:val="Aufzhlung"/>') +
+          para('Snow', '<w:pStyle w:val="Aufzhlung"/>') +
+          para('Not a list item', '<w:numPr><w:ilvl w:val="0"/><w:numId w:val="0"/></w:numPr>')
+      ),
+      stylesXml: STYLES_XML,
+      numberingXml: NUMBERING_XML,
+    });
+    assert.deepEqual(blocks, [
+      { type: 'listItem', level: 0, marker: '•', text: 'Rain' },
+      { type: 'listItem', level: 0, marker: '•', text: 'Snow' },
+      { type: 'paragraph', text: 'Not a list item' },
+    ]);
+  });
+
+  it('maps quote and code styles', () => {
+    const blocks = parseDocxBlocks({
+      documentXml: documentXml(
+        para('All the rivers run into the sea.', '<w:pStyle w:val="Zitat"/>') +
+          para('print(&quot;hello&quot;)', '<w:pStyle w:val="Code"/>') +
+          para('Unknown quote style', '<w:pStyle w:val="IntenseQuote"/>')
+      ),
+      stylesXml: STYLES_XML,
+    });
+    assert.deepEqual(blocks, [
+      { type: 'quote', text: 'All the rivers run into the sea.' },
+      { type: 'code', text: 'print("hello")' },
+      { type: 'quote', text: 'Unknown quote style' },
+    ]);
+  });
+
+  it('turns table rows into cells, reading nested tables as cell content', () => {
+    const cell = (content: string) => `<w:tc><w:tcPr><w:tcW w:w="2000"/></w:tcPr>${content}</w:tc>`;
+    const nested = `<w:tbl><w:tr>${cell(para('inner'))}</w:tr></w:tbl>`;
+    const table =
+      '<w:tbl><w:tblPr/>' +
+      `<w:tr>${cell(para('Planet'))}${cell(para('Moons'))}</w:tr>` +
+      `<w:tr>${cell(para('Mars'))}${cell(para('2'))}</w:tr>` +
+      `<w:tr>${cell('<w:p/>')}${cell('<w:p/>')}</w:tr>` +
+      `<w:tr>${cell(para('Earth') + nested)}${cell('<w:p/>')}</w:tr>` +
+      '</w:tbl>';
+    const blocks = parseDocxBlocks({ documentXml: documentXml(para('Before') + table + para('After')) });
+    assert.deepEqual(blocks, [
+      { type: 'paragraph', text: 'Before' },
+      { type: 'tableRow', text: 'Planet | Moons', cells: ['Planet', 'Moons'] },
+      { type: 'tableRow', text: 'Mars | 2', cells: ['Mars', '2'] },
+      { type: 'tableRow', text: 'Earth inner', cells: ['Earth inner', ''] },
+      { type: 'paragraph', text: 'After' },
+    ]);
+  });
+
+  it('joins runs, keeps tabs and breaks as spaces and skips empty paragraphs', () => {
+    const xml = documentXml(
+      '<w:p><w:r><w:t>Wa</w:t></w:r><w:r><w:rPr><w:b/></w:rPr><w:t>ter</w:t></w:r><w:r><w:tab/><w:t>cycle</w:t>' +
+        '<w:br/><w:t>non</w:t><w:noBreakHyphen/><w:t>stop &amp; more</w:t></w:r></w:p>' +
+        '<w:p><w:pPr><w:jc w:val="center"/></w:pPr></w:p>'
+    );
+    assert.deepEqual(parseDocxBlocks({ documentXml: xml }), [
+      { type: 'paragraph', text: 'Water cycle non-stop & more' },
+    ]);
+  });
+});
+
+describe('parseDocxProperties', () => {
+  it('reads title, author, language and page count', () => {
+    const core =
+      '<cp:coreProperties xmlns:cp="x" xmlns:dc="http://purl.org/dc/elements/1.1/">' +
+      '<dc:title>The Water Cycle</dc:title><dc:creator>Ana Ruiz</dc:creator><dc:language>en-GB</dc:language>' +
+      '</cp:coreProperties>';
+    const app = '<Properties><Pages>12</Pages><Words>2400</Words></Properties>';
+    const properties = parseDocxProperties(core, app);
+    assert.equal(properties.title, 'The Water Cycle');
+    assert.equal(properties.author, 'Ana Ruiz');
+    assert.equal(properties.pageCount, 12);
+    assert.equal(properties.language, 'en');
+  });
+
+  it('leaves the page count out when app.xml has none', () => {
+    assert.equal('pageCount' in parseDocxProperties(null, '<Properties><Pages>0</Pages></Properties>'), false);
+  });
+});
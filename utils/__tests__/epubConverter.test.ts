@@ -0,0 +1,151 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { decodeEntities, extractEpub, xhtmlToBlocks } from '../epubConverter';
+import { CorruptArchiveError, EncryptedFileError } from '../importErrors';
+
+const CONTAINER_XML = `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>`;
+
+function xhtml(body: string): string {
+  return `<?xml version="1.0" encoding="utf-8"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>x</title></head><body>${body}</body></html>`;
+}
+
+function opf(manifest: string, spine: string, spineAttrs = ''): string {
+  return `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>The Lighthouse</dc:title><dc:creator>Ada Moss</dc:creator><dc:language>en-GB</dc:language>
+  </metadata>
+  <manifest>${manifest}</manifest>
+  <spine${spineAttrs}>${spine}</spine>
+</package>`;
+}
+
+async function buildEpub(files: { [path: string]: string }): Promise<JSZip> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file('META-INF/container.xml', CONTAINER_XML);
+  for (const [path, content] of Object.entries(files)) zip.file(path, content);
+  // Round-trip through bytes, as an imported file would be read
+  return JSZip.loadAsync(await zip.generateAsync({ type: 'uint8array' }));
+}
+
+// EPUB 3: the spine order differs from the manifest order, and one item is not linear
+const EPUB3_FILES = {
+  'OEBPS/content.opf': opf(
+    '<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>' +
+      '<item id="c2" href="text/two.xhtml" media-type="application/xhtml+xml"/>' +
+      '<item id="c1" href="text/one%20a.xhtml" media-type="application/xhtml+xml"/>' +
+      '<item id="notes" href="text/notes.xhtml" media-type="application/xhtml+xml"/>' +
+      '<item id="css" href="style.css" media-type="text/css"/>',
+    '<itemref idref="c1"/><itemref idref="notes" linear="no"/><itemref idref="c2"/><itemref idref="missing"/>'
+  ),
+  'OEBPS/nav.xhtml': xhtml(
+    '<nav epub:type="toc"><ol><li><a href="text/one%20a.xhtml#start">Arrival</a></li>' +
+      '<li><a href="text/two.xhtml">The <em>Storm</em></a></li></ol></nav>'
+  ),
+  'OEBPS/text/one a.xhtml': xhtml('<h1>Arrival</h1><p>The keeper climbed the stairs.</p>'),
+  'OEBPS/text/two.xhtml': xhtml('<h2>Night</h2><p>Waves broke on the rocks.</p>'),
+  'OEBPS/text/notes.xhtml': xhtml('<p>Endnotes</p>'),
+};
+
+describe('extractEpub', () => {
+  it('reads chapters in spine order with titles from the nav document', async () => {
+    const book = await extractEpub(await buildEpub(EPUB3_FILES));
+    assert.equal(book.title, 'The Lighthouse');
+    assert.equal(book.author, 'Ada Moss');
+    assert.equal(book.language, 'en');
+    assert.deepEqual(book.chapters, [
+      { title: 'Arrival', blocks: [{ type: 'paragraph', text: 'The keeper climbed the stairs.' }] },
+      {
+        title: 'The Storm',
+        blocks: [
+          { type: 'heading', level: 2, text: 'Night' },
+          { type: 'paragraph', text: 'Waves broke on the rocks.' },
+        ],
+      },
+    ]);
+  });
+
+  it('reports progress for each spine item', async () => {
+    const calls: [number, number][] = [];
+    await extractEpub(await buildEpub(EPUB3_FILES), (index, total) => calls.push([index, total]));
+    assert.deepEqual(calls, [[1, 3], [2, 3], [3, 3]]);
+  });
+
+  it('falls back to NCX titles, then the first heading, then a numbered title', async () => {
+    const zip = await buildEpub({
+      'OEBPS/content.opf': opf(
+        '<item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>' +
+          '<item id="a" href="a.html" media-type="application/xhtml+xml"/>' +
+          '<item id="b" href="b.html" media-type="application/xhtml+xml"/>' +
+          '<item id="c" href="c.html" media-type="application/xhtml+xml"/>',
+        '<itemref idref="a"/><itemref idref="b"/><itemref idref="c"/>',
+        ' toc="ncx"'
+      ),
+      'OEBPS/toc.ncx':
+        '<ncx><navMap><navPoint id="p1"><navLabel><text>Part One</text></navLabel><content src="a.html"/>' +
+        '<navPoint id="p1a"><navLabel><text>Nested</text></navLabel><content src="a.html#x"/></navPoint>' +
+        '</navPoint></navMap></ncx>',
+      'OEBPS/a.html': xhtml('<p>First.</p>'),
+      'OEBPS/b.html': xhtml('<h3>Calm Seas</h3><p>Second.</p>'),
+      'OEBPS/c.html': xhtml('<p>Third.</p>'),
+    });
+    const book = await extractEpub(zip);
+    assert.deepEqual(
+      book.chapters.map((chapter) => chapter.title),
+      ['Part One', 'Calm Seas', 'Chapter 3']
+    );
+  });
+
+  it('rejects DRM-protected books but accepts obfuscated fonts', async () => {
+    const encryption = (algorithm: string) =>
+      '<encryption xmlns="urn:oasis:names:tc:opendocument:xmlns:container" xmlns:enc="http://www.w3.org/2001/04/xmlenc#">' +
+      `<enc:EncryptedData><enc:EncryptionMethod Algorithm="${algorithm}"/>` +
+      '<enc:CipherData><enc:CipherReference URI="OEBPS/text/two.xhtml"/></enc:CipherData></enc:EncryptedData></encryption>';
+
+    const drm = await buildEpub({
+      ...EPUB3_FILES,
+      'META-INF/encryption.xml': encryption('http://www.w3.org/2001/04/xmlenc#aes128-cbc'),
+    });
+    await assert.rejects(extractEpub(drm), EncryptedFileError);
+
+    const fonts = await buildEpub({
+      ...EPUB3_FILES,
+      'META-INF/encryption.xml': encryption('http://www.idpf.org/2008/embedding'),
+    });
+    assert.equal((await extractEpub(fonts)).chapters.length, 2);
+  });
+
+  it('reports a missing container and an empty spine', async () => {
+    await assert.rejects(extractEpub(new JSZip()), CorruptArchiveError);
+    const empty = await buildEpub({ 'OEBPS/content.opf': opf('', '') });
+    await assert.rejects(extractEpub(empty), /spine\) is empty/);
+  });
+});
+
+describe('xhtmlToBlocks', () => {
+  it('types blocks by their innermost element and splits table rows into cells', () => {
+    assert.deepEqual(
+      xhtmlToBlocks(
+        '<section><h4>Log</h4><blockquote><p>All &amp; well.</p></blockquote>' +
+          '<table><tr><td>Mon</td><td>Fog</td></tr></table><div>Loose <b>text</b></div></section>'
+      ),
+      [
+        { type: 'heading', level: 4, text: 'Log' },
+        { type: 'quote', text: 'All & well.' },
+        { type: 'tableRow', text: 'Mon | Fog', cells: ['Mon', 'Fog'] },
+        { type: 'paragraph', text: 'Loose text' },
+      ]
+    );
+  });
+});
+
+describe('decodeEntities', () => {
+  it('decodes named and numeric references and leaves unknown ones', () => {
+    assert.equal(decodeEntities('&lt;a&gt; &#233;&#x2014;&hellip; &unknown;'), '<a> é—… &unknown;');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractReadableHtml, htmlToDocument, isHidden, looksLikeHtml } from '../htmlConverter';
+
+const LONG_PARAGRAPH =
+  'Glaciers form where more snow falls in winter than melts in summer, and over many years the snow packs into ice.';
+
+describe('htmlToDocument', () => {
+  it('maps headings, paragraphs, nested lists, quotes, code and tables', () => {
+    const html = `<!DOCTYPE html>
+<html lang="fr-CA">
+<head>
+  <title>Ignored &amp; replaced</title>
+  <meta property="og:title" content="Les glaciers">
+  <meta name="author" content="Marie Dubois">
+</head>
+<body>
+  <h1>Les glaciers</h1>
+  <p>First <em>paragraph</em>,<br>with a break.</p>
+  <ol start="3">
+    <li>Snow falls</li>
+    <li>It packs down
+      <ul><li>into firn</li><li>then ice</li></ul>
+    </li>
+    <li>Ice flows</li>
+  </ol>
+  <blockquote><p>Ice is a slow river.</p></blockquote>
+  <pre>flow = slope * mass</pre>
+  <table>
+    <tr><th>Glacier</th><th>Length</th></tr>
+    <tr><td>Aletsch</td><td><p>23</p><p>km</p></td></tr>
+  </table>
+</body>
+</html>`;
+    assert.deepEqual(htmlToDocument(html), {
+      blocks: [
+        { type: 'heading', level: 1, text: 'Les glaciers' },
+        { type: 'paragraph', text: 'First paragraph, with a break.' },
+        { type: 'listItem', level: 0, marker: '3.', text: 'Snow falls' },
+        { type: 'listItem', level: 0, marker: '4.', text: 'It packs down' },
+        { type: 'listItem', level: 1, marker: '•', text: 'into firn' },
+        { type: 'listItem', level: 1, marker: '•', text: 'then ice' },
+        { type: 'listItem', level: 0, marker: '5.', text: 'Ice flows' },
+        { type: 'quote', text: 'Ice is a slow river.' },
+        { type: 'code', text: 'flow = slope * mass' },
+        { type: 'tableRow', text: 'Glacier | Length', cells: ['Glacier', 'Length'] },
+        { type: 'tableRow', text: 'Aletsch | 23 km', cells: ['Aletsch', '23 km'] },
+      ],
+      title: 'Les glaciers',
+      author: 'Marie Dubois',
+      language: 'fr',
+    });
+  });
+
+  it('keeps line breaks and indentation inside <pre>', () => {
+    const html =
+      '<body><p>Example:</p><pre>\n<code class="js"><span>function</span> a() {\n    return 1;&lt;br&gt;\n}</code>\n</pre>' +
+      '<pre>x<br>  y</pre></body>';
+    assert.deepEqual(htmlToDocument(html).blocks, [
+      { type: 'paragraph', text: 'Example:' },
+      { type: 'code', text: 'function a() {\n    return 1;<br>\n}' },
+      { type: 'code', text: 'x\n  y' },
+    ]);
+  });
+
+  it('falls back to the <title> and reads a page without <body>', () => {
+    const doc = htmlToDocument('<html><head><title>Ice Ages</title></head><p>Cold times.</p></html>');
+    assert.equal(doc.title, 'Ice Ages');
+    assert.deepEqual(doc.blocks, [{ type: 'paragraph', text: 'Cold times.' }]);
+  });
+});
+
+describe('extractReadableHtml', () => {
+  it('drops scripts, styles, comments, hidden elements and page chrome', () => {
+    const html =
+      '<nav><a href="/">Home</a></nav><header>Site name</header>' +
+      '<script>var tracking = 1;</script><style>p { color: red }</style><!-- comment -->' +
+      '<p>Visible</p><p hidden>Secret</p><div aria-hidden="true">Icon</div><p style="display: none">Gone</p>' +
+      '<p class="hidden-on-print">Still visible</p><footer>Copyright</footer>';
+    const text = extractReadableHtml(html).replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+    assert.equal(text, 'Visible Still visible');
+  });
+
+  it('prefers the longest article and keeps its own header', () => {
+    const html =
+      `<header>Site</header><article><p>Short teaser</p></article>` +
+      `<article><header><h1>Glaciers</h1></header><p>${LONG_PARAGRAPH}</p><p>${LONG_PARAGRAPH}</p></article>` +
+      '<aside>Related links</aside>';
+    const blocks = htmlToDocument(`<body>${html}</body>`).blocks;
+    assert.deepEqual(
+      blocks.map((b) => b.text.slice(0, 12)),
+      ['Glaciers', LONG_PARAGRAPH.slice(0, 12), LONG_PARAGRAPH.slice(0, 12)]
+    );
+  });
+
+  it('ignores a short article on a long page', () => {
+    const html = `<article><p>Teaser</p></article><p>${LONG_PARAGRAPH}</p><p>${LONG_PARAGRAPH}</p><p>${LONG_PARAGRAPH}</p>`;
+    const blocks = htmlToDocument(`<body>${html}</body>`).blocks;
+    assert.equal(blocks[0].text, 'Teaser');
+    assert.equal(blocks.length, 4);
+  });
+});
+
+describe('isHidden', () => {
+  it('matches the hidden attribute, aria-hidden and hiding styles only', () => {
+    assert.equal(isHidden(' hidden'), true);
+    assert.equal(isHidden(' hidden="hidden" class="x"'), true);
+    assert.equal(isHidden(' aria-hidden="true"'), true);
+    assert.equal(isHidden(' style="visibility: hidden"'), true);
+    assert.equal(isHidden(' class="hidden"'), false);
+    assert.equal(isHidden(' data-note="hidden"'), false);
+  });
+});
+
+describe('looksLikeHtml', () => {
+  it('recognizes a doctype or an html tag near the start', () => {
+    assert.equal(looksLikeHtml('\ufeff  <!DOCTYPE html><html>'), true);
+    assert.equal(looksLikeHtml('<?xml version="1.0"?>\n<!-- saved -->\n<html lang="en">'), true);
+    assert.equal(looksLikeHtml('<p>Just a fragment</p>'), false);
+    assert.equal(looksLikeHtml('# Markdown with <html> later'), false);
+  });
+});
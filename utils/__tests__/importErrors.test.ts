@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  EncryptedFileError,
+  getFriendlyImportError,
+  getImportErrorCode,
+  type ImportErrorCode,
+} from '../importErrors';
+
+const withCode = (code: string) => Object.assign(new Error('Firebase Storage: failed'), { code });
+const withStatus = (status: number) => Object.assign(new Error('Request failed'), { status });
+const named = (name: string, message = 'failed') => Object.assign(new Error(message), { name });
+
+const CASES: [string, unknown, ImportErrorCode | null][] = [
+  // Typed errors keep their own code
+  ['typed error', new EncryptedFileError(), 'encrypted-file'],
+  ['serialized typed error', { name: 'ImportError', code: 'timeout', message: 'x' }, 'timeout'],
+
+  // Firebase Storage codes
+  ['storage/unauthorized', withCode('storage/unauthorized'), 'storage-denied'],
+  ['storage/unauthenticated', withCode('storage/unauthenticated'), 'storage-denied'],
+  ['storage/quota-exceeded', withCode('storage/quota-exceeded'), 'quota-exceeded'],
+  ['storage/retry-limit-exceeded', withCode('storage/retry-limit-exceeded'), 'timeout'],
+  ['other storage code', withCode('storage/object-not-found'), null],
+
+  // HTTP statuses
+  ['HTTP 401', withStatus(401), 'storage-denied'],
+  ['HTTP 403', withStatus(403), 'storage-denied'],
+  ['HTTP 402', withStatus(402), 'quota-exceeded'],
+  ['HTTP 500', withStatus(500), null],
+
+  // pdf.js exception names
+  ['PasswordException', named('PasswordException', 'No password given'), 'encrypted-file'],
+  ['InvalidPDFException', named('InvalidPDFException'), 'corrupt-archive'],
+
+  // Locked files
+  ['password-protected', new Error('This PDF is password-protected.'), 'encrypted-file'],
+  ['incorrect password', new Error('Incorrect Password'), 'encrypted-file'],
+  ['DRM-protected', new Error('This EPUB is DRM-protected.'), 'encrypted-file'],
+  ['is encrypted', new Error('The document is encrypted'), 'encrypted-file'],
+  ['encrypted PDF', new Error('Cannot open encrypted PDF'), 'encrypted-file'],
+
+  // Messages that only mention encryption or DRM
+  ['advice against DRM', new Error('EPUB extraction failed: bad XML. Please ensure the file is not DRM-protected or corrupted.'), null],
+  ['encrypted connection', new Error('Could not set up an encrypted connection'), null],
+  ['word containing drm', new Error('Unknown font in sdrmap table'), null],
+  ['password field', new Error('Missing field: passwordHint'), null],
+
+  // Other messages
+  ['timeout', new Error('Request timed out'), 'timeout'],
+  ['took too long', new Error('OCR took too long'), 'timeout'],
+  ['no text', new Error('No text detected in this image'), 'no-text-layer'],
+  ['network', new TypeError('Network request failed'), 'backend-unreachable'],
+  ['fetch', new TypeError('Failed to fetch'), 'backend-unreachable'],
+  ['refused', new Error('connect ECONNREFUSED 127.0.0.1:3001'), 'backend-unreachable'],
+  ['unsupported', new Error('Unsupported file type'), 'unsupported-format'],
+  ['zip', new Error("Corrupted zip: can't find end of central directory"), 'corrupt-archive'],
+  ['unknown message', new Error('Something else went wrong'), null],
+
+  // Not errors
+  ['null', null, null],
+  ['string', 'encrypted', null],
+  ['empty message', new Error(''), null],
+];
+
+describe('getImportErrorCode', () => {
+  for (const [label, error, expected] of CASES) {
+    it(`${label} -> ${expected}`, () => {
+      assert.equal(getImportErrorCode(error), expected);
+    });
+  }
+});
+
+describe('getFriendlyImportError', () => {
+  it('maps a code or a saved code to a message and an action', () => {
+    assert.equal(getFriendlyImportError(withStatus(403)).code, 'storage-denied');
+    assert.equal(getFriendlyImportError('encrypted-file').message, 'This file is password-protected or DRM-protected.');
+  });
+
+  it('keeps the message of unknown errors', () => {
+    assert.deepEqual(getFriendlyImportError(new Error('Disk full')), {
+      code: null,
+      message: 'Disk full',
+      action: 'Please try again, or re-upload the file.',
+    });
+    assert.equal(getFriendlyImportError(new Error('  ')).message, 'Processing failed.');
+  });
+});
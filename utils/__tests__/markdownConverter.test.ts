@@ -0,0 +1,139 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { markdownToDocument, stripInlineMarkdown } from '../markdownConverter';
+
+describe('stripInlineMarkdown', () => {
+  it('reduces emphasis, links, images and code spans to their text', () => {
+    assert.equal(
+      stripInlineMarkdown('**Bold**, *italic*, _under_ and ~~gone~~ with [a link](https://x.org) and ![a map](map.png)'),
+      'Bold, italic, under and gone with a link and a map'
+    );
+    assert.equal(
+      stripInlineMarkdown('Run `npm *test*` then see [the docs][docs] or <https://x.org>'),
+      'Run npm *test* then see the docs or https://x.org'
+    );
+  });
+
+  it('keeps underscores inside words, escaped characters and entities', () => {
+    assert.equal(
+      stripInlineMarkdown('snake_case_name \\*not italic\\* &amp; <b>bold</b>'),
+      'snake_case_name *not italic* & bold'
+    );
+  });
+});
+
+describe('markdownToDocument', () => {
+  it('reads front matter and ATX and setext headings', () => {
+    const markdown = [
+      '---',
+      'title: "Volcanoes"',
+      'author: Sam Lee',
+      'lang: en-US',
+      '---',
+      '# Volcanoes #',
+      '',
+      'How they form',
+      '-------------',
+      '',
+      'Magma rises',
+      'through the crust.',
+    ].join('\n');
+    assert.deepEqual(markdownToDocument(markdown), {
+      blocks: [
+        { type: 'heading', level: 1, text: 'Volcanoes' },
+        { type: 'heading', level: 2, text: 'How they form' },
+        { type: 'paragraph', text: 'Magma rises through the crust.' },
+      ],
+      title: 'Volcanoes',
+      author: 'Sam Lee',
+      language: 'en',
+    });
+  });
+
+  it('takes the title from the first H1 without front matter', () => {
+    const doc = markdownToDocument('Intro text\n\n## Part\n\n# The Real Title\r\n');
+    assert.equal(doc.title, 'The Real Title');
+    assert.equal(doc.author, undefined);
+  });
+
+  it('nests bullet and numbered lists and numbers from the list start', () => {
+    const markdown = [
+      '- Rocks',
+      '  - Igneous',
+      '  - Sedimentary',
+      '    which forms',
+      '    in layers',
+      '- Minerals',
+      '',
+      '3. Third',
+      '4. Fourth',
+      '   1. Sub one',
+      '   2. Sub two',
+      '5. Fifth',
+      '',
+      'After the list.',
+    ].join('\n');
+    assert.deepEqual(markdownToDocument(markdown).blocks, [
+      { type: 'listItem', level: 0, marker: '•', text: 'Rocks' },
+      { type: 'listItem', level: 1, marker: '•', text: 'Igneous' },
+      { type: 'listItem', level: 1, marker: '•', text: 'Sedimentary which forms in layers' },
+      { type: 'listItem', level: 0, marker: '•', text: 'Minerals' },
+      { type: 'listItem', level: 0, marker: '3.', text: 'Third' },
+      { type: 'listItem', level: 0, marker: '4.', text: 'Fourth' },
+      { type: 'listItem', level: 1, marker: '1.', text: 'Sub one' },
+      { type: 'listItem', level: 1, marker: '2.', text: 'Sub two' },
+      { type: 'listItem', level: 0, marker: '5.', text: 'Fifth' },
+      { type: 'paragraph', text: 'After the list.' },
+    ]);
+  });
+
+  it('does not start a list from a year at the start of a wrapped line', () => {
+    assert.deepEqual(markdownToDocument('The eruption began in\n2019. was a quiet year').blocks, [
+      { type: 'paragraph', text: 'The eruption began in 2019. was a quiet year' },
+    ]);
+  });
+
+  it('turns tables into rows of cells, skipping the separator', () => {
+    const markdown = [
+      '| Volcano | Height (m) |',
+      '|:--------|-----------:|',
+      '| **Etna** | 3,357 |',
+      '| Fuji | 3,776 |',
+      '| a \\| b | |',
+      '',
+      'Source: survey.',
+    ].join('\n');
+    assert.deepEqual(markdownToDocument(markdown).blocks, [
+      { type: 'tableRow', text: 'Volcano | Height (m)', cells: ['Volcano', 'Height (m)'] },
+      { type: 'tableRow', text: 'Etna | 3,357', cells: ['Etna', '3,357'] },
+      { type: 'tableRow', text: 'Fuji | 3,776', cells: ['Fuji', '3,776'] },
+      { type: 'tableRow', text: 'a | b | ', cells: ['a | b', ''] },
+      { type: 'paragraph', text: 'Source: survey.' },
+    ]);
+  });
+
+  it('keeps fenced and indented code literal and splits quotes on blank lines', () => {
+    const markdown = [
+      '```js',
+      'const heat = 1200; // *not* emphasis',
+      '```',
+      '',
+      '    indented code',
+      '    second line',
+      '',
+      '> First quoted paragraph',
+      '> continues here.',
+      '>',
+      '> Second one.',
+      '',
+      '***',
+      '[ref]: https://example.org',
+    ].join('\n');
+    assert.deepEqual(markdownToDocument(markdown).blocks, [
+      { type: 'code', text: 'const heat = 1200; // *not* emphasis' },
+      { type: 'code', text: 'indented code\nsecond line' },
+      { type: 'quote', text: 'First quoted paragraph continues here.' },
+      { type: 'quote', text: 'Second one.' },
+    ]);
+  });
+});
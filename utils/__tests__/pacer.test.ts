@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildPacerLines, clampWpm, getPacerPosition, Pacer, type PacerPosition, type PacerState } from '../pacer';
+
+const TEXT = 'The  quick brown fox\njumps over the lazy dog';
+// 10px font, no padding: about 10 characters fit in 60px
+const LAYOUT = { padding: 0 };
+
+describe('buildPacerLines', () => {
+  it('splits the text into lines of whole words mapped back onto the original text', () => {
+    const lines = buildPacerLines(TEXT, 60, 10, 60, LAYOUT);
+    assert.deepEqual(
+      lines.map((line) => TEXT.slice(line.start, line.end)),
+      ['The  quick', 'brown fox', 'jumps over', 'the lazy', 'dog']
+    );
+    assert.deepEqual(lines[0].wordEnds, [3, 10]);
+    assert.deepEqual(lines[4].wordEnds, [TEXT.length]);
+  });
+
+  it('times each line by its words at the target speed, with a minimum per line', () => {
+    assert.deepEqual(
+      buildPacerLines(TEXT, 60, 10, 60, LAYOUT).map((line) => line.durationMs),
+      [2000, 2000, 2000, 2000, 1000]
+    );
+    assert.deepEqual(
+      buildPacerLines(TEXT, 60, 10, 300, LAYOUT).map((line) => line.durationMs),
+      [400, 400, 400, 400, 400]
+    );
+  });
+
+  it('fits fewer words on a line with letter spacing', () => {
+    const lines = buildPacerLines(TEXT, 60, 10, 200, { padding: 0, letterSpacing: 1 });
+    assert.deepEqual(
+      lines.map((line) => TEXT.slice(line.start, line.end)),
+      ['The', 'quick', 'brown', 'fox', 'jumps', 'over the', 'lazy dog']
+    );
+  });
+
+  it('keeps a word longer than the line on a line of its own', () => {
+    const lines = buildPacerLines('an extraordinarily long word', 60, 10, 200, LAYOUT);
+    assert.deepEqual(lines.map((line) => line.wordEnds.length), [1, 1, 2]);
+  });
+
+  it('returns no lines for blank text', () => {
+    assert.deepEqual(buildPacerLines(' \n ', 300, 16, 200), []);
+  });
+});
+
+describe('getPacerPosition', () => {
+  const line = buildPacerLines(TEXT, 600, 10, 200, LAYOUT)[0];
+
+  it('advances the marker a word at a time', () => {
+    assert.equal(line.wordEnds.length, 9);
+    assert.equal(getPacerPosition(line, 0).markerEnd, 3);
+    assert.equal(getPacerPosition(line, 0.25).markerEnd, 16);
+    assert.equal(getPacerPosition(line, 1).markerEnd, TEXT.length);
+    assert.deepEqual(getPacerPosition(line, -1), { lineStart: 0, lineEnd: TEXT.length, markerEnd: 3 });
+  });
+});
+
+describe('clampWpm', () => {
+  it('rounds to the step and stays in range', () => {
+    assert.equal(clampWpm(207), 200);
+    assert.equal(clampWpm(10), 60);
+    assert.equal(clampWpm(5000), 600);
+  });
+});
+
+describe('Pacer', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['setInterval', 'Date'] }));
+  afterEach(() => mock.timers.reset());
+
+  // One pacer tick at a time, so Date.now() moves with each interval callback
+  const advance = (ms: number) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += 50) mock.timers.tick(50);
+  };
+
+  const createPacer = () => {
+    const positions: (PacerPosition | null)[] = [];
+    const states: PacerState[] = [];
+    let done = 0;
+    const pacer = new Pacer({
+      onPosition: (position) => positions.push(position),
+      onStateChange: (state) => states.push(state),
+      onDone: () => done++,
+    });
+    return { pacer, positions, states, done: () => done };
+  };
+
+  it('moves through every line at its duration and then reports done', () => {
+    const { pacer, positions, states, done } = createPacer();
+    const lines = buildPacerLines(TEXT, 60, 10, 60, LAYOUT);
+    pacer.start(lines);
+    assert.deepEqual(positions[0], { lineStart: 0, lineEnd: 10, markerEnd: 3 });
+
+    advance(1000);
+    assert.deepEqual(positions[positions.length - 1], { lineStart: 0, lineEnd: 10, markerEnd: 10 });
+    advance(1000);
+    assert.equal(positions[positions.length - 1]?.lineStart, lines[1].start);
+
+    advance(6950);
+    assert.equal(done(), 0);
+    advance(50);
+    assert.equal(done(), 1);
+    assert.equal(positions[positions.length - 1], null);
+    assert.deepEqual(states, ['playing', 'idle']);
+  });
+
+  it('holds its place while paused', () => {
+    const { pacer, positions, states, done } = createPacer();
+    pacer.start(buildPacerLines(TEXT, 60, 10, 60, LAYOUT));
+    advance(2500);
+    pacer.pause();
+    const paused = positions[positions.length - 1];
+    advance(10000);
+    assert.equal(positions[positions.length - 1], paused);
+    pacer.resume();
+    advance(6500);
+    assert.equal(done(), 1);
+    assert.deepEqual(states, ['playing', 'paused', 'playing', 'idle']);
+  });
+
+  it('keeps the marker in the same part of the text when the lines are re-timed', () => {
+    const { pacer, positions } = createPacer();
+    pacer.start(buildPacerLines(TEXT, 60, 10, 60, LAYOUT));
+    advance(4000); // start of "jumps over"
+    pacer.setLines(buildPacerLines(TEXT, 600, 10, 60, LAYOUT));
+    assert.deepEqual(positions[positions.length - 1], { lineStart: 0, lineEnd: TEXT.length, markerEnd: 3 });
+    pacer.stop();
+  });
+});
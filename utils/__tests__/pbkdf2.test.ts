@@ -0,0 +1,30 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { pbkdf2Sync } from 'node:crypto';
+import { pbkdf2Sha256 } from '../pbkdf2';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+const hex = (value: Uint8Array) => Buffer.from(value).toString('hex');
+
+describe('pbkdf2Sha256', () => {
+  it('matches the RFC 7914 test vector', async () => {
+    const key = await pbkdf2Sha256(bytes('passwd'), bytes('salt'), 1, 64);
+    assert.equal(
+      hex(key),
+      '55ac046e56e3089fec1691c22544b605f94185216dde0465e68b9d57c20dacbc' +
+        '49ca9cccf179b645991664b39d77ef317c71b845b1e30bd509112041d3a19783'
+    );
+  });
+
+  it('matches node:crypto for a PIN and a UUID salt', async () => {
+    const salt = '0f8b5c1e-6d1a-4a57-9f43-2c6f1b9e7a10';
+    const key = await pbkdf2Sha256(bytes('482915'), bytes(salt), 5000);
+    assert.equal(hex(key), pbkdf2Sync('482915', salt, 5000, 32, 'sha256').toString('hex'));
+  });
+
+  it('hashes keys longer than a block first', async () => {
+    const password = 'p'.repeat(100);
+    const key = await pbkdf2Sha256(bytes(password), bytes('salt'), 2);
+    assert.equal(hex(key), pbkdf2Sync(password, 'salt', 2, 32, 'sha256').toString('hex'));
+  });
+});
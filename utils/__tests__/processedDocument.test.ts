@@ -0,0 +1,184 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  blockDisplayText,
+  buildProcessedDocument,
+  getDocumentSummary,
+  PROCESSED_DOCUMENT_VERSION,
+  readProcessedDocument,
+  splitPageMarkers,
+  textToBlocks,
+  type BlockInput,
+} from '../processedDocument';
+
+const BLOCKS: BlockInput[] = [
+  { type: 'heading', level: 1, text: 'Tides' },
+  { type: 'paragraph', text: 'The moon pulls the sea.', page: 1 },
+  { type: 'paragraph', text: '  The moon\n pulls the sea. ', page: 2 },
+  { type: 'listItem', marker: '1.', level: 0, text: 'High tide' },
+  { type: 'code', text: 'if (moon) {\n  rise();   \n}\n' },
+];
+
+describe('buildProcessedDocument', () => {
+  it('derives block ids from the content, so rebuilding gives the same ids', () => {
+    const first = buildProcessedDocument({ blocks: BLOCKS, sourceFormat: 'pdf' });
+    const second = buildProcessedDocument({ blocks: BLOCKS.map((b) => ({ ...b })), sourceFormat: 'pdf' });
+    assert.deepEqual(
+      first.blocks.map((b) => b.id),
+      second.blocks.map((b) => b.id)
+    );
+    assert.equal(first.version, PROCESSED_DOCUMENT_VERSION);
+    assert.match(first.blocks[0].id, /^h[0-9a-z]+$/);
+    assert.match(first.blocks[3].id, /^l[0-9a-z]+$/);
+  });
+
+  it('adds an occurrence suffix to repeated text and keeps ids of earlier blocks on edits later on', () => {
+    const doc = buildProcessedDocument({ blocks: BLOCKS, sourceFormat: 'pdf' });
+    const [, once, twice] = doc.blocks;
+    assert.equal(twice.id, `${once.id}-1`);
+    assert.equal(twice.text, 'The moon pulls the sea.');
+    assert.equal(twice.page, 2);
+
+    const edited = buildProcessedDocument({
+      blocks: [...BLOCKS.slice(0, 3), { type: 'paragraph', text: 'Something else' }],
+      sourceFormat: 'pdf',
+    });
+    assert.deepEqual(
+      edited.blocks.slice(0, 3).map((b) => b.id),
+      doc.blocks.slice(0, 3).map((b) => b.id)
+    );
+  });
+
+  it('gives the same text a different id in a different block type', () => {
+    const doc = buildProcessedDocument({
+      blocks: [
+        { type: 'paragraph', text: 'Tides' },
+        { type: 'quote', text: 'Tides' },
+      ],
+      sourceFormat: 'txt',
+    });
+    assert.notEqual(doc.blocks[0].id.slice(1), doc.blocks[1].id.slice(1));
+  });
+
+  it('keeps line breaks in code, drops empty blocks and remaps chapters past them', () => {
+    const doc = buildProcessedDocument({
+      blocks: [{ type: 'paragraph', text: ' \n ' }, ...BLOCKS],
+      sourceFormat: 'epub',
+      title: 'Tides',
+      chapters: [
+        { title: 'Start', blockIndex: 0 },
+        { title: 'Duplicate', blockIndex: 1 },
+        { title: 'List', blockIndex: 4 },
+        { title: 'Past the end', blockIndex: 99 },
+      ],
+    });
+    assert.equal(doc.blocks.length, 5);
+    assert.equal(doc.blocks[4].text, 'if (moon) {\n  rise();\n}');
+    assert.deepEqual(doc.chapters, [
+      { title: 'Start', blockId: doc.blocks[0].id },
+      { title: 'List', blockId: doc.blocks[3].id },
+    ]);
+    assert.equal(doc.pages, 2);
+    assert.equal(doc.metadata.title, 'Tides');
+    assert.equal(doc.metadata.wordCount, 19);
+    assert.ok(doc.text.includes('1. High tide'));
+  });
+});
+
+describe('readProcessedDocument', () => {
+  it('reads the current version and drops invalid blocks and chapters', () => {
+    const built = buildProcessedDocument({ blocks: BLOCKS, sourceFormat: 'docx' });
+    const json = JSON.parse(
+      JSON.stringify({
+        ...built,
+        blocks: [...built.blocks, { id: 'x', type: 'image', text: 'Figure', page: 1 }],
+        chapters: [{ title: 'Gone', blockId: 'x' }, { title: 'Tides', blockId: built.blocks[0].id }],
+      })
+    );
+    const doc = readProcessedDocument(json);
+    assert.deepEqual(doc.blocks, built.blocks);
+    assert.deepEqual(doc.chapters, [{ title: 'Tides', blockId: built.blocks[0].id }]);
+    assert.equal(doc.metadata.sourceFormat, 'docx');
+    assert.equal(doc.text, built.text);
+  });
+
+  it('converts a legacy file, mapping page markers and chapter offsets', () => {
+    const text = 'Chapter one\n\nFirst page text\ncontinues.\n-- 1 of 2 --\nSecond page.\n\nChapter two\n-- 2 of 2 --';
+    const doc = readProcessedDocument(
+      { pages: 2, text, chapters: [{ title: 'One', offset: 0 }, { title: 'Two', offset: text.indexOf('Chapter two') }] },
+      'pdf'
+    );
+    assert.deepEqual(
+      doc.blocks.map((b) => [b.type, b.text, b.page]),
+      [
+        ['paragraph', 'Chapter one', 1],
+        ['paragraph', 'First page text continues.', 1],
+        ['paragraph', 'Second page.', 2],
+        ['paragraph', 'Chapter two', 2],
+      ]
+    );
+    assert.deepEqual(doc.chapters, [
+      { title: 'One', blockId: doc.blocks[0].id },
+      { title: 'Two', blockId: doc.blocks[3].id },
+    ]);
+    assert.equal(doc.metadata.sourceFormat, 'pdf');
+    assert.equal(doc.pages, 2);
+  });
+
+  it('rejects newer versions and unknown content', () => {
+    assert.throws(() => readProcessedDocument({ version: PROCESSED_DOCUMENT_VERSION + 1, blocks: [] }), /newer version/);
+    assert.throws(() => readProcessedDocument({ pages: 3 }), /unknown format/);
+    assert.throws(() => readProcessedDocument(null), /unknown format/);
+  });
+});
+
+describe('getDocumentSummary', () => {
+  const words = (count: number) => Array.from({ length: count }, () => 'tide').join(' ');
+
+  it('uses the real page count for paged formats', () => {
+    const doc = buildProcessedDocument({
+      blocks: [{ type: 'paragraph', text: words(50), page: 4 }],
+      sourceFormat: 'pdf',
+      author: 'R. Carson',
+      language: 'en',
+    });
+    assert.deepEqual(getDocumentSummary(doc), {
+      pages: 4,
+      wordCount: 50,
+      readingMinutes: 1,
+      author: 'R. Carson',
+      language: 'en',
+    });
+  });
+
+  it('estimates pages from the word count for flowing formats', () => {
+    const doc = buildProcessedDocument({
+      blocks: [{ type: 'paragraph', text: words(700) }],
+      sourceFormat: 'epub',
+      title: 'Sea',
+    });
+    const summary = getDocumentSummary(doc);
+    assert.equal(summary.pages, 3);
+    assert.equal(summary.readingMinutes, 4);
+    assert.equal(summary.documentTitle, 'Sea');
+  });
+});
+
+describe('splitPageMarkers', () => {
+  it('splits on the markers and keeps trailing text as a last page', () => {
+    assert.deepEqual(splitPageMarkers('one\n-- 1 of 2 --\ntwo\n-- 2 of 2 --'), ['one', 'two']);
+    assert.deepEqual(splitPageMarkers('one\n-- 1 of 2 --\ntwo'), ['one', 'two']);
+    assert.deepEqual(splitPageMarkers('no markers'), ['no markers']);
+  });
+});
+
+describe('textToBlocks and blockDisplayText', () => {
+  it('splits on blank lines and shows list markers', () => {
+    assert.deepEqual(textToBlocks('a\nb\n\n\n c ', 3), [
+      { type: 'paragraph', text: 'a b', page: 3 },
+      { type: 'paragraph', text: 'c', page: 3 },
+    ]);
+    assert.equal(blockDisplayText({ type: 'listItem', text: 'Item' }), '• Item');
+    assert.equal(blockDisplayText({ type: 'listItem', marker: '2.', text: 'Item' }), '2. Item');
+  });
+});
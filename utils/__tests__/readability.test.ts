@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { extractArticle } from '../readability';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('extractArticle', () => {
+  describe('news article', () => {
+    const article = extractArticle(fixture('news-article.html'));
+    const texts = article.blocks.map((b) => b.text);
+
+    it('reads the title from the headline, without the site name', () => {
+      assert.equal(article.title, 'Tides');
+      assert.deepEqual(article.blocks[0], { type: 'heading', level: 1, text: 'Tides' });
+      assert.equal(article.blocks.filter((b) => b.type === 'heading' && b.text === 'Tides').length, 1);
+    });
+
+    it('shows the byline once, under the title', () => {
+      assert.equal(article.byline, 'Jane Roe');
+      assert.deepEqual(article.blocks[1], { type: 'paragraph', text: 'By Jane Roe' });
+      assert.equal(texts.filter((text) => text.includes('Jane Roe')).length, 1);
+    });
+
+    it('keeps every article paragraph in order', () => {
+      const body = texts.slice(2).map((text) => text.split(' ').slice(0, 2).join(' '));
+      assert.deepEqual(body, ['Twice a', 'The moon', 'The sun', 'Coastlines shape']);
+    });
+
+    it('leaves out navigation, related links, comments, scripts and the footer', () => {
+      const all = texts.join('\n');
+      for (const chrome of ['Sport', 'cookies', 'Share on', 'Related stories', 'Most read', 'Great article', 'not article text', 'All rights']) {
+        assert.ok(!all.includes(chrome), `"${chrome}" should not be in the article`);
+      }
+    });
+
+    it('reads page metadata', () => {
+      assert.equal(article.excerpt, 'How the moon and the sun move the sea twice a day.');
+      assert.equal(article.language, 'en');
+    });
+  });
+
+  describe('blog post', () => {
+    const article = extractArticle(fixture('blog-post.html'));
+
+    it('adds the og:title heading and the meta author when the body has neither', () => {
+      assert.equal(article.title, 'Le pain au levain');
+      assert.equal(article.siteName, 'Carnet de cuisine');
+      assert.deepEqual(article.blocks.slice(0, 2), [
+        { type: 'heading', level: 1, text: 'Le pain au levain' },
+        { type: 'paragraph', text: 'By Marie Dupont' },
+      ]);
+    });
+
+    it('keeps list items and decodes entities', () => {
+      const items = article.blocks.filter((b) => b.type === 'listItem').map((b) => b.text);
+      assert.deepEqual(items, ['500 g de farine', '350 g d’eau', '100 g de levain']);
+      assert.ok(article.blocks.every((b) => !b.text.includes('Accueil') && !b.text.includes('Partager')));
+    });
+  });
+
+  it('strips the site name from a <title> that matches the <h1>', () => {
+    const article = extractArticle(
+      '<html><head><title>Cats Purr - Pet Weekly</title></head><body><article><h1>Cats Purr</h1>' +
+        '<p>Cats purr for many reasons, scientists say, and not only when they are happy or content.</p></article></body></html>'
+    );
+    assert.equal(article.title, 'Cats Purr');
+    assert.deepEqual(
+      article.blocks.map((b) => b.text),
+      ['Cats Purr', 'Cats purr for many reasons, scientists say, and not only when they are happy or content.']
+    );
+  });
+});
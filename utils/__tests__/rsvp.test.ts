@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildRsvpFrames, clampRsvpWpm, getOrpIndex, RsvpPlayer, type RsvpFrame, type RsvpState } from '../rsvp';
+
+// 60 words per minute: one second per word, so pauses read as whole and half seconds
+const WPM = 60;
+
+describe('getOrpIndex', () => {
+  it('lands a little left of the middle as words get longer', () => {
+    assert.equal(getOrpIndex('a'), 0);
+    assert.equal(getOrpIndex('word'), 1);
+    assert.equal(getOrpIndex('reading'), 2);
+    assert.equal(getOrpIndex('understanding'), 3);
+    assert.equal(getOrpIndex('internationalization'), 4);
+  });
+
+  it('skips leading punctuation and ignores trailing punctuation', () => {
+    assert.equal(getOrpIndex('“Hello,”'), 2);
+    assert.equal(getOrpIndex('(see'), 2);
+    assert.equal(getOrpIndex('cat...'), 1);
+    assert.equal(getOrpIndex('…'), 0);
+  });
+
+  it('moves off a space in a phrase', () => {
+    assert.equal(getOrpIndex('I am'), 2);
+  });
+});
+
+describe('buildRsvpFrames', () => {
+  it('shows one word per frame with pauses after punctuation, long words and the paragraph', () => {
+    const frames = buildRsvpFrames('It was late. Then,  quietly;\nextraordinarily so', WPM);
+    assert.deepEqual(
+      frames.map((frame) => [frame.text, frame.durationMs]),
+      [
+        ['It', 1000],
+        ['was', 1000],
+        ['late.', 2500],
+        ['Then,', 1500],
+        ['quietly;', 1500],
+        ['extraordinarily', 1300],
+        ['so', 4000],
+      ]
+    );
+    assert.deepEqual(frames.map((frame) => frame.orp), [1, 1, 1, 1, 2, 4, 1]);
+  });
+
+  it('sees sentence ends inside closing quotes and brackets', () => {
+    const frames = buildRsvpFrames('“Stop!” she (said.) then left', WPM);
+    assert.deepEqual(frames.map((frame) => frame.durationMs), [2500, 1000, 2500, 1000, 4000]);
+  });
+
+  it('scales with the speed', () => {
+    assert.deepEqual(buildRsvpFrames('one two', 300).map((frame) => frame.durationMs), [200, 800]);
+  });
+
+  it('joins short words with the next one in phrase mode', () => {
+    const frames = buildRsvpFrames('I saw a big dog in the park. It, too, was wonderfully calm', WPM, true);
+    assert.deepEqual(
+      frames.map((frame) => [frame.text, frame.wordCount, frame.durationMs]),
+      [
+        ['I saw a', 3, 3000],
+        ['big dog in', 3, 3000],
+        ['the park.', 2, 3500],
+        ['It,', 1, 1500],
+        ['too,', 1, 1500],
+        ['was', 1, 1000],
+        ['wonderfully', 1, 1300],
+        ['calm', 1, 4000],
+      ]
+    );
+    assert.equal(frames[0].orp, 2);
+  });
+
+  it('keeps phrases within the character limit', () => {
+    assert.deepEqual(
+      buildRsvpFrames('to understanding', WPM, true).map((frame) => frame.text),
+      ['to', 'understanding']
+    );
+  });
+
+  it('returns no frames for blank text', () => {
+    assert.deepEqual(buildRsvpFrames('  \n', WPM), []);
+  });
+});
+
+describe('clampRsvpWpm', () => {
+  it('rounds to the step and stays in range', () => {
+    assert.equal(clampRsvpWpm(262), 250);
+    assert.equal(clampRsvpWpm(20), 100);
+    assert.equal(clampRsvpWpm(2000), 900);
+  });
+});
+
+describe('RsvpPlayer', () => {
+  beforeEach(() => mock.timers.enable({ apis: ['setTimeout', 'Date'] }));
+  afterEach(() => mock.timers.reset());
+
+  // 50 ms at a time, so Date.now() keeps up with the timers each frame schedules
+  const advance = (ms: number) => {
+    for (let elapsed = 0; elapsed < ms; elapsed += 50) mock.timers.tick(50);
+  };
+
+  const createPlayer = () => {
+    const shown: (string | null)[] = [];
+    const states: RsvpState[] = [];
+    let done = 0;
+    const player = new RsvpPlayer({
+      onFrame: (frame: RsvpFrame | null) => shown.push(frame ? frame.text : null),
+      onStateChange: (state) => states.push(state),
+      onDone: () => done++,
+    });
+    return { player, shown, states, done: () => done };
+  };
+
+  it('shows each frame for its duration and then reports done', () => {
+    const { player, shown, states, done } = createPlayer();
+    player.start(buildRsvpFrames('One two three.', WPM));
+    assert.deepEqual(shown, ['One']);
+    advance(1000);
+    assert.deepEqual(shown, ['One', 'two']);
+    advance(1000);
+    assert.deepEqual(shown, ['One', 'two', 'three.']);
+    advance(3950);
+    assert.equal(done(), 0);
+    advance(50);
+    assert.equal(done(), 1);
+    assert.deepEqual(states, ['playing', 'idle']);
+  });
+
+  it('shows the paused frame again on resume', () => {
+    const { player, shown, states } = createPlayer();
+    player.start(buildRsvpFrames('One two three.', WPM));
+    advance(1500);
+    player.pause();
+    advance(5000);
+    assert.deepEqual(shown, ['One', 'two']);
+    player.resume();
+    assert.deepEqual(shown, ['One', 'two', 'two']);
+    assert.deepEqual(states, ['playing', 'paused', 'playing']);
+    player.stop();
+  });
+
+  it('goes on after the frame on screen when the frames are rebuilt while playing', () => {
+    const { player, shown } = createPlayer();
+    const text = 'I saw a big dog in the park.';
+    player.start(buildRsvpFrames(text, WPM, true));
+    advance(4000); // "big dog in" has been up for one of its three seconds
+    player.setFrames(buildRsvpFrames(text, WPM));
+    advance(1950);
+    assert.deepEqual(shown, ['I saw a', 'big dog in']);
+    advance(50);
+    assert.deepEqual(shown, ['I saw a', 'big dog in', 'the']);
+    player.stop();
+  });
+
+  it('finishes when the last frame on screen is rebuilt', () => {
+    const { player, done } = createPlayer();
+    player.start(buildRsvpFrames('One two', WPM));
+    advance(1500); // "two" is up until 5000 ms
+    player.setFrames(buildRsvpFrames('One two', WPM * 2));
+    advance(3450);
+    assert.equal(done(), 0);
+    advance(50);
+    assert.equal(done(), 1);
+  });
+
+  it('resumes on the frame holding the paused word when the frames are rebuilt while paused', () => {
+    const { player, shown } = createPlayer();
+    const text = 'I saw a big dog in the park.';
+    player.start(buildRsvpFrames(text, WPM));
+    advance(4500); // "dog" is showing
+    player.pause();
+    player.setFrames(buildRsvpFrames(text, WPM, true));
+    player.resume();
+    assert.deepEqual(shown.slice(-2), ['dog', 'big dog in']);
+    player.stop();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeCodePage, parseRtf } from '../rtfConverter';
+
+describe('parseRtf', () => {
+  it('rejects input that is not RTF', () => {
+    assert.throws(() => parseRtf('plain text'), /Not an RTF document/);
+  });
+
+  it('turns \\par into paragraphs and collapses whitespace', () => {
+    assert.equal(parseRtf('{\\rtf1 First   line\\par\nSecond\\line line\\par}'), 'First line\n\nSecond line');
+  });
+
+  it('drops formatting control words and their delimiting space', () => {
+    assert.equal(parseRtf('{\\rtf1\\ansi\\deff0 {\\b Bold} and \\i italic\\i0  text}'), 'Bold and italic text');
+  });
+
+  it('maps symbol control words and escaped characters', () => {
+    assert.equal(
+      parseRtf('{\\rtf1 \\ldblquote Hi\\rdblquote  \\emdash  a\\~b \\{x\\} c\\\\d}'),
+      '“Hi” — a b {x} c\\d'
+    );
+  });
+
+  it('skips the font table, colour table and ignorable destinations', () => {
+    const rtf =
+      '{\\rtf1{\\fonttbl{\\f0 Times New Roman;}}{\\colortbl;\\red255\\green0\\blue0;}' +
+      '{\\*\\generator Writer;}{\\info{\\title Hidden}}Visible{\\*\\unknown gone} text}';
+    assert.equal(parseRtf(rtf), 'Visible text');
+  });
+
+  it('restores state at the end of a group', () => {
+    assert.equal(parseRtf('{\\rtf1 a{\\*\\x skipped}b{\\fonttbl{\\f0 X;}}c}'), 'abc');
+  });
+
+  it("decodes \\'hh bytes in Windows-1252 by default", () => {
+    assert.equal(parseRtf("{\\rtf1\\ansi caf\\'e9 \\'93quoted\\'94 \\'80}"), 'café “quoted” €');
+  });
+
+  it('decodes \\uN escapes and skips the fallback characters', () => {
+    assert.equal(parseRtf("{\\rtf1 \\u8364?5 \\uc2\\u8212\\'97\\'97 \\u-3913?}"), '€5 — \uf0b7');
+  });
+
+  it('switches code pages through \\ansicpg, \\pc and \\pca', () => {
+    assert.equal(parseRtf("{\\rtf1\\ansi\\ansicpg1251 \\'cf\\'f0\\'e8\\'e2\\'e5\\'f2}"), 'Привет');
+    assert.equal(parseRtf("{\\rtf1\\pc \\'82t\\'e9}"), 'étΘ');
+    assert.equal(parseRtf("{\\rtf1\\pca \\'82t\\'e9\\'9d}"), 'étÚØ');
+  });
+
+  it('uses the code page of the font charset for \\fN', () => {
+    const rtf =
+      "{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}{\\f1\\fcharset204 Arial Cyr;}}" +
+      "\\f0 caf\\'e9 {\\f1 \\'e4\\'e0} \\'e9}";
+    assert.equal(parseRtf(rtf), 'café да é');
+  });
+});
+
+describe('decodeCodePage', () => {
+  it('decodes CP437 box drawing and Greek letters', () => {
+    assert.equal(decodeCodePage([0xc9, 0xcd, 0xbb, 0x20, 0xe0, 0xe1, 0xe3], 437), '╔═╗ αßπ');
+  });
+
+  it('decodes CP850 accented capitals', () => {
+    assert.equal(decodeCodePage([0xb5, 0x90, 0xd6, 0xe0, 0xe9, 0xa5], 850), 'ÁÉÍÓÚÑ');
+  });
+
+  it('keeps ASCII as is', () => {
+    assert.equal(decodeCodePage([0x41, 0x62, 0x63], 437), 'Abc');
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHash } from 'node:crypto';
+import { Sha256 } from '../sha256';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+describe('Sha256', () => {
+  it('hashes the empty input', () => {
+    assert.equal(hex(new Sha256().digest()), 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+  });
+
+  it('hashes "abc"', () => {
+    const digest = new Sha256().update(new TextEncoder().encode('abc')).digest();
+    assert.equal(hex(digest), 'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('gives the same hash for any chunking', () => {
+    const data = new Uint8Array(10_000).map((_, i) => (i * 31 + 7) & 0xff);
+    const expected = createHash('sha256').update(data).digest('hex');
+    for (const size of [1, 55, 56, 63, 64, 65, 1000, data.length]) {
+      const hash = new Sha256();
+      for (let start = 0; start < data.length; start += size) hash.update(data.subarray(start, start + size));
+      assert.equal(hex(hash.digest()), expected, `chunks of ${size}`);
+    }
+  });
+
+  it('pads lengths around the block boundary', () => {
+    for (let length = 50; length <= 130; length++) {
+      const data = new Uint8Array(length).fill(0x61);
+      assert.equal(hex(new Sha256().update(data).digest()), createHash('sha256').update(data).digest('hex'));
+    }
+  });
+
+  it('continues a clone independently of the original', () => {
+    const prefix = new Sha256().update(new TextEncoder().encode('shared prefix '));
+    const a = hex(prefix.clone().update(new TextEncoder().encode('a')).digest());
+    const b = hex(prefix.clone().update(new TextEncoder().encode('b')).digest());
+    assert.equal(a, createHash('sha256').update('shared prefix a').digest('hex'));
+    assert.equal(b, createHash('sha256').update('shared prefix b').digest('hex'));
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  cancelUploadSession,
+  queryUploadSession,
+  startUploadSession,
+  uploadSessionChunk,
+  UploadSessionError,
+} from '../storageUploadSession';
+
+const SESSION = 'https://firebasestorage.googleapis.com/v0/b/demo/o?name=x&upload_id=abc';
+
+type Call = { url: string; headers: Record<string, string>; body: unknown };
+
+describe('storage upload sessions', () => {
+  const realFetch = globalThis.fetch;
+  let calls: Call[];
+  let reply: (call: Call) => Response;
+
+  beforeEach(() => {
+    calls = [];
+    globalThis.fetch = (async (url: string, init: RequestInit) => {
+      const call = { url, headers: init.headers as Record<string, string>, body: init.body };
+      calls.push(call);
+      return reply(call);
+    }) as typeof fetch;
+  });
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  it('starts a session for the file and returns its URL', async () => {
+    reply = () => new Response('', { status: 200, headers: { 'X-Goog-Upload-URL': SESSION, 'X-Goog-Upload-Status': 'active' } });
+    const url = await startUploadSession(
+      { bucket: 'demo.firebasestorage.app', path: 'users/u1/files/d1/original.pdf' },
+      { size: 5000, contentType: 'application/pdf' },
+      { authToken: 'token' }
+    );
+    assert.equal(url, SESSION);
+    assert.equal(
+      calls[0].url,
+      'https://firebasestorage.googleapis.com/v0/b/demo.firebasestorage.app/o?name=users%2Fu1%2Ffiles%2Fd1%2Foriginal.pdf'
+    );
+    assert.equal(calls[0].headers.Authorization, 'Firebase token');
+    assert.equal(calls[0].headers['X-Goog-Upload-Command'], 'start');
+    assert.equal(calls[0].headers['X-Goog-Upload-Header-Content-Length'], '5000');
+    assert.deepEqual(JSON.parse(calls[0].body as string), {
+      name: 'users/u1/files/d1/original.pdf',
+      contentType: 'application/pdf',
+    });
+  });
+
+  it('talks to the emulator over http', async () => {
+    reply = () => new Response('', { status: 200, headers: { 'X-Goog-Upload-URL': SESSION } });
+    await startUploadSession(
+      { bucket: 'b', path: 'p', host: '10.0.2.2:9199', protocol: 'http' },
+      { size: 1, contentType: 'text/plain' },
+      { authToken: null }
+    );
+    assert.equal(calls[0].url, 'http://10.0.2.2:9199/v0/b/b/o?name=p');
+    assert.equal(calls[0].headers.Authorization, undefined);
+  });
+
+  it('reports what the server has, and null for an expired session', async () => {
+    reply = () =>
+      new Response('', { status: 200, headers: { 'X-Goog-Upload-Status': 'active', 'X-Goog-Upload-Size-Received': '2097152' } });
+    assert.deepEqual(await queryUploadSession(SESSION, { authToken: 't' }), { received: 2097152, final: false });
+    assert.equal(calls[0].headers['X-Goog-Upload-Command'], 'query');
+
+    reply = () => new Response('', { status: 200, headers: { 'X-Goog-Upload-Status': 'final', 'X-Goog-Upload-Size-Received': '10' } });
+    assert.deepEqual(await queryUploadSession(SESSION, { authToken: 't' }), { received: 10, final: true });
+
+    reply = () => new Response('', { status: 404 });
+    assert.equal(await queryUploadSession(SESSION, { authToken: 't' }), null);
+  });
+
+  it('sends chunks at their offset and finalizes with the last one', async () => {
+    reply = (call) =>
+      new Response('{}', {
+        status: 200,
+        headers: { 'X-Goog-Upload-Status': call.headers['X-Goog-Upload-Command'].includes('finalize') ? 'final' : 'active' },
+      });
+    const data = new Blob(['abcdef']);
+    assert.deepEqual(await uploadSessionChunk(SESSION, { offset: 0, data: data.slice(0, 4), last: false }, { authToken: 't' }), {
+      final: false,
+    });
+    assert.deepEqual(await uploadSessionChunk(SESSION, { offset: 4, data: data.slice(4), last: true }, { authToken: 't' }), {
+      final: true,
+    });
+    assert.deepEqual(
+      calls.map((call) => [call.headers['X-Goog-Upload-Command'], call.headers['X-Goog-Upload-Offset']]),
+      [
+        ['upload', '0'],
+        ['upload, finalize', '4'],
+      ]
+    );
+    assert.equal(await (calls[1].body as Blob).text(), 'ef');
+  });
+
+  it('fails with the HTTP status and the server message', async () => {
+    reply = () => new Response(JSON.stringify({ error: { code: 403, message: 'Permission denied.' } }), { status: 403 });
+    await assert.rejects(
+      uploadSessionChunk(SESSION, { offset: 0, data: new Blob(['x']), last: true }, { authToken: 't' }),
+      (error: unknown) => error instanceof UploadSessionError && error.status === 403 && error.message === 'Permission denied.'
+    );
+  });
+
+  it('cancels without throwing', async () => {
+    reply = () => {
+      throw new TypeError('Network request failed');
+    };
+    await cancelUploadSession(SESSION, { authToken: 't' });
+    assert.equal(calls[0].headers['X-Goog-Upload-Command'], 'cancel');
+  });
+});
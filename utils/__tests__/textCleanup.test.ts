@@ -0,0 +1,210 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  cleanupBlocks,
+  cleanupText,
+  collapseWhitespace,
+  dehyphenate,
+  fixMojibake,
+  isPageNumberLine,
+  normalizeUnicode,
+  reflowLines,
+  removeHeadersFooters,
+} from '../textCleanup';
+
+// Hard-wrapped at about 60 characters, two paragraphs without a blank line between them
+const WRAPPED = [
+  'It was a bright cold day in April, and the clocks were',
+  'striking thirteen. Winston Smith, his chin nuzzled into his',
+  'breast in an effort to escape the vile wind, slipped quickly',
+  'through the glass doors of Victory Mansions.',
+  'The hallway smelt of boiled cabbage and old rag mats. At one',
+  'end of it a coloured poster, too large for indoor display,',
+  'had been tacked to the wall.',
+].join('\n');
+
+describe('normalizeUnicode', () => {
+  it('expands ligatures and drops invisible characters', () => {
+    assert.equal(normalizeUnicode('ﬁne ﬂow\u200b\ufeff'), 'fine flow');
+  });
+
+  it('drops soft hyphens inside a line but keeps them at a line end', () => {
+    assert.equal(normalizeUnicode('co\u00adoperate'), 'cooperate');
+    assert.equal(normalizeUnicode('co\u00ad\noperate'), 'co\u00ad\noperate');
+  });
+
+  it('composes to NFC', () => {
+    assert.equal(normalizeUnicode('cafe\u0301'), 'caf\u00e9');
+  });
+});
+
+describe('fixMojibake', () => {
+  it('repairs UTF-8 decoded as Windows-1252', () => {
+    assert.equal(fixMojibake('donâ€™t cafÃ©'), 'don’t café');
+  });
+
+  it('repairs mojibake of non-Latin scripts', () => {
+    assert.equal(fixMojibake('Ð¿Ñ€Ð¸Ð²ÐµÑ‚ world'), 'привет world');
+  });
+
+  it('leaves correct text alone', () => {
+    assert.equal(fixMojibake('Â is a letter in Âge'), 'Â is a letter in Âge');
+  });
+
+  it('leaves accented capitals before typographic punctuation alone', () => {
+    assert.equal(fixMojibake('CAFÉ… OUVERT'), 'CAFÉ… OUVERT');
+    assert.equal(fixMojibake('„MÜ“ and „GRÖ”'), '„MÜ“ and „GRÖ”');
+    assert.equal(fixMojibake('ESPAÑ– and STRAß—'), 'ESPAÑ– and STRAß—');
+    assert.equal(fixMojibake('ÜBER’S'), 'ÜBER’S');
+  });
+
+  it('repairs mojibake runs next to valid accented text', () => {
+    assert.equal(fixMojibake('CAFÉ… cafÃ© donâ€™t'), 'CAFÉ… café don’t');
+  });
+
+  it('keeps valid text when normalizing', () => {
+    assert.equal(normalizeUnicode('CAFÉ… OUVERT'), 'CAFÉ… OUVERT');
+  });
+});
+
+describe('removeHeadersFooters', () => {
+  it('recognizes page number lines', () => {
+    assert.ok(isPageNumberLine('12'));
+    assert.ok(isPageNumberLine('Page 3 of 10'));
+    assert.ok(isPageNumberLine('- xiv -'));
+    assert.ok(!isPageNumberLine('12 Angry Men'));
+    assert.ok(isPageNumberLine('Page xii'));
+    assert.ok(!isPageNumberLine('I'));
+    assert.ok(!isPageNumberLine('mix'));
+  });
+
+  it('keeps a short first or last line that reads like a Roman numeral', () => {
+    const pages = ['I\nwent home.', 'It was late.\nmix', 'We slept.\nThe end.'];
+    assert.deepEqual(removeHeadersFooters(pages), pages);
+  });
+
+  it('removes bare Roman numerals that number the pages', () => {
+    const bodies = ['Preface text.\nMore of it.', 'Thanks to all.\nAnd more.', 'Contents here.\nAnd here.'];
+    const pages = bodies.map((body, i) => `${body}\n${['i', 'ii', 'iii'][i]}`);
+    assert.deepEqual(removeHeadersFooters(pages), bodies);
+  });
+
+  it('removes running headers and page numbers', () => {
+    const bodies = [
+      'It was a dark night.\nThe wind howled.\nNobody slept.',
+      'Morning came late.\nThe roads were flooded.\nSchool was closed.',
+      'By noon the rain stopped.\nChildren ran outside.\nThe sun came out.',
+      'In the evening\nthe river went down\nat last.',
+    ];
+    const pages = bodies.map((body, i) => `The Book Title\n${body}\n${i + 1}`);
+    assert.deepEqual(removeHeadersFooters(pages), bodies);
+  });
+
+  it('keeps a single page as it is', () => {
+    assert.deepEqual(removeHeadersFooters(['Title\nText\n1']), ['Title\nText\n1']);
+  });
+});
+
+describe('dehyphenate', () => {
+  it('joins a word split across lines', () => {
+    assert.equal(dehyphenate('the read-\ning room'), 'the reading room');
+  });
+
+  it('keeps the hyphen before a capitalized line', () => {
+    assert.equal(dehyphenate('Anglo-\nSaxon'), 'Anglo-\nSaxon');
+  });
+
+  it('keeps the hyphen between two words on their own', () => {
+    assert.equal(dehyphenate('a well-\nknown story'), 'a well-known story');
+    assert.equal(dehyphenate('the blue house and the blue-\nhouse effect'), 'the blue house and the blue-house effect');
+  });
+
+  it('joins parts that are not words on their own', () => {
+    assert.equal(dehyphenate('the green-\nhouse effect'), 'the greenhouse effect');
+  });
+
+  it('joins when the joined word appears elsewhere in the text', () => {
+    assert.equal(dehyphenate('a green-\nhouse next to the greenhouse'), 'a greenhouse next to the greenhouse');
+    assert.equal(dehyphenate('some-\nthing'), 'something');
+  });
+
+  it('keeps the hyphen when the text uses the hyphenated form', () => {
+    assert.equal(dehyphenate('a part-\ntime job and another part-time job'), 'a part-time job and another part-time job');
+  });
+
+  it('always joins at a soft hyphen', () => {
+    assert.equal(dehyphenate('a well\u00ad\nknown story'), 'a wellknown story');
+  });
+});
+
+describe('reflowLines', () => {
+  it('joins hard-wrapped lines and breaks after a short line ending a sentence', () => {
+    const paragraphs = reflowLines(WRAPPED).split('\n\n');
+    assert.equal(paragraphs.length, 2);
+    assert.ok(paragraphs[0].startsWith('It was a bright cold day in April, and the clocks were striking thirteen.'));
+    assert.ok(paragraphs[1].startsWith('The hallway smelt'));
+  });
+
+  it('always breaks at blank lines', () => {
+    assert.equal(reflowLines('One line\n\nAnother line'), 'One line\n\nAnother line');
+  });
+
+  it('keeps one paragraph per line when lines are not wrapped', () => {
+    const text = [
+      'The first paragraph is a single long line of text that goes on well past any wrap width a printed page or an e-mail would use, as text files saved from a word processor do.',
+      'The second one is short.',
+      'And the third paragraph is again quite a bit longer than the second, but still fits on a single line.',
+    ].join('\n');
+    assert.equal(reflowLines(text), text.replace(/\n/g, '\n\n'));
+  });
+
+  it('starts a new paragraph after a heading line', () => {
+    const text = 'Chapter One\nThe morning was cold and the streets were empty when she left the house.';
+    assert.equal(
+      reflowLines(text),
+      'Chapter One\n\nThe morning was cold and the streets were empty when she left the house.'
+    );
+  });
+
+  it('starts a new paragraph at each list item', () => {
+    assert.equal(reflowLines('Bring:\n- bread\n- milk'), 'Bring:\n\n- bread\n\n- milk');
+  });
+
+  it('joins a sentence wrapped without a blank line', () => {
+    assert.equal(reflowLines('this sentence goes on\nacross two lines.'), 'this sentence goes on across two lines.');
+  });
+});
+
+describe('collapseWhitespace', () => {
+  it('collapses spaces and keeps single blank lines', () => {
+    assert.equal(collapseWhitespace('  a \t b\r\n\n\n\nc  d  '), 'a b\n\nc d');
+  });
+});
+
+describe('cleanupText', () => {
+  it('runs every step by default', () => {
+    assert.equal(cleanupText('ﬁrst para-\ngraph goes on\nhere.\n\n\nNext  one.'), 'first paragraph goes on here.\n\nNext one.');
+  });
+
+  it('skips steps that are switched off', () => {
+    assert.equal(cleanupText('para-\ngraph', { dehyphenate: false, reflowLines: false }), 'para-\ngraph');
+  });
+});
+
+describe('cleanupBlocks', () => {
+  it('normalizes text and table cells and keeps empty blocks', () => {
+    const blocks = cleanupBlocks([{ text: ' ﬁne  text ' }, { text: '' }, { text: 'row', cells: ['a  b', 'ﬂ'] }]);
+    assert.deepEqual(blocks, [{ text: 'fine text' }, { text: '' }, { text: 'row', cells: ['a b', 'fl'] }]);
+  });
+
+  it('keeps line breaks and indentation in code blocks', () => {
+    const blocks = cleanupBlocks([
+      { type: 'code', text: '\nfunction a() {  \r\n    return 1;\n}\n' },
+      { type: 'paragraph', text: 'one\n  two' },
+    ]);
+    assert.deepEqual(blocks, [
+      { type: 'code', text: 'function a() {\n    return 1;\n}' },
+      { type: 'paragraph', text: 'one two' },
+    ]);
+  });
+});
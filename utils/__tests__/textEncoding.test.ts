@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { decodeText, decodeTextFile, detectTextEncoding, getEncodingLabel } from '../textEncoding';
+
+const SAMPLE = 'Café “déjà vu” – naïve €5';
+
+function utf16(text: string, littleEndian: boolean, bom = false): Uint8Array {
+  const bytes: number[] = bom ? (littleEndian ? [0xff, 0xfe] : [0xfe, 0xff]) : [];
+  for (let i = 0; i < text.length; i++) {
+    const unit = text.charCodeAt(i);
+    if (littleEndian) bytes.push(unit & 0xff, unit >> 8);
+    else bytes.push(unit >> 8, unit & 0xff);
+  }
+  return new Uint8Array(bytes);
+}
+
+function utf8(text: string, bom = false): Uint8Array {
+  const body = new TextEncoder().encode(text);
+  return bom ? new Uint8Array([0xef, 0xbb, 0xbf, ...body]) : body;
+}
+
+// "Café “quoted” – 5€" as saved by Notepad in Windows-1252
+const CP1252_BYTES = new Uint8Array([
+  0x43, 0x61, 0x66, 0xe9, 0x20, 0x93, 0x71, 0x75, 0x6f, 0x74, 0x65, 0x64, 0x94, 0x20, 0x96, 0x20, 0x35, 0x80,
+]);
+
+describe('detectTextEncoding', () => {
+  it('trusts a byte order mark', () => {
+    assert.deepEqual(detectTextEncoding(utf8(SAMPLE, true)), { encoding: 'utf-8', source: 'bom', bomLength: 3 });
+    assert.deepEqual(detectTextEncoding(utf16(SAMPLE, true, true)), {
+      encoding: 'utf-16le',
+      source: 'bom',
+      bomLength: 2,
+    });
+    assert.deepEqual(detectTextEncoding(utf16(SAMPLE, false, true)), {
+      encoding: 'utf-16be',
+      source: 'bom',
+      bomLength: 2,
+    });
+  });
+
+  it('recognizes UTF-16 without a BOM from its zero bytes', () => {
+    assert.equal(detectTextEncoding(utf16(SAMPLE, true)).encoding, 'utf-16le');
+    assert.equal(detectTextEncoding(utf16(SAMPLE, false)).encoding, 'utf-16be');
+    assert.equal(detectTextEncoding(utf16(SAMPLE, true)).source, 'heuristic');
+  });
+
+  it('accepts valid UTF-8, including a sequence cut off at the end of the sample', () => {
+    assert.equal(detectTextEncoding(utf8(SAMPLE)).encoding, 'utf-8');
+    const long = utf8('a'.repeat(64 * 1024 - 1) + 'é and more');
+    assert.equal(detectTextEncoding(long).encoding, 'utf-8');
+  });
+
+  it('falls back to Windows-1252 when C1 punctuation bytes appear', () => {
+    assert.deepEqual(detectTextEncoding(CP1252_BYTES), {
+      encoding: 'windows-1252',
+      source: 'heuristic',
+      bomLength: 0,
+    });
+  });
+
+  it('falls back to Latin-1 for other invalid UTF-8', () => {
+    assert.equal(detectTextEncoding(new Uint8Array([0x43, 0x61, 0x66, 0xe9, 0x20, 0x6f, 0x6b])).encoding, 'iso-8859-1');
+  });
+
+  it('rejects overlong forms and surrogates as UTF-8', () => {
+    assert.notEqual(detectTextEncoding(new Uint8Array([0x41, 0xe0, 0x80, 0x80])).encoding, 'utf-8');
+    assert.notEqual(detectTextEncoding(new Uint8Array([0x41, 0xed, 0xa0, 0x80])).encoding, 'utf-8');
+  });
+});
+
+describe('decodeText', () => {
+  it('decodes UTF-16 in both byte orders and skips a matching BOM', () => {
+    assert.equal(decodeText(utf16(SAMPLE, true), 'utf-16le'), SAMPLE);
+    assert.equal(decodeText(utf16(SAMPLE, false), 'utf-16be'), SAMPLE);
+    assert.equal(decodeText(utf16(SAMPLE, true, true), 'utf-16le'), SAMPLE);
+    assert.equal(decodeText(utf16(SAMPLE, false, true), 'utf-16be'), SAMPLE);
+  });
+
+  it('decodes UTF-8 with astral characters and skips the BOM', () => {
+    assert.equal(decodeText(utf8('Mars 🚀 ok', true), 'utf-8'), 'Mars 🚀 ok');
+  });
+
+  it('replaces invalid UTF-8 bytes with U+FFFD', () => {
+    assert.equal(decodeText(new Uint8Array([0x61, 0xff, 0x62, 0xc3]), 'utf-8'), 'a�b�');
+  });
+
+  it('maps 0x80-0x9F through Windows-1252 but not Latin-1', () => {
+    assert.equal(decodeText(CP1252_BYTES, 'windows-1252'), 'Café “quoted” – 5€');
+    assert.equal(decodeText(new Uint8Array([0xe9, 0x80]), 'iso-8859-1'), 'é\u0080');
+  });
+});
+
+describe('decodeTextFile', () => {
+  it('detects the encoding when none is given', () => {
+    assert.deepEqual(decodeTextFile(utf16(SAMPLE, true, true)), { text: SAMPLE, encoding: 'utf-16le', detected: true });
+    assert.deepEqual(decodeTextFile(utf16(SAMPLE, false)), { text: SAMPLE, encoding: 'utf-16be', detected: true });
+    assert.deepEqual(decodeTextFile(CP1252_BYTES), {
+      text: 'Café “quoted” – 5€',
+      encoding: 'windows-1252',
+      detected: true,
+    });
+  });
+
+  it('uses an overriding encoding as given', () => {
+    assert.deepEqual(decodeTextFile(utf8('Café'), 'windows-1252'), { text: 'CafÃ©', encoding: 'windows-1252', detected: false });
+  });
+});
+
+describe('getEncodingLabel', () => {
+  it('labels known encodings and passes unknown ones through', () => {
+    assert.equal(getEncodingLabel('utf-16le'), 'UTF-16 LE');
+    assert.equal(getEncodingLabel('koi8-r'), 'koi8-r');
+    assert.equal(getEncodingLabel(null), 'Unknown');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  INTERRUPTED_MESSAGE,
+  parseSavedQueue,
+  restoreQueueItems,
+  serializeQueue,
+  type QueueItem,
+  type QueueItemStatus,
+} from '../uploadQueueState';
+
+const item = (id: string, status: QueueItemStatus, extra: Partial<QueueItem> = {}): QueueItem => ({
+  id,
+  uid: 'u1',
+  name: `${id}.pdf`,
+  uri: `file:///queue/${id}.pdf`,
+  status,
+  counted: false,
+  staged: true,
+  addedAt: 1,
+  ...extra,
+});
+
+describe('serializeQueue and parseSavedQueue', () => {
+  it('round-trips items without their progress', () => {
+    const items = [
+      item('a', 'converting', { progress: { stage: 'ocr', current: 2, total: 5 }, docId: 'd1' }),
+      item('b', 'duplicate', { duplicateOf: { docId: 'd0', title: 'Tides' } }),
+    ];
+    const restored = parseSavedQueue(serializeQueue(items));
+    assert.deepEqual(restored, [
+      item('a', 'converting', { docId: 'd1' }),
+      item('b', 'duplicate', { duplicateOf: { docId: 'd0', title: 'Tides' } }),
+    ]);
+  });
+
+  it('reads nothing from missing, broken or foreign data', () => {
+    assert.deepEqual(parseSavedQueue(null), []);
+    assert.deepEqual(parseSavedQueue('{not json'), []);
+    assert.deepEqual(parseSavedQueue('{"id":"a"}'), []);
+    assert.deepEqual(parseSavedQueue('[null, {"id": 3}, {"id":"a","uid":"u1"}]'), []);
+  });
+});
+
+describe('restoreQueueItems', () => {
+  const pending = new Set(['users/u1/files/d2/original.pdf']);
+  const restore = (saved: QueueItem[], knownIds: string[] = []) =>
+    restoreQueueItems(saved, { uid: 'u1', knownIds: new Set(knownIds), isUploadPending: (path) => pending.has(path) });
+
+  it("keeps only the user's items that are not in the queue yet", () => {
+    const saved = [item('a', 'queued'), item('b', 'queued', { uid: 'u2' }), item('c', 'error')];
+    assert.deepEqual(
+      restore(saved, ['c']).map((i) => i.id),
+      ['a']
+    );
+  });
+
+  it('leaves waiting, finished and failed items as they were', () => {
+    const saved = [
+      item('a', 'queued'),
+      item('b', 'ready', { docId: 'd' }),
+      item('c', 'error', { errorMessage: 'Bad file' }),
+      item('d', 'duplicate'),
+    ];
+    assert.deepEqual(restore(saved), saved);
+  });
+
+  it('queues running imports again unless their document exists without a pending upload', () => {
+    const restored = restore([
+      item('before-document', 'uploading'),
+      item('pending-upload', 'uploading', { docId: 'd2', storagePath: 'users/u1/files/d2/original.pdf' }),
+      item('uploaded', 'converting', { docId: 'd3', storagePath: 'users/u1/files/d3/original.pdf' }),
+      item('no-path', 'converting', { docId: 'd4' }),
+    ]);
+    assert.deepEqual(
+      restored.map((i) => [i.id, i.status, i.errorMessage]),
+      [
+        ['before-document', 'queued', undefined],
+        ['pending-upload', 'queued', undefined],
+        ['uploaded', 'error', INTERRUPTED_MESSAGE],
+        ['no-path', 'error', INTERRUPTED_MESSAGE],
+      ]
+    );
+    assert.equal(restored[1].docId, 'd2');
+  });
+});
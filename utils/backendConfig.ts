@@ -0,0 +1,30 @@
+/**
+ * Backend configuration
+ * The extraction backend URL and the Firebase emulator host come from the environment
+ * (EXPO_PUBLIC_*) or app.json `extra`, so development builds can point at the local server.
+ */
+
+import Constants from 'expo-constants';
+
+const DEFAULT_BACKEND_URL = 'https://readx-backend-740104261370.asia-south1.run.app';
+
+function readExtra(key: string): string | undefined {
+  const value = (Constants.expoConfig?.extra as any)?.[key];
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Base URL of the extraction backend (no trailing slash)
+ */
+export function getBackendUrl(): string {
+  const url = process.env.EXPO_PUBLIC_BACKEND_URL || readExtra('backendUrl') || DEFAULT_BACKEND_URL;
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Host of the Firebase emulators (e.g. "127.0.0.1", or "10.0.2.2" from an Android emulator),
+ * or null to use the production project
+ */
+export function getFirebaseEmulatorHost(): string | null {
+  return process.env.EXPO_PUBLIC_FIREBASE_EMULATOR_HOST || readExtra('firebaseEmulatorHost') || null;
+}
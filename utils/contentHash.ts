@@ -0,0 +1,52 @@
+/**
+ * Content hash of an uploaded file (SHA-256, hex) for duplicate detection
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+import { base64ToUint8Array } from '@/utils/base64';
+import { abortable, isConversionCancelled, throwIfAborted } from '@/utils/conversionControl';
+import { Sha256 } from '@/utils/sha256';
+
+// Bytes read per step: the file is never in memory as a whole
+const CHUNK_SIZE = 1024 * 1024;
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export async function computeContentHash(fileUri: string, signal?: AbortSignal | null): Promise<string> {
+  try {
+    const hash = new Sha256();
+    if (Platform.OS === 'web' || fileUri.startsWith('blob:')) {
+      const blob = await (await fetch(fileUri, { signal: signal || undefined })).blob();
+      for (let start = 0; start < blob.size; start += CHUNK_SIZE) {
+        throwIfAborted(signal);
+        hash.update(new Uint8Array(await blob.slice(start, start + CHUNK_SIZE).arrayBuffer()));
+      }
+    } else {
+      const info: any = await FileSystem.getInfoAsync(fileUri);
+      if (!info?.exists || typeof info.size !== 'number') throw new Error('File size is unknown.');
+      const size: number = info.size;
+      for (let start = 0; start < size; start += CHUNK_SIZE) {
+        const base64 = await abortable(
+          FileSystem.readAsStringAsync(fileUri, {
+            encoding: 'base64',
+            position: start,
+            length: Math.min(CHUNK_SIZE, size - start),
+          } as any),
+          signal
+        );
+        hash.update(base64ToUint8Array(base64));
+      }
+    }
+    return toHex(hash.digest());
+  } catch (e: any) {
+    throwIfAborted(signal);
+    if (isConversionCancelled(e)) throw e;
+    const msg = e?.message || String(e);
+    throw new Error(`Content hash failed: ${msg}`);
+  }
+}
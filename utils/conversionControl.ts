@@ -0,0 +1,138 @@
+/**
+ * Cancellation and progress for file conversions
+ * Converters take an AbortSignal and report what they are doing through `onProgress`.
+ * Timeouts abort the signal the work runs with (instead of racing a timer against it), so
+ * fetches, PDF parsing and OCR actually stop and converters clean up in their `finally` blocks.
+ */
+
+import { ImportTimeoutError } from './importErrors';
+
+export type ConversionStage = 'loading' | 'uploading' | 'unzipping' | 'extracting' | 'ocr' | 'saving';
+
+export interface ConversionProgress {
+  stage: ConversionStage;
+  current?: number; // 1-based page/chapter being extracted
+  total?: number;
+  unit?: 'page' | 'chapter';
+  percent?: number; // 0-100 (OCR; of the current page when `current` is set)
+}
+
+export type ConversionProgressCallback = (progress: ConversionProgress) => void;
+
+export class ConversionCancelledError extends Error {
+  constructor(message = 'Conversion cancelled') {
+    super(message);
+    this.name = 'ConversionCancelledError';
+  }
+}
+
+export function isConversionCancelled(error: any): boolean {
+  return error instanceof ConversionCancelledError || error?.name === 'ConversionCancelledError';
+}
+
+export function throwIfAborted(signal?: AbortSignal | null): void {
+  if (signal?.aborted) throw new ConversionCancelledError();
+}
+
+/**
+ * Reject as soon as the signal aborts. For work that cannot be stopped (file reads, mammoth):
+ * the caller moves on and the result is ignored.
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal | null): Promise<T> {
+  if (!signal) return promise;
+  throwIfAborted(signal);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new ConversionCancelledError());
+    signal.addEventListener('abort', onAbort);
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Run `task` with a signal that aborts after `timeoutMs` or when the parent signal aborts.
+ * A timeout rejects with ImportTimeoutError(`timeoutMessage`); a parent abort with ConversionCancelledError.
+ */
+export async function withTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  options: { timeoutMs: number; timeoutMessage: string; signal?: AbortSignal | null }
+): Promise<T> {
+  throwIfAborted(options.signal);
+
+  const controller = new AbortController();
+  let failure: Error | null = null;
+  let rejectEarly: (error: Error) => void = () => {};
+  const stop = (error: Error) => {
+    if (failure) return;
+    failure = error;
+    controller.abort();
+    rejectEarly(error);
+  };
+
+  const onParentAbort = () => stop(new ConversionCancelledError());
+  options.signal?.addEventListener('abort', onParentAbort);
+  const timeoutId = setTimeout(() => stop(new ImportTimeoutError(options.timeoutMessage)), options.timeoutMs);
+
+  try {
+    const stopped = new Promise<never>((_, reject) => {
+      rejectEarly = reject;
+    });
+    return await Promise.race([task(controller.signal), stopped]);
+  } catch (error) {
+    // The task's own AbortError is reported as the timeout/cancel that caused it
+    throw failure || error;
+  } finally {
+    clearTimeout(timeoutId);
+    options.signal?.removeEventListener('abort', onParentAbort);
+  }
+}
+
+/**
+ * "Extracting page 3 of 12", "Recognizing text... 40%" - for progress labels
+ */
+export function formatConversionProgress(progress: ConversionProgress): string {
+  switch (progress.stage) {
+    case 'loading':
+      return 'Loading file...';
+    case 'uploading':
+      return 'Uploading...';
+    case 'unzipping':
+      return 'Unzipping...';
+    case 'extracting':
+      return progress.current && progress.total
+        ? `Extracting ${progress.unit || 'page'} ${progress.current} of ${progress.total}`
+        : 'Extracting text...';
+    case 'ocr': {
+      // Scanned PDFs report which page is being recognized
+      const label =
+        progress.current && progress.total && progress.total > 1
+          ? `Recognizing ${progress.unit || 'page'} ${progress.current} of ${progress.total}`
+          : 'Recognizing text';
+      return typeof progress.percent === 'number' ? `${label}... ${Math.round(progress.percent)}%` : `${label}...`;
+    }
+    case 'saving':
+      return 'Saving...';
+  }
+}
+
+/**
+ * Fraction done (0-1) when the stage reports one, for progress bars
+ */
+export function getProgressFraction(progress: ConversionProgress): number | null {
+  if (typeof progress.percent === 'number') {
+    const pageFraction = Math.min(1, Math.max(0, progress.percent / 100));
+    if (!progress.current || !progress.total) return pageFraction;
+    return Math.min(1, (progress.current - 1 + pageFraction) / progress.total);
+  }
+  if (progress.current && progress.total) return Math.min(1, progress.current / progress.total);
+  return null;
+}
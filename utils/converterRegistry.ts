@@ -0,0 +1,408 @@
+/**
+ * Converter registry
+ * Single list of supported input formats: extensions, MIME types, content sniffing,
+ * the Firestore document type and the extraction function. Upload, reader and library
+ * code read from here instead of keeping their own format lists.
+ */
+
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+import { base64ToUint8Array } from '@/utils/base64';
+import { buildProcessedDocument, type ProcessedDocument } from './processedDocument';
+import { cleanupBlocks, textPagesToBlocks, type TextCleanupOptions } from './textCleanup';
+import { looksLikeHtml } from './htmlConverter';
+import { EncryptedFileError, UnsupportedFormatError, type ImportError } from './importErrors';
+import type { TextEncodingId } from './textEncoding';
+import { abortable, isConversionCancelled, throwIfAborted, type ConversionProgressCallback } from './conversionControl';
+
+export type ConverterId = 'pdf' | 'docx' | 'epub' | 'rtf' | 'html' | 'markdown' | 'txt' | 'image';
+
+// Document types stored on `users/{uid}/documents/{docId}` for converted files: each converter
+// stores its own id
+export type ConvertedDocumentType = ConverterId;
+
+export interface ConvertOptions {
+  cleanup?: TextCleanupOptions; // text clean-up steps (all on by default)
+  encoding?: TextEncodingId | null; // plain-text encoding override (detected when unset)
+  signal?: AbortSignal | null; // aborts the conversion (ConversionCancelledError)
+  onProgress?: ConversionProgressCallback;
+}
+
+export interface DocumentConverter {
+  id: ConverterId;
+  label: string; // shown to users, e.g. "PDF"
+  extensions: string[]; // first entry is the canonical extension
+  mimeTypes: string[]; // first entry is used as the upload content type
+  documentType: ConvertedDocumentType;
+  uploadable: boolean; // offered in the file picker
+  text?: boolean; // plain-text based: decoded with the text encoding, claimable by name when it looks like text
+  sniff?: (header: Uint8Array) => boolean;
+  convert: (fileUri: string, options?: ConvertOptions) => Promise<ProcessedDocument>;
+}
+
+// Number of leading bytes read for content sniffing
+export const SNIFF_LENGTH = 4096;
+
+function startsWith(header: Uint8Array, signature: number[], offset = 0): boolean {
+  if (header.length < offset + signature.length) return false;
+  return signature.every((byte, i) => header[offset + i] === byte);
+}
+
+function asciiAt(header: Uint8Array, offset: number, length: number): string {
+  let out = '';
+  for (let i = offset; i < Math.min(header.length, offset + length); i++) {
+    out += String.fromCharCode(header[i]);
+  }
+  return out;
+}
+
+function containsAscii(header: Uint8Array, needle: string): boolean {
+  return asciiAt(header, 0, header.length).includes(needle);
+}
+
+const isZip = (header: Uint8Array) => startsWith(header, [0x50, 0x4b, 0x03, 0x04]);
+
+// EPUB OCF: the first zip entry is an uncompressed "mimetype" file
+const isEpub = (header: Uint8Array) =>
+  isZip(header) && asciiAt(header, 30, 8) === 'mimetype' && containsAscii(header, 'application/epub+zip');
+
+// Only the main part tells DOCX apart from other OOXML zips (XLSX, PPTX) that also start with
+// [Content_Types].xml; a DOCX whose main part is further in is still claimed by its extension
+const isDocx = (header: Uint8Array) => isZip(header) && !isEpub(header) && containsAscii(header, 'word/document.xml');
+
+// OLE2 compound file (legacy .doc, .xls, ...)
+const isOle2 = (header: Uint8Array) => startsWith(header, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+/**
+ * Heuristic: no NUL bytes (outside a UTF-16 BOM) and few control characters
+ */
+export function looksLikeText(header: Uint8Array): boolean {
+  if (header.length === 0) return true;
+  if (startsWith(header, [0xff, 0xfe]) || startsWith(header, [0xfe, 0xff])) return true;
+  let control = 0;
+  for (const byte of header) {
+    if (byte === 0) return false;
+    if (byte < 0x09 || (byte > 0x0d && byte < 0x20)) control++;
+  }
+  return control / header.length < 0.05;
+}
+
+const CONVERTERS: DocumentConverter[] = [
+  {
+    id: 'pdf',
+    label: 'PDF',
+    extensions: ['pdf'],
+    mimeTypes: ['application/pdf'],
+    documentType: 'pdf',
+    uploadable: true,
+    // "%PDF" may follow a few bytes of junk; readers accept it within the first 1 KB
+    sniff: (header) => asciiAt(header, 0, 1024).includes('%PDF-'),
+    convert: async (fileUri, options = {}) => (await import('./fileConverter')).extractDocumentFromPDF(fileUri, options),
+  },
+  {
+    id: 'docx',
+    label: 'DOCX',
+    extensions: ['docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    documentType: 'docx',
+    uploadable: true,
+    sniff: isDocx,
+    convert: async (fileUri, options = {}) => {
+      const { extractBlocksFromDOCX } = await import('./fileConverter');
+      const { blocks, properties } = await extractBlocksFromDOCX(fileUri, options);
+      return buildProcessedDocument({
+        blocks: cleanupBlocks(blocks, options.cleanup),
+        sourceFormat: 'docx',
+        ...properties,
+      });
+    },
+  },
+  {
+    id: 'epub',
+    label: 'EPUB',
+    extensions: ['epub'],
+    mimeTypes: ['application/epub+zip'],
+    documentType: 'epub',
+    uploadable: true,
+    sniff: isEpub,
+    convert: async (fileUri, options = {}) => (await import('./fileConverter')).extractDocumentFromEPUB(fileUri, options),
+  },
+  {
+    id: 'rtf',
+    label: 'RTF',
+    extensions: ['rtf'],
+    mimeTypes: ['application/rtf', 'text/rtf'],
+    documentType: 'rtf',
+    uploadable: true,
+    sniff: (header) => asciiAt(header, 0, 5) === '{\\rtf',
+    convert: async (fileUri, options = {}) => {
+      const { extractTextFromRTF } = await import('./fileConverter');
+      const blocks = textPagesToBlocks([await extractTextFromRTF(fileUri, options)], options.cleanup);
+      return buildProcessedDocument({ blocks, sourceFormat: 'rtf' });
+    },
+  },
+  {
+    id: 'html',
+    label: 'HTML',
+    extensions: ['html', 'htm', 'xhtml'],
+    mimeTypes: ['text/html', 'application/xhtml+xml'],
+    documentType: 'html',
+    uploadable: true,
+    text: true,
+    sniff: (header) => looksLikeText(header) && looksLikeHtml(asciiAt(header, 0, 512)),
+    convert: async (fileUri, options = {}) => {
+      const { extractTextFromTXT } = await import('./fileConverter');
+      const { htmlToDocument } = await import('./htmlConverter');
+      const { text, encoding } = await extractTextFromTXT(fileUri, options);
+      const { blocks, title, author, language } = htmlToDocument(text);
+      return buildProcessedDocument({
+        blocks: cleanupBlocks(blocks, options.cleanup),
+        sourceFormat: 'html',
+        title,
+        author,
+        language,
+        encoding,
+      });
+    },
+  },
+  {
+    id: 'markdown',
+    label: 'Markdown',
+    extensions: ['md', 'markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown'],
+    documentType: 'markdown',
+    uploadable: true,
+    text: true,
+    convert: async (fileUri, options = {}) => {
+      const { extractTextFromTXT } = await import('./fileConverter');
+      const { markdownToDocument } = await import('./markdownConverter');
+      const { text, encoding } = await extractTextFromTXT(fileUri, options);
+      const { blocks, title, author, language } = markdownToDocument(text);
+      return buildProcessedDocument({
+        blocks: cleanupBlocks(blocks, options.cleanup),
+        sourceFormat: 'markdown',
+        title,
+        author,
+        language,
+        encoding,
+      });
+    },
+  },
+  {
+    id: 'txt',
+    label: 'TXT',
+    extensions: ['txt', 'json', 'xml', 'csv'],
+    mimeTypes: ['text/plain', 'application/json', 'text/xml', 'application/xml', 'text/csv'],
+    documentType: 'txt',
+    uploadable: true,
+    text: true,
+    convert: async (fileUri, options = {}) => {
+      const { extractTextFromTXT } = await import('./fileConverter');
+      const { text, encoding } = await extractTextFromTXT(fileUri, options);
+      return buildProcessedDocument({ blocks: textPagesToBlocks([text], options.cleanup), sourceFormat: 'txt', encoding });
+    },
+  },
+  {
+    id: 'image',
+    label: 'Image',
+    extensions: ['jpg', 'jpeg', 'png', 'gif', 'webp'],
+    mimeTypes: ['image/jpeg', 'image/png', 'image/gif', 'image/webp'],
+    documentType: 'image',
+    uploadable: false,
+    sniff: (header) =>
+      startsWith(header, [0xff, 0xd8, 0xff]) ||
+      startsWith(header, [0x89, 0x50, 0x4e, 0x47]) ||
+      asciiAt(header, 0, 4) === 'GIF8' ||
+      (asciiAt(header, 0, 4) === 'RIFF' && asciiAt(header, 8, 4) === 'WEBP'),
+    convert: async (fileUri, options = {}) => {
+      const { extractTextFromImage } = await import('./fileConverter');
+      const blocks = textPagesToBlocks([await extractTextFromImage(fileUri, options)], options.cleanup);
+      return buildProcessedDocument({ blocks, sourceFormat: 'image' });
+    },
+  },
+];
+
+// Extensions that are recognised but cannot be converted
+const UNSUPPORTED_EXTENSIONS: { [ext: string]: string } = {
+  doc: 'DOC files are not supported. Please save as DOCX and try again.',
+};
+
+// Word saves password-protected DOCX files in an OLE2 container (like legacy DOC)
+const ENCRYPTED_DOCX_REASON = 'This DOCX file is password-protected. Remove the password in Word and try again.';
+
+export function getConverters(): DocumentConverter[] {
+  return CONVERTERS;
+}
+
+export function getConverter(id: ConverterId): DocumentConverter {
+  return CONVERTERS.find((c) => c.id === id)!;
+}
+
+function normalizeExtension(filenameOrExt: string): string {
+  const value = filenameOrExt.toLowerCase().trim();
+  return value.includes('.') ? value.split('.').pop() || '' : value;
+}
+
+export function findConverterByExtension(filenameOrExt: string): DocumentConverter | null {
+  const ext = normalizeExtension(filenameOrExt);
+  if (!ext) return null;
+  return CONVERTERS.find((c) => c.extensions.includes(ext)) || null;
+}
+
+export function findConverterByMimeType(mimeType: string | null | undefined): DocumentConverter | null {
+  const mime = (mimeType || '').toLowerCase().split(';')[0].trim();
+  if (!mime || mime === 'application/octet-stream') return null;
+  return CONVERTERS.find((c) => c.mimeTypes.includes(mime)) || null;
+}
+
+export function sniffConverter(header: Uint8Array): DocumentConverter | null {
+  return CONVERTERS.find((c) => c.sniff?.(header)) || null;
+}
+
+/**
+ * Reason a file cannot be converted, or null if it can
+ */
+export function getUnsupportedReason(filename: string, header?: Uint8Array | null): string | null {
+  const ext = normalizeExtension(filename);
+  if (header && isOle2(header)) return ext === 'docx' ? ENCRYPTED_DOCX_REASON : UNSUPPORTED_EXTENSIONS.doc;
+  if (UNSUPPORTED_EXTENSIONS[ext] && !(header && sniffConverter(header))) return UNSUPPORTED_EXTENSIONS[ext];
+  return null;
+}
+
+/**
+ * getUnsupportedReason as a typed error: EncryptedFileError or UnsupportedFormatError
+ */
+export function getUnsupportedError(filename: string, header?: Uint8Array | null): ImportError | null {
+  const reason = getUnsupportedReason(filename, header);
+  if (!reason) return null;
+  return reason === ENCRYPTED_DOCX_REASON ? new EncryptedFileError(reason) : new UnsupportedFormatError(reason);
+}
+
+/**
+ * Pick the converter for a file. File content wins over the extension when a signature
+ * matches; otherwise the extension, then the MIME type. Binary formats whose signature is
+ * missing fall back to plain text only if the content looks like text.
+ */
+export function detectConverter(params: {
+  filename: string;
+  mimeType?: string | null;
+  header?: Uint8Array | null;
+}): DocumentConverter | null {
+  const { filename, mimeType, header } = params;
+  if (getUnsupportedReason(filename, header)) return null;
+
+  const byExtension = findConverterByExtension(filename);
+  const byMime = findConverterByMimeType(mimeType);
+
+  if (header && header.length > 0) {
+    const sniffed = sniffConverter(header);
+    if (sniffed) return sniffed;
+
+    // A zip whose entries are ordered unusually can still be a correctly named DOCX/EPUB;
+    // an HTML fragment without <html> is still HTML when named so
+    const claimed = byExtension || byMime;
+    if (
+      claimed &&
+      (!claimed.sniff ||
+        (claimed.text && looksLikeText(header)) ||
+        (isZip(header) && (claimed.id === 'docx' || claimed.id === 'epub')))
+    ) {
+      return claimed;
+    }
+    return looksLikeText(header) ? getConverter('txt') : null;
+  }
+
+  // No content available: trust the name, then the MIME type, then try plain text
+  return byExtension || byMime || getConverter('txt');
+}
+
+/**
+ * Converters offered in the file picker
+ */
+export function getUploadableConverters(): DocumentConverter[] {
+  return CONVERTERS.filter((c) => c.uploadable);
+}
+
+export function isUploadableFile(filename: string): boolean {
+  return Boolean(findConverterByExtension(filename)?.uploadable);
+}
+
+/**
+ * "PDF, DOCX, EPUB, RTF, TXT" - for hints and error messages
+ */
+export function getSupportedFormatsLabel(): string {
+  return getUploadableConverters()
+    .map((c) => c.label)
+    .join(', ');
+}
+
+// Read at most `length` bytes of a response; the rest of the body is never downloaded
+async function readResponsePrefix(resp: Response, length: number): Promise<Uint8Array> {
+  const reader = (resp.body as ReadableStream<Uint8Array> | null)?.getReader?.();
+  if (!reader) {
+    // No streaming body (React Native fetch): the Range header already limits the response
+    return new Uint8Array(await (await resp.blob()).slice(0, length).arrayBuffer());
+  }
+
+  const out = new Uint8Array(length);
+  let filled = 0;
+  try {
+    while (filled < length) {
+      const { done, value } = await reader.read();
+      if (done || !value) break;
+      const take = Math.min(value.length, length - filled);
+      out.set(value.subarray(0, take), filled);
+      filled += take;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+  return out.subarray(0, filled);
+}
+
+/**
+ * Read the first bytes of a file for sniffing (null if the URI cannot be read this way).
+ * Web and http URIs are read as a stream (with a Range request for http) that stops after
+ * `length` bytes, so large files are not downloaded to sniff them.
+ */
+export async function readFileHeader(
+  fileUri: string,
+  options: { length?: number; signal?: AbortSignal | null } = {}
+): Promise<Uint8Array | null> {
+  const { length = SNIFF_LENGTH, signal } = options;
+  try {
+    throwIfAborted(signal);
+    if (fileUri.startsWith('asyncstorage://')) return null;
+
+    if (fileUri.startsWith('data:')) {
+      const match = fileUri.match(/^data:[^,]*;base64,(.*)$/);
+      if (!match) return null;
+      // 4 base64 chars encode 3 bytes
+      const chars = Math.ceil(length / 3) * 4;
+      return base64ToUint8Array(match[1].slice(0, chars)).subarray(0, length);
+    }
+
+    if (Platform.OS === 'web' || fileUri.startsWith('http')) {
+      // blob: URLs do not take a Range header in every browser; their stream is cut off instead
+      const headers: Record<string, string> = fileUri.startsWith('http') ? { Range: `bytes=0-${length - 1}` } : {};
+      const resp = await fetch(fileUri, { headers, signal: signal || undefined });
+      if (!resp.ok) return null;
+      return await readResponsePrefix(resp, length);
+    }
+
+    const base64 = await abortable(
+      FileSystem.readAsStringAsync(fileUri, {
+        encoding: 'base64',
+        position: 0,
+        length,
+      } as any),
+      signal
+    );
+    return base64ToUint8Array(base64);
+  } catch (error: any) {
+    throwIfAborted(signal);
+    if (isConversionCancelled(error)) throw error;
+    console.warn('[ConverterRegistry] Could not read file header:', error?.message);
+    return null;
+  }
+}
@@ -0,0 +1,488 @@
+/**
+ * Document import pipeline
+ * Takes one picked file to a ready `UserDocument`: format detection, backend PDF extraction
+ * (on-device fallback), Storage upload of the original, conversion, processed JSON and the
+ * dashboard counter. No UI; the upload queue runs it for each file.
+ */
+
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import { getBackendUrl } from '@/utils/backendConfig';
+import { computeContentHash } from '@/utils/contentHash';
+import {
+  abortable,
+  isConversionCancelled,
+  throwIfAborted,
+  withTimeout,
+  type ConversionProgressCallback,
+} from '@/utils/conversionControl';
+import { detectConverter, getSupportedFormatsLabel, getUnsupportedError, readFileHeader } from '@/utils/converterRegistry';
+import { getImportErrorCode, isImportError, NoTextLayerError, UnsupportedFormatError } from '@/utils/importErrors';
+import { getFirebaseIdToken } from '@/utils/firebaseAuth';
+import { auth } from '@/utils/firebaseConfig';
+import {
+  deleteStoragePath,
+  downloadJsonFromStoragePath,
+  uploadJsonToStoragePath,
+  uploadLocalFileToStorage,
+  uploadProcessedDocument,
+} from '@/utils/firebaseStorageHelpers';
+import { bumpDashboardSummary } from '@/utils/firestoreDashboard';
+import { deleteUserDocument, findDocumentByContentHash, upsertUserDocument } from '@/utils/firestoreDocuments';
+import { getFileExtension } from '@/utils/fileUtils';
+import { getDocumentSummary, type ProcessedDocument } from '@/utils/processedDocument';
+import type { TextEncodingId } from '@/utils/textEncoding';
+
+export interface ImportSource {
+  uri: string;
+  name: string;
+  mimeType?: string | null;
+}
+
+export interface ImportOptions {
+  signal?: AbortSignal | null;
+  onProgress?: ConversionProgressCallback;
+  // Retry: reuse the UserDocument an earlier attempt created (for PDFs the backend's output is
+  // moved to its processed path, because the backend assigns a new id)
+  docId?: string;
+  countUpload?: boolean; // bump the dashboard "files uploaded" counter (default true)
+  allowDuplicate?: boolean; // import even when the library already has this exact file
+  onDocumentCreated?: (doc: { docId: string; storagePath: string; processedPath: string }) => void;
+}
+
+export interface ImportResult {
+  docId: string;
+  title: string;
+  processedPath: string;
+}
+
+/**
+ * The library already has a document with the same content. Nothing was created;
+ * import again with `allowDuplicate` to keep a separate copy.
+ */
+export class DuplicateDocumentError extends Error {
+  existingDocId: string;
+  existingTitle: string;
+
+  constructor(existing: { docId: string; title: string }) {
+    super(`"${existing.title}" is already in your library.`);
+    this.name = 'DuplicateDocumentError';
+    this.existingDocId = existing.docId;
+    this.existingTitle = existing.title;
+  }
+}
+
+export function isDuplicateDocument(error: any): error is DuplicateDocumentError {
+  return error instanceof DuplicateDocumentError || error?.name === 'DuplicateDocumentError';
+}
+
+const sleep = (ms: number, signal?: AbortSignal | null) => abortable(new Promise((r) => setTimeout(r, ms)), signal);
+
+// Imports between the duplicate check and creating their document, by `${uid}:${contentHash}`
+const claimedContentHashes = new Map<string, Promise<void>>();
+
+/**
+ * Wait for other imports of the same content to create their document, then claim it.
+ * Call the returned function once this import has created its own (or given up).
+ */
+async function claimContentHash(key: string, signal?: AbortSignal | null): Promise<() => void> {
+  let claimed = claimedContentHashes.get(key);
+  while (claimed) {
+    console.log('[DocumentImport] Waiting for another import of the same file');
+    await abortable(claimed, signal);
+    claimed = claimedContentHashes.get(key);
+  }
+  let release!: () => void;
+  const done = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  claimedContentHashes.set(key, done);
+  return () => {
+    if (claimedContentHashes.get(key) === done) claimedContentHashes.delete(key);
+    release();
+  };
+}
+
+async function buildPdfFormData(params: { uri: string; name: string }) {
+  // Ensures the URI is uploadable by fetch/multipart on Android (content:// can be flaky).
+  let uploadUri = params.uri;
+  let tempFileUri: string | null = null;
+
+  if (Platform.OS !== 'web' && !uploadUri.startsWith('file://')) {
+    const base64 = await FileSystem.readAsStringAsync(uploadUri, { encoding: 'base64' } as any);
+    tempFileUri = `${FileSystem.cacheDirectory || FileSystem.documentDirectory}readx-upload-${Date.now()}.pdf`;
+    await FileSystem.writeAsStringAsync(tempFileUri, base64, { encoding: 'base64' } as any);
+    uploadUri = tempFileUri;
+  }
+
+  const formData = new FormData();
+  if (Platform.OS === 'web') {
+    const blob = await (await fetch(params.uri)).blob();
+    (formData as any).append('file', blob, params.name);
+  } else {
+    formData.append('file', {
+      uri: uploadUri,
+      name: params.name,
+      type: 'application/pdf',
+    } as any);
+  }
+
+  return {
+    formData,
+    cleanup: async () => {
+      if (tempFileUri) {
+        try {
+          await FileSystem.deleteAsync(tempFileUri, { idempotent: true } as any);
+        } catch {
+          // ignore
+        }
+      }
+    },
+  };
+}
+
+async function waitForProcessedJson(
+  processedPath: string,
+  signal?: AbortSignal | null
+): Promise<{ version?: number; pages?: number; text?: string } | null> {
+  // Poll Storage for up to ~60s (backend processing time).
+  const maxAttempts = 10;
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    throwIfAborted(signal);
+    try {
+      const json = await downloadJsonFromStoragePath(processedPath);
+      return json;
+    } catch {
+      // backoff: 0.5s, 1s, 2s, 4s... capped
+      const delay = Math.min(8000, 500 * Math.pow(2, attempt));
+      await sleep(delay, signal);
+    }
+  }
+  return null;
+}
+
+async function normalizePickedFileUri(params: { uri: string; extension: string }) {
+  if (Platform.OS === 'web') {
+    return { uri: params.uri, cleanup: async () => {} };
+  }
+  if (params.uri.startsWith('file://')) {
+    return { uri: params.uri, cleanup: async () => {} };
+  }
+  // Copy content:// (or other) into cache so both conversion + Storage upload are stable.
+  const tmp = `${FileSystem.cacheDirectory || FileSystem.documentDirectory}readx-picked-${Date.now()}.${params.extension}`;
+  await FileSystem.copyAsync({ from: params.uri, to: tmp });
+  return {
+    uri: tmp,
+    cleanup: async () => {
+      try {
+        await FileSystem.deleteAsync(tmp, { idempotent: true } as any);
+      } catch {
+        // ignore
+      }
+    },
+  };
+}
+
+/**
+ * Import one file into the signed-in user's library
+ */
+export async function importDocument(file: ImportSource, options: ImportOptions = {}): Promise<ImportResult> {
+  const currentUser = auth.currentUser;
+  if (!currentUser?.uid) {
+    throw new Error('Please sign in to upload files.');
+  }
+  options.onProgress?.({ stage: 'loading' });
+
+  // Normalize the URI once so sniffing, hashing, extraction and the Storage upload don't
+  // break on Android content:// URIs
+  const fileExt = getFileExtension(file.name).toLowerCase();
+  const normalized = await normalizePickedFileUri({ uri: file.uri, extension: fileExt || 'bin' });
+  try {
+    return await importNormalizedFile({ ...file, uri: normalized.uri }, options, currentUser);
+  } finally {
+    try {
+      await normalized.cleanup();
+    } catch {
+      // ignore
+    }
+  }
+}
+
+async function importNormalizedFile(
+  file: ImportSource,
+  options: ImportOptions,
+  currentUser: { uid: string; email: string | null; displayName: string | null }
+): Promise<ImportResult> {
+  const { signal, onProgress } = options;
+
+  // Detect the format from the file content (falls back to extension, then MIME type)
+  const fileExt = getFileExtension(file.name).toLowerCase();
+  // Read once: the conversion below reuses it instead of sniffing the file again
+  const header = await readFileHeader(file.uri, { signal });
+  const unsupported = getUnsupportedError(file.name, header);
+  if (unsupported) throw unsupported;
+  const converter = detectConverter({ filename: file.name, mimeType: file.mimeType, header });
+  if (!converter || !converter.uploadable) {
+    const label = fileExt.toUpperCase() || 'Unknown';
+    throw new UnsupportedFormatError(
+      `The file format "${label}" is not supported. Supported formats: ${getSupportedFormatsLabel()} only.`
+    );
+  }
+  throwIfAborted(signal);
+
+  const uid = currentUser.uid;
+  const email = currentUser.email || '';
+  const name = currentUser.displayName || email || 'User';
+
+  // Same bytes as an existing document: let the user open that one (keeping its progress)
+  // instead of extracting and counting the file again
+  let contentHash: string;
+  try {
+    contentHash = await computeContentHash(file.uri, signal);
+  } catch (hashError: any) {
+    if (isConversionCancelled(hashError)) throw hashError;
+    console.warn('[DocumentImport] Could not hash file:', hashError?.message);
+    throw new Error('Could not read this file to check it against your library. Please try again.');
+  }
+  // Another import of the same file (e.g. picked twice in one batch) may not have created its
+  // document yet: wait until it has, so the check below finds it
+  const releaseContentHash = await claimContentHash(`${uid}:${contentHash}`, signal);
+
+  // Keep the real extension when it matches the content; otherwise use the canonical one
+  const ext = converter.extensions.includes(fileExt) ? fileExt : converter.extensions[0];
+  const type = converter.documentType;
+  const title = file.name;
+  const contentType =
+    file.mimeType && converter.mimeTypes.includes(file.mimeType) ? file.mimeType : converter.mimeTypes[0];
+
+  // For PDFs, backend generates docId (fileId). For others, we use a timestamp docId.
+  let docId = options.docId || `${Date.now()}-${Math.random().toString(36).slice(2, 6)}`;
+  let storagePath = '';
+  let processedPath = '';
+  // When the backend is down/offline, PDFs are extracted on the device instead.
+  let extractPdfOnDevice = false;
+  // The backend found no text in the PDF (422): its pages are OCR'd on the device instead
+  let noTextError: NoTextLayerError | null = null;
+  try {
+    if (!options.allowDuplicate) {
+      const existing = await findDocumentByContentHash(uid, contentHash, options.docId);
+      if (existing) {
+        console.log('[DocumentImport] Duplicate of', existing.id);
+        throw new DuplicateDocumentError({ docId: existing.id, title: existing.data.title });
+      }
+    }
+    throwIfAborted(signal);
+
+    if (converter.id === 'pdf') {
+      try {
+        // 1) Call secured backend with Firebase ID token (backend writes processed JSON to Storage)
+        onProgress?.({ stage: 'uploading' });
+        const idToken = await getFirebaseIdToken();
+        const { formData, cleanup } = await buildPdfFormData({ uri: file.uri, name: file.name });
+
+        let resp: Response;
+        try {
+          resp = await withTimeout(
+            (requestSignal) =>
+              fetch(`${getBackendUrl()}/extract/pdf`, {
+                method: 'POST',
+                headers: { Authorization: `Bearer ${idToken}` },
+                body: formData,
+                signal: requestSignal,
+              }),
+            // Scanned pages are OCR'd by the backend, which takes a few seconds per page
+            { timeoutMs: 180000, timeoutMessage: 'PDF extraction timed out.', signal }
+          );
+        } finally {
+          await cleanup();
+        }
+
+        if (resp.status === 422) {
+          const body = await resp.json().catch(() => null);
+          throw new NoTextLayerError(typeof body?.error === 'string' ? body.error : undefined);
+        }
+        if (!resp.ok) {
+          const txt = await resp.text().catch(() => '');
+          throw new Error(txt ? 'PDF extraction failed. Please try another PDF.' : 'PDF extraction failed.');
+        }
+
+        const json = await resp.json();
+        const fileId = String(json.fileId || docId);
+        if (options.docId && fileId !== docId) {
+          // Retry: keep the earlier attempt's document and move the backend's output to its path
+          const backendPath = `users/${uid}/processed/${fileId}.json`;
+          const processed = await waitForProcessedJson(backendPath, signal);
+          if (!processed) throw new Error('PDF extraction output is missing.');
+          await uploadJsonToStoragePath({ storagePath: `users/${uid}/processed/${docId}.json`, json: processed });
+          await deleteStoragePath(backendPath).catch(() => {});
+        } else {
+          docId = fileId;
+        }
+      } catch (backendError: any) {
+        if (isConversionCancelled(backendError)) throw backendError;
+        if (backendError instanceof NoTextLayerError) {
+          noTextError = backendError;
+        } else {
+          console.warn('[DocumentImport] Backend PDF extraction failed, extracting on device:', backendError?.message);
+          extractPdfOnDevice = true;
+        }
+      }
+    }
+
+    storagePath = `users/${uid}/files/${docId}/original.${ext}`;
+    processedPath = `users/${uid}/processed/${docId}.json`;
+
+    // 2) Create Firestore metadata early (processing → ready/error)
+    await upsertUserDocument({
+      uid,
+      docId,
+      data: {
+        type,
+        title,
+        pages: 1,
+        status: 'processing',
+        storagePath,
+        processedPath,
+        contentHash,
+      },
+    });
+    options.onDocumentCreated?.({ docId, storagePath, processedPath });
+  } finally {
+    releaseContentHash();
+  }
+
+  try {
+    // 3) Upload original file to Storage (required schema)
+    onProgress?.({ stage: 'uploading' });
+    await uploadLocalFileToStorage({ storagePath, fileUri: file.uri, contentType, name: file.name, signal });
+
+    // 4) For non-PDF types (and PDFs extracted on device), create processed JSON ourselves
+    // (no large text in Firestore)
+    if (converter.id !== 'pdf' || extractPdfOnDevice || noTextError) {
+      let processedDocument: ProcessedDocument;
+      if (noTextError) {
+        const { recoverPdfPagesWithoutText } = await import('@/utils/fileConverter');
+        processedDocument = await recoverPdfPagesWithoutText(file.uri, noTextError, { signal, onProgress });
+      } else if (converter.id === 'pdf') {
+        const { extractPdfDocumentLocally } = await import('@/utils/fileConverter');
+        processedDocument = await extractPdfDocumentLocally(file.uri, { signal, onProgress });
+      } else if (converter.id === 'txt') {
+        // TXT: read the bytes directly (fast + reliable) and decode with the detected encoding
+        const { extractTextFromTXT } = await import('@/utils/fileConverter');
+        const { text, encoding } = await extractTextFromTXT(file.uri, { signal, onProgress });
+        const { buildProcessedDocument } = await import('@/utils/processedDocument');
+        const { textPagesToBlocks } = await import('@/utils/textCleanup');
+        processedDocument = buildProcessedDocument({ blocks: textPagesToBlocks([text]), sourceFormat: 'txt', encoding });
+      } else {
+        const { convertFileToDocument } = await import('@/utils/fileConverter');
+        const uri = file.uri;
+        processedDocument = await withTimeout(
+          (conversionSignal) =>
+            convertFileToDocument(uri, file.name, {
+              mimeType: file.mimeType,
+              header,
+              signal: conversionSignal,
+              onProgress,
+            }),
+          { timeoutMs: 30000, timeoutMessage: 'File conversion timeout. Please try again.', signal }
+        );
+      }
+      throwIfAborted(signal);
+      onProgress?.({ stage: 'saving' });
+      const encoding = processedDocument.metadata.encoding as TextEncodingId | undefined;
+      await uploadProcessedDocument({ storagePath: processedPath, document: processedDocument });
+
+      await upsertUserDocument({
+        uid,
+        docId,
+        data: {
+          type,
+          title,
+          ...getDocumentSummary(processedDocument),
+          status: 'ready',
+          storagePath,
+          processedPath,
+          ...(encoding ? { encoding } : {}),
+        },
+      });
+    } else {
+      // Wait for backend processed JSON (realtime UI shows "processing" while we wait)
+      onProgress?.({ stage: 'extracting' });
+      const processed = await waitForProcessedJson(processedPath, signal);
+      const { readPdfExtractionJson, recoverPdfPagesWithoutText } = await import('@/utils/fileConverter');
+      let processedDocument: ProcessedDocument;
+      if (!processed || typeof processed?.text !== 'string' || !processed.text.trim()) {
+        // No text at all: extract and OCR on the device (fails with NoTextLayerError if that finds none)
+        processedDocument = await recoverPdfPagesWithoutText(
+          file.uri,
+          new NoTextLayerError('No text detected in this PDF. Please upload a text-based PDF (not images).'),
+          { signal, onProgress }
+        );
+        await uploadProcessedDocument({ storagePath: processedPath, document: processedDocument });
+      } else {
+        // Legacy backend output is cleaned up and rewritten in the versioned format; pages it
+        // returned without text (scans) are OCR'd on the device and merged in
+        const backendDocument = readPdfExtractionJson(processed);
+        processedDocument = await recoverPdfPagesWithoutText(file.uri, backendDocument, { signal, onProgress });
+        if (processedDocument !== backendDocument || typeof processed.version !== 'number') {
+          await uploadProcessedDocument({ storagePath: processedPath, document: processedDocument });
+        }
+      }
+      throwIfAborted(signal);
+
+      await upsertUserDocument({
+        uid,
+        docId,
+        data: {
+          type,
+          title,
+          ...getDocumentSummary(processedDocument),
+          status: 'ready',
+          storagePath,
+          processedPath,
+        },
+      });
+    }
+  } catch (e: any) {
+    // Cancelled: remove what was created so far instead of leaving an error entry
+    if (isConversionCancelled(e)) {
+      await Promise.all([
+        deleteUserDocument(uid, docId),
+        deleteStoragePath(storagePath),
+        deleteStoragePath(processedPath),
+      ]).catch((cleanupError) => console.warn('[DocumentImport] Cleanup after cancel failed:', cleanupError));
+      throw e;
+    }
+
+    // Ensure documents never get stuck in "processing"
+    const msg = typeof e?.message === 'string' && e.message.trim() ? e.message : 'Processing failed. Please try again.';
+    await upsertUserDocument({
+      uid,
+      docId,
+      data: {
+        type,
+        title,
+        pages: 1,
+        status: 'error',
+        storagePath,
+        processedPath,
+        // Store the real error so we can debug issues in production; the code picks the message shown
+        errorMessage: msg,
+        errorCode: getImportErrorCode(e),
+      } as any,
+    });
+    throw isImportError(e) ? e : new Error(msg);
+  }
+
+  // 5) Update dashboard summary counters (strict path), once per document
+  if (options.countUpload !== false) {
+    await bumpDashboardSummary({
+      uid,
+      name,
+      email,
+      filesUploadedDelta: 1,
+    });
+  }
+
+  return { docId, title, processedPath };
+}
@@ -0,0 +1,153 @@
+/**
+ * Document metadata helpers
+ * Language detection (script ranges, then common-word counts for Latin-script languages),
+ * reading time and clean-up of titles/authors taken from file properties. Pure functions,
+ * shared with the extraction backend.
+ */
+
+export const READING_WORDS_PER_MINUTE = 200;
+// Printed book page, for formats without pages of their own (pasted text, TXT, RTF)
+export const WORDS_PER_PAGE = 300;
+
+const LANGUAGE_LABELS: { [code: string]: string } = {
+  en: 'English',
+  es: 'Spanish',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  pt: 'Portuguese',
+  nl: 'Dutch',
+  ru: 'Russian',
+  el: 'Greek',
+  ar: 'Arabic',
+  he: 'Hebrew',
+  hi: 'Hindi',
+  zh: 'Chinese',
+  ja: 'Japanese',
+  ko: 'Korean',
+};
+
+// Scripts used by a single language in practice (checked before word counts)
+const SCRIPT_LANGUAGES: { code: string; re: RegExp }[] = [
+  { code: 'ja', re: /[\u3040-\u30ff]/g }, // kana (before Han: Japanese also uses kanji)
+  { code: 'ko', re: /[\uac00-\ud7af]/g },
+  { code: 'zh', re: /[\u4e00-\u9fff]/g },
+  { code: 'ru', re: /[\u0400-\u04ff]/g },
+  { code: 'el', re: /[\u0370-\u03ff]/g },
+  { code: 'ar', re: /[\u0600-\u06ff]/g },
+  { code: 'he', re: /[\u0590-\u05ff]/g },
+  { code: 'hi', re: /[\u0900-\u097f]/g },
+];
+
+const COMMON_WORDS: { [code: string]: string[] } = {
+  en: ['the', 'and', 'of', 'to', 'in', 'is', 'that', 'it', 'was', 'for', 'with', 'he', 'she', 'you', 'are', 'this'],
+  es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'se', 'del', 'las', 'un', 'por', 'con', 'una', 'es', 'para'],
+  fr: ['le', 'la', 'de', 'et', 'les', 'des', 'est', 'un', 'une', 'du', 'que', 'dans', 'qui', 'pas', 'pour', 'sur'],
+  de: ['der', 'die', 'und', 'das', 'ist', 'nicht', 'ein', 'zu', 'den', 'mit', 'sich', 'des', 'auf', 'dem', 'eine', 'ich'],
+  it: ['il', 'di', 'che', 'e', 'la', 'per', 'un', 'non', 'del', 'della', 'sono', 'una', 'gli', 'con', 'le', 'si'],
+  pt: ['o', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'para', 'com', 'não', 'uma', 'os', 'no', 'se', 'na'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'ik', 'te', 'dat', 'die', 'in', 'is', 'niet', 'op', 'zijn', 'met', 'voor'],
+};
+
+// Enough text for a stable guess without scanning whole books
+const SAMPLE_CHARS = 20000;
+
+/**
+ * ISO 639-1 code of the document's main language, or undefined when unsure
+ */
+export function detectLanguage(text: string): string | undefined {
+  const sample = text.slice(0, SAMPLE_CHARS);
+  const letters = (sample.match(/\p{L}/gu) || []).length;
+  if (letters < 20) return undefined;
+
+  for (const { code, re } of SCRIPT_LANGUAGES) {
+    const count = (sample.match(re) || []).length;
+    // Kana marks Japanese even in kanji-heavy text
+    if (count / letters > (code === 'ja' ? 0.05 : 0.3)) return code;
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  const scores = Object.entries(COMMON_WORDS).map(([code, common]) => {
+    const set = new Set(common);
+    return { code, hits: words.filter((w) => set.has(w)).length };
+  });
+  scores.sort((a, b) => b.hits - a.hits);
+  const [best, runnerUp] = scores;
+  if (best.hits < Math.max(3, words.length * 0.05)) return undefined;
+  if (runnerUp && best.hits < runnerUp.hits * 1.2) return undefined;
+  return best.code;
+}
+
+/**
+ * "English" for "en" / "en-GB"; the code itself for languages without a label
+ */
+export function getLanguageLabel(code: string): string {
+  const base = code.toLowerCase().split(/[-_]/)[0];
+  return LANGUAGE_LABELS[base] || code;
+}
+
+/**
+ * Normalize a language tag from file properties ("en-US", "English") to a base code
+ */
+export function normalizeLanguageTag(value: string | null | undefined): string | undefined {
+  const tag = (value || '').trim().toLowerCase();
+  if (!tag) return undefined;
+  const base = tag.split(/[-_]/)[0];
+  if (/^[a-z]{2}$/.test(base)) return base;
+  const byName = Object.entries(LANGUAGE_LABELS).find(([, label]) => label.toLowerCase() === tag);
+  return byName ? byName[0] : undefined;
+}
+
+export function estimateReadingMinutes(wordCount: number): number {
+  if (wordCount <= 0) return 0;
+  return Math.max(1, Math.round(wordCount / READING_WORDS_PER_MINUTE));
+}
+
+export function estimatePageCount(wordCount: number): number {
+  return Math.max(1, Math.ceil(wordCount / WORDS_PER_PAGE));
+}
+
+/**
+ * "5 min read", "1 h 20 min read"
+ */
+export function formatReadingTime(minutes: number): string {
+  if (minutes < 60) return `${Math.max(1, minutes)} min read`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min read` : `${hours} h read`;
+}
+
+/**
+ * Title from file properties, or undefined when it is only a placeholder or a filename
+ * (e.g. "Microsoft Word - notes.docx", "Untitled", "doc1.pdf")
+ */
+export function cleanMetadataTitle(value: string | null | undefined): string | undefined {
+  const title = (value || '')
+    .replace(/^Microsoft (Word|PowerPoint) - /i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+  if (!title || title.length > 300) return undefined;
+  if (/^(untitled|document\d*|title|doc\d*)$/i.test(title)) return undefined;
+  if (/^[^\s]+\.(docx?|pdf|rtf|txt|epub|odt|indd|qxd)$/i.test(title)) return undefined;
+  return title;
+}
+
+export function cleanMetadataAuthor(value: string | null | undefined): string | undefined {
+  const author = (value || '').replace(/\s+/g, ' ').trim();
+  if (!author || author.length > 200) return undefined;
+  if (/^(unknown|author|user|administrator|admin)$/i.test(author)) return undefined;
+  return author;
+}
+
+/**
+ * Title, author and language from a PDF info dictionary (pdf.js / pdf-parse `info`)
+ */
+export function readPdfInfo(info: any): { title?: string; author?: string; language?: string } {
+  if (!info || typeof info !== 'object') return {};
+  const str = (value: any) => (typeof value === 'string' ? value : undefined);
+  return {
+    title: cleanMetadataTitle(str(info.Title)),
+    author: cleanMetadataAuthor(str(info.Author)),
+    language: normalizeLanguageTag(str(info.Language) || str(info.Lang)),
+  };
+}
@@ -0,0 +1,250 @@
+/**
+ * DOCX Converter
+ * Walks word/document.xml (w:p, w:pStyle, w:numPr, w:tbl) and emits structured blocks
+ */
+
+import { cleanMetadataAuthor, cleanMetadataTitle, normalizeLanguageTag } from './documentMetadata';
+import { decodeEntities } from './epubConverter';
+import type { BlockInput } from './processedDocument';
+
+export interface DocxParts {
+  documentXml: string;
+  stylesXml?: string | null;
+  numberingXml?: string | null;
+}
+
+export interface DocxProperties {
+  title?: string;
+  author?: string;
+  language?: string;
+  pageCount?: number; // as last saved by Word (docProps/app.xml)
+}
+
+interface StyleInfo {
+  headingLevel: number | null;
+  numbered: boolean;
+  kind: 'quote' | 'code' | null;
+}
+
+function getVal(xml: string, tag: string): string | null {
+  const m = xml.match(new RegExp(`<${tag}\\b[^>]*\\sw:val\\s*=\\s*"([^"]*)"`));
+  return m ? m[1] : null;
+}
+
+/**
+ * Find the end index of the element starting at `start` (handles nesting of the same tag)
+ */
+function findElementEnd(xml: string, start: number, tag: string): number {
+  const re = new RegExp(`<${tag}(?=[\\s>/])[^>]*?(/?)>|</${tag}>`, 'g');
+  re.lastIndex = start;
+  let depth = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(xml)) !== null) {
+    if (m[0].startsWith('</')) {
+      depth--;
+      if (depth === 0) return re.lastIndex;
+    } else if (m[1] !== '/') {
+      depth++;
+    } else if (depth === 0) {
+      return re.lastIndex; // self-closing at top level
+    }
+  }
+  return xml.length;
+}
+
+/**
+ * Map style id -> heading level / numbering, resolving localized style ids via their names
+ */
+function parseStyles(stylesXml: string | null | undefined): Map<string, StyleInfo> {
+  const styles = new Map<string, StyleInfo>();
+  if (!stylesXml) return styles;
+
+  const styleRe = /<w:style\b[^>]*>[\s\S]*?<\/w:style>/g;
+  let m: RegExpExecArray | null;
+  while ((m = styleRe.exec(stylesXml)) !== null) {
+    const idMatch = m[0].match(/w:styleId\s*=\s*"([^"]*)"/);
+    if (!idMatch) continue;
+    const name = (getVal(m[0], 'w:name') || '').toLowerCase();
+    const outline = getVal(m[0], 'w:outlineLvl');
+
+    let headingLevel: number | null = null;
+    const nameMatch = name.match(/^heading\s*(\d)$/);
+    if (nameMatch) headingLevel = parseInt(nameMatch[1], 10);
+    else if (name === 'title') headingLevel = 1;
+    else if (name === 'subtitle') headingLevel = 2;
+    else if (outline !== null && parseInt(outline, 10) < 9) headingLevel = parseInt(outline, 10) + 1;
+
+    let kind: StyleInfo['kind'] = null;
+    if (/quote/.test(name)) kind = 'quote';
+    else if (/code|preformatted|source/.test(name)) kind = 'code';
+
+    styles.set(idMatch[1], { headingLevel, numbered: /<w:numPr\b/.test(m[0]), kind });
+  }
+  return styles;
+}
+
+/**
+ * Map numId -> (ilvl -> ordered?) from numbering.xml
+ */
+function parseNumbering(numberingXml: string | null | undefined): Map<string, Map<number, boolean>> {
+  const result = new Map<string, Map<number, boolean>>();
+  if (!numberingXml) return result;
+
+  const abstracts = new Map<string, Map<number, boolean>>();
+  const absRe = /<w:abstractNum\b[^>]*w:abstractNumId\s*=\s*"([^"]*)"[^>]*>([\s\S]*?)<\/w:abstractNum>/g;
+  let m: RegExpExecArray | null;
+  while ((m = absRe.exec(numberingXml)) !== null) {
+    const levels = new Map<number, boolean>();
+    const lvlRe = /<w:lvl\b[^>]*w:ilvl\s*=\s*"(\d+)"[^>]*>([\s\S]*?)<\/w:lvl>/g;
+    let l: RegExpExecArray | null;
+    while ((l = lvlRe.exec(m[2])) !== null) {
+      const fmt = getVal(l[2], 'w:numFmt') || 'bullet';
+      levels.set(parseInt(l[1], 10), fmt !== 'bullet' && fmt !== 'none');
+    }
+    abstracts.set(m[1], levels);
+  }
+
+  const numRe = /<w:num\b[^>]*w:numId\s*=\s*"([^"]*)"[^>]*>([\s\S]*?)<\/w:num>/g;
+  while ((m = numRe.exec(numberingXml)) !== null) {
+    const absId = getVal(m[2], 'w:abstractNumId');
+    if (absId && abstracts.has(absId)) result.set(m[1], abstracts.get(absId)!);
+  }
+  return result;
+}
+
+/**
+ * Visible text of a paragraph (runs, tabs, breaks); skips field codes and deleted text
+ */
+function paragraphText(pXml: string): string {
+  let text = '';
+  const tokenRe = /<w:t(?:\s[^>]*)?>([\s\S]*?)<\/w:t>|<w:(tab|br|cr|noBreakHyphen|softHyphen)\b[^>]*\/?>/g;
+  let m: RegExpExecArray | null;
+  while ((m = tokenRe.exec(pXml)) !== null) {
+    if (m[1] !== undefined) {
+      text += decodeEntities(m[1]);
+    } else if (m[2] === 'tab' || m[2] === 'br' || m[2] === 'cr') {
+      text += ' ';
+    } else if (m[2] === 'noBreakHyphen') {
+      text += '-';
+    }
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function parseTable(tblXml: string): BlockInput[] {
+  const rows: BlockInput[] = [];
+  // Start after the outer <w:tbl> open tag; nested tables are read as cell content
+  const rowRe = /<w:tr(?=[\s>])/g;
+  rowRe.lastIndex = tblXml.indexOf('>') + 1;
+  let m: RegExpExecArray | null;
+  while ((m = rowRe.exec(tblXml)) !== null) {
+    const end = findElementEnd(tblXml, m.index, 'w:tr');
+    const rowXml = tblXml.slice(m.index, end);
+    const cells: string[] = [];
+    const cellRe = /<w:tc(?=[\s>])/g;
+    let c: RegExpExecArray | null;
+    while ((c = cellRe.exec(rowXml)) !== null) {
+      const cellEnd = findElementEnd(rowXml, c.index, 'w:tc');
+      const cellXml = rowXml.slice(c.index, cellEnd);
+      const paras = (cellXml.match(/<w:p\b[\s\S]*?<\/w:p>/g) || []).map(paragraphText).filter(Boolean);
+      cells.push(paras.join(' '));
+      cellRe.lastIndex = cellEnd;
+    }
+    if (cells.some((cell) => cell.length > 0)) {
+      rows.push({ type: 'tableRow', text: cells.filter(Boolean).join(' | '), cells });
+    }
+    rowRe.lastIndex = end;
+  }
+  return rows;
+}
+
+/**
+ * Parse DOCX parts into headings, list items, quotes, paragraphs and table rows (document order)
+ */
+export function parseDocxBlocks(parts: DocxParts): BlockInput[] {
+  const styles = parseStyles(parts.stylesXml);
+  const numbering = parseNumbering(parts.numberingXml);
+
+  const bodyStart = parts.documentXml.search(/<w:body\b/);
+  const xml = bodyStart >= 0 ? parts.documentXml.slice(bodyStart) : parts.documentXml;
+
+  const blocks: BlockInput[] = [];
+  // Ordered list counters per level; reset when the list is interrupted
+  let counters: number[] = [];
+  const re = /<w:(p|tbl)(?=[\s>/])/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(xml)) !== null) {
+    const tag = `w:${m[1]}`;
+    const end = findElementEnd(xml, m.index, tag);
+    const elementXml = xml.slice(m.index, end);
+    re.lastIndex = end;
+
+    if (m[1] === 'tbl') {
+      counters = [];
+      blocks.push(...parseTable(elementXml));
+      continue;
+    }
+
+    const text = paragraphText(elementXml);
+    if (!text) continue;
+
+    const pPr = elementXml.match(/<w:pPr\b[\s\S]*?<\/w:pPr>/)?.[0] || '';
+    const styleId = getVal(pPr, 'w:pStyle');
+    const style = styleId ? styles.get(styleId) : undefined;
+
+    // Heading: style (incl. built-in ids like "Heading2") or explicit outline level
+    let headingLevel = style?.headingLevel ?? null;
+    if (headingLevel === null && styleId) {
+      const idMatch = styleId.match(/^(?:heading|Heading)(\d)$/);
+      if (idMatch) headingLevel = parseInt(idMatch[1], 10);
+      else if (styleId === 'Title') headingLevel = 1;
+    }
+    const outline = getVal(pPr, 'w:outlineLvl');
+    if (headingLevel === null && outline !== null && parseInt(outline, 10) < 9) {
+      headingLevel = parseInt(outline, 10) + 1;
+    }
+    if (headingLevel !== null) {
+      counters = [];
+      blocks.push({ type: 'heading', level: Math.min(6, Math.max(1, headingLevel)), text });
+      continue;
+    }
+
+    // List item: direct numbering (numId 0 means "numbering removed") or a numbered style
+    const numPr = pPr.match(/<w:numPr\b[\s\S]*?<\/w:numPr>/)?.[0];
+    const numId = numPr ? getVal(numPr, 'w:numId') : null;
+    if ((numPr && numId !== '0') || (!numPr && style?.numbered)) {
+      const level = numPr ? parseInt(getVal(numPr, 'w:ilvl') || '0', 10) : 0;
+      const ordered = numId ? numbering.get(numId)?.get(level) ?? false : false;
+      counters = counters.slice(0, level + 1);
+      while (counters.length <= level) counters.push(0);
+      counters[level]++;
+      blocks.push({ type: 'listItem', level, marker: ordered ? `${counters[level]}.` : '•', text });
+      continue;
+    }
+
+    counters = [];
+    const kind = style ? style.kind : styleId && /quote/i.test(styleId) ? 'quote' : null;
+    blocks.push({ type: kind || 'paragraph', text });
+  }
+
+  return blocks;
+}
+
+function elementText(xml: string, tag: string): string | null {
+  const m = xml.match(new RegExp(`<${tag}\\b[^>]*>([\\s\\S]*?)</${tag}>`));
+  return m ? decodeEntities(m[1].replace(/<[^>]+>/g, '')).trim() : null;
+}
+
+/**
+ * Read title, author and language (docProps/core.xml) and page count (docProps/app.xml)
+ */
+export function parseDocxProperties(coreXml?: string | null, appXml?: string | null): DocxProperties {
+  const core = coreXml || '';
+  const pages = parseInt(elementText(appXml || '', 'Pages') || '', 10);
+  return {
+    title: cleanMetadataTitle(elementText(core, 'dc:title')),
+    author: cleanMetadataAuthor(elementText(core, 'dc:creator')),
+    language: normalizeLanguageTag(elementText(core, 'dc:language')),
+    ...(pages > 0 ? { pageCount: pages } : {}),
+  };
+}
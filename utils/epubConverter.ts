@@ -0,0 +1,409 @@
+import type JSZip from 'jszip';
+import { normalizeLanguageTag } from './documentMetadata';
+import type { BlockInput } from './processedDocument';
+import { CorruptArchiveError, EncryptedFileError } from './importErrors';
+
+export interface EpubChapter {
+  title: string;
+  blocks: BlockInput[];
+}
+
+export interface EpubBook {
+  title?: string;
+  author?: string;
+  language?: string;
+  chapters: EpubChapter[];
+}
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  mediaType: string;
+  properties: string;
+}
+
+const NAMED_ENTITIES: { [key: string]: string } = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  mdash: '—',
+  ndash: '–',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+  shy: '',
+};
+
+/**
+ * Decode XML/HTML character references (named + numeric)
+ */
+export function decodeEntities(input: string): string {
+  return input.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      if (!Number.isFinite(code) || code <= 0 || code > 0x10ffff) return match;
+      return String.fromCodePoint(code);
+    }
+    const named = NAMED_ENTITIES[entity.toLowerCase()];
+    return named !== undefined ? named : match;
+  });
+}
+
+function getAttr(tag: string, name: string): string | null {
+  const m = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, 'i'));
+  if (!m) return null;
+  return decodeEntities(m[2] ?? m[3] ?? '');
+}
+
+function stripTags(xml: string): string {
+  return decodeEntities(xml.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+function dirname(path: string): string {
+  const idx = path.lastIndexOf('/');
+  return idx >= 0 ? path.slice(0, idx + 1) : '';
+}
+
+/**
+ * Resolve an href relative to the file that references it (zip paths, no leading slash)
+ */
+function resolvePath(baseDir: string, href: string): string {
+  let cleaned = href.split('#')[0];
+  try {
+    cleaned = decodeURIComponent(cleaned);
+  } catch {
+    // keep raw href
+  }
+  const parts = (cleaned.startsWith('/') ? cleaned.slice(1) : baseDir + cleaned).split('/');
+  const out: string[] = [];
+  for (const part of parts) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') out.pop();
+    else out.push(part);
+  }
+  return out.join('/');
+}
+
+// Elements that start a new block of text
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'section', 'article', 'aside',
+  'header', 'footer', 'nav', 'main', 'figure', 'tr', 'table', 'thead', 'tbody', 'tfoot', 'ul', 'ol',
+  'dl', 'dd', 'dt', 'figcaption', 'pre', 'hr', 'address', 'caption',
+]);
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'meta', 'link', 'input', 'col', 'area', 'base', 'wbr', 'source']);
+
+/**
+ * Convert an XHTML/HTML document into typed blocks (headings, list items, quotes, code, table rows)
+ */
+export function xhtmlToBlocks(xhtml: string): BlockInput[] {
+  const bodyMatch = xhtml.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
+  const body = (bodyMatch ? bodyMatch[1] : xhtml)
+    .replace(/<!--[\s\S]*?-->/g, ' ')
+    .replace(/<(script|style|head|template)[^>]*>[\s\S]*?<\/\1>/gi, ' ');
+
+  const blocks: BlockInput[] = [];
+  const stack: string[] = []; // open block-level elements, innermost last
+  const lists: { ordered: boolean; count: number }[] = [];
+  let buffer = '';
+  let cells: string[] | null = null; // set while inside <tr>
+
+  const clean = (value: string) => decodeEntities(value).replace(/\s+/g, ' ').trim();
+  // Preformatted text keeps its line breaks and indentation
+  const cleanPre = (value: string) =>
+    decodeEntities(value).replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').replace(/^\n+|\n+$/g, '');
+
+  const flush = () => {
+    const text = stack.includes('pre') ? cleanPre(buffer) : clean(buffer);
+    buffer = '';
+    if (!text) return;
+
+    // The innermost element that gives the block a type wins
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const tag = stack[i];
+      const heading = tag.match(/^h([1-6])$/);
+      if (heading) {
+        blocks.push({ type: 'heading', level: parseInt(heading[1], 10), text });
+        return;
+      }
+      if (tag === 'pre') {
+        blocks.push({ type: 'code', text });
+        return;
+      }
+      if (tag === 'li') {
+        const list = lists[lists.length - 1];
+        blocks.push({
+          type: 'listItem',
+          level: Math.max(0, lists.length - 1),
+          marker: list?.ordered ? `${list.count}.` : '•',
+          text,
+        });
+        return;
+      }
+      if (tag === 'blockquote') {
+        blocks.push({ type: 'quote', text });
+        return;
+      }
+    }
+    blocks.push({ type: 'paragraph', text });
+  };
+
+  const tokenRe = /<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)([^>]*)>|([^<]+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = tokenRe.exec(body)) !== null) {
+    if (m[4] !== undefined) {
+      buffer += m[4];
+      continue;
+    }
+
+    const closing = m[1] === '/';
+    const tag = m[2].toLowerCase().replace(/^.*:/, '');
+    const selfClosing = /\/\s*$/.test(m[3]) || VOID_TAGS.has(tag);
+
+    if (tag === 'br') {
+      buffer += stack.includes('pre') ? '\n' : ' ';
+      continue;
+    }
+
+    // Table rows: collect cells, emit one block per row
+    if (tag === 'tr') {
+      if (!closing) {
+        flush();
+        cells = [];
+      } else if (cells) {
+        if (clean(buffer)) cells.push(clean(buffer));
+        buffer = '';
+        const rowCells = cells.filter(Boolean);
+        if (rowCells.length > 0) blocks.push({ type: 'tableRow', text: rowCells.join(' | '), cells: rowCells });
+        cells = null;
+      }
+      continue;
+    }
+    if (cells && (tag === 'td' || tag === 'th')) {
+      if (closing) {
+        cells.push(clean(buffer));
+        buffer = '';
+      }
+      continue;
+    }
+    if (cells) {
+      // Block elements inside a cell only separate words
+      if (BLOCK_TAGS.has(tag)) buffer += ' ';
+      continue;
+    }
+
+    if (!BLOCK_TAGS.has(tag)) continue;
+
+    flush();
+    if (selfClosing) continue;
+
+    if (!closing) {
+      if (tag === 'ul' || tag === 'ol') {
+        const start = parseInt(getAttr(m[0], 'start') || '1', 10);
+        lists.push({ ordered: tag === 'ol', count: Number.isFinite(start) ? start - 1 : 0 });
+      } else if (tag === 'li' && lists.length > 0) {
+        lists[lists.length - 1].count++;
+      }
+      stack.push(tag);
+    } else {
+      const idx = stack.lastIndexOf(tag);
+      if (idx >= 0) stack.length = idx;
+      if ((tag === 'ul' || tag === 'ol') && lists.length > 0) lists.pop();
+    }
+  }
+  flush();
+
+  return blocks;
+}
+
+function firstHeading(xhtml: string): string | null {
+  const m = xhtml.match(/<h([1-3])[^>]*>([\s\S]*?)<\/h\1>/i);
+  if (!m) return null;
+  const text = stripTags(m[2]);
+  return text || null;
+}
+
+async function readZipText(zip: JSZip, path: string): Promise<string | null> {
+  const file = zip.file(path);
+  if (!file) return null;
+  return await file.async('string');
+}
+
+/**
+ * Build href -> title map from an EPUB 3 nav document
+ */
+function parseNavDocument(navXml: string, navDir: string): Map<string, string> {
+  const titles = new Map<string, string>();
+  const tocMatch = navXml.match(/<nav[^>]*epub:type\s*=\s*["']toc["'][^>]*>([\s\S]*?)<\/nav>/i)
+    || navXml.match(/<nav[^>]*>([\s\S]*?)<\/nav>/i);
+  if (!tocMatch) return titles;
+
+  const linkRe = /<a\s[^>]*>[\s\S]*?<\/a>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = linkRe.exec(tocMatch[1])) !== null) {
+    const openTag = m[0].slice(0, m[0].indexOf('>') + 1);
+    const href = getAttr(openTag, 'href');
+    const label = stripTags(m[0]);
+    if (!href || !label) continue;
+    const path = resolvePath(navDir, href);
+    if (!titles.has(path)) titles.set(path, label);
+  }
+  return titles;
+}
+
+/**
+ * Build href -> title map from an EPUB 2 NCX table of contents
+ */
+function parseNcx(ncxXml: string, ncxDir: string): Map<string, string> {
+  const titles = new Map<string, string>();
+  const pointRe = /<navPoint[^>]*>([\s\S]*?)(?=<navPoint|<\/navPoint>)/gi;
+  let m: RegExpExecArray | null;
+  while ((m = pointRe.exec(ncxXml)) !== null) {
+    const labelMatch = m[1].match(/<navLabel[^>]*>\s*<text[^>]*>([\s\S]*?)<\/text>/i);
+    const srcMatch = m[1].match(/<content\s[^>]*>/i);
+    const src = srcMatch ? getAttr(srcMatch[0], 'src') : null;
+    const label = labelMatch ? stripTags(labelMatch[1]) : '';
+    if (!src || !label) continue;
+    const path = resolvePath(ncxDir, src);
+    if (!titles.has(path)) titles.set(path, label);
+  }
+  return titles;
+}
+
+// Font obfuscation (IDPF, Adobe) also uses encryption.xml but leaves the text readable
+const FONT_OBFUSCATION_ALGORITHMS = ['http://www.idpf.org/2008/embedding', 'http://ns.adobe.com/pdf/enc#RC'];
+
+function isDrmProtected(encryptionXml: string | null): boolean {
+  if (!encryptionXml) return false;
+  const methods = encryptionXml.match(/<(?:\w+:)?EncryptionMethod\s[^>]*>/gi) || [];
+  return methods.some((tag) => !FONT_OBFUSCATION_ALGORITHMS.includes(getAttr(tag, 'Algorithm') || ''));
+}
+
+/**
+ * Extract chapters from an EPUB archive, following the OPF spine order.
+ * `onSection` runs before each spine item; throwing from it stops extraction.
+ */
+export async function extractEpub(
+  zip: JSZip,
+  onSection?: (index: number, total: number) => void
+): Promise<EpubBook> {
+  const containerXml = await readZipText(zip, 'META-INF/container.xml');
+  if (!containerXml) {
+    throw new CorruptArchiveError('Invalid EPUB: META-INF/container.xml is missing');
+  }
+  if (isDrmProtected(await readZipText(zip, 'META-INF/encryption.xml'))) {
+    throw new EncryptedFileError('This EPUB is DRM-protected. Only DRM-free books can be imported.');
+  }
+
+  const rootfileTag = containerXml.match(/<rootfile\s[^>]*>/i)?.[0];
+  const opfPath = rootfileTag ? getAttr(rootfileTag, 'full-path') : null;
+  if (!opfPath) {
+    throw new Error('Invalid EPUB: package document not found');
+  }
+
+  const opfXml = await readZipText(zip, opfPath);
+  if (!opfXml) {
+    throw new Error(`Invalid EPUB: ${opfPath} is missing`);
+  }
+  const opfDir = dirname(opfPath);
+
+  // Metadata
+  const titleMatch = opfXml.match(/<dc:title[^>]*>([\s\S]*?)<\/dc:title>/i);
+  const authorMatch = opfXml.match(/<dc:creator[^>]*>([\s\S]*?)<\/dc:creator>/i);
+  const languageMatch = opfXml.match(/<dc:language[^>]*>([\s\S]*?)<\/dc:language>/i);
+
+  // Manifest
+  const manifest = new Map<string, ManifestItem>();
+  const itemRe = /<item\s[^>]*>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = itemRe.exec(opfXml)) !== null) {
+    const id = getAttr(m[0], 'id');
+    const href = getAttr(m[0], 'href');
+    if (!id || !href) continue;
+    manifest.set(id, {
+      id,
+      href: resolvePath(opfDir, href),
+      mediaType: getAttr(m[0], 'media-type') || '',
+      properties: getAttr(m[0], 'properties') || '',
+    });
+  }
+
+  // Spine (reading order)
+  const spineTag = opfXml.match(/<spine[^>]*>/i)?.[0] || '';
+  const spineIds: string[] = [];
+  const itemrefRe = /<itemref\s[^>]*>/gi;
+  while ((m = itemrefRe.exec(opfXml)) !== null) {
+    const idref = getAttr(m[0], 'idref');
+    if (!idref) continue;
+    if ((getAttr(m[0], 'linear') || '').toLowerCase() === 'no') continue;
+    spineIds.push(idref);
+  }
+  if (spineIds.length === 0) {
+    throw new Error('Invalid EPUB: reading order (spine) is empty');
+  }
+
+  // Table of contents titles (EPUB 3 nav preferred, NCX fallback)
+  let tocTitles = new Map<string, string>();
+  const navItem = Array.from(manifest.values()).find((item) => item.properties.split(/\s+/).includes('nav'));
+  if (navItem) {
+    const navXml = await readZipText(zip, navItem.href);
+    if (navXml) tocTitles = parseNavDocument(navXml, dirname(navItem.href));
+  }
+  if (tocTitles.size === 0) {
+    const ncxId = getAttr(spineTag, 'toc');
+    const ncxItem = (ncxId && manifest.get(ncxId))
+      || Array.from(manifest.values()).find((item) => item.mediaType === 'application/x-dtbncx+xml');
+    if (ncxItem) {
+      const ncxXml = await readZipText(zip, ncxItem.href);
+      if (ncxXml) tocTitles = parseNcx(ncxXml, dirname(ncxItem.href));
+    }
+  }
+
+  const chapters: EpubChapter[] = [];
+  for (const [index, idref] of spineIds.entries()) {
+    onSection?.(index + 1, spineIds.length);
+    const item = manifest.get(idref);
+    if (!item) continue;
+    if (item.mediaType && !/x?html/i.test(item.mediaType)) continue;
+
+    const xhtml = await readZipText(zip, item.href);
+    if (!xhtml) continue;
+
+    const blocks = xhtmlToBlocks(xhtml);
+    if (blocks.length === 0) continue;
+
+    const title =
+      tocTitles.get(item.href) ||
+      firstHeading(xhtml) ||
+      `Chapter ${chapters.length + 1}`;
+
+    // Avoid repeating the chapter title as the first block.
+    if (blocks[0].text.toLowerCase() === title.toLowerCase()) {
+      blocks.shift();
+    }
+    if (blocks.length === 0) continue;
+
+    chapters.push({ title, blocks });
+  }
+
+  if (chapters.length === 0) {
+    throw new Error('No readable chapters found in this EPUB');
+  }
+
+  return {
+    title: titleMatch ? stripTags(titleMatch[1]) || undefined : undefined,
+    author: authorMatch ? stripTags(authorMatch[1]) || undefined : undefined,
+    language: languageMatch ? normalizeLanguageTag(stripTags(languageMatch[1])) : undefined,
+    chapters,
+  };
+}
@@ -1,71 +1,474 @@
 import * as FileSystem from 'expo-file-system/legacy';
 import { Platform } from 'react-native';
-import { getFileExtension } from './fileUtils';
+import { getBackendUrl } from '@/utils/backendConfig';
 import { getFirebaseIdToken } from '@/utils/firebaseAuth';
 import { auth, storage } from '@/utils/firebaseConfig';
 import { getDownloadURL, ref as storageRef } from 'firebase/storage';
-import { base64ToUint8Array, base64ToUtf8String, uint8ArrayToBase64 } from '@/utils/base64';
+import { base64ToUint8Array, uint8ArrayToBase64 } from '@/utils/base64';
+import {
+  blockDisplayText,
+  buildProcessedDocument,
+  readProcessedDocument,
+  splitPageMarkers,
+  textToBlocks,
+  type BlockInput,
+  type ProcessedDocument,
+} from './processedDocument';
+import { cleanupBlocks, textPagesToBlocks, type TextCleanupOptions } from './textCleanup';
+import type { TextEncodingId } from './textEncoding';
+import type { DocxProperties } from './docxConverter';
+import { readPdfInfo } from './documentMetadata';
+import { isConversionCancelled, throwIfAborted, withTimeout } from './conversionControl';
+import {
+  BackendUnreachableError,
+  CorruptArchiveError,
+  EncryptedFileError,
+  isImportError,
+  NoTextLayerError,
+  UnsupportedFormatError,
+} from './importErrors';
+import type { OcrResult } from './imageOcr';
+import {
+  detectConverter,
+  findConverterByExtension,
+  getSupportedFormatsLabel,
+  getUnsupportedError,
+  getUnsupportedReason,
+  readFileHeader,
+  type ConverterId,
+  type ConvertOptions,
+} from './converterRegistry';
 
-export type FileType = 'pdf' | 'docx' | 'txt' | 'image' | 'unsupported';
+export type FileType = ConverterId | 'unsupported';
 
 /**
- * Detect file type by extension
+ * Detect file type by extension (see converterRegistry for content-based detection)
  */
 export function detectFileType(filename: string): FileType {
-  const ext = getFileExtension(filename);
-  
-  if (ext === 'pdf') return 'pdf';
-  if (ext === 'doc') return 'unsupported';
-  if (ext === 'docx') return 'docx';
-  if (['txt', 'md', 'json', 'xml', 'html', 'htm', 'csv'].includes(ext)) return 'txt';
-  if (['jpg', 'jpeg', 'png', 'gif', 'webp'].includes(ext)) return 'image';
-  
+  if (getUnsupportedReason(filename)) return 'unsupported';
   // For any other file format, try to read as text
-  return 'txt';
+  return findConverterByExtension(filename)?.id ?? 'txt';
+}
+
+/**
+ * Convert file to a structured processed document (typed blocks, pages, chapters)
+ * The converter is chosen from the file content when it has a known signature, so a
+ * missing or wrong extension still converts correctly. Callers that already read the
+ * header for sniffing pass it as `header` so the file is not read for it again.
+ */
+export async function convertFileToDocument(
+  fileUri: string,
+  filename: string,
+  options: ConvertOptions & { mimeType?: string | null; header?: Uint8Array | null } = {}
+): Promise<ProcessedDocument> {
+  throwIfAborted(options.signal);
+  options.onProgress?.({ stage: 'loading' });
+  const header =
+    options.header !== undefined ? options.header : await readFileHeader(fileUri, { signal: options.signal });
+  throwIfAborted(options.signal);
+  const unsupported = getUnsupportedError(filename, header);
+  if (unsupported) {
+    throw unsupported;
+  }
+
+  const converter = detectConverter({ filename, mimeType: options.mimeType, header });
+  if (!converter) {
+    throw new UnsupportedFormatError(`Unsupported file format. Supported formats: ${getSupportedFormatsLabel()}.`);
+  }
+
+  console.log(`[FileConverter] Converting ${converter.id} file: ${filename}`);
+  return await converter.convert(fileUri, options);
 }
 
 /**
  * Convert file to plain text
  * Works with React Native file URIs (not file paths)
  */
-export async function convertFileToText(fileUri: string, filename: string): Promise<string> {
-  const type = detectFileType(filename);
-  
-  console.log(`[FileConverter] Converting ${type} file: ${filename}`);
-  
-  switch (type) {
-    case 'pdf': {
-      return await extractTextFromPDF(fileUri);
+export async function convertFileToText(fileUri: string, filename: string, options: ConvertOptions = {}): Promise<string> {
+  return (await convertFileToDocument(fileUri, filename, options)).text;
+}
+
+interface LoadedBinaryFile {
+  arrayBuffer: ArrayBuffer;
+  base64: string | null;
+}
+
+/**
+ * Load a binary file (data URI, file:// or web URL) as ArrayBuffer + base64 with timeout
+ */
+async function loadBinaryFile(fileUri: string, label: string, options: ConvertOptions = {}): Promise<LoadedBinaryFile> {
+  let base64Data: string | null = null;
+  try {
+    options.onProgress?.({ stage: 'loading' });
+    const timeoutDuration = Platform.OS === 'web' ? 30000 : 60000;
+    const load = async (signal: AbortSignal) => {
+      if (fileUri.startsWith('data:')) {
+        // Data URI - extract base64
+        console.log(`[FileConverter] Detected data URI for ${label}, attempting to extract base64`);
+        const base64Match = fileUri.match(/data:[^;]*;base64,(.+)/);
+        if (base64Match) {
+          base64Data = base64Match[1];
+          return base64ToUint8Array(base64Data).buffer as ArrayBuffer;
+        } else {
+          throw new Error(`Invalid data URI format for ${label}`);
+        }
+      } else if (Platform.OS === 'ios' || Platform.OS === 'android') {
+        // Mobile: read base64 (stable for local file:// URIs)
+        base64Data = await FileSystem.readAsStringAsync(fileUri, {
+          encoding: 'base64',
+        } as any);
+        return base64ToUint8Array(base64Data).buffer as ArrayBuffer;
+      } else {
+        // Web: Try fetch first
+        try {
+          const response = await fetch(fileUri, { signal });
+          return await response.arrayBuffer();
+        } catch {
+          throwIfAborted(signal);
+          // Fallback to FileSystem
+          base64Data = await FileSystem.readAsStringAsync(fileUri, {
+            encoding: 'base64',
+          } as any);
+          return base64ToUint8Array(base64Data).buffer as ArrayBuffer;
+        }
+      }
+    };
+
+    const arrayBuffer = await withTimeout(load, {
+      timeoutMs: timeoutDuration,
+      timeoutMessage: `${label} file load timeout after ${timeoutDuration / 1000} seconds`,
+      signal: options.signal,
+    });
+    return { arrayBuffer, base64: base64Data };
+  } catch (loadError: any) {
+    if (isConversionCancelled(loadError) || isImportError(loadError)) throw loadError;
+    throw new Error(`Failed to load ${label} file: ${loadError.message || 'Unknown error'}. Please ensure the file is accessible.`);
+  }
+}
+
+/**
+ * Open a ZIP container (DOCX, EPUB); a damaged archive throws CorruptArchiveError
+ */
+async function loadZip(file: LoadedBinaryFile, options: ConvertOptions = {}) {
+  throwIfAborted(options.signal);
+  options.onProgress?.({ stage: 'unzipping' });
+  const JSZip = (await import('jszip')).default;
+  try {
+    // On mobile, prefer base64 load (avoids arrayBuffer issues)
+    return Platform.OS !== 'web' && file.base64
+      ? await JSZip.loadAsync(file.base64, { base64: true })
+      : await JSZip.loadAsync(file.arrayBuffer);
+  } catch (zipError: any) {
+    throw new CorruptArchiveError(`The file is damaged and cannot be unzipped: ${zipError?.message || 'Unknown error'}`);
+  }
+}
+
+/**
+ * Extract text from PDF using backend API
+ * Falls back to on-device extraction (pdfjs-dist) if the backend call fails. Pages the
+ * backend returns without text (or a 422 for the whole file) are OCR'd on the device.
+ */
+export async function extractDocumentFromPDF(fileUri: string, options: ConvertOptions = {}): Promise<ProcessedDocument> {
+  let backendDocument: ProcessedDocument;
+  try {
+    backendDocument = await extractDocumentFromPDFBackend(fileUri, options);
+  } catch (backendError: any) {
+    if (isConversionCancelled(backendError)) throw backendError;
+    if (backendError instanceof NoTextLayerError) {
+      return await recoverPdfPagesWithoutText(fileUri, backendError, options);
     }
-    
-    case 'docx': {
-      return await extractTextFromDOCX(fileUri);
+    console.warn('[FileConverter] Backend PDF extraction failed, falling back to on-device extraction:', backendError?.message);
+    try {
+      return await extractPdfDocumentLocally(fileUri, options);
+    } catch (localError: any) {
+      if (isConversionCancelled(localError) || isImportError(localError)) throw localError;
+      console.error('[FileConverter] On-device PDF extraction error:', localError);
+      throw new Error(`PDF extraction failed on the backend and on this device: ${localError.message || 'Unknown error'}`);
     }
-    
-    case 'txt': {
-      return await extractTextFromTXT(fileUri);
+  }
+  return await recoverPdfPagesWithoutText(fileUri, backendDocument, options);
+}
+
+/**
+ * Text of each page of a processed PDF (index 0 = page 1)
+ */
+function getPageTexts(document: ProcessedDocument): string[] {
+  const pageTexts: string[] = new Array(document.metadata.pageCount).fill('');
+  for (const block of document.blocks) {
+    const i = block.page - 1;
+    pageTexts[i] = pageTexts[i] ? `${pageTexts[i]}\n\n${blockDisplayText(block)}` : blockDisplayText(block);
+  }
+  return pageTexts;
+}
+
+/**
+ * OCR what the extraction backend returned without text: the hosted backend does not OCR
+ * scanned pages, so a mixed PDF comes back with those pages empty, and a 422 (or empty
+ * output) means it found no text at all. Empty pages are OCR'd (rendered on web, by the
+ * backend's `/extract/pdf-pages` on native) and merged back in page order, each with its OCR
+ * confidence; for a whole-file failure the PDF is extracted on the device.
+ */
+export async function recoverPdfPagesWithoutText(
+  fileUri: string,
+  backendResult: ProcessedDocument | NoTextLayerError,
+  options: ConvertOptions = {}
+): Promise<ProcessedDocument> {
+  if (backendResult instanceof NoTextLayerError) {
+    console.warn('[FileConverter] Backend found no text in the PDF, extracting and OCR\'ing on device:', backendResult.message);
+    try {
+      return await extractPdfDocumentLocally(fileUri, options);
+    } catch (localError: any) {
+      if (isConversionCancelled(localError) || localError instanceof EncryptedFileError) throw localError;
+      console.warn('[FileConverter] On-device extraction found no text either:', localError?.message);
+      throw backendResult;
     }
-    
-    case 'image': {
-      return await extractTextFromImage(fileUri);
+  }
+
+  const document = backendResult;
+  // The extraction server already OCR'd its scanned pages: what is still empty has no text
+  if (document.metadata.pageConfidence) return document;
+  const { findPagesWithoutText } = await import('./pdfLocalExtractor');
+  const pageTexts = getPageTexts(document);
+  const emptyPages = findPagesWithoutText(pageTexts);
+  if (emptyPages.length === 0) return document;
+
+  console.log(`[FileConverter] Backend returned ${emptyPages.length} pages without text, OCR'ing them on device`);
+  const { arrayBuffer } = await loadBinaryFile(fileUri, 'PDF', options);
+  const ocr = await recognizeScannedPdfPages(fileUri, new Uint8Array(arrayBuffer), emptyPages, options);
+  if (!ocr) return document;
+
+  const ocrPageTexts: string[] = new Array(pageTexts.length).fill('');
+  const pageConfidence = pageTexts.map(() => 100);
+  emptyPages.forEach((pageNumber, i) => {
+    ocrPageTexts[pageNumber - 1] = ocr[i].text;
+    pageConfidence[pageNumber - 1] = Math.round(ocr[i].confidence);
+  });
+
+  // Backend blocks of the pages with text, OCR'd blocks for the others, in page order
+  const emptySet = new Set(emptyPages);
+  const merged: { block: BlockInput; id?: string }[] = [
+    ...document.blocks
+      .filter((block) => !emptySet.has(block.page))
+      .map(({ id, ...block }) => ({ block: block as BlockInput, id })),
+    ...textPagesToBlocks(ocrPageTexts, options.cleanup).map((block) => ({ block })),
+  ].sort((a, b) => (a.block.page || 1) - (b.block.page || 1));
+
+  const chapters = document.chapters
+    .map((chapter) => ({ title: chapter.title, blockIndex: merged.findIndex((m) => m.id === chapter.blockId) }))
+    .filter((chapter) => chapter.blockIndex >= 0);
+
+  return buildProcessedDocument({
+    blocks: merged.map((m) => m.block),
+    sourceFormat: 'pdf',
+    pageCount: document.metadata.pageCount,
+    title: document.metadata.title,
+    author: document.metadata.author,
+    language: document.metadata.language,
+    chapters,
+    pageConfidence,
+  });
+}
+
+/**
+ * Extract text from PDF on the device using pdfjs-dist
+ * Each paragraph keeps the number of the page it came from. Pages without a text layer
+ * (scans) are OCR'd (see recognizeScannedPdfPages); their confidence is kept in `pageConfidence`.
+ */
+export async function extractPdfDocumentLocally(fileUri: string, options: ConvertOptions = {}): Promise<ProcessedDocument> {
+  console.log('[FileConverter] Extracting PDF text on device...');
+  const { arrayBuffer } = await loadBinaryFile(fileUri, 'PDF', options);
+  const bytes = new Uint8Array(arrayBuffer);
+  const { extractPdfTextLocally, findPagesWithoutText } = await import('./pdfLocalExtractor');
+  // pdf.js may detach the buffer it loads; scanned pages are rendered from `bytes` later
+  const result = await extractPdfTextLocally(bytes.slice(), (current, total) => {
+    throwIfAborted(options.signal);
+    options.onProgress?.({ stage: 'extracting', current, total, unit: 'page' });
+  }).catch((error: any) => {
+    if (error?.name === 'PasswordException') {
+      throw new EncryptedFileError('This PDF is password-protected. Remove the password and try again.');
     }
-    
-    default:
-      if (type === 'unsupported') {
-        throw new Error('DOC files are not supported. Please save as DOCX and try again.');
+    throw error;
+  });
+
+  const scannedPages = findPagesWithoutText(result.pageTexts);
+  let pageTexts = result.pageTexts;
+  let pageConfidence: number[] | undefined;
+  if (scannedPages.length > 0) {
+    const ocr = await recognizeScannedPdfPages(fileUri, bytes, scannedPages, options);
+    if (ocr) {
+      pageTexts = [...result.pageTexts];
+      // Text-layer pages are exact; scanned pages carry their OCR confidence
+      pageConfidence = result.pageTexts.map(() => 100);
+      scannedPages.forEach((pageNumber, i) => {
+        pageTexts[pageNumber - 1] = ocr[i].text;
+        pageConfidence![pageNumber - 1] = Math.round(ocr[i].confidence);
+      });
+    }
+  }
+
+  const text = pageTexts.join('').trim();
+  if (!text) {
+    if (scannedPages.length > 0 && Platform.OS !== 'web') {
+      throw new BackendUnreachableError(
+        'This PDF is a scan. Scanned PDFs are read by the extraction server, which could not be reached. Please try again later.'
+      );
+    }
+    throw new NoTextLayerError('No text detected in this PDF. Please upload a text-based PDF (not images).');
+  }
+
+  console.log(
+    `[FileConverter] Extracted ${text.length} characters from ${result.pages} PDF pages on device` +
+      (pageConfidence ? ` (${scannedPages.length} scanned pages OCR'd)` : '')
+  );
+  return buildProcessedDocument({
+    blocks: textPagesToBlocks(pageTexts, options.cleanup),
+    sourceFormat: 'pdf',
+    pageCount: result.pages,
+    pageConfidence,
+    ...readPdfInfo(result.info),
+  });
+}
+
+/**
+ * OCR scanned PDF pages, in page order. Web renders them with pdf.js and runs Tesseract in the
+ * browser; native has no canvas, so the extraction backend renders and OCRs them. Returns null
+ * when the backend cannot be reached (the pages stay empty; a PDF without any text fails).
+ */
+async function recognizeScannedPdfPages(
+  fileUri: string,
+  bytes: Uint8Array,
+  pageNumbers: number[],
+  options: ConvertOptions
+): Promise<OcrResult[] | null> {
+  if (Platform.OS !== 'web') {
+    try {
+      return await recognizePdfPagesWithBackend(fileUri, bytes, pageNumbers, options);
+    } catch (error: any) {
+      if (!(error instanceof BackendUnreachableError)) throw error;
+      console.warn(`[FileConverter] ${pageNumbers.length} scanned PDF pages were not OCR'd:`, error.message);
+      return null;
+    }
+  }
+
+  try {
+    console.log(`[FileConverter] Running OCR on ${pageNumbers.length} scanned PDF pages...`);
+    const { renderPdfPagesToImages } = await import('./pdfLocalExtractor');
+    const { recognizeImages, LOW_CONFIDENCE_THRESHOLD } = await import('@/utils/imageOcr');
+    const images = await renderPdfPagesToImages(bytes, pageNumbers, () => throwIfAborted(options.signal));
+    const results = await recognizeImages(
+      images,
+      (i, result) => {
+        if (result.confidence < LOW_CONFIDENCE_THRESHOLD) {
+          console.warn(`[FileConverter] Low OCR confidence on page ${pageNumbers[i]} (${result.confidence}%)`);
+        }
+      },
+      {
+        signal: options.signal,
+        onProgress: (i, percent) =>
+          options.onProgress?.({ stage: 'ocr', current: i + 1, total: pageNumbers.length, unit: 'page', percent }),
       }
-      // For any unknown file type, try to read as plain text
-      console.log(`[FileConverter] Unknown file type "${type}", attempting to read as text...`);
-      return await extractTextFromTXT(fileUri);
+    );
+    return results;
+  } catch (error: any) {
+    if (isConversionCancelled(error) || isImportError(error)) throw error;
+    throw new Error(`Scanned page OCR failed: ${error.message || 'Unknown error'}`);
   }
 }
 
 /**
- * Extract text from PDF using backend API
- * Falls back to local extraction if backend is unavailable
+ * Send the PDF to the backend's `/extract/pdf-pages`, which renders the given pages and OCRs
+ * them; results come back in the order asked
+ */
+async function recognizePdfPagesWithBackend(
+  fileUri: string,
+  bytes: Uint8Array,
+  pageNumbers: number[],
+  options: ConvertOptions
+): Promise<OcrResult[]> {
+  console.log(`[FileConverter] Sending ${pageNumbers.length} scanned PDF pages to the backend for OCR...`);
+  options.onProgress?.({ stage: 'ocr', current: 0, total: pageNumbers.length, unit: 'page' });
+
+  // Multipart uploads on native need a file:// URI; content:// and data: URIs are written out first
+  let uploadUri = fileUri;
+  let tempFileUri: string | null = null;
+  if (!fileUri.startsWith('file://')) {
+    tempFileUri = `${FileSystem.cacheDirectory}temp_ocr_${Date.now()}.pdf`;
+    await FileSystem.writeAsStringAsync(tempFileUri, uint8ArrayToBase64(bytes), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    uploadUri = tempFileUri;
+  }
+
+  try {
+    const formData = new FormData();
+    formData.append('file', { uri: uploadUri, type: 'application/pdf', name: 'document.pdf' } as any);
+    formData.append('pages', pageNumbers.join(','));
+
+    let response: Response;
+    try {
+      const idToken = await getFirebaseIdToken();
+      response = await withTimeout(
+        (signal) =>
+          fetch(`${getBackendUrl()}/extract/pdf-pages`, {
+            method: 'POST',
+            body: formData,
+            headers: { Authorization: `Bearer ${idToken}` },
+            signal,
+          }),
+        {
+          // A few seconds per page
+          timeoutMs: 180000,
+          timeoutMessage: 'OCR of the scanned pages timed out after 3 minutes. Please try again.',
+          signal: options.signal,
+        }
+      );
+    } catch (requestError: any) {
+      if (isConversionCancelled(requestError) || isImportError(requestError)) throw requestError;
+      throw new BackendUnreachableError(
+        `Cannot connect to the extraction server at ${getBackendUrl()} to read the scanned pages: ${requestError?.message || 'Unknown error'}`
+      );
+    }
+
+    if (!response.ok) {
+      const details = await response.text().catch(() => '');
+      throw new Error(`Backend OCR failed: ${response.status}${details ? ` - ${details}` : ''}`);
+    }
+    const json = await response.json().catch(() => null);
+    const pages: any[] = Array.isArray(json?.pages) ? json.pages : [];
+    return pageNumbers.map((pageNumber) => {
+      const page = pages.find((p) => p?.page === pageNumber);
+      return {
+        text: typeof page?.text === 'string' ? page.text.trim() : '',
+        confidence: typeof page?.confidence === 'number' ? page.confidence : 0,
+      };
+    });
+  } finally {
+    if (tempFileUri) {
+      await FileSystem.deleteAsync(tempFileUri, { idempotent: true }).catch(() => {});
+    }
+  }
+}
+
+/**
+ * Read processed JSON written by the extraction backend. Legacy `{ pages, text }` output is
+ * split on its page markers and run through the text clean-up pipeline; versioned output
+ * was already cleaned by the server.
  */
-async function extractTextFromPDF(fileUri: string): Promise<string> {
-  const BACKEND_URL = 'https://readx-backend-740104261370.asia-south1.run.app';
+export function readPdfExtractionJson(json: any, cleanup?: TextCleanupOptions): ProcessedDocument {
+  if (typeof json?.version === 'number') return readProcessedDocument(json, 'pdf');
+  const pages = splitPageMarkers(typeof json?.text === 'string' ? json.text : '');
+  return buildProcessedDocument({
+    blocks: textPagesToBlocks(pages, cleanup),
+    sourceFormat: 'pdf',
+    pageCount: typeof json?.pages === 'number' ? json.pages : pages.length,
+  });
+}
+
+/**
+ * Extract text from PDF using backend API (backend writes processed JSON to Storage)
+ */
+async function extractDocumentFromPDFBackend(fileUri: string, options: ConvertOptions): Promise<ProcessedDocument> {
+  const BACKEND_URL = getBackendUrl();
   
   try {
     console.log('[FileConverter] Attempting PDF extraction using backend API...');
@@ -149,31 +552,30 @@ async function extractTextFromPDF(fileUri: string): Promise<string> {
       }
     }
     
-    // Call backend API with timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 60000); // 60 second timeout
-    
+    throwIfAborted(options.signal);
+
+    // Call backend API with timeout (aborts the request; cancel aborts it too)
     try {
+      options.onProgress?.({ stage: 'uploading' });
       const idToken = await getFirebaseIdToken();
-      const response = await fetch(`${BACKEND_URL}/extract/pdf`, {
-        method: 'POST',
-        body: formData,
-        headers: {
-          Authorization: `Bearer ${idToken}`,
-        },
-        signal: controller.signal,
-      });
-      
-      clearTimeout(timeoutId);
-      
-      // Clean up temp file if created (only temp files, not original file URIs)
-      if (tempFileUri && !useDirectUri) {
-        try {
-          await FileSystem.deleteAsync(tempFileUri, { idempotent: true });
-        } catch (cleanupError) {
-          console.warn('[FileConverter] Failed to cleanup temp file:', cleanupError);
+      const response = await withTimeout(
+        (signal) =>
+          fetch(`${BACKEND_URL}/extract/pdf`, {
+            method: 'POST',
+            body: formData,
+            headers: {
+              Authorization: `Bearer ${idToken}`,
+            },
+            signal,
+          }),
+        {
+          // Scanned pages are OCR'd by the backend, which takes a few seconds per page
+          timeoutMs: 180000,
+          timeoutMessage:
+            'Backend API request timeout after 3 minutes. The file may be too large or the backend is not responding. Please check your connection and try again.',
+          signal: options.signal,
         }
-      }
+      );
       
       if (!response.ok) {
         const errorText = await response.text().catch(() => 'Unknown error');
@@ -184,6 +586,7 @@ async function extractTextFromPDF(fileUri: string): Promise<string> {
         } catch {
           // Not JSON, use as-is
         }
+        if (response.status === 422) throw new NoTextLayerError(errorDetails);
         // Include status code in error message for better error handling
         throw new Error(`Backend API error: ${response.status} - ${errorDetails}`);
       }
@@ -205,9 +608,11 @@ async function extractTextFromPDF(fileUri: string): Promise<string> {
       }
 
       // Download processed JSON from Firebase Storage (written by backend)
+      options.onProgress?.({ stage: 'extracting' });
       const processedPath = `users/${uid}/processed/${fileId}.json`;
       const url = await getDownloadURL(storageRef(storage, processedPath));
-      const processedResp = await fetch(url);
+      throwIfAborted(options.signal);
+      const processedResp = await fetch(url, { signal: options.signal || undefined });
       if (!processedResp.ok) {
         throw new Error('Failed to download processed content. Please try again.');
       }
@@ -217,28 +622,17 @@ async function extractTextFromPDF(fileUri: string): Promise<string> {
       const text = extractedText.trim();
 
       if (!text) {
-        throw new Error('No text detected in this PDF. Please upload a text-based PDF (not images).');
+        throw new NoTextLayerError('No text detected in this PDF. Please upload a text-based PDF (not images).');
       }
 
       console.log(`[FileConverter] Successfully extracted ${text.length} characters from PDF via backend+Storage`);
-      return text;
+      return readPdfExtractionJson(processedJson, options.cleanup);
     } catch (fetchError: any) {
-      clearTimeout(timeoutId);
-      
-      // Clean up temp file on error (only temp files, not original file URIs)
-      if (tempFileUri && !useDirectUri) {
-        try {
-          await FileSystem.deleteAsync(tempFileUri, { idempotent: true });
-        } catch (cleanupError) {
-          console.warn('[FileConverter] Failed to cleanup temp file on error:', cleanupError);
-        }
-      }
-      
-      if (fetchError.name === 'AbortError') {
-        throw new Error('Backend API request timeout after 60 seconds. The file may be too large or the backend is not responding. Please check your connection and try again.');
+      if (isConversionCancelled(fetchError) || isImportError(fetchError) || options.signal?.aborted) {
+        throw fetchError;
       }
       
-      // If backend fails, throw error (don't fallback to local extraction)
+      // If backend fails, throw error (caller falls back to on-device extraction)
       console.error('[FileConverter] Backend API error:', fetchError);
       
       // Check for network/connection errors
@@ -246,23 +640,39 @@ async function extractTextFromPDF(fileUri: string): Promise<string> {
           fetchError.message?.includes('Failed to connect') ||
           fetchError.message?.includes('ECONNREFUSED') ||
           fetchError.message?.includes('ENOTFOUND')) {
-        throw new Error(`Cannot connect to backend server at ${BACKEND_URL}. Please ensure the backend is running and accessible on your network.`);
+        throw new BackendUnreachableError(
+          `Cannot connect to backend server at ${BACKEND_URL}. Please ensure the backend is running and accessible on your network.`
+        );
       }
       
       throw new Error(`Backend PDF extraction failed: ${fetchError.message || 'Unknown error'}. Please ensure the backend is running at ${BACKEND_URL}`);
+    } finally {
+      // Clean up temp file if created (only temp files, not original file URIs)
+      if (tempFileUri && !useDirectUri) {
+        try {
+          await FileSystem.deleteAsync(tempFileUri, { idempotent: true });
+        } catch (cleanupError) {
+          console.warn('[FileConverter] Failed to cleanup temp file:', cleanupError);
+        }
+      }
     }
   } catch (error: any) {
+    if (isConversionCancelled(error) || isImportError(error)) throw error;
     console.error('[FileConverter] PDF extraction error:', error);
     throw new Error(`PDF extraction failed: ${error.message || 'Unknown error'}`);
   }
 }
 
 /**
- * Extract text from DOCX using mammoth.js
+ * Extract text from DOCX, keeping headings, list items, table rows and paragraph breaks
+ * (document.xml walk first, mammoth.js as fallback), plus title/author/pages from docProps
  */
-async function extractTextFromDOCX(fileUri: string): Promise<string> {
+export async function extractBlocksFromDOCX(
+  fileUri: string,
+  options: ConvertOptions = {}
+): Promise<{ blocks: BlockInput[]; properties: DocxProperties }> {
   try {
-    console.log('[FileConverter] Extracting text from DOCX using mammoth...');
+    console.log('[FileConverter] Extracting text from DOCX...');
     const mammoth = (await import('mammoth')).default;
     
     // Verify file exists first (especially important on mobile)
@@ -276,159 +686,157 @@ async function extractTextFromDOCX(fileUri: string): Promise<string> {
     }
     
     // Load file as ArrayBuffer/base64 with timeout
-    let arrayBuffer: ArrayBuffer | null = null;
-    let base64Data: string | null = null;
-    try {
-      const timeoutDuration = Platform.OS === 'web' ? 30000 : 60000;
-      const loadPromise = (async () => {
-        // Check if it's a data URI (base64 encoded)
-        if (fileUri.startsWith('data:application/vnd.openxmlformats-officedocument.wordprocessingml.document;base64,') ||
-            fileUri.startsWith('data:application/msword;base64,')) {
-          console.log('[FileConverter] Detected base64 data URI for DOCX');
-          base64Data = fileUri.split(',')[1];
-          return base64ToUint8Array(base64Data).buffer;
-        } else if (fileUri.startsWith('data:')) {
-          // Generic data URI - try to extract base64
-          console.log('[FileConverter] Detected generic data URI for DOCX, attempting to extract base64');
-          const base64Match = fileUri.match(/data:[^;]*;base64,(.+)/);
-          if (base64Match) {
-            base64Data = base64Match[1];
-            return base64ToUint8Array(base64Data).buffer;
-          } else {
-            throw new Error('Invalid data URI format for DOCX');
-          }
-        } else if (Platform.OS === 'ios' || Platform.OS === 'android') {
-          // Mobile: read base64 (stable for local file:// URIs)
-          base64Data = await FileSystem.readAsStringAsync(fileUri, {
-            encoding: 'base64',
-          } as any);
-          return base64ToUint8Array(base64Data).buffer;
-        } else {
-          // Web: Try fetch first
-          try {
-            const response = await fetch(fileUri);
-            return await response.arrayBuffer();
-          } catch {
-            // Fallback to FileSystem
-            base64Data = await FileSystem.readAsStringAsync(fileUri, {
-              encoding: 'base64',
-            } as any);
-            return base64ToUint8Array(base64Data).buffer;
-          }
-        }
-      })();
-      
-      const timeoutPromise = new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error(`DOCX file load timeout after ${timeoutDuration / 1000} seconds`)), timeoutDuration)
-      );
-      
-      arrayBuffer = (await Promise.race([loadPromise, timeoutPromise])) as ArrayBuffer;
-    } catch (loadError: any) {
-      throw new Error(`Failed to load DOCX file: ${loadError.message || 'Unknown error'}. Please ensure the file is accessible.`);
-    }
+    const { arrayBuffer, base64: base64Data } = await loadBinaryFile(fileUri, 'DOCX', options);
     
     // Try ZIP XML extraction first (more stable on mobile)
-    let extractedText = '';
+    let blocks: BlockInput[] = [];
+    let properties: DocxProperties = {};
     try {
-      const JSZip = (await import('jszip')).default;
-      // On mobile, prefer base64 load (avoids arrayBuffer issues)
-      const zip =
-        Platform.OS !== 'web' && base64Data
-          ? await JSZip.loadAsync(base64Data, { base64: true })
-          : await JSZip.loadAsync(arrayBuffer as ArrayBuffer);
+      const zip = await loadZip({ arrayBuffer, base64: base64Data }, options);
       const docXml = await zip.file('word/document.xml')?.async('string');
+      throwIfAborted(options.signal);
+      const { parseDocxBlocks, parseDocxProperties } = await import('./docxConverter');
+      properties = parseDocxProperties(
+        await zip.file('docProps/core.xml')?.async('string'),
+        await zip.file('docProps/app.xml')?.async('string')
+      );
       if (docXml) {
-        extractedText = docXml
-          .replace(/<[^>]+>/g, ' ')
-          .replace(/\s+/g, ' ')
-          .trim();
+        options.onProgress?.({ stage: 'extracting' });
+        blocks = parseDocxBlocks({
+          documentXml: docXml,
+          stylesXml: await zip.file('word/styles.xml')?.async('string'),
+          numberingXml: await zip.file('word/numbering.xml')?.async('string'),
+        });
       }
     } catch (zipError: any) {
+      // mammoth reads the same zip, so a damaged archive fails there too
+      if (isConversionCancelled(zipError) || zipError instanceof CorruptArchiveError) throw zipError;
       console.warn('[FileConverter] DOCX zip extraction failed:', zipError);
     }
 
     // If ZIP extraction succeeded, return early (fast path on mobile too).
-    if (extractedText.trim().length > 0) {
-      console.log(`[FileConverter] Extracted ${extractedText.length} characters from DOCX (zip)`);
-      return extractedText;
+    if (blocks.length > 0) {
+      console.log(`[FileConverter] Extracted ${blocks.length} blocks from DOCX (zip)`);
+      return { blocks, properties };
     }
 
     // Extract text using mammoth with timeout (web or fallback)
     // Use convertToHtml for better formatting preservation, fallback to extractRawText
+    // (mammoth cannot be interrupted; a timeout or cancel stops waiting for it)
+    const mammothLimits = { timeoutMs: 30000, timeoutMessage: 'DOCX text extraction timeout', signal: options.signal };
+    options.onProgress?.({ stage: 'extracting' });
     
     try {
       // Try convertToHtml first (preserves formatting better)
-      const htmlPromise = mammoth.convertToHtml({ arrayBuffer });
-      const timeoutPromise = new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('DOCX text extraction timeout')), 30000)
-      );
-      
-      const htmlResult = await Promise.race([htmlPromise, timeoutPromise]);
+      const htmlResult = await withTimeout(() => mammoth.convertToHtml({ arrayBuffer }), mammothLimits);
       if (htmlResult.value && htmlResult.value.trim().length > 0) {
-        // Convert HTML to plain text while preserving spacing
-        extractedText = htmlResult.value
-          // Remove HTML tags
-          .replace(/<[^>]+>/g, ' ')
-          // Replace HTML entities
-          .replace(/&nbsp;/g, ' ')
-          .replace(/&amp;/g, '&')
-          .replace(/&lt;/g, '<')
-          .replace(/&gt;/g, '>')
-          .replace(/&quot;/g, '"')
-          .replace(/&#39;/g, "'")
-          // Remove forward slashes and backslashes
-          .replace(/\//g, ' ')
-          .replace(/\\/g, ' ')
-          // Normalize whitespace: preserve line breaks, but normalize spaces within lines
-          .split('\n')
-          .map((line: string) => line.trim().replace(/\s+/g, ' '))
-          .join('\n')
-          .trim();
+        // Convert HTML to blocks (mammoth maps Word headings/lists/tables to HTML elements)
+        const { xhtmlToBlocks } = await import('./epubConverter');
+        blocks = xhtmlToBlocks(htmlResult.value);
       }
     } catch (htmlError) {
+      if (isConversionCancelled(htmlError)) throw htmlError;
       console.warn('[FileConverter] HTML conversion failed, trying extractRawText...', htmlError);
     }
     
     // Fallback to extractRawText if HTML conversion failed or produced empty result
-    if (!extractedText || extractedText.trim().length === 0) {
-      const extractPromise = mammoth.extractRawText({ arrayBuffer });
-      const timeoutPromise = new Promise<never>((_, reject) => 
-        setTimeout(() => reject(new Error('DOCX text extraction timeout')), 30000)
-      );
-      
-      const result = await Promise.race([extractPromise, timeoutPromise]);
-      extractedText = result.value || '';
-      
-      // Normalize whitespace in raw text extraction
-      if (extractedText) {
-        extractedText = extractedText
-          // Remove forward slashes and backslashes
-          .replace(/\//g, ' ')
-          .replace(/\\/g, ' ')
-          // Normalize whitespace: preserve line breaks, but normalize spaces within lines
-          .split('\n')
-          .map(line => line.trim().replace(/\s+/g, ' '))
-          .join('\n')
-          .trim();
-      }
+    if (blocks.length === 0) {
+      const result = await withTimeout(() => mammoth.extractRawText({ arrayBuffer }), mammothLimits);
+      // Raw text keeps paragraph breaks as blank lines
+      blocks = textToBlocks(result.value || '');
     }
     
-    if (!extractedText || extractedText.trim().length === 0) {
+    if (blocks.length === 0) {
       throw new Error('No text content found in DOCX file. Please save as DOCX (not DOC) and try again.');
     }
     
-    console.log(`[FileConverter] Successfully extracted ${extractedText.length} characters from DOCX`);
-    return extractedText;
+    console.log(`[FileConverter] Successfully extracted ${blocks.length} blocks from DOCX`);
+    return { blocks, properties };
   } catch (error: any) {
+    if (isConversionCancelled(error) || isImportError(error)) throw error;
     console.error('[FileConverter] DOCX extraction error:', error);
     throw new Error(`DOCX extraction failed: ${error.message || 'Unknown error'}. Please ensure the file is not corrupted.`);
   }
 }
 
 /**
- * Extract text from TXT files (direct reading)
+ * Extract chapters from EPUB (OPF spine order) using jszip
+ */
+export async function extractDocumentFromEPUB(fileUri: string, options: ConvertOptions = {}): Promise<ProcessedDocument> {
+  try {
+    console.log('[FileConverter] Extracting chapters from EPUB...');
+    const file = await loadBinaryFile(fileUri, 'EPUB', options);
+    const zip = await loadZip(file, options);
+    const { extractEpub } = await import('./epubConverter');
+    const book = await extractEpub(zip, (current, total) => {
+      throwIfAborted(options.signal);
+      options.onProgress?.({ stage: 'extracting', current, total, unit: 'chapter' });
+    });
+
+    const blocks: BlockInput[] = [];
+    const chapters: { title: string; blockIndex: number }[] = [];
+    for (const chapter of book.chapters) {
+      chapters.push({ title: chapter.title, blockIndex: blocks.length });
+      blocks.push(...chapter.blocks);
+    }
+
+    const processedDocument = buildProcessedDocument({
+      blocks: cleanupBlocks(blocks, options.cleanup),
+      sourceFormat: 'epub',
+      title: book.title,
+      author: book.author,
+      language: book.language,
+      chapters,
+    });
+    console.log(`[FileConverter] Extracted ${processedDocument.chapters.length} chapters (${processedDocument.text.length} characters) from EPUB`);
+    return processedDocument;
+  } catch (error: any) {
+    if (isConversionCancelled(error) || isImportError(error)) throw error;
+    console.error('[FileConverter] EPUB extraction error:', error);
+    throw new Error(`EPUB extraction failed: ${error.message || 'Unknown error'}. Please ensure the file is not DRM-protected or corrupted.`);
+  }
+}
+
+/**
+ * Extract text from RTF (groups, control words, unicode escapes, code pages)
+ */
+export async function extractTextFromRTF(fileUri: string, options: ConvertOptions = {}): Promise<string> {
+  try {
+    console.log('[FileConverter] Parsing RTF...');
+    const { arrayBuffer } = await loadBinaryFile(fileUri, 'RTF', options);
+    options.onProgress?.({ stage: 'extracting' });
+
+    // RTF is 7-bit with escaped 8-bit bytes; read as Latin-1 so raw high bytes survive
+    // and are decoded by the parser with the document's code page.
+    const bytes = new Uint8Array(arrayBuffer);
+    let raw = '';
+    for (let i = 0; i < bytes.length; i += 8192) {
+      raw += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 8192)));
+    }
+
+    const { parseRtf } = await import('./rtfConverter');
+    const text = parseRtf(raw);
+    if (!text.trim()) {
+      throw new Error('No text content found in RTF file');
+    }
+
+    console.log(`[FileConverter] Successfully extracted ${text.length} characters from RTF`);
+    return text;
+  } catch (error: any) {
+    if (isConversionCancelled(error) || isImportError(error)) throw error;
+    console.error('[FileConverter] RTF extraction error:', error);
+    throw new Error(`RTF extraction failed: ${error.message || 'Unknown error'}. Please ensure the file is not corrupted.`);
+  }
+}
+
+/**
+ * Extract text from TXT files
+ * The encoding is detected from the bytes (BOM, then heuristics) unless one is given.
  */
-async function extractTextFromTXT(fileUri: string): Promise<string> {
+export async function extractTextFromTXT(
+  fileUri: string,
+  options: ConvertOptions = {}
+): Promise<{ text: string; encoding: TextEncodingId }> {
   try {
     console.log('[FileConverter] Reading text file...');
     console.log('[FileConverter] File URI:', fileUri.substring(0, 100));
@@ -446,75 +854,35 @@ async function extractTextFromTXT(fileUri: string): Promise<string> {
         }
         
         console.log(`[FileConverter] Extracted ${text.length} characters from AsyncStorage`);
-        return text;
+        return { text, encoding: 'utf-8' };
       } catch (asyncError: any) {
         console.error('[FileConverter] Error reading from AsyncStorage:', asyncError);
         throw new Error(`Failed to read from AsyncStorage: ${asyncError.message}`);
       }
     }
     
-    // Check if it's a data URI (for web or when FileSystem is unavailable)
-    if (fileUri.startsWith('data:text/plain') || fileUri.startsWith('data:')) {
-      console.log('[FileConverter] Detected data URI, extracting text...');
-      try {
-        // Extract text from data URI
-        const base64Match = fileUri.match(/data:text\/plain[^,]*base64,(.+)/);
-        if (base64Match) {
-          // Base64 encoded
-          const text = base64ToUtf8String(base64Match[1]);
-          console.log(`[FileConverter] Extracted ${text.length} characters from base64 data URI`);
-          return text;
-        } else {
-          // URL encoded
-          const textMatch = fileUri.match(/data:text\/plain[^,]*,(.+)/);
-          if (textMatch) {
-            const text = decodeURIComponent(textMatch[1]);
-            console.log(`[FileConverter] Extracted ${text.length} characters from URL-encoded data URI`);
-            return text;
-          }
-        }
-      } catch (dataError: any) {
-        console.error('[FileConverter] Error extracting from data URI:', dataError);
-        throw new Error(`Failed to extract text from data URI: ${dataError.message}`);
-      }
+    // URL-encoded data URI (base64 data URIs are decoded as bytes below)
+    const urlEncoded = fileUri.match(/^data:[^,;]*(?:;charset=[^,;]*)?,(.+)$/);
+    if (urlEncoded) {
+      const text = decodeURIComponent(urlEncoded[1]);
+      console.log(`[FileConverter] Extracted ${text.length} characters from URL-encoded data URI`);
+      return { text, encoding: 'utf-8' };
     }
-    
-    // Verify file exists first (especially important on mobile)
-    try {
-      const fileInfo = await FileSystem.getInfoAsync(fileUri);
-      if (!fileInfo || !fileInfo.exists) {
-        console.warn('[FileConverter] File check says it does not exist, but continuing anyway');
-        // Continue - file might still be accessible from cache
-      }
-    } catch (checkError: any) {
-      console.warn('[FileConverter] File check failed, continuing anyway:', checkError.message);
-      // Continue anyway - file might still be accessible
-    }
-    
-    // Add timeout for file reading (longer timeout on mobile)
-    const timeoutDuration = Platform.OS === 'web' ? 30000 : 60000;
-    const readPromise = (async () => {
-      if (Platform.OS === 'web') {
-        const resp = await fetch(fileUri);
-        if (resp.ok) {
-          return await resp.text();
-        }
-      }
-      return await FileSystem.readAsStringAsync(fileUri);
-    })();
-    const timeoutPromise = new Promise<never>((_, reject) => 
-      setTimeout(() => reject(new Error(`File read timeout after ${timeoutDuration / 1000} seconds`)), timeoutDuration)
-    );
-    
-    const textContent = await Promise.race([readPromise, timeoutPromise]);
-    
-    if (!textContent || textContent.trim().length === 0) {
+
+    const { arrayBuffer } = await loadBinaryFile(fileUri, 'Text', options);
+    const { decodeTextFile, detectTextEncoding } = await import('./textEncoding');
+    const bytes = new Uint8Array(arrayBuffer);
+    const { text, encoding } = decodeTextFile(bytes, options.encoding);
+
+    if (!text || text.trim().length === 0) {
       throw new Error('File is empty or contains no readable content');
     }
-    
-    console.log(`[FileConverter] Successfully read ${textContent.length} characters from text file`);
-    return textContent;
+
+    const how = options.encoding ? 'as requested' : `detected via ${detectTextEncoding(bytes).source}`;
+    console.log(`[FileConverter] Successfully read ${text.length} characters from text file (${encoding}, ${how})`);
+    return { text, encoding };
   } catch (error: any) {
+    if (isConversionCancelled(error) || isImportError(error)) throw error;
     console.error('[FileConverter] Text file read error:', error);
     const errorMessage = error.message || 'Unknown error';
     throw new Error(`Text file read failed: ${errorMessage}. Please ensure the file is accessible and not corrupted.`);
@@ -522,63 +890,31 @@ async function extractTextFromTXT(fileUri: string): Promise<string> {
 }
 
 /**
- * Extract text from images using Tesseract.js OCR
+ * Extract text from images with OCR (Tesseract on web, the backend on native)
  */
-async function extractTextFromImage(fileUri: string): Promise<string> {
+export async function extractTextFromImage(fileUri: string, options: ConvertOptions = {}): Promise<string> {
   try {
     console.log('[FileConverter] Extracting text from image');
-    
-    // Check platform compatibility
-    if (Platform.OS !== 'web') {
-      console.warn('[FileConverter] file conversion on mobile may be slow or unavailable');
-    }
-    
-    const tesseract = await import('tesseract.js');
-    const worker = await tesseract.createWorker('eng');
-    
-    // Load image
-    let imageSource: any = fileUri;
-    try {
-      if (Platform.OS === 'web') {
-        // On web, try to fetch as ArrayBuffer
-        try {
-          const response = await fetch(fileUri);
-          const blob = await response.blob();
-          imageSource = await blob.arrayBuffer();
-        } catch {
-          imageSource = fileUri;
-        }
-      }
-    } catch (loadError) {
-      console.warn('[FileConverter] Using image URI directly');
-      imageSource = fileUri;
-    }
-    
-    // Perform OCR
-    console.log('[FileConverter] Performing OCR recognition...');
-    const result = await worker.recognize(imageSource);
-    await worker.terminate();
-    
-    const { text, confidence } = result.data;
-    const extractedText = text.trim();
-    
-    if (!extractedText || extractedText.length === 0) {
-      throw new Error('No text found in image. The image may not contain readable text.');
+    const { recognizeImage, LOW_CONFIDENCE_THRESHOLD } = await import('@/utils/imageOcr');
+    options.onProgress?.({ stage: 'ocr' });
+    const { text, confidence } = await recognizeImage(fileUri, {
+      signal: options.signal,
+      onProgress: (_, percent) => options.onProgress?.({ stage: 'ocr', percent }),
+    });
+
+    if (!text) {
+      throw new NoTextLayerError('No text found in image. The image may not contain readable text.');
     }
-    
-    if (confidence < 60) {
+
+    if (confidence < LOW_CONFIDENCE_THRESHOLD) {
       console.warn(`[FileConverter] Low OCR confidence (${confidence}%) - text may contain errors`);
     }
-    
-    console.log(`[FileConverter] Successfully extracted ${extractedText.length} characters from image (confidence: ${confidence}%)`);
-    return extractedText;
+
+    console.log(`[FileConverter] Successfully extracted ${text.length} characters from image (confidence: ${confidence}%)`);
+    return text;
   } catch (error: any) {
+    if (isConversionCancelled(error) || isImportError(error)) throw error;
     console.error('[FileConverter] OCR extraction error:', error);
-    
-    if (Platform.OS !== 'web') {
-      throw new Error(`OCR is not fully supported on mobile. Please convert the image to text or use a text-based file. Error: ${error.message || 'Unknown error'}`);
-    }
-    
     throw new Error(`OCR extraction failed: ${error.message || 'Unknown error'}. Make sure the image contains clear, readable text.`);
   }
 }
@@ -1,8 +1,9 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { getApp, getApps, initializeApp } from 'firebase/app';
-import { getFirestore } from 'firebase/firestore';
-import { getStorage } from 'firebase/storage';
+import { connectFirestoreEmulator, getFirestore } from 'firebase/firestore';
+import { connectStorageEmulator, getStorage } from 'firebase/storage';
 import { Platform } from 'react-native';
+import { getFirebaseEmulatorHost } from '@/utils/backendConfig';
 
 // Some React Native Firebase Auth persistence exports are only available from the RN bundle.
 // Metro cannot resolve `firebase/auth/react-native` in this Firebase package layout,
@@ -12,9 +13,10 @@ const firebaseAuth = require('firebase/auth') as any;
 // eslint-disable-next-line @typescript-eslint/no-var-requires
 const firebaseAuthRn = require('@firebase/auth') as { getReactNativePersistence: (storage: any) => any };
 
-const { getAuth, initializeAuth } = firebaseAuth as {
+const { getAuth, initializeAuth, connectAuthEmulator } = firebaseAuth as {
   getAuth: (app?: any) => any;
   initializeAuth: (app: any, deps?: any) => any;
+  connectAuthEmulator: (auth: any, url: string, options?: { disableWarnings?: boolean }) => void;
 };
 const { getReactNativePersistence } = firebaseAuthRn;
 
@@ -46,4 +48,18 @@ export const auth =
 export const db = getFirestore(firebaseApp);
 export const storage = getStorage(firebaseApp);
 
+// Local development: EXPO_PUBLIC_FIREBASE_EMULATOR_HOST points Auth, Firestore and Storage at the emulators.
+const emulatorHost = getFirebaseEmulatorHost();
+if (emulatorHost) {
+  try {
+    connectAuthEmulator(auth, `http://${emulatorHost}:9099`, { disableWarnings: true });
+    connectFirestoreEmulator(db, emulatorHost, 8080);
+    connectStorageEmulator(storage, emulatorHost, 9199);
+    console.log('[Firebase] Using emulators at', emulatorHost);
+  } catch (error: any) {
+    // Fast refresh re-evaluates this module after the emulators are already connected
+    console.warn('[Firebase] Could not connect emulators:', error?.message);
+  }
+}
+
 export const GOOGLE_WEB_CLIENT_ID = firebaseConfig.webClientId;
\ No newline at end of file
@@ -1,73 +1,50 @@
 import * as FileSystem from 'expo-file-system/legacy';
-import { Platform } from 'react-native';
 import { storage } from '@/utils/firebaseConfig';
-import { getDownloadURL, ref as storageRef, uploadBytes } from 'firebase/storage';
+import { deleteObject, getDownloadURL, ref as storageRef } from 'firebase/storage';
+import { readProcessedDocument, type ProcessedDocument } from '@/utils/processedDocument';
+import { getImportErrorCode, isImportError, QuotaExceededError, StorageDeniedError } from '@/utils/importErrors';
 
 function tempPath(filename: string) {
   const dir = FileSystem.cacheDirectory || FileSystem.documentDirectory || '';
   return `${dir}${filename}`;
 }
 
-async function normalizeToFileUri(inputUri: string, extensionHint?: string): Promise<{
-  uri: string;
-  cleanup: () => Promise<void>;
-}> {
-  // Web: keep as-is.
-  if (Platform.OS === 'web') {
-    return { uri: inputUri, cleanup: async () => {} };
-  }
-
-  // If already file://, nothing to do.
-  if (inputUri.startsWith('file://')) {
-    return { uri: inputUri, cleanup: async () => {} };
-  }
-
-  // Android content:// URIs are often not readable by upload libs.
-  // Copy into app cache and use that file:// path.
-  const ext = extensionHint ? `.${extensionHint.replace(/^\./, '')}` : '';
-  const tmp = tempPath(`readx-src-${Date.now()}-${Math.random().toString(16).slice(2)}${ext || '.bin'}`);
-  await FileSystem.copyAsync({ from: inputUri, to: tmp });
-  return {
-    uri: tmp,
-    cleanup: async () => {
-      try {
-        await FileSystem.deleteAsync(tmp, { idempotent: true } as any);
-      } catch {
-        // ignore
-      }
-    },
-  };
+/**
+ * Storage rule denials and quota errors (Firebase SDK codes or upload HTTP statuses) as typed
+ * import errors; anything else is returned unchanged
+ */
+function toStorageError(error: any): any {
+  if (isImportError(error)) return error;
+  const code = getImportErrorCode(error);
+  if (code === 'storage-denied') return new StorageDeniedError(error?.message || undefined);
+  if (code === 'quota-exceeded') return new QuotaExceededError(error?.message || undefined);
+  return error;
 }
 
+/**
+ * Upload a user's file with a resumable, chunked upload. Progress, pause and resume are
+ * available through `listenUploads` (utils/resumableUpload); on native an upload interrupted
+ * by an app restart continues from the bytes the server already has.
+ */
 export async function uploadLocalFileToStorage(params: {
   storagePath: string;
   fileUri: string;
   contentType: string;
+  name?: string; // shown in the upload list
+  signal?: AbortSignal | null; // cancels the upload
 }): Promise<void> {
-  const extFromPath = params.storagePath.split('.').pop();
-  const { uri, cleanup } = await normalizeToFileUri(params.fileUri, extFromPath);
-  try {
-    let blob: Blob;
-    // Prefer fetch(file://...).blob() first (avoids huge base64 strings that can crash/reload the app).
-    try {
-      blob = await (await fetch(uri)).blob();
-    } catch {
-      // Fallback: base64 -> dataUrl -> blob
-      const base64 = await FileSystem.readAsStringAsync(uri, { encoding: 'base64' } as any);
-      const dataUrl = `data:${params.contentType};base64,${base64}`;
-      blob = await (await fetch(dataUrl)).blob();
-    }
+  const { startResumableUpload } = await import('@/utils/resumableUpload');
+  await startResumableUpload(params).done.catch((error) => {
+    throw toStorageError(error);
+  });
+}
 
-    await uploadBytes(storageRef(storage, params.storagePath), blob, { contentType: params.contentType });
-  } catch (e: any) {
-    const code = e?.code || e?.message || '';
-    if (String(code).includes('storage/unauthorized') || String(code).includes('storage/forbidden')) {
-      throw new Error('Upload blocked by Firebase Storage rules. Please publish Storage rules to allow authenticated writes.');
-    }
-    throw e;
-  } finally {
-    await cleanup();
-  }
+// Internal files (processed JSON, pasted text): chunked too, but not listed or persisted
+async function uploadInternalFile(params: { storagePath: string; fileUri: string; contentType: string }): Promise<void> {
+  const { startResumableUpload } = await import('@/utils/resumableUpload');
+  await startResumableUpload({ ...params, listed: false }).done.catch((error) => {
+    throw toStorageError(error);
+  });
 }
 
 export async function uploadJsonToStoragePath(params: { storagePath: string; json: any }): Promise<void> {
@@ -76,7 +53,7 @@ export async function uploadJsonToStoragePath(params: { storagePath: string; jso
     await FileSystem.writeAsStringAsync(p, JSON.stringify(params.json), {
       encoding: FileSystem.EncodingType.UTF8,
     } as any);
-    await uploadLocalFileToStorage({ storagePath: params.storagePath, fileUri: p, contentType: 'application/json' });
+    await uploadInternalFile({ storagePath: params.storagePath, fileUri: p, contentType: 'application/json' });
   } finally {
     try {
       await FileSystem.deleteAsync(p, { idempotent: true } as any);
@@ -98,7 +75,7 @@ export async function uploadTextToStoragePath(params: {
     await FileSystem.writeAsStringAsync(p, params.text, {
       encoding: FileSystem.EncodingType.UTF8,
     } as any);
-    await uploadLocalFileToStorage({
+    await uploadInternalFile({
       storagePath: params.storagePath,
       fileUri: p,
       contentType: params.contentType || 'text/plain',
@@ -113,9 +90,32 @@ export async function uploadTextToStoragePath(params: {
 }
 
 export async function downloadJsonFromStoragePath(storagePath: string): Promise<any> {
-  const url = await getDownloadURL(storageRef(storage, storagePath));
+  const url = await getDownloadURL(storageRef(storage, storagePath)).catch((error) => {
+    throw toStorageError(error);
+  });
   const resp = await fetch(url);
   if (!resp.ok) throw new Error('Failed to download processed content.');
   return await resp.json();
 }
 
+/**
+ * Delete a Storage object; a missing object is not an error
+ */
+export async function deleteStoragePath(storagePath: string): Promise<void> {
+  try {
+    await deleteObject(storageRef(storage, storagePath));
+  } catch (e: any) {
+    if (e?.code !== 'storage/object-not-found') throw toStorageError(e);
+  }
+}
+
+export async function uploadProcessedDocument(params: { storagePath: string; document: ProcessedDocument }): Promise<void> {
+  await uploadJsonToStoragePath({ storagePath: params.storagePath, json: params.document });
+}
+
+/**
+ * Download processed JSON and read it as a ProcessedDocument (legacy `{ pages, text }` files included)
+ */
+export async function downloadProcessedDocument(storagePath: string): Promise<ProcessedDocument> {
+  return readProcessedDocument(await downloadJsonFromStoragePath(storagePath));
+}
@@ -9,6 +9,7 @@ export type DashboardSummary = {
   filesUploaded: number;
   readingSessions: number;
   wordsRead: number;
+  wordsListened?: number; // heard with read-aloud (not counted in wordsRead)
   totalReadingTimeSec: number;
   updatedAt: any;
 };
@@ -20,6 +21,7 @@ export async function bumpDashboardSummary(params: {
   filesUploadedDelta?: number;
   readingSessionsDelta?: number;
   wordsReadDelta?: number;
+  wordsListenedDelta?: number;
   totalReadingTimeSecDelta?: number;
 }): Promise<void> {
   const ref = doc(db, 'users', params.uid, 'dashboard', 'summary');
@@ -32,6 +34,7 @@ export async function bumpDashboardSummary(params: {
       filesUploaded: increment(params.filesUploadedDelta ?? 0),
       readingSessions: increment(params.readingSessionsDelta ?? 0),
       wordsRead: increment(params.wordsReadDelta ?? 0),
+      wordsListened: increment(params.wordsListenedDelta ?? 0),
       totalReadingTimeSec: increment(params.totalReadingTimeSecDelta ?? 0),
       updatedAt: serverTimestamp(),
     } as any,
@@ -1,4 +1,8 @@
 import { auth, db } from '@/utils/firebaseConfig';
+import type { ConvertedDocumentType } from '@/utils/converterRegistry';
+import type { TextEncodingId } from '@/utils/textEncoding';
+import type { ImportErrorCode } from '@/utils/importErrors';
+import type { SkipPolicyMode } from '@/utils/readingPolicy';
 import {
   collection,
   doc,
@@ -10,9 +14,13 @@ import {
   setDoc,
   type Unsubscribe,
   getDoc,
+  getDocs,
+  deleteDoc,
 } from 'firebase/firestore';
 
-export type DocumentType = 'pdf' | 'docx' | 'txt' | 'paste';
+// Converted file types come from the converter registry; 'paste' is text typed into the app,
+// 'scan' is pages photographed with the camera
+export type DocumentType = ConvertedDocumentType | 'paste' | 'scan';
 export type DocumentStatus = 'processing' | 'ready' | 'error';
 
 export type UserDocument = {
@@ -30,6 +38,25 @@ export type UserDocument = {
 
   // optional convenience
   errorMessage?: string;
+  errorCode?: ImportErrorCode | null; // 'error' documents: stable code for getFriendlyImportError
+  scanPages?: ScanPageInfo[]; // 'scan' documents only
+  encoding?: TextEncodingId; // plain-text documents: encoding used to decode the original
+  encodingOverridden?: boolean; // chosen by the user instead of detected
+  contentHash?: string; // SHA-256 of the original file (uploads only), for duplicate detection
+  sourceUrl?: string; // web page an article was imported from ('paste' documents)
+  skipPolicy?: SkipPolicyMode | null; // parent's No Skipping rule for this document; null = profile rule
+  // From the processed document (getDocumentSummary)
+  documentTitle?: string; // title from the file's own properties (title is the file name)
+  author?: string;
+  language?: string; // ISO 639-1
+  wordCount?: number;
+  readingMinutes?: number;
+};
+
+export type ScanPageInfo = {
+  page: number; // 1-based
+  confidence: number; // OCR confidence 0-100
+  needsReview: boolean; // low confidence when captured
 };
 
 export function requireUid(): string {
@@ -65,12 +92,36 @@ export async function upsertUserDocument(params: {
   );
 }
 
+export async function deleteUserDocument(uid: string, docId: string): Promise<void> {
+  await deleteDoc(doc(db, 'users', uid, 'documents', docId));
+}
+
 export async function getUserDocument(uid: string, docId: string): Promise<UserDocument | null> {
   const ref = doc(db, 'users', uid, 'documents', docId);
   const snap = await getDoc(ref);
   return snap.exists() ? (snap.data() as any as UserDocument) : null;
 }
 
+export async function setDocumentSkipPolicy(uid: string, docId: string, mode: SkipPolicyMode | null): Promise<void> {
+  await setDoc(doc(db, 'users', uid, 'documents', docId), { skipPolicy: mode }, { merge: true });
+}
+
+/**
+ * An existing upload with the same content, if any (error entries and `excludeDocId` are skipped)
+ */
+export async function findDocumentByContentHash(
+  uid: string,
+  contentHash: string,
+  excludeDocId?: string
+): Promise<{ id: string; data: UserDocument } | null> {
+  const q = query(collection(db, 'users', uid, 'documents'), where('contentHash', '==', contentHash));
+  const snap = await getDocs(q);
+  const match = snap.docs
+    .map((d) => ({ id: d.id, data: d.data() as any as UserDocument }))
+    .find((d) => d.id !== excludeDocId && d.data.status !== 'error');
+  return match || null;
+}
+
 export function listenUserDocuments(
   uid: string,
   onChange: (docs: Array<{ id: string; data: UserDocument }>) => void,
@@ -1,13 +1,20 @@
 import { db } from '@/utils/firebaseConfig';
 import { collection, doc, getDoc, onSnapshot, serverTimestamp, setDoc, type Unsubscribe, updateDoc } from 'firebase/firestore';
 
+// How paragraphs were finished: read on screen or heard with read-aloud
+export type ReadingMode = 'read' | 'listened';
+
 export type UserProgress = {
   // required by schema
   name: string;
   email: string;
   uid: string;
   currentPage: number;
+  // Stable processed-document block id of the current screen (currentPage is a chunk index
+  // that depends on screen size)
+  currentBlockId?: string;
   completed: boolean;
+  mode?: ReadingMode; // how most completed paragraphs were finished
   lastReadAt: any;
 };
 
@@ -39,7 +46,9 @@ export async function upsertProgress(params: {
   name: string;
   email: string;
   currentPage: number;
+  currentBlockId?: string;
   completed: boolean;
+  mode?: ReadingMode;
 }): Promise<void> {
   const ref = doc(db, 'users', params.uid, 'progress', params.docId);
   const payload: UserProgress = {
@@ -47,7 +56,9 @@ export async function upsertProgress(params: {
     email: params.email,
     uid: params.uid,
     currentPage: params.currentPage,
+    ...(params.currentBlockId ? { currentBlockId: params.currentBlockId } : {}),
     completed: params.completed,
+    ...(params.mode ? { mode: params.mode } : {}),
     lastReadAt: serverTimestamp(),
   };
   await setDoc(ref, payload, { merge: true });
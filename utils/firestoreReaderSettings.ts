@@ -0,0 +1,31 @@
+import { db } from '@/utils/firebaseConfig';
+import { doc, getDoc, serverTimestamp, setDoc } from 'firebase/firestore';
+import type { ReaderTypography } from '@/utils/readerTypography';
+
+// `/users/{uid}/settings/reader`: the reader's per-user choices, kept across sessions and devices
+export type ReaderSettings = {
+  uid: string;
+  readAloudVoice?: string | null; // expo-speech voice id; null = platform default
+  readAloudRate?: number; // 1 = normal speed
+  pacerWpm?: number; // guided pacer speed in words per minute
+  rsvpWpm?: number; // RSVP speed in words per minute
+  rsvpPhrases?: boolean; // RSVP shows short phrases instead of single words
+  typography?: Partial<ReaderTypography>; // font, spacing, margins, alignment and reader theme
+  updatedAt?: any;
+};
+
+export async function getReaderSettings(uid: string): Promise<ReaderSettings | null> {
+  const snap = await getDoc(doc(db, 'users', uid, 'settings', 'reader'));
+  return snap.exists() ? (snap.data() as any as ReaderSettings) : null;
+}
+
+export async function saveReaderSettings(
+  uid: string,
+  settings: Partial<Omit<ReaderSettings, 'uid' | 'updatedAt'>>
+): Promise<void> {
+  await setDoc(
+    doc(db, 'users', uid, 'settings', 'reader'),
+    { ...settings, uid, updatedAt: serverTimestamp() },
+    { merge: true }
+  );
+}
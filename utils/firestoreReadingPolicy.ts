@@ -0,0 +1,147 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { db } from '@/utils/firebaseConfig';
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  serverTimestamp,
+  setDoc,
+  type Unsubscribe,
+} from 'firebase/firestore';
+import type { SkipPolicyMode } from '@/utils/readingPolicy';
+
+// `/users/{uid}/settings/readingPolicy`: the parent's No Skipping rules for the profile
+export type ReadingPolicy = {
+  uid: string;
+  mode: SkipPolicyMode;
+  dwellWordsPerMinute?: number; // `dwell` mode reading speed used for the minimum time
+  pinHash?: string | null; // salted hash of the parent PIN (hex); null = no PIN set
+  pinSalt?: string | null;
+  pinKdf?: 'pbkdf2-sha256' | null; // unset = legacy single SHA-256
+  pinIterations?: number | null;
+  pinFailures?: number; // wrong PINs in a row, kept here so clearing app data does not reset them
+  pinLockedUntil?: number; // ms timestamp; the PIN prompt is locked until then
+  lastPinFailureAt?: any;
+  updatedAt?: any;
+};
+
+// `/users/{uid}/policyOverrides/{autoId}`: a paragraph unlocked early with the parent PIN
+export type PolicyOverride = {
+  uid: string;
+  docId: string | null;
+  fileName: string;
+  mode: SkipPolicyMode; // policy that was in force
+  fromParagraph: number; // 0-based
+  toParagraph: number;
+  createdAt: any;
+};
+
+// Last rules read on this device, so they still apply when Firestore cannot be reached
+type CachedReadingPolicy = {
+  policy: ReadingPolicy | null;
+  documentModes: Record<string, SkipPolicyMode | null>; // docId -> the document's own rule
+};
+
+const POLICY_CACHE_KEY = 'reading_policy_cache';
+
+function policyCacheKey(uid: string): string {
+  return `${POLICY_CACHE_KEY}_${uid}`;
+}
+
+export async function getCachedReadingPolicy(uid: string): Promise<CachedReadingPolicy | null> {
+  try {
+    const raw = await AsyncStorage.getItem(policyCacheKey(uid));
+    const parsed = raw ? JSON.parse(raw) : null;
+    return parsed && typeof parsed === 'object' ? { policy: parsed.policy ?? null, documentModes: parsed.documentModes ?? {} } : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function cacheReadingPolicy(
+  uid: string,
+  policy: ReadingPolicy | null,
+  document?: { docId: string; mode: SkipPolicyMode | null }
+): Promise<void> {
+  try {
+    const documentModes = { ...(await getCachedReadingPolicy(uid))?.documentModes };
+    if (document) documentModes[document.docId] = document.mode;
+    await AsyncStorage.setItem(policyCacheKey(uid), JSON.stringify({ policy, documentModes }));
+  } catch (error: any) {
+    console.warn('[ReadingPolicy] Could not cache the reading policy:', error?.message);
+  }
+}
+
+export async function getReadingPolicy(uid: string): Promise<ReadingPolicy | null> {
+  const snap = await getDoc(doc(db, 'users', uid, 'settings', 'readingPolicy'));
+  return snap.exists() ? (snap.data() as any as ReadingPolicy) : null;
+}
+
+export function listenReadingPolicy(
+  uid: string,
+  onChange: (policy: ReadingPolicy | null) => void,
+  onError?: () => void
+): Unsubscribe {
+  return onSnapshot(
+    doc(db, 'users', uid, 'settings', 'readingPolicy'),
+    (snap) => onChange(snap.exists() ? (snap.data() as any as ReadingPolicy) : null),
+    () => onError?.()
+  );
+}
+
+export async function saveReadingPolicy(
+  uid: string,
+  policy: Partial<Omit<ReadingPolicy, 'uid' | 'updatedAt'>>
+): Promise<void> {
+  await setDoc(
+    doc(db, 'users', uid, 'settings', 'readingPolicy'),
+    { ...policy, uid, updatedAt: serverTimestamp() },
+    { merge: true }
+  );
+}
+
+export async function savePinAttempts(
+  uid: string,
+  attempts: { failures: number; lockedUntil: number },
+  failed: boolean
+): Promise<void> {
+  await setDoc(
+    doc(db, 'users', uid, 'settings', 'readingPolicy'),
+    {
+      pinFailures: attempts.failures,
+      pinLockedUntil: attempts.lockedUntil,
+      ...(failed ? { lastPinFailureAt: serverTimestamp() } : {}),
+    },
+    { merge: true }
+  );
+}
+
+export async function logPolicyOverride(
+  uid: string,
+  override: Omit<PolicyOverride, 'uid' | 'createdAt'>
+): Promise<void> {
+  await addDoc(collection(db, 'users', uid, 'policyOverrides'), {
+    ...override,
+    uid,
+    createdAt: serverTimestamp(),
+  });
+}
+
+export function listenPolicyOverrides(
+  uid: string,
+  onChange: (overrides: { id: string; data: PolicyOverride }[]) => void,
+  onError?: () => void,
+  max = 20
+): Unsubscribe {
+  const q = query(collection(db, 'users', uid, 'policyOverrides'), orderBy('createdAt', 'desc'), limit(max));
+  return onSnapshot(
+    q,
+    (snap) => onChange(snap.docs.map((d) => ({ id: d.id, data: d.data() as any as PolicyOverride }))),
+    () => onError?.()
+  );
+}
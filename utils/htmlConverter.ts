@@ -0,0 +1,181 @@
+/**
+ * HTML Converter
+ * Keeps the readable content of a saved web page: drops scripts, styles, navigation, page
+ * headers/footers and hidden elements, prefers <article>/<main> when the page has one, and
+ * maps headings, paragraphs, list items, quotes and tables to blocks (via xhtmlToBlocks).
+ */
+
+import { cleanMetadataAuthor, cleanMetadataTitle, normalizeLanguageTag } from './documentMetadata';
+import { decodeEntities, xhtmlToBlocks } from './epubConverter';
+import type { BlockInput } from './processedDocument';
+
+export interface HtmlDocument {
+  blocks: BlockInput[];
+  title?: string;
+  author?: string;
+  language?: string;
+}
+
+// Never readable content
+export const DROPPED_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object', 'select'];
+
+// Page chrome around the content
+const CHROME_TAGS = ['nav', 'header', 'footer', 'aside', 'form', 'button', 'menu', 'dialog'];
+
+const TAG_RE = /<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)([^>]*)>/g;
+
+interface ElementRange {
+  start: number; // index of "<tag"
+  contentStart: number;
+  contentEnd: number; // index of "</tag>" (or end of input when unclosed)
+  end: number;
+  attrs: string;
+}
+
+/**
+ * Outermost elements matching `match`, with nesting of the same tag handled
+ */
+function findElements(html: string, match: (tag: string, attrs: string) => boolean): ElementRange[] {
+  const ranges: ElementRange[] = [];
+  let open: { tag: string; depth: number; start: number; contentStart: number; attrs: string } | null = null;
+  const re = new RegExp(TAG_RE.source, 'g');
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(html)) !== null) {
+    const closing = m[1] === '/';
+    const tag = m[2].toLowerCase();
+    const selfClosing = /\/\s*$/.test(m[3]);
+
+    if (open) {
+      if (tag !== open.tag || selfClosing) continue;
+      if (!closing) {
+        open.depth++;
+      } else if (--open.depth === 0) {
+        ranges.push({
+          start: open.start,
+          contentStart: open.contentStart,
+          contentEnd: m.index,
+          end: m.index + m[0].length,
+          attrs: open.attrs,
+        });
+        open = null;
+      }
+      continue;
+    }
+
+    if (closing || !match(tag, m[3])) continue;
+    if (selfClosing) {
+      const end = m.index + m[0].length;
+      ranges.push({ start: m.index, contentStart: end, contentEnd: end, end, attrs: m[3] });
+      continue;
+    }
+    open = { tag, depth: 1, start: m.index, contentStart: m.index + m[0].length, attrs: m[3] };
+  }
+  if (open) {
+    ranges.push({ start: open.start, contentStart: open.contentStart, contentEnd: html.length, end: html.length, attrs: open.attrs });
+  }
+  return ranges;
+}
+
+function removeElements(html: string, match: (tag: string, attrs: string) => boolean): string {
+  let out = '';
+  let last = 0;
+  for (const range of findElements(html, match)) {
+    out += html.slice(last, range.start) + ' ';
+    last = range.end;
+  }
+  return out + html.slice(last);
+}
+
+export function getAttribute(attrs: string, name: string): string | null {
+  const m = attrs.match(new RegExp(`(?:^|\\s)${name}\\s*=\\s*("([^"]*)"|'([^']*)'|([^\\s"'>]+))`, 'i'));
+  if (!m) return null;
+  return decodeEntities(m[2] ?? m[3] ?? m[4] ?? '');
+}
+
+export function isHidden(attrs: string): boolean {
+  // The bare `hidden` attribute (not a class or other value containing the word)
+  if (/(?:^|\s)hidden(?:\s|=|\/|$)/i.test(attrs.replace(/"[^"]*"|'[^']*'/g, '""'))) return true;
+  if (getAttribute(attrs, 'aria-hidden') === 'true') return true;
+  return /display\s*:\s*none|visibility\s*:\s*hidden/i.test(getAttribute(attrs, 'style') || '');
+}
+
+function textLength(html: string): number {
+  return html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim().length;
+}
+
+export function metaContent(head: string, name: string): string | null {
+  const metaRe = /<meta\s[^>]*>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = metaRe.exec(head)) !== null) {
+    const key = (getAttribute(m[0], 'name') || getAttribute(m[0], 'property') || '').toLowerCase();
+    if (key === name) return getAttribute(m[0], 'content');
+  }
+  return null;
+}
+
+/**
+ * Title, author and language from <head> and the <html> tag
+ */
+function readHtmlMetadata(html: string): Omit<HtmlDocument, 'blocks'> {
+  const head = html.match(/<head[^>]*>([\s\S]*?)<\/head>/i)?.[1] || html.slice(0, 20000);
+  const titleTag = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const htmlTag = html.match(/<html\s[^>]*>/i)?.[0] || '';
+  return {
+    title: cleanMetadataTitle(
+      metaContent(head, 'og:title') || (titleTag ? decodeEntities(titleTag.replace(/<[^>]+>/g, '')) : null)
+    ),
+    author: cleanMetadataAuthor(metaContent(head, 'author') || metaContent(head, 'article:author')),
+    language: normalizeLanguageTag(getAttribute(htmlTag, 'lang') || getAttribute(htmlTag, 'xml:lang')),
+  };
+}
+
+/**
+ * The part of the page holding the main content: the longest <article>, else <main> /
+ * role="main", else null (the whole body is used)
+ */
+function selectMainContent(body: string): string | null {
+  const total = textLength(body);
+  const candidates = [
+    ...findElements(body, (tag) => tag === 'article'),
+    ...findElements(body, (tag, attrs) => tag === 'main' || getAttribute(attrs, 'role') === 'main'),
+  ]
+    .map((range) => body.slice(range.contentStart, range.contentEnd))
+    .map((html) => ({ html, length: textLength(html) }))
+    .sort((a, b) => b.length - a.length);
+
+  // A short <article> (e.g. a teaser card) is not the content of a long page
+  const best = candidates[0];
+  return best && best.length >= Math.min(200, total * 0.25) ? best.html : null;
+}
+
+/**
+ * Readable part of a page body: scripts, styles, hidden elements and page chrome removed.
+ * Inside an article its own <header> (usually the title) is kept.
+ */
+export function extractReadableHtml(body: string): string {
+  let html = body.replace(/<!--[\s\S]*?-->/g, ' ');
+  html = removeElements(html, (tag, attrs) => DROPPED_TAGS.includes(tag) || isHidden(attrs));
+  const main = selectMainContent(html);
+  const chrome = main !== null ? CHROME_TAGS.filter((tag) => tag !== 'header') : CHROME_TAGS;
+  return removeElements(main ?? html, (tag) => chrome.includes(tag));
+}
+
+/**
+ * Convert an HTML page into blocks plus its title, author and language
+ */
+export function htmlToDocument(html: string): HtmlDocument {
+  const bodyRange = findElements(html, (tag) => tag === 'body')[0];
+  const body = bodyRange
+    ? html.slice(bodyRange.contentStart, bodyRange.contentEnd)
+    : html.replace(/<head[^>]*>[\s\S]*?<\/head>/i, ' ');
+
+  return { blocks: xhtmlToBlocks(extractReadableHtml(body)), ...readHtmlMetadata(html) };
+}
+
+/**
+ * Content sniffing: an HTML document (doctype or <html> near the start)
+ */
+export function looksLikeHtml(start: string): boolean {
+  const head = start.replace(/^\ufeff/, '').trimStart().slice(0, 512).toLowerCase();
+  return head.startsWith('<!doctype html') || /^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<html[\s>]/.test(head);
+}
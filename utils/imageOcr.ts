@@ -0,0 +1,137 @@
+/**
+ * Image OCR
+ * Web runs Tesseract in the browser. React Native has no Web Workers or WASM loader for
+ * tesseract.js, so native sends each image to the extraction backend's `/extract/image`,
+ * which runs Tesseract on the server.
+ */
+
+import { Platform } from 'react-native';
+import { getBackendUrl } from '@/utils/backendConfig';
+import { getFirebaseIdToken } from '@/utils/firebaseAuth';
+import { abortable, ConversionCancelledError, isConversionCancelled, throwIfAborted, withTimeout } from '@/utils/conversionControl';
+import { BackendUnreachableError, isImportError } from '@/utils/importErrors';
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-100, as reported by Tesseract
+}
+
+// Pages below this confidence are flagged for review
+export const LOW_CONFIDENCE_THRESHOLD = 60;
+
+export function isLowConfidence(result: OcrResult): boolean {
+  return !result.text.trim() || result.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
+
+export interface OcrOptions {
+  signal?: AbortSignal | null; // terminates the web worker / aborts the backend request
+  onProgress?: (index: number, percent: number) => void; // percent of image `index` (web only)
+}
+
+async function loadWebImage(fileUri: string, signal?: AbortSignal | null): Promise<any> {
+  try {
+    const response = await fetch(fileUri, { signal: signal || undefined });
+    const blob = await response.blob();
+    return await blob.arrayBuffer();
+  } catch {
+    throwIfAborted(signal);
+    return fileUri;
+  }
+}
+
+async function recognizeWithBackend(fileUri: string, idToken: string, signal?: AbortSignal | null): Promise<OcrResult> {
+  const name = fileUri.split('/').pop() || 'page.jpg';
+  const formData = new FormData();
+  formData.append('file', { uri: fileUri, name, type: name.endsWith('.png') ? 'image/png' : 'image/jpeg' } as any);
+
+  let resp: Response;
+  try {
+    resp = await withTimeout(
+      (requestSignal) =>
+        fetch(`${getBackendUrl()}/extract/image`, {
+          method: 'POST',
+          headers: { Authorization: `Bearer ${idToken}` },
+          body: formData,
+          signal: requestSignal,
+        }),
+      { timeoutMs: 60000, timeoutMessage: 'Text recognition timed out. Please try again.', signal }
+    );
+  } catch (error: any) {
+    if (isConversionCancelled(error) || isImportError(error)) throw error;
+    throw new BackendUnreachableError('Cannot connect to the text recognition server. Check your connection and try again.');
+  }
+  if (!resp.ok) {
+    const details = await resp.text().catch(() => '');
+    throw new Error(`OCR request failed (${resp.status})${details ? `: ${details}` : ''}`);
+  }
+
+  const json = await resp.json().catch(() => null);
+  return {
+    text: typeof json?.text === 'string' ? json.text.trim() : '',
+    confidence: typeof json?.confidence === 'number' ? json.confidence : 0,
+  };
+}
+
+/**
+ * OCR several images in order. One Tesseract worker is shared across pages on web.
+ */
+export async function recognizeImages(
+  fileUris: string[],
+  onPage?: (index: number, result: OcrResult) => void,
+  options: OcrOptions = {}
+): Promise<OcrResult[]> {
+  const { signal, onProgress } = options;
+  const results: OcrResult[] = [];
+  throwIfAborted(signal);
+
+  if (Platform.OS !== 'web') {
+    const idToken = await getFirebaseIdToken();
+    for (let i = 0; i < fileUris.length; i++) {
+      throwIfAborted(signal);
+      console.log(`[ImageOcr] Sending image ${i + 1}/${fileUris.length} to the backend`);
+      const result = await recognizeWithBackend(fileUris[i], idToken, signal);
+      results.push(result);
+      onPage?.(i, result);
+    }
+    return results;
+  }
+
+  const tesseract = await import('tesseract.js');
+  let current = 0;
+  const worker = await tesseract.createWorker('eng', undefined, {
+    logger: (m) => {
+      if (m.status === 'recognizing text') onProgress?.(current, m.progress * 100);
+    },
+  });
+  // Terminating the worker rejects the running recognize() call
+  let terminated = false;
+  const terminate = () => {
+    if (terminated) return;
+    terminated = true;
+    worker.terminate().catch(() => {});
+  };
+  signal?.addEventListener('abort', terminate);
+  try {
+    for (let i = 0; i < fileUris.length; i++) {
+      throwIfAborted(signal);
+      current = i;
+      console.log(`[ImageOcr] Recognizing image ${i + 1}/${fileUris.length}`);
+      const { data } = await abortable(worker.recognize(await loadWebImage(fileUris[i], signal)), signal);
+      const result = { text: data.text.trim(), confidence: data.confidence };
+      results.push(result);
+      onPage?.(i, result);
+    }
+  } catch (error) {
+    if (signal?.aborted) throw new ConversionCancelledError();
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', terminate);
+    terminate();
+  }
+  return results;
+}
+
+export async function recognizeImage(fileUri: string, options: OcrOptions = {}): Promise<OcrResult> {
+  const [result] = await recognizeImages([fileUri], undefined, options);
+  return result;
+}
@@ -0,0 +1,208 @@
+/**
+ * Import errors
+ * Typed errors with stable codes for conversion and upload failures. The code is saved on
+ * the UserDocument and mapped to a friendly message and a suggested action for the UI.
+ */
+
+export type ImportErrorCode =
+  | 'unsupported-format'
+  | 'encrypted-file'
+  | 'no-text-layer'
+  | 'backend-unreachable'
+  | 'timeout'
+  | 'storage-denied'
+  | 'quota-exceeded'
+  | 'corrupt-archive'
+  | 'ocr-unavailable';
+
+export class ImportError extends Error {
+  readonly code: ImportErrorCode;
+
+  constructor(code: ImportErrorCode, message: string) {
+    super(message);
+    this.name = 'ImportError';
+    this.code = code;
+  }
+}
+
+export class UnsupportedFormatError extends ImportError {
+  constructor(message = 'This file format is not supported.') {
+    super('unsupported-format', message);
+  }
+}
+
+export class EncryptedFileError extends ImportError {
+  constructor(message = 'This file is password-protected or DRM-protected.') {
+    super('encrypted-file', message);
+  }
+}
+
+export class NoTextLayerError extends ImportError {
+  constructor(message = 'No text detected in this file.') {
+    super('no-text-layer', message);
+  }
+}
+
+export class BackendUnreachableError extends ImportError {
+  constructor(message = 'Cannot connect to the extraction server.') {
+    super('backend-unreachable', message);
+  }
+}
+
+export class ImportTimeoutError extends ImportError {
+  constructor(message = 'The operation took too long.') {
+    super('timeout', message);
+  }
+}
+
+export class StorageDeniedError extends ImportError {
+  constructor(message = 'Firebase Storage rules denied access to this file.') {
+    super('storage-denied', message);
+  }
+}
+
+export class QuotaExceededError extends ImportError {
+  constructor(message = 'The storage quota has been exceeded.') {
+    super('quota-exceeded', message);
+  }
+}
+
+export class CorruptArchiveError extends ImportError {
+  constructor(message = 'The file is damaged and cannot be opened.') {
+    super('corrupt-archive', message);
+  }
+}
+
+export class OcrUnavailableError extends ImportError {
+  constructor(message = 'Text recognition is not available on this device.') {
+    super('ocr-unavailable', message);
+  }
+}
+
+const IMPORT_ERROR_CODES: ImportErrorCode[] = [
+  'unsupported-format',
+  'encrypted-file',
+  'no-text-layer',
+  'backend-unreachable',
+  'timeout',
+  'storage-denied',
+  'quota-exceeded',
+  'corrupt-archive',
+  'ocr-unavailable',
+];
+
+export function isImportErrorCode(value: unknown): value is ImportErrorCode {
+  return IMPORT_ERROR_CODES.includes(value as ImportErrorCode);
+}
+
+export function isImportError(error: any): error is ImportError {
+  return error instanceof ImportError || (error?.name === 'ImportError' && isImportErrorCode(error?.code));
+}
+
+// Messages that say a file is locked: pdf.js/pdf-parse password errors and the wording of our
+// own and the backend's errors. Bare "encrypted" or "drm" also appear in unrelated messages
+// (e.g. "make sure the file is not DRM-protected"), so only these phrases count.
+const ENCRYPTED_MESSAGE_RE =
+  /\b(?:password[- ]protected|no password given|incorrect password|password required|drm[- ]protected|protected by drm|is encrypted|encrypted (?:pdf|file|document|epub|docx|archive))\b/;
+const NEGATED_ENCRYPTED_RE = /\b(?:not|isn't|is not) (?:password[- ]protected|drm[- ]protected|encrypted)\b/g;
+
+/**
+ * Code of a typed error, or one recognized from Firebase Storage codes, HTTP statuses and
+ * the messages of libraries that throw plain errors; null when unknown
+ */
+export function getImportErrorCode(error: unknown): ImportErrorCode | null {
+  if (isImportError(error)) return error.code;
+
+  const code = (error as any)?.code as string | undefined;
+  if (code === 'storage/unauthorized' || code === 'storage/unauthenticated') return 'storage-denied';
+  if (code === 'storage/quota-exceeded') return 'quota-exceeded';
+  if (code === 'storage/retry-limit-exceeded') return 'timeout';
+
+  const status = (error as any)?.status;
+  if (status === 401 || status === 403) return 'storage-denied';
+  if (status === 402) return 'quota-exceeded';
+
+  const name = (error as any)?.name as string | undefined;
+  if (name === 'PasswordException') return 'encrypted-file';
+  if (name === 'InvalidPDFException') return 'corrupt-archive';
+
+  const message = ((error as any)?.message as string | undefined)?.toLowerCase() || '';
+  if (!message) return null;
+  if (ENCRYPTED_MESSAGE_RE.test(message.replace(NEGATED_ENCRYPTED_RE, ''))) return 'encrypted-file';
+  if (message.includes('timeout') || message.includes('timed out') || message.includes('took too long')) return 'timeout';
+  if (message.includes('no text detected') || message.includes('no readable text')) return 'no-text-layer';
+  if (
+    message.includes('network request failed') ||
+    message.includes('failed to fetch') ||
+    message.includes('econnrefused') ||
+    message.includes('enotfound')
+  ) {
+    return 'backend-unreachable';
+  }
+  if (message.includes('not supported') || message.includes('unsupported')) return 'unsupported-format';
+  if (message.includes('end of data reached') || message.includes('corrupted zip') || message.includes("can't find end of central directory")) {
+    return 'corrupt-archive';
+  }
+  return null;
+}
+
+export type FriendlyImportError = {
+  code: ImportErrorCode | null;
+  message: string;
+  action: string;
+};
+
+/**
+ * Maps an import error (or a saved error code) to a user-friendly message and what to try next.
+ * Unknown errors keep their own message, which is written for users.
+ */
+export function getFriendlyImportError(err: unknown): FriendlyImportError {
+  const code = isImportErrorCode(err) ? err : getImportErrorCode(err);
+  switch (code) {
+    case 'unsupported-format':
+      return { code, message: 'This file format is not supported.', action: 'Convert it to PDF, DOCX or EPUB and upload it again.' };
+    case 'encrypted-file':
+      return {
+        code,
+        message: 'This file is password-protected or DRM-protected.',
+        action: 'Remove the password or protection, then upload it again.',
+      };
+    case 'no-text-layer':
+      return {
+        code,
+        message: 'No readable text was found in this file.',
+        action: 'If it is a scan, try a clearer copy or take photos of the pages with the camera.',
+      };
+    case 'backend-unreachable':
+      return {
+        code,
+        message: 'The extraction server could not be reached.',
+        action: 'Check your connection and try again in a moment.',
+      };
+    case 'timeout':
+      return { code, message: 'This took too long and was stopped.', action: 'Check your connection, or try a smaller file.' };
+    case 'storage-denied':
+      return {
+        code,
+        message: 'Storage access was denied.',
+        action: 'Sign out and back in. If it keeps happening, the Firebase Storage rules need to allow your uploads.',
+      };
+    case 'quota-exceeded':
+      return { code, message: 'The storage quota has been reached.', action: 'Delete documents you no longer need, or try again later.' };
+    case 'corrupt-archive':
+      return { code, message: 'This file is damaged and cannot be opened.', action: 'Download or export it again, then re-upload it.' };
+    case 'ocr-unavailable':
+      return {
+        code,
+        message: 'Text in scans and photos cannot be recognized on this device yet.',
+        action: 'Open it in the web app, or upload a copy with selectable text.',
+      };
+  }
+
+  const message = (err as any)?.message;
+  return {
+    code: null,
+    message: typeof message === 'string' && message.trim() ? message : 'Processing failed.',
+    action: 'Please try again, or re-upload the file.',
+  };
+}
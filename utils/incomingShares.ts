@@ -0,0 +1,159 @@
+/**
+ * Incoming shares
+ * Files and text sent to ReadX from other apps (Android "Share" / "Open with", iOS "Open in")
+ * and files dropped onto the web window. They wait here until a user is signed in, then go
+ * through the upload queue like picked files; a shared web link is imported as an article.
+ */
+
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system/legacy';
+import { importArticleFromUrl, normalizeArticleUrl } from '@/utils/linkImport';
+import { enqueueFiles } from '@/utils/uploadQueue';
+
+export type IncomingShare =
+  | { kind: 'file'; uri: string; name: string; mimeType?: string | null }
+  | { kind: 'text'; text: string; subject?: string };
+
+let pending: IncomingShare[] = [];
+const listeners = new Set<() => void>();
+
+function notify() {
+  listeners.forEach((listener) => listener());
+}
+
+// RN's URL has no searchParams; the share URL is built by MainActivity (plugins/withShareIntent.js)
+function parseQuery(url: string): { [key: string]: string } {
+  const query = url.split('?')[1] || '';
+  const params: { [key: string]: string } = {};
+  for (const part of query.split('&')) {
+    const [key, value = ''] = part.split('=');
+    if (!key) continue;
+    try {
+      params[decodeURIComponent(key)] = decodeURIComponent(value.replace(/\+/g, ' '));
+    } catch {
+      params[key] = value;
+    }
+  }
+  return params;
+}
+
+function nameFromUri(uri: string): string {
+  const last = uri.split('?')[0].split('/').pop() || '';
+  let name = last;
+  try {
+    name = decodeURIComponent(last);
+  } catch {
+    // keep the encoded name
+  }
+  // content:// URIs often end in an id rather than a file name
+  return /\.[a-z0-9]{2,5}$/i.test(name) ? name : 'Shared document';
+}
+
+/**
+ * The share carried by an incoming URL: omgreadx://share?... (Android), a file:// URL
+ * (iOS "Open in") or a content:// URL; null for ordinary app links
+ */
+export function parseIncomingShareUrl(url: string): IncomingShare | null {
+  if (/^omgreadx:\/\/\/?share\b/i.test(url)) {
+    const params = parseQuery(url);
+    if (params.uri) {
+      return { kind: 'file', uri: params.uri, name: params.name || nameFromUri(params.uri), mimeType: params.type || null };
+    }
+    if (params.text?.trim()) return { kind: 'text', text: params.text, subject: params.subject || undefined };
+    return null;
+  }
+  if (/^(file|content):\/\//i.test(url)) return { kind: 'file', uri: url, name: nameFromUri(url) };
+  return null;
+}
+
+export function addIncomingShare(share: IncomingShare) {
+  pending = [...pending, share];
+  notify();
+}
+
+/**
+ * Queue the share in `url`; false when the URL is not a share
+ */
+export function queueIncomingShareUrl(url: string): boolean {
+  const share = parseIncomingShareUrl(url);
+  if (!share) return false;
+  console.log(`[IncomingShares] Received ${share.kind} share`);
+  addIncomingShare(share);
+  return true;
+}
+
+export function listenIncomingShares(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function takeIncomingShares(): IncomingShare[] {
+  const shares = pending;
+  pending = [];
+  return shares;
+}
+
+/**
+ * Shared text is saved as a .txt file so it goes through the same import as uploads
+ */
+async function writeSharedText(share: { text: string; subject?: string }): Promise<{ uri: string; name: string }> {
+  const dir = FileSystem.cacheDirectory || FileSystem.documentDirectory;
+  if (!dir) throw new Error('No writable directory for shared text.');
+  const firstLine = (share.subject || share.text.trim().split('\n')[0]).replace(/[\\/:*?"<>|]+/g, ' ').trim();
+  const name = `${firstLine.slice(0, 60).trim() || 'Shared text'}.txt`;
+  const uri = `${dir}shared-text-${Date.now()}.txt`;
+  await FileSystem.writeAsStringAsync(uri, share.text, { encoding: FileSystem.EncodingType.UTF8 });
+  return { uri, name };
+}
+
+/**
+ * Import shares for the signed-in user: files and text into the upload queue, a shared
+ * link (the whole text is one URL) as a web article
+ */
+export async function importIncomingShares(shares: IncomingShare[]): Promise<void> {
+  const files: { uri: string; name: string; mimeType?: string | null }[] = [];
+  for (const share of shares) {
+    if (share.kind === 'file') {
+      files.push({ uri: share.uri, name: share.name, mimeType: share.mimeType });
+      continue;
+    }
+    const text = share.text.trim();
+    const url = /^https?:\/\/\S+$/i.test(text) ? normalizeArticleUrl(text) : null;
+    if (url) {
+      await importArticleFromUrl(url);
+    } else {
+      files.push({ ...(await writeSharedText(share)), mimeType: 'text/plain' });
+    }
+  }
+  if (files.length > 0) await enqueueFiles(files);
+}
+
+/**
+ * Web: files dropped anywhere on the window become shares (instead of the browser opening them)
+ */
+export function listenWindowFileDrops(): () => void {
+  if (Platform.OS !== 'web' || typeof window === 'undefined') return () => {};
+
+  const hasFiles = (event: DragEvent) => Array.from(event.dataTransfer?.types || []).includes('Files');
+  const onDragOver = (event: DragEvent) => {
+    if (hasFiles(event)) event.preventDefault();
+  };
+  const onDrop = (event: DragEvent) => {
+    if (!hasFiles(event)) return;
+    event.preventDefault();
+    const files = Array.from(event.dataTransfer?.files || []);
+    console.log(`[IncomingShares] ${files.length} file(s) dropped`);
+    for (const file of files) {
+      addIncomingShare({ kind: 'file', uri: URL.createObjectURL(file), name: file.name, mimeType: file.type || null });
+    }
+  };
+
+  window.addEventListener('dragover', onDragOver);
+  window.addEventListener('drop', onDrop);
+  return () => {
+    window.removeEventListener('dragover', onDragOver);
+    window.removeEventListener('drop', onDrop);
+  };
+}
@@ -0,0 +1,128 @@
+/**
+ * Web article import
+ * Fetches a page, keeps its readable article (utils/readability) and saves it like pasted
+ * text: the page HTML as the original, a processed JSON under `paste/` and a 'paste'
+ * UserDocument that remembers the link. Native only: browsers block reading other sites (CORS).
+ */
+
+import { Platform } from 'react-native';
+import { throwIfAborted, withTimeout } from '@/utils/conversionControl';
+import { uploadProcessedDocument, uploadTextToStoragePath } from '@/utils/firebaseStorageHelpers';
+import { bumpDashboardSummary } from '@/utils/firestoreDashboard';
+import { requireEmail, requireName, requireUid, upsertUserDocument } from '@/utils/firestoreDocuments';
+import { buildProcessedDocument, getDocumentSummary } from '@/utils/processedDocument';
+import { extractArticle } from '@/utils/readability';
+import { cleanupBlocks } from '@/utils/textCleanup';
+
+export interface LinkImportResult {
+  docId: string;
+  title: string;
+  processedPath: string;
+}
+
+// Pages larger than this are not articles (or not HTML)
+const MAX_PAGE_CHARS = 5 * 1024 * 1024;
+
+/**
+ * The web app cannot fetch other sites' pages, so it offers pasting instead
+ */
+export function isLinkImportAvailable(): boolean {
+  return Platform.OS !== 'web';
+}
+
+/**
+ * "example.com/post" -> "https://example.com/post"; null when it is not a web link
+ */
+export function normalizeArticleUrl(input: string): string | null {
+  const value = input.trim();
+  if (!value || /\s/.test(value)) return null;
+  const withScheme = /^[a-z][a-z0-9+.-]*:/i.test(value) ? value : `https://${value}`;
+  try {
+    const url = new URL(withScheme);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    if (!url.hostname.includes('.') && url.hostname !== 'localhost') return null;
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+async function fetchPage(url: string, signal?: AbortSignal | null): Promise<string> {
+  const resp = await withTimeout(
+    (requestSignal) => fetch(url, { headers: { Accept: 'text/html,application/xhtml+xml' }, signal: requestSignal }),
+    { timeoutMs: 30000, timeoutMessage: 'The page took too long to load.', signal }
+  );
+
+  if (!resp.ok) throw new Error(`The page could not be loaded (${resp.status}).`);
+  const contentType = resp.headers.get('content-type') || '';
+  if (contentType && !/html|xml/i.test(contentType)) {
+    throw new Error('This link is not a web page. Download the file and upload it instead.');
+  }
+  const html = await resp.text();
+  if (html.length > MAX_PAGE_CHARS) throw new Error('This page is too large to import.');
+  return html;
+}
+
+/**
+ * Import the article at `url` into the library
+ */
+export async function importArticleFromUrl(
+  url: string,
+  options: { signal?: AbortSignal | null } = {}
+): Promise<LinkImportResult> {
+  const { signal } = options;
+  const uid = requireUid();
+  if (!isLinkImportAvailable()) {
+    throw new Error('Importing from a link is not available in the browser. Copy the article text and paste it instead.');
+  }
+
+  try {
+    // 1) Fetch and extract
+    console.log('[LinkImport] Fetching', url);
+    const html = await fetchPage(url, signal);
+    const article = extractArticle(html);
+    const blocks = cleanupBlocks(article.blocks);
+    if (!blocks.some((b) => b.type === 'paragraph' || b.type === 'listItem')) {
+      throw new Error('No article text was found on this page.');
+    }
+    throwIfAborted(signal);
+
+    const title = article.title || new URL(url).hostname;
+    const processedDocument = buildProcessedDocument({
+      blocks,
+      sourceFormat: 'web',
+      title,
+      author: article.byline,
+      language: article.language,
+    });
+
+    // 2) Upload the page and the processed JSON (same layout as pasted text)
+    const docId = `${Date.now()}`;
+    const storagePath = `users/${uid}/files/${docId}/original.html`;
+    const processedPath = `users/${uid}/paste/${docId}.json`;
+    await uploadTextToStoragePath({ storagePath, text: html, extension: 'html', contentType: 'text/html' });
+    await uploadProcessedDocument({ storagePath: processedPath, document: processedDocument });
+
+    // 3) Firestore metadata and dashboard count
+    await upsertUserDocument({
+      uid,
+      docId,
+      data: {
+        type: 'paste',
+        title,
+        ...getDocumentSummary(processedDocument),
+        status: 'ready',
+        storagePath,
+        processedPath,
+        sourceUrl: url,
+      },
+    });
+    await bumpDashboardSummary({ uid, name: requireName(), email: requireEmail(), filesUploadedDelta: 1 });
+
+    console.log(`[LinkImport] Saved "${title}" (${blocks.length} blocks)`);
+    return { docId, title, processedPath };
+  } catch (error: any) {
+    console.error('[LinkImport] Import failed:', error?.message);
+    throw error;
+  }
+}
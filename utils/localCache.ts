@@ -1,4 +1,5 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
 
 /**
  * Clears local caches that must never leak across users.
@@ -11,11 +12,23 @@ export async function clearLocalUserCaches(): Promise<void> {
     'reading_progress', // utils/readingStorage.ts
     'completed_files', // utils/readingStorage.ts
     'user_profile', // utils/profileStorage.ts (legacy local profile)
+    'upload_queue', // utils/uploadQueue.ts
+    'resumable_uploads', // utils/resumableUpload.ts
   ];
   try {
     await AsyncStorage.multiRemove(keys);
   } catch {
     // ignore cache clear errors
   }
-}
 
+  // Staged copies of the user's files (native only)
+  const dirs = ['pending-uploads/', 'upload-queue/']; // utils/resumableUpload.ts, utils/uploadQueue.ts
+  if (!FileSystem.documentDirectory) return;
+  for (const dir of dirs) {
+    try {
+      await FileSystem.deleteAsync(`${FileSystem.documentDirectory}${dir}`, { idempotent: true } as any);
+    } catch {
+      // ignore cache clear errors
+    }
+  }
+}
@@ -0,0 +1,251 @@
+/**
+ * Markdown Converter
+ * Turns Markdown into blocks: ATX/setext headings, bullet and numbered lists (with nesting),
+ * block quotes, fenced/indented code and tables. Inline syntax (emphasis, links, code spans,
+ * images) is reduced to its text so readers never see literal `#`, `*` or `[...](...)`.
+ */
+
+import { cleanMetadataAuthor, cleanMetadataTitle, normalizeLanguageTag } from './documentMetadata';
+import { decodeEntities } from './epubConverter';
+import type { BlockInput } from './processedDocument';
+
+export interface MarkdownDocument {
+  blocks: BlockInput[];
+  title?: string;
+  author?: string;
+  language?: string;
+}
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/;
+const ATX_HEADING_RE = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const SETEXT_RE = /^ {0,3}(=+|-+)\s*$/;
+const RULE_RE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_RE = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE_RE = /^ {0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+const LINK_DEFINITION_RE = /^ {0,3}\[[^\]]+\]:\s*\S+/;
+
+/**
+ * Reduce inline Markdown to plain text
+ */
+export function stripInlineMarkdown(text: string): string {
+  const literals: string[] = [];
+  const keep = (value: string) => {
+    literals.push(value);
+    return `\u0000${literals.length - 1}\u0000`;
+  };
+  let out = text
+    // Code spans and escaped characters first: they are literal
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) => keep(code.trim()))
+    .replace(/\\([\\`*_{}[\]()#+\-.!|>~])/g, (_, char: string) => keep(char))
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // images: alt text
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // inline links
+    .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1') // reference links
+    .replace(/<(https?:\/\/[^>\s]+)>/g, '$1') // autolinks
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '') // inline HTML
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '$2') // bold
+    .replace(/\*(?=\S)([^*]*?\S)\*/g, '$1') // italic
+    .replace(/(^|[^\w])_(?=\S)([^_]*?\S)_(?!\w)/g, '$1$2') // italic (not inside snake_case words)
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '$1'); // strikethrough
+  out = out.replace(/\u0000(\d+)\u0000/g, (_, i: string) => literals[parseInt(i, 10)]);
+  return decodeEntities(out).replace(/\s+/g, ' ').trim();
+}
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => stripInlineMarkdown(cell));
+}
+
+/**
+ * YAML front matter ("---" block at the top): title, author and lang
+ */
+function readFrontMatter(lines: string[]): { end: number; title?: string; author?: string; language?: string } {
+  if (lines[0]?.trim() !== '---') return { end: 0 };
+  const close = lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+  if (close < 0) return { end: 0 };
+
+  const values: { [key: string]: string } = {};
+  for (const line of lines.slice(1, close)) {
+    const m = line.match(/^([A-Za-z_-]+):\s*(.*)$/);
+    if (m) values[m[1].toLowerCase()] = m[2].trim().replace(/^(["'])(.*)\1$/, '$2');
+  }
+  return {
+    end: close + 1,
+    title: cleanMetadataTitle(values.title),
+    author: cleanMetadataAuthor(values.author),
+    language: normalizeLanguageTag(values.lang || values.language),
+  };
+}
+
+/**
+ * Convert Markdown into blocks plus title (front matter or first H1), author and language
+ */
+export function markdownToDocument(markdown: string): MarkdownDocument {
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n');
+  const frontMatter = readFrontMatter(lines);
+
+  const blocks: BlockInput[] = [];
+  let paragraph: string[] = [];
+  let quote: string[] = [];
+  // Open list item (continuation lines are appended until a blank line or new block)
+  let listItem: { level: number; marker: string; lines: string[] } | null = null;
+  const listIndents: number[] = []; // indentation of each open list level
+  const orderedCounts: number[] = [];
+
+  const flushParagraph = () => {
+    const text = stripInlineMarkdown(paragraph.join(' '));
+    paragraph = [];
+    if (text) blocks.push({ type: 'paragraph', text });
+  };
+  const flushQuote = () => {
+    if (quote.length === 0) return;
+    // Paragraphs inside the quote stay separate quote blocks
+    for (const part of quote.join('\n').split(/\n\s*\n/)) {
+      const text = stripInlineMarkdown(part.replace(/^>\s?/gm, ''));
+      if (text) blocks.push({ type: 'quote', text });
+    }
+    quote = [];
+  };
+  const flushListItem = () => {
+    if (!listItem) return;
+    const text = stripInlineMarkdown(listItem.lines.join(' '));
+    if (text) blocks.push({ type: 'listItem', level: listItem.level, marker: listItem.marker, text });
+    listItem = null;
+  };
+  const endList = () => {
+    flushListItem();
+    listIndents.length = 0;
+    orderedCounts.length = 0;
+  };
+  const flushAll = () => {
+    flushParagraph();
+    flushQuote();
+    endList();
+  };
+
+  for (let i = frontMatter.end; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code: everything up to the closing fence is literal
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      flushAll();
+      const code: string[] = [];
+      for (i++; i < lines.length; i++) {
+        if (lines[i].trim().startsWith(fence[1])) break;
+        code.push(lines[i]);
+      }
+      if (code.join('').trim()) blocks.push({ type: 'code', text: code.join('\n') });
+      continue;
+    }
+
+    if (!line.trim()) {
+      flushParagraph();
+      flushListItem();
+      // A quote ends at a blank line unless the next line continues it
+      if (quote.length > 0 && !QUOTE_RE.test(lines[i + 1] || '')) flushQuote();
+      else if (quote.length > 0) quote.push('');
+      continue;
+    }
+
+    // Setext heading: underline below a paragraph line
+    const setext = line.match(SETEXT_RE);
+    if (setext && paragraph.length > 0 && !listItem) {
+      const text = stripInlineMarkdown(paragraph.join(' '));
+      paragraph = [];
+      if (text) blocks.push({ type: 'heading', level: setext[1][0] === '=' ? 1 : 2, text });
+      continue;
+    }
+
+    if (RULE_RE.test(line)) {
+      flushAll();
+      continue;
+    }
+
+    const heading = line.match(ATX_HEADING_RE);
+    if (heading) {
+      flushAll();
+      const text = stripInlineMarkdown(heading[2] || '');
+      if (text) blocks.push({ type: 'heading', level: heading[1].length, text });
+      continue;
+    }
+
+    const quoteLine = line.match(QUOTE_RE);
+    if (quoteLine) {
+      flushParagraph();
+      endList();
+      quote.push(quoteLine[1]);
+      continue;
+    }
+    flushQuote();
+
+    // Tables: header row followed by a |---|---| separator
+    if (line.includes('|') && TABLE_SEPARATOR_RE.test(lines[i + 1] || '')) {
+      flushAll();
+      const header = splitTableRow(line);
+      blocks.push({ type: 'tableRow', text: header.join(' | '), cells: header });
+      for (i += 2; i < lines.length && lines[i].includes('|') && lines[i].trim(); i++) {
+        const cells = splitTableRow(lines[i]);
+        if (cells.some(Boolean)) blocks.push({ type: 'tableRow', text: cells.join(' | '), cells });
+      }
+      i--;
+      continue;
+    }
+
+    const item = line.match(LIST_RE);
+    // Inside a paragraph only bullets and lists starting at 1 begin a list (not "2019. was...")
+    if (item && (paragraph.length === 0 || !/^\d/.test(item[2]) || parseInt(item[2], 10) === 1)) {
+      flushParagraph();
+      flushListItem();
+      const indent = item[1].length;
+      while (listIndents.length > 0 && indent < listIndents[listIndents.length - 1]) {
+        listIndents.pop();
+        orderedCounts.pop();
+      }
+      if (listIndents.length === 0 || indent > listIndents[listIndents.length - 1] + 1) {
+        listIndents.push(indent);
+        orderedCounts.push(0);
+      }
+      const level = listIndents.length - 1;
+      const ordered = /^\d/.test(item[2]);
+      if (ordered) {
+        const start = parseInt(item[2], 10);
+        orderedCounts[level] = orderedCounts[level] === 0 ? start : orderedCounts[level] + 1;
+      }
+      listItem = { level, marker: ordered ? `${orderedCounts[level]}.` : '•', lines: [item[3]] };
+      continue;
+    }
+
+    if (LINK_DEFINITION_RE.test(line) && paragraph.length === 0) continue;
+
+    // Indented code (not inside a list or paragraph)
+    if (/^ {4}/.test(line) && paragraph.length === 0 && !listItem && listIndents.length === 0) {
+      const code: string[] = [];
+      for (; i < lines.length && (/^ {4}/.test(lines[i]) || !lines[i].trim()); i++) code.push(lines[i].slice(4));
+      i--;
+      if (code.join('').trim()) blocks.push({ type: 'code', text: code.join('\n').trimEnd() });
+      continue;
+    }
+
+    // Continuation of the open list item, or paragraph text
+    if (listItem) {
+      listItem.lines.push(line.trim());
+    } else {
+      if (listIndents.length > 0 && !/^\s/.test(line)) endList();
+      paragraph.push(line.trim());
+    }
+  }
+  flushAll();
+
+  const firstH1 = blocks.find((b) => b.type === 'heading' && b.level === 1);
+  return {
+    blocks,
+    title: frontMatter.title || cleanMetadataTitle(firstH1?.text),
+    author: frontMatter.author,
+    language: frontMatter.language,
+  };
+}
@@ -0,0 +1,209 @@
+/**
+ * Guided pacer
+ * Moves a marker across the lines of a paragraph at a target words-per-minute. Lines are
+ * estimated from the text width and font size (the same estimate the reader uses for
+ * line tracking), and each line gets the time its words take at that speed.
+ */
+
+import { calculateLineReadingTime, splitTextIntoLines } from './readingDetection';
+
+export type PacerState = 'idle' | 'playing' | 'paused';
+
+export interface PacerLine {
+  start: number; // character range of the line in the paragraph text
+  end: number;
+  wordEnds: number[]; // end of each word on the line
+  durationMs: number;
+}
+
+export interface PacerPosition {
+  lineStart: number; // current line
+  lineEnd: number;
+  markerEnd: number; // the marker covers lineStart..markerEnd
+}
+
+export const DEFAULT_PACER_WPM = 200;
+export const MIN_PACER_WPM = 60;
+export const MAX_PACER_WPM = 600;
+export const PACER_WPM_STEP = 20;
+
+// Short lines (a heading, the end of a paragraph) still get a moment on screen
+const MIN_LINE_MS = 400;
+const TICK_MS = 50;
+
+export function clampWpm(wpm: number): number {
+  return Math.min(MAX_PACER_WPM, Math.max(MIN_PACER_WPM, Math.round(wpm / PACER_WPM_STEP) * PACER_WPM_STEP));
+}
+
+/**
+ * Lines of `text` as laid out in a container `containerWidth` wide, timed for `wpm`
+ */
+export function buildPacerLines(
+  text: string,
+  containerWidth: number,
+  fontSize: number,
+  wpm: number,
+  layout?: { padding?: number; letterSpacing?: number; wordSpacing?: number }
+): PacerLine[] {
+  const words: { start: number; end: number }[] = [];
+  const re = /\S+/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    words.push({ start: m.index, end: m.index + m[0].length });
+  }
+  if (words.length === 0) return [];
+
+  // splitTextIntoLines keeps whole words, so lines map back onto the words in order
+  const lines: PacerLine[] = [];
+  let next = 0;
+  for (const line of splitTextIntoLines(text, containerWidth, fontSize, layout)) {
+    const count = line.split(/\s+/).filter((w) => w.length > 0).length;
+    const lineWords = words.slice(next, next + count);
+    if (lineWords.length === 0) break;
+    next += lineWords.length;
+    lines.push({
+      start: lineWords[0].start,
+      end: lineWords[lineWords.length - 1].end,
+      wordEnds: lineWords.map((word) => word.end),
+      durationMs: calculateLineReadingTime(line, wpm, MIN_LINE_MS),
+    });
+  }
+  return lines;
+}
+
+/**
+ * Marker position `fraction` (0-1) of the way through a line, advancing a word at a time
+ */
+export function getPacerPosition(line: PacerLine, fraction: number): PacerPosition {
+  const wordIndex = Math.min(line.wordEnds.length - 1, Math.floor(Math.max(0, fraction) * line.wordEnds.length));
+  return { lineStart: line.start, lineEnd: line.end, markerEnd: line.wordEnds[wordIndex] };
+}
+
+/**
+ * Runs the marker over one paragraph's lines at a time
+ */
+export class Pacer {
+  state: PacerState = 'idle';
+  private lines: PacerLine[] = [];
+  private lineIndex = 0;
+  private elapsedInLine = 0; // ms spent on the current line
+  private lastTick = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private lastPosition: PacerPosition | null = null;
+
+  constructor(
+    private callbacks: {
+      onPosition: (position: PacerPosition | null) => void;
+      onStateChange: (state: PacerState) => void;
+      onDone: () => void; // the marker reached the end of the last line
+    }
+  ) {}
+
+  start(lines: PacerLine[]) {
+    this.lines = lines;
+    this.lineIndex = 0;
+    this.elapsedInLine = 0;
+    this.lastPosition = null;
+    this.run();
+  }
+
+  pause() {
+    if (this.state !== 'playing') return;
+    this.tick();
+    if (this.state !== 'playing') return; // finished on this tick
+    this.clearTimer();
+    this.setState('paused');
+  }
+
+  resume() {
+    if (this.state !== 'paused') return;
+    this.run();
+  }
+
+  stop() {
+    this.clearTimer();
+    this.lines = [];
+    this.lineIndex = 0;
+    this.elapsedInLine = 0;
+    this.lastPosition = null;
+    this.callbacks.onPosition(null);
+    this.setState('idle');
+  }
+
+  /**
+   * Same text re-timed (new speed or text size); the marker keeps its place in the text
+   */
+  setLines(lines: PacerLine[]) {
+    if (this.state === 'idle') return;
+    const current = this.lines[this.lineIndex];
+    const fraction = current ? this.elapsedInLine / current.durationMs : 0;
+    const offset = current ? current.start : 0;
+
+    let index = lines.findIndex((line) => line.end >= offset);
+    if (index === -1) index = Math.max(0, lines.length - 1);
+    this.lines = lines;
+    this.lineIndex = index;
+    this.elapsedInLine = lines[index] ? Math.min(fraction, 1) * lines[index].durationMs : 0;
+    this.emitPosition();
+  }
+
+  private run() {
+    this.clearTimer();
+    if (this.lines.length === 0) {
+      this.finish();
+      return;
+    }
+    this.lastTick = Date.now();
+    this.setState('playing');
+    this.emitPosition();
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+  }
+
+  private tick() {
+    const now = Date.now();
+    this.elapsedInLine += now - this.lastTick;
+    this.lastTick = now;
+
+    while (this.lines[this.lineIndex] && this.elapsedInLine >= this.lines[this.lineIndex].durationMs) {
+      this.elapsedInLine -= this.lines[this.lineIndex].durationMs;
+      this.lineIndex++;
+    }
+    if (this.lineIndex >= this.lines.length) {
+      this.finish();
+      return;
+    }
+    this.emitPosition();
+  }
+
+  // Only reported when the marker moves to another word
+  private emitPosition() {
+    const line = this.lines[this.lineIndex];
+    const position = line ? getPacerPosition(line, this.elapsedInLine / line.durationMs) : null;
+    const last = this.lastPosition;
+    if (position && last && position.lineStart === last.lineStart && position.markerEnd === last.markerEnd) return;
+    this.lastPosition = position;
+    this.callbacks.onPosition(position);
+  }
+
+  private finish() {
+    this.clearTimer();
+    this.lines = [];
+    this.lineIndex = 0;
+    this.elapsedInLine = 0;
+    this.lastPosition = null;
+    this.callbacks.onPosition(null);
+    this.setState('idle');
+    this.callbacks.onDone();
+  }
+
+  private clearTimer() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private setState(state: PacerState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.callbacks.onStateChange(state);
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * PBKDF2-HMAC-SHA256
+ * expo-crypto has no key derivation, so the parent PIN is stretched here. The work yields to
+ * the event loop every few thousand iterations so the UI keeps responding.
+ */
+
+import { Sha256 } from './sha256';
+
+const YIELD_EVERY = 4096;
+
+function hmacStates(key: Uint8Array): { inner: Sha256; outer: Sha256 } {
+  const block = new Uint8Array(64);
+  block.set(key.length > 64 ? new Sha256().update(key).digest() : key);
+  const inner = new Sha256().update(block.map((b) => b ^ 0x36));
+  const outer = new Sha256().update(block.map((b) => b ^ 0x5c));
+  return { inner, outer };
+}
+
+function hmac(states: { inner: Sha256; outer: Sha256 }, message: Uint8Array): Uint8Array {
+  const innerDigest = states.inner.clone().update(message).digest();
+  return states.outer.clone().update(innerDigest).digest();
+}
+
+export async function pbkdf2Sha256(
+  password: Uint8Array,
+  salt: Uint8Array,
+  iterations: number,
+  length = 32
+): Promise<Uint8Array> {
+  const states = hmacStates(password);
+  const out = new Uint8Array(length);
+
+  for (let blockIndex = 1, offset = 0; offset < length; blockIndex++, offset += 32) {
+    const first = new Uint8Array(salt.length + 4);
+    first.set(salt);
+    new DataView(first.buffer).setUint32(salt.length, blockIndex);
+
+    let u = hmac(states, first);
+    const t = u.slice();
+    for (let i = 1; i < iterations; i++) {
+      u = hmac(states, u);
+      for (let k = 0; k < 32; k++) t[k] ^= u[k];
+      if (i % YIELD_EVERY === 0) await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+    out.set(t.subarray(0, Math.min(32, length - offset)), offset);
+  }
+  return out;
+}
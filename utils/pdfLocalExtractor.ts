@@ -0,0 +1,247 @@
+/**
+ * On-device PDF text extraction (pdfjs-dist)
+ * Used when the extraction backend is unreachable. Produces the same { pages, text }
+ * shape the backend writes, plus the text of each page. Pages without a text layer
+ * (scans) can be rendered to images for OCR where a canvas is available (web).
+ */
+
+export interface LocalPdfResult {
+  pages: number;
+  text: string;
+  pageTexts: string[];
+  info: any; // PDF info dictionary (Title, Author, ...), null when unreadable
+}
+
+interface PositionedItem {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  hasEOL: boolean;
+}
+
+interface TextLine {
+  text: string;
+  x: number;
+  y: number;
+  height: number;
+}
+
+let pdfjsPromise: Promise<typeof import('pdfjs-dist/legacy/build/pdf.mjs')> | null = null;
+
+async function loadPdfjs() {
+  if (!pdfjsPromise) {
+    pdfjsPromise = (async () => {
+      const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+      // Run the worker code on the main thread ("fake worker"); React Native has no Web Workers
+      // and bundling a separate worker URL is not portable across web/native.
+      if (!(globalThis as any).pdfjsWorker) {
+        // @ts-ignore - worker bundle ships without type declarations
+        (globalThis as any).pdfjsWorker = await import('pdfjs-dist/legacy/build/pdf.worker.mjs');
+      }
+      return pdfjs;
+    })();
+  }
+  return await pdfjsPromise;
+}
+
+// A page with fewer letters/digits than this has no usable text layer (scan, or only a page number)
+const MIN_TEXT_LAYER_CHARS = 10;
+
+// Render width for OCR: about 200 dpi for a Letter/A4 page (also used by the extraction server)
+export const OCR_RENDER_WIDTH = 1700;
+
+/**
+ * Page numbers (1-based) whose text layer is empty or too thin to be the page's content
+ */
+export function findPagesWithoutText(pageTexts: string[]): number[] {
+  const pages: number[] = [];
+  pageTexts.forEach((text, i) => {
+    if ((text.match(/[\p{L}\p{N}]/gu) || []).length < MIN_TEXT_LAYER_CHARS) pages.push(i + 1);
+  });
+  return pages;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Group text items into visual lines using their baseline positions
+ */
+export function groupItemsIntoLines(items: PositionedItem[]): TextLine[] {
+  const lines: TextLine[] = [];
+  let current: TextLine | null = null;
+  let prevEnd = 0;
+  let prevEOL = false;
+
+  for (const item of items) {
+    if (!item.str && !item.hasEOL) continue;
+    const height = item.height || 10;
+
+    const sameLine =
+      current !== null && !prevEOL && Math.abs(item.y - current.y) <= Math.max(current.height, height) * 0.5;
+
+    if (!sameLine) {
+      if (current && current.text.trim()) lines.push(current);
+      current = { text: item.str, x: item.x, y: item.y, height };
+    } else if (current) {
+      // Insert a space when there is a visible gap between items and neither side has one
+      const gap = item.x - prevEnd;
+      const needsSpace = gap > height * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(item.str);
+      current.text += (needsSpace ? ' ' : '') + item.str;
+      current.height = Math.max(current.height, height);
+    }
+
+    prevEnd = item.x + item.width;
+    prevEOL = item.hasEOL;
+  }
+  if (current && current.text.trim()) lines.push(current);
+
+  return lines.map((line) => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }));
+}
+
+/**
+ * Join lines into paragraphs: a larger-than-usual vertical gap or an indented first line starts a new one.
+ * Lines inside a paragraph stay newline-separated so the clean-up pipeline can de-hyphenate them.
+ */
+export function joinLinesIntoParagraphs(lines: TextLine[]): string[] {
+  if (lines.length === 0) return [];
+
+  const gaps: number[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const gap = lines[i - 1].y - lines[i].y;
+    if (gap > 0) gaps.push(gap);
+  }
+  const lineSpacing = median(gaps) || lines[0].height * 1.2;
+  const leftMargin = median(lines.map((l) => l.x));
+
+  const paragraphs: string[] = [];
+  let current: string[] = [lines[0].text];
+
+  for (let i = 1; i < lines.length; i++) {
+    const prev = lines[i - 1];
+    const line = lines[i];
+    const gap = prev.y - line.y;
+
+    const bigGap = gap > lineSpacing * 1.5 || gap < 0; // gap < 0: new column / out-of-order block
+    const indented = line.x - leftMargin > line.height * 1.5 && /[.!?:"”]$/.test(prev.text);
+
+    if (bigGap || indented) {
+      paragraphs.push(current.join('\n'));
+      current = [line.text];
+    } else {
+      current.push(line.text);
+    }
+  }
+  paragraphs.push(current.join('\n'));
+
+  return paragraphs.filter((p) => p.trim().length > 0);
+}
+
+/**
+ * Extract text from PDF bytes, keeping page order and paragraph breaks.
+ * `onPage` runs before each page; throwing from it stops extraction (the document is still destroyed).
+ */
+export async function extractPdfTextLocally(
+  data: Uint8Array,
+  onPage?: (pageNumber: number, pageCount: number) => void
+): Promise<LocalPdfResult> {
+  const pdfjs = await loadPdfjs();
+  const loadingTask = pdfjs.getDocument({
+    data,
+    isEvalSupported: false,
+    useSystemFonts: true,
+    disableFontFace: true,
+  });
+
+  try {
+    const pdf = await loadingTask.promise;
+    const pageTexts: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      onPage?.(pageNumber, pdf.numPages);
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      const items: PositionedItem[] = [];
+      for (const item of content.items as any[]) {
+        if (typeof item?.str !== 'string') continue; // marked content
+        items.push({
+          str: item.str,
+          x: item.transform[4],
+          y: item.transform[5],
+          width: item.width || 0,
+          height: item.height || Math.abs(item.transform[3]) || 0,
+          hasEOL: Boolean(item.hasEOL),
+        });
+      }
+
+      const paragraphs = joinLinesIntoParagraphs(groupItemsIntoLines(items));
+      pageTexts.push(paragraphs.join('\n\n'));
+      page.cleanup();
+    }
+
+    const info = await pdf
+      .getMetadata()
+      .then((metadata) => metadata.info)
+      .catch(() => null);
+
+    return {
+      pages: pdf.numPages,
+      text: pageTexts.filter((t) => t.trim().length > 0).join('\n\n'),
+      pageTexts,
+      info,
+    };
+  } finally {
+    await loadingTask.destroy();
+  }
+}
+
+/**
+ * Render pages to PNG data URLs for OCR. Needs a DOM canvas (web); throws elsewhere.
+ * `onPage` runs before each page, like extractPdfTextLocally's.
+ */
+export async function renderPdfPagesToImages(
+  data: Uint8Array,
+  pageNumbers: number[],
+  onPage?: (index: number, count: number) => void
+): Promise<string[]> {
+  if (typeof document === 'undefined') {
+    throw new Error('Rendering PDF pages needs a canvas, which is only available on web');
+  }
+
+  const pdfjs = await loadPdfjs();
+  // pdf.js may transfer (detach) the buffer it is given; keep the caller's copy usable
+  const loadingTask = pdfjs.getDocument({ data: data.slice(), isEvalSupported: false, useSystemFonts: true });
+  try {
+    const pdf = await loadingTask.promise;
+    const images: string[] = [];
+    for (let i = 0; i < pageNumbers.length; i++) {
+      onPage?.(i, pageNumbers.length);
+      const page = await pdf.getPage(pageNumbers[i]);
+      const baseViewport = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: OCR_RENDER_WIDTH / baseViewport.width });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(viewport.width);
+      canvas.height = Math.ceil(viewport.height);
+      const context = canvas.getContext('2d');
+      if (!context) throw new Error('Canvas 2D context is not available');
+      // Scans are often transparent where the paper is white
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, canvas.width, canvas.height);
+
+      await page.render({ canvas, canvasContext: context, viewport }).promise;
+      images.push(canvas.toDataURL('image/png'));
+      page.cleanup();
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+    return images;
+  } finally {
+    await loadingTask.destroy();
+  }
+}
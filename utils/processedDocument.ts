@@ -0,0 +1,312 @@
+/**
+ * Processed document model
+ * Versioned schema for `users/{uid}/processed/{docId}.json`: typed blocks with stable ids
+ * and source page numbers, plus document metadata. Older `{ pages, text }` files are
+ * converted on read by `readProcessedDocument`.
+ */
+
+import { detectLanguage, estimatePageCount, estimateReadingMinutes } from './documentMetadata';
+
+export const PROCESSED_DOCUMENT_VERSION = 2;
+
+export type BlockType = 'heading' | 'paragraph' | 'listItem' | 'quote' | 'code' | 'tableRow';
+
+export interface ProcessedBlock {
+  id: string;
+  type: BlockType;
+  text: string;
+  page: number; // 1-based source page (1 for formats without pages)
+  level?: number; // heading level (1-6) or list nesting depth (0-based)
+  marker?: string; // list marker, e.g. "•" or "3."
+  cells?: string[]; // table row cells
+}
+
+/**
+ * Block as produced by a converter, before ids are assigned
+ */
+export type BlockInput = Omit<ProcessedBlock, 'id' | 'page'> & { page?: number };
+
+export interface ProcessedChapter {
+  title: string;
+  blockId: string; // first block of the chapter
+}
+
+export interface ProcessedDocumentMetadata {
+  title?: string;
+  author?: string;
+  language?: string; // ISO 639-1, from file properties or detected from the text
+  sourceFormat: string;
+  pageCount: number;
+  wordCount: number;
+  convertedAt: string; // ISO timestamp
+  pageConfidence?: number[]; // OCR confidence (0-100) per page, index 0 = page 1 (100 for PDF pages with a text layer)
+  encoding?: string; // character encoding of plain-text sources
+}
+
+export interface ProcessedDocument {
+  version: typeof PROCESSED_DOCUMENT_VERSION;
+  metadata: ProcessedDocumentMetadata;
+  blocks: ProcessedBlock[];
+  chapters: ProcessedChapter[];
+  // Flat copy in the original `{ pages, text }` shape, for the extraction backend contract
+  // and app builds that predate this schema.
+  pages: number;
+  text: string;
+}
+
+const BLOCK_TYPES: BlockType[] = ['heading', 'paragraph', 'listItem', 'quote', 'code', 'tableRow'];
+
+// pdf-parse's default page joiner ("-- 3 of 12 --") as written by the extraction backend
+const PAGE_MARKER_RE = /^\s*-- (\d+) of \d+ --\s*$/;
+
+/**
+ * FNV-1a hash (32-bit) as base36 - short, deterministic, no crypto dependency
+ */
+function hashText(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter((w) => w.length > 0).length;
+}
+
+/**
+ * Text of a block as shown to the reader (list marker included)
+ */
+export function blockDisplayText(block: Pick<ProcessedBlock, 'type' | 'text' | 'marker'>): string {
+  if (block.type === 'listItem') return `${block.marker || '•'} ${block.text}`;
+  return block.text;
+}
+
+/**
+ * Split plain text into paragraph blocks on blank lines
+ */
+export function textToBlocks(text: string, page = 1): BlockInput[] {
+  return text
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .filter((p) => p.length > 0)
+    .map((p) => ({ type: 'paragraph' as const, text: p, page }));
+}
+
+/**
+ * Assign stable ids and build a versioned document.
+ * Ids derive from block content (plus an occurrence counter for repeats), so they stay the
+ * same when the document is reprocessed and do not depend on screen size.
+ */
+export function buildProcessedDocument(params: {
+  blocks: BlockInput[];
+  sourceFormat: string;
+  pageCount?: number;
+  title?: string;
+  author?: string;
+  language?: string;
+  chapters?: { title: string; blockIndex: number }[];
+  pageConfidence?: number[];
+  encoding?: string;
+}): ProcessedDocument {
+  const seen = new Map<string, number>();
+  const blocks: ProcessedBlock[] = [];
+  // Index of the first output block at or after each input block (empty inputs are dropped)
+  const outputIndex: number[] = [];
+  for (const input of params.blocks) {
+    outputIndex.push(blocks.length);
+    // Ids hash the collapsed text; code keeps its line breaks and indentation
+    const collapsed = input.text.replace(/\s+/g, ' ').trim();
+    if (!collapsed) continue;
+    const text = input.type === 'code' ? input.text.replace(/[ \t]+$/gm, '').replace(/^\n+|\n+$/g, '') : collapsed;
+    const base = `${input.type[0]}${hashText(`${input.type}:${collapsed}`)}`;
+    const occurrence = seen.get(base) || 0;
+    seen.set(base, occurrence + 1);
+    blocks.push({
+      ...input,
+      id: occurrence === 0 ? base : `${base}-${occurrence}`,
+      text,
+      page: input.page && input.page > 0 ? input.page : 1,
+    });
+  }
+
+  const chapters: ProcessedChapter[] = [];
+  for (const chapter of params.chapters || []) {
+    const block = blocks[outputIndex[chapter.blockIndex] ?? blocks.length];
+    if (block && !chapters.some((c) => c.blockId === block.id)) {
+      chapters.push({ title: chapter.title, blockId: block.id });
+    }
+  }
+
+  const text = blocks.map(blockDisplayText).join('\n\n');
+  const pageCount = blocks.reduce((max, b) => Math.max(max, b.page), Math.max(params.pageCount || 0, 1));
+  const language = params.language || detectLanguage(text);
+
+  return {
+    version: PROCESSED_DOCUMENT_VERSION,
+    metadata: {
+      ...(params.title ? { title: params.title } : {}),
+      ...(params.author ? { author: params.author } : {}),
+      ...(language ? { language } : {}),
+      sourceFormat: params.sourceFormat,
+      pageCount,
+      wordCount: countWords(text),
+      convertedAt: new Date().toISOString(),
+      ...(params.pageConfidence ? { pageConfidence: params.pageConfidence } : {}),
+      ...(params.encoding ? { encoding: params.encoding } : {}),
+    },
+    blocks,
+    chapters,
+    pages: pageCount,
+    text,
+  };
+}
+
+// Formats whose pageCount is a real page count; the others get an estimate from the word count
+const PAGED_FORMATS = ['pdf', 'image', 'scan'];
+
+/**
+ * Fields for the `UserDocument` (Library list): real or estimated page count, length and
+ * the title/author/language found in the file
+ */
+export function getDocumentSummary(document: ProcessedDocument): {
+  pages: number;
+  wordCount: number;
+  readingMinutes: number;
+  documentTitle?: string;
+  author?: string;
+  language?: string;
+} {
+  const { metadata } = document;
+  const paged = PAGED_FORMATS.includes(metadata.sourceFormat) || metadata.pageCount > 1;
+  return {
+    pages: paged ? metadata.pageCount : estimatePageCount(metadata.wordCount),
+    wordCount: metadata.wordCount,
+    readingMinutes: estimateReadingMinutes(metadata.wordCount),
+    ...(metadata.title ? { documentTitle: metadata.title } : {}),
+    ...(metadata.author ? { author: metadata.author } : {}),
+    ...(metadata.language ? { language: metadata.language } : {}),
+  };
+}
+
+/**
+ * Split extraction backend text on its page markers ("-- 3 of 12 --") into page texts
+ */
+export function splitPageMarkers(text: string): string[] {
+  const pages: string[] = [];
+  let current: string[] = [];
+  for (const line of text.split('\n')) {
+    if (PAGE_MARKER_RE.test(line)) {
+      // Marker closes page N
+      pages.push(current.join('\n'));
+      current = [];
+    } else {
+      current.push(line);
+    }
+  }
+  if (pages.length === 0 || current.join('').trim()) pages.push(current.join('\n'));
+  return pages;
+}
+
+/**
+ * Convert a legacy `{ pages, text, chapters? }` file (chapters as character offsets)
+ */
+function fromLegacyJson(json: any, sourceFormat: string): ProcessedDocument {
+  const rawText: string = typeof json?.text === 'string' ? json.text : '';
+
+  // Locate each paragraph in the original text so offsets and page markers can be mapped
+  const blocks: BlockInput[] = [];
+  const blockOffsets: number[] = [];
+  let page = 1;
+  const paragraphRe = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g;
+  let m: RegExpExecArray | null;
+  while ((m = paragraphRe.exec(rawText)) !== null) {
+    const lines = m[0].split('\n');
+    const kept: string[] = [];
+    for (const line of lines) {
+      const marker = line.match(PAGE_MARKER_RE);
+      if (marker) {
+        // Marker closes page N; text after it belongs to the next page
+        if (kept.length > 0) {
+          blocks.push({ type: 'paragraph', text: kept.join(' '), page });
+          blockOffsets.push(m.index);
+          kept.length = 0;
+        }
+        page = parseInt(marker[1], 10) + 1;
+      } else {
+        kept.push(line);
+      }
+    }
+    if (kept.join('').trim()) {
+      blocks.push({ type: 'paragraph', text: kept.join(' '), page });
+      blockOffsets.push(m.index);
+    }
+  }
+
+  const chapters: { title: string; blockIndex: number }[] = [];
+  if (Array.isArray(json?.chapters)) {
+    for (const c of json.chapters) {
+      if (typeof c?.title !== 'string' || typeof c?.offset !== 'number') continue;
+      const blockIndex = blockOffsets.findIndex((offset) => offset >= c.offset);
+      if (blockIndex >= 0) chapters.push({ title: c.title, blockIndex });
+    }
+  }
+
+  const pages = typeof json?.pages === 'number' && json.pages > 0 ? json.pages : undefined;
+  return buildProcessedDocument({
+    blocks,
+    sourceFormat,
+    pageCount: pages,
+    chapters,
+  });
+}
+
+function isValidBlock(block: any): block is ProcessedBlock {
+  return (
+    typeof block?.id === 'string' &&
+    typeof block?.text === 'string' &&
+    typeof block?.page === 'number' &&
+    BLOCK_TYPES.includes(block?.type)
+  );
+}
+
+/**
+ * Read processed JSON from Storage in any supported version
+ * `sourceFormat` is recorded for legacy files, which do not carry metadata.
+ */
+export function readProcessedDocument(json: any, sourceFormat = 'legacy'): ProcessedDocument {
+  if (json?.version === PROCESSED_DOCUMENT_VERSION && Array.isArray(json?.blocks)) {
+    const blocks: ProcessedBlock[] = json.blocks.filter(isValidBlock);
+    const blockIds = new Set(blocks.map((b) => b.id));
+    const chapters: ProcessedChapter[] = Array.isArray(json.chapters)
+      ? json.chapters.filter((c: any) => typeof c?.title === 'string' && blockIds.has(c?.blockId))
+      : [];
+    const text = blocks.map(blockDisplayText).join('\n\n');
+    const pageCount = typeof json.metadata?.pageCount === 'number' ? json.metadata.pageCount : json.pages || 1;
+    return {
+      version: PROCESSED_DOCUMENT_VERSION,
+      metadata: {
+        ...json.metadata,
+        sourceFormat: typeof json.metadata?.sourceFormat === 'string' ? json.metadata.sourceFormat : 'unknown',
+        pageCount,
+        wordCount: typeof json.metadata?.wordCount === 'number' ? json.metadata.wordCount : countWords(text),
+        convertedAt: typeof json.metadata?.convertedAt === 'string' ? json.metadata.convertedAt : '',
+      },
+      blocks,
+      chapters,
+      pages: pageCount,
+      text,
+    };
+  }
+
+  if (typeof json?.version === 'number' && json.version > PROCESSED_DOCUMENT_VERSION) {
+    throw new Error('This document was processed by a newer version of the app. Please update to read it.');
+  }
+
+  if (typeof json?.text === 'string') {
+    return fromLegacyJson(json, sourceFormat);
+  }
+
+  throw new Error('Processed content is missing or has an unknown format.');
+}
@@ -0,0 +1,265 @@
+/**
+ * Read aloud
+ * Speaks a paragraph with expo-speech and reports the word being spoken. Word boundary
+ * events are used where the platform sends them; until one arrives (and for voices that
+ * never send them) the word is estimated from the speaking rate. Pause stops the utterance
+ * and resume speaks again from the current word, which behaves the same everywhere
+ * (Android has no native pause).
+ */
+
+import { Platform } from 'react-native';
+import * as Speech from 'expo-speech';
+
+export type ReadAloudState = 'idle' | 'playing' | 'paused';
+
+export interface SpokenWord {
+  start: number; // character range in the paragraph text
+  end: number;
+}
+
+export interface ReadAloudVoice {
+  id: string;
+  name: string;
+  language: string;
+  enhanced: boolean;
+}
+
+export interface ReadAloudOptions {
+  voice?: string | null; // voice id; null uses the platform default
+  rate: number; // 1 = normal speed
+  language?: string; // used when no voice is chosen
+}
+
+// Speaking rate 1 is roughly this fast on every platform
+export const BASE_WORDS_PER_MINUTE = 170;
+export const MIN_RATE = 0.5;
+export const MAX_RATE = 2;
+export const RATE_STEP = 0.25;
+
+const ESTIMATE_TICK_MS = 60;
+
+export function splitSpokenWords(text: string): SpokenWord[] {
+  const words: SpokenWord[] = [];
+  const re = /\S+/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    words.push({ start: m.index, end: m.index + m[0].length });
+  }
+  return words;
+}
+
+/**
+ * Index of the word at `charIndex` (or the next word when it falls on whitespace)
+ */
+export function findWordAtChar(words: SpokenWord[], charIndex: number): number {
+  let lo = 0;
+  let hi = words.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (words[mid].end <= charIndex) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Milliseconds from the start of speech to each word: the time for all words at `rate`,
+ * shared by word length, with extra time after commas and sentence ends
+ */
+export function estimateWordOffsets(text: string, words: SpokenWord[], rate: number): number[] {
+  const weights = words.map((word) => {
+    const last = text[word.end - 1];
+    const pause = /[.!?。]/.test(last) ? 8 : /[,;:]/.test(last) ? 4 : 0;
+    return word.end - word.start + 3 + pause;
+  });
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+  const totalMs = (words.length / (BASE_WORDS_PER_MINUTE * rate)) * 60000;
+
+  const offsets: number[] = [];
+  let elapsed = 0;
+  for (const weight of weights) {
+    offsets.push(elapsed);
+    elapsed += (weight / totalWeight) * totalMs;
+  }
+  return offsets;
+}
+
+export function clampRate(rate: number): number {
+  return Math.min(MAX_RATE, Math.max(MIN_RATE, Math.round(rate / RATE_STEP) * RATE_STEP));
+}
+
+/**
+ * Installed voices, those matching `language` first (then enhanced ones, then by name)
+ */
+export async function getReadAloudVoices(language?: string): Promise<ReadAloudVoice[]> {
+  let voices = await Speech.getAvailableVoicesAsync().catch(() => []);
+  // Browsers load their voice list after the first request
+  if (voices.length === 0 && Platform.OS === 'web') {
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    voices = await Speech.getAvailableVoicesAsync().catch(() => []);
+  }
+
+  const seen = new Set<string>();
+  const lang = (language || '').toLowerCase().split('-')[0];
+  const matches = (voice: ReadAloudVoice) => Boolean(lang) && voice.language.toLowerCase().startsWith(lang);
+  return voices
+    .filter((voice) => {
+      if (!voice.identifier || seen.has(voice.identifier)) return false;
+      seen.add(voice.identifier);
+      return true;
+    })
+    .map((voice) => ({
+      id: voice.identifier,
+      name: voice.name || voice.identifier,
+      language: voice.language || '',
+      enhanced: voice.quality === Speech.VoiceQuality.Enhanced,
+    }))
+    .sort(
+      (a, b) =>
+        Number(matches(b)) - Number(matches(a)) ||
+        Number(b.enhanced) - Number(a.enhanced) ||
+        a.name.localeCompare(b.name)
+    );
+}
+
+/**
+ * Speaks one text at a time and tracks the spoken word
+ */
+export class ReadAloudPlayer {
+  state: ReadAloudState = 'idle';
+  private text = '';
+  private words: SpokenWord[] = [];
+  private wordIndex = 0;
+  private options: ReadAloudOptions = { rate: 1 };
+  private utterance = 0; // callbacks of earlier utterances are ignored
+  private estimateTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private callbacks: {
+      onWord: (word: SpokenWord | null) => void;
+      onStateChange: (state: ReadAloudState) => void;
+      onDone: () => void; // the whole text was spoken
+      onError?: (error: Error) => void;
+    }
+  ) {}
+
+  get currentText(): string {
+    return this.text;
+  }
+
+  speak(text: string, options: ReadAloudOptions) {
+    this.text = text;
+    this.words = splitSpokenWords(text);
+    this.options = options;
+    this.start(0);
+  }
+
+  pause() {
+    if (this.state !== 'playing') return;
+    this.halt();
+    this.setState('paused');
+  }
+
+  resume() {
+    if (this.state !== 'paused') return;
+    this.start(this.wordIndex);
+  }
+
+  stop() {
+    this.halt();
+    this.wordIndex = 0;
+    this.callbacks.onWord(null);
+    this.setState('idle');
+  }
+
+  /**
+   * New voice or speed; speech in progress continues from the current word
+   */
+  setOptions(options: ReadAloudOptions) {
+    this.options = options;
+    if (this.state === 'playing') this.start(this.wordIndex);
+  }
+
+  private start(fromWord: number) {
+    this.halt();
+    if (fromWord >= this.words.length) {
+      this.finish();
+      return;
+    }
+
+    const id = ++this.utterance;
+    const offset = this.words[fromWord].start;
+    this.setWord(fromWord);
+    this.setState('playing');
+
+    Speech.speak(this.text.slice(offset), {
+      voice: this.options.voice || undefined,
+      language: this.options.voice ? undefined : this.options.language,
+      rate: this.options.rate,
+      onStart: () => {
+        if (id === this.utterance) this.startEstimate(id, fromWord);
+      },
+      onBoundary: ((event: { charIndex?: number; name?: string }) => {
+        if (id !== this.utterance || typeof event?.charIndex !== 'number') return;
+        if (event.name && event.name !== 'word') return; // web also reports sentences
+        this.clearEstimate();
+        this.setWord(findWordAtChar(this.words, offset + event.charIndex));
+      }) as any,
+      onDone: () => {
+        if (id === this.utterance) this.finish();
+      },
+      onError: (error: Error) => {
+        if (id !== this.utterance) return;
+        console.warn('[ReadAloud] Speech failed:', error?.message);
+        this.halt();
+        this.setState('idle');
+        this.callbacks.onError?.(error);
+      },
+    });
+  }
+
+  // Move the highlight on a timer until the platform reports word boundaries
+  private startEstimate(id: number, fromWord: number) {
+    const offsets = estimateWordOffsets(this.text, this.words, this.options.rate);
+    const base = offsets[fromWord];
+    const startedAt = Date.now();
+    this.clearEstimate();
+    this.estimateTimer = setInterval(() => {
+      if (id !== this.utterance) return this.clearEstimate();
+      const elapsed = Date.now() - startedAt + base;
+      let index = this.wordIndex;
+      while (index + 1 < offsets.length && offsets[index + 1] <= elapsed) index++;
+      if (index !== this.wordIndex) this.setWord(index);
+    }, ESTIMATE_TICK_MS);
+  }
+
+  private clearEstimate() {
+    if (this.estimateTimer) clearInterval(this.estimateTimer);
+    this.estimateTimer = null;
+  }
+
+  private halt() {
+    this.utterance++;
+    this.clearEstimate();
+    Speech.stop().catch(() => {});
+  }
+
+  private finish() {
+    this.clearEstimate();
+    this.wordIndex = 0;
+    this.callbacks.onWord(null);
+    this.setState('idle');
+    this.callbacks.onDone();
+  }
+
+  private setWord(index: number) {
+    this.wordIndex = index;
+    this.callbacks.onWord(this.words[index] || null);
+  }
+
+  private setState(state: ReadAloudState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.callbacks.onStateChange(state);
+  }
+}
@@ -0,0 +1,380 @@
+/**
+ * Readability extraction
+ * Finds the main article of a web page the way browser reader modes do: containers are scored
+ * by the paragraphs they hold (length, commas), penalised for link-heavy text and for class/id
+ * names of menus, ads, comments and share widgets. Pure string processing (no DOM), so it runs
+ * on every platform and against saved HTML files offline.
+ */
+
+import { cleanMetadataAuthor, cleanMetadataTitle, normalizeLanguageTag } from './documentMetadata';
+import { decodeEntities, xhtmlToBlocks } from './epubConverter';
+import { DROPPED_TAGS, getAttribute, isHidden, metaContent } from './htmlConverter';
+import type { BlockInput } from './processedDocument';
+
+export interface ReadableArticle {
+  blocks: BlockInput[];
+  title?: string;
+  byline?: string; // author as printed on the page
+  siteName?: string;
+  excerpt?: string; // meta description
+  language?: string;
+}
+
+interface HtmlElement {
+  tag: string;
+  attrs: string;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+// Text nodes keep their raw (entity-encoded) HTML
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = ['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr'];
+
+// Opening one of these closes an open <p> (HTML's implied end tags)
+const BLOCK_TAGS = [
+  'address', 'article', 'aside', 'blockquote', 'div', 'dl', 'figure', 'footer', 'form', 'h1', 'h2', 'h3',
+  'h4', 'h5', 'h6', 'header', 'hr', 'main', 'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul',
+];
+
+// Page chrome that is never part of the article
+const CHROME_TAGS = ['nav', 'aside', 'footer', 'form', 'button', 'menu', 'dialog', 'input', 'textarea'];
+
+// class/id names of page furniture, unless they also look like content ("article-comments" stays out,
+// "main-column" stays in)
+const UNLIKELY_RE =
+  /ad-|ads|advert|banner|breadcrumb|combx|comment|community|cookie|disqus|extra|footer|gdpr|header|legends|menu|modal|newsletter|outbrain|pager|pagination|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skip|social|sponsor|subscribe|taboola|tool|widget/i;
+const MAYBE_CANDIDATE_RE = /and|article|body|column|content|main|shadow|story|text|entry|post/i;
+const POSITIVE_RE = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story/i;
+const NEGATIVE_RE =
+  /-ad-|hidden|^hid$| hid$| hid |^hid |banner|combx|comment|com-|contact|footer|gdpr|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|tags|widget/i;
+const BYLINE_RE = /byline|author|writtenby|p-author/i;
+
+// Paragraphs shorter than this do not vote for their container
+const MIN_PARAGRAPH_CHARS = 25;
+
+/**
+ * Build an element tree. Forgiving like a browser: unknown end tags are ignored and
+ * unclosed elements end with their parent.
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: '#root', attrs: '', children: [], parent: null };
+  let current = root;
+  const lower = html.toLowerCase();
+  const tokenRe = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][a-zA-Z0-9:-]*)((?:"[^"]*"|'[^']*'|[^>"'])*)>|[^<]+|</g;
+  let m: RegExpExecArray | null;
+
+  const closeTo = (tag: string) => {
+    for (let el: HtmlElement | null = current; el && el !== root; el = el.parent) {
+      if (el.tag === tag) {
+        current = el.parent || root;
+        return;
+      }
+    }
+  };
+
+  while ((m = tokenRe.exec(html)) !== null) {
+    const token = m[0];
+    if (!m[2]) {
+      // Text (comments, doctypes and processing instructions are dropped)
+      if (!token.startsWith('<!') && !token.startsWith('<?')) current.children.push(token);
+      continue;
+    }
+
+    const tag = m[2].toLowerCase();
+    if (m[1] === '/') {
+      closeTo(tag);
+      continue;
+    }
+
+    if (current.tag === 'p' && BLOCK_TAGS.includes(tag)) closeTo('p');
+    if (['li', 'dt', 'dd', 'tr', 'td', 'th', 'option'].includes(tag) && current.tag === tag) closeTo(tag);
+
+    const el: HtmlElement = { tag, attrs: m[3], children: [], parent: current };
+    current.children.push(el);
+
+    // Raw text elements: their content is not markup
+    if (tag === 'script' || tag === 'style' || tag === 'textarea' || tag === 'title') {
+      const end = lower.indexOf(`</${tag}`, tokenRe.lastIndex);
+      const stop = end < 0 ? html.length : end;
+      el.children.push(html.slice(tokenRe.lastIndex, stop));
+      const close = html.indexOf('>', stop);
+      tokenRe.lastIndex = end < 0 || close < 0 ? html.length : close + 1;
+      continue;
+    }
+    if (!VOID_TAGS.includes(tag) && !/\/\s*$/.test(m[3])) current = el;
+  }
+  return root;
+}
+
+function isElement(node: HtmlNode): node is HtmlElement {
+  return typeof node !== 'string';
+}
+
+function elements(root: HtmlElement, match: (el: HtmlElement) => boolean): HtmlElement[] {
+  const out: HtmlElement[] = [];
+  const walk = (el: HtmlElement) => {
+    for (const child of el.children) {
+      if (!isElement(child)) continue;
+      if (match(child)) out.push(child);
+      walk(child);
+    }
+  };
+  walk(root);
+  return out;
+}
+
+function removeNode(el: HtmlElement) {
+  if (!el.parent) return;
+  el.parent.children = el.parent.children.filter((child) => child !== el);
+  el.parent = null;
+}
+
+function textOf(node: HtmlNode): string {
+  if (!isElement(node)) return decodeEntities(node);
+  if (node.tag === 'script' || node.tag === 'style') return '';
+  return node.children.map(textOf).join('');
+}
+
+function innerText(el: HtmlElement): string {
+  return textOf(el).replace(/\s+/g, ' ').trim();
+}
+
+function serialize(node: HtmlNode): string {
+  if (!isElement(node)) return node;
+  if (VOID_TAGS.includes(node.tag)) return `<${node.tag}${node.attrs}>`;
+  return `<${node.tag}${node.attrs}>${node.children.map(serialize).join('')}</${node.tag}>`;
+}
+
+function classAndId(el: HtmlElement): string {
+  return `${getAttribute(el.attrs, 'class') || ''} ${getAttribute(el.attrs, 'id') || ''}`.trim();
+}
+
+function classWeight(el: HtmlElement): number {
+  const names = classAndId(el);
+  if (!names) return 0;
+  let weight = 0;
+  if (NEGATIVE_RE.test(names)) weight -= 25;
+  if (POSITIVE_RE.test(names)) weight += 25;
+  return weight;
+}
+
+/**
+ * Share of an element's text that sits inside links (0-1)
+ */
+function linkDensity(el: HtmlElement): number {
+  const length = innerText(el).length;
+  if (length === 0) return 0;
+  const linked = elements(el, (child) => child.tag === 'a').reduce((sum, a) => sum + innerText(a).length, 0);
+  return linked / length;
+}
+
+function initialScore(el: HtmlElement): number {
+  let score = classWeight(el);
+  if (el.tag === 'div' || el.tag === 'article') score += 5;
+  else if (['pre', 'td', 'blockquote'].includes(el.tag)) score += 3;
+  else if (['address', 'ol', 'ul', 'dl', 'dd', 'dt', 'li', 'form'].includes(el.tag)) score -= 3;
+  else if (/^h[1-6]$/.test(el.tag) || el.tag === 'th') score -= 5;
+  return score;
+}
+
+function hasBlockChildren(el: HtmlElement): boolean {
+  return elements(el, (child) => BLOCK_TAGS.includes(child.tag)).length > 0;
+}
+
+/**
+ * Drop scripts, hidden elements, page chrome and containers whose class/id marks them as
+ * furniture (ads, comments, share bars, related links)
+ */
+function stripUnlikely(root: HtmlElement) {
+  for (const el of elements(root, (e) => DROPPED_TAGS.includes(e.tag) || CHROME_TAGS.includes(e.tag) || isHidden(e.attrs))) {
+    removeNode(el);
+  }
+  for (const el of elements(root, (e) => !['body', 'html', 'article', 'main', 'a'].includes(e.tag))) {
+    const names = classAndId(el);
+    const role = getAttribute(el.attrs, 'role') || '';
+    if (
+      (names && UNLIKELY_RE.test(names) && !MAYBE_CANDIDATE_RE.test(names)) ||
+      ['complementary', 'navigation', 'banner', 'contentinfo', 'dialog', 'alertdialog', 'menu'].includes(role)
+    ) {
+      removeNode(el);
+    }
+  }
+}
+
+/**
+ * Score containers by the paragraphs inside them and return the best one
+ */
+function findTopCandidate(body: HtmlElement): { el: HtmlElement; scores: Map<HtmlElement, number> } | null {
+  const scores = new Map<HtmlElement, number>();
+  const paragraphs = elements(
+    body,
+    (el) => el.tag === 'p' || el.tag === 'pre' || el.tag === 'td' || (el.tag === 'div' && !hasBlockChildren(el))
+  );
+
+  for (const paragraph of paragraphs) {
+    const text = innerText(paragraph);
+    if (text.length < MIN_PARAGRAPH_CHARS) continue;
+    const score = 1 + (text.match(/[,，、]/g) || []).length + Math.min(3, Math.floor(text.length / 100));
+
+    // Parent gets the full score, grandparent half, further ancestors less
+    let ancestor = paragraph.parent;
+    for (let level = 0; ancestor && ancestor !== body.parent && level < 5; level++) {
+      if (!scores.has(ancestor)) scores.set(ancestor, initialScore(ancestor));
+      const divider = level === 0 ? 1 : level === 1 ? 2 : level * 3;
+      scores.set(ancestor, scores.get(ancestor)! + score / divider);
+      ancestor = ancestor.parent;
+    }
+  }
+
+  let best: HtmlElement | null = null;
+  let bestScore = -Infinity;
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity(el));
+    scores.set(el, adjusted);
+    if (adjusted > bestScore) {
+      best = el;
+      bestScore = adjusted;
+    }
+  }
+  return best ? { el: best, scores } : null;
+}
+
+/**
+ * The top candidate plus siblings that belong to the same article (content split across
+ * several containers, or an intro paragraph next to the body)
+ */
+function collectArticle(top: HtmlElement, scores: Map<HtmlElement, number>): HtmlNode[] {
+  const parent = top.parent;
+  if (!parent) return [top];
+  const threshold = Math.max(10, (scores.get(top) || 0) * 0.2);
+  const topNames = getAttribute(top.attrs, 'class');
+
+  return parent.children.filter((sibling) => {
+    if (sibling === top) return true;
+    if (!isElement(sibling)) return false;
+    let bonus = 0;
+    if (topNames && getAttribute(sibling.attrs, 'class') === topNames) bonus += (scores.get(top) || 0) * 0.2;
+    if ((scores.get(sibling) || 0) + bonus >= threshold) return true;
+    if (sibling.tag === 'p') {
+      const text = innerText(sibling);
+      const density = linkDensity(sibling);
+      return (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text));
+    }
+    return false;
+  });
+}
+
+/**
+ * Remove link lists and widgets left inside the article ("Related stories", tag clouds)
+ */
+function cleanArticle(nodes: HtmlNode[]) {
+  const wrapper: HtmlElement = { tag: '#root', attrs: '', children: nodes, parent: null };
+  nodes.forEach((node) => isElement(node) && (node.parent = wrapper));
+  const containers = elements(wrapper, (el) => ['div', 'section', 'ul', 'ol', 'table', 'figure'].includes(el.tag));
+  // Innermost first, so a clean container is not judged by a link list it holds
+  for (const el of containers.reverse()) {
+    if (!el.parent) continue;
+    const text = innerText(el);
+    const links = elements(el, (child) => child.tag === 'a').length;
+    const weight = classWeight(el);
+    const paragraphs = elements(el, (child) => child.tag === 'p').length;
+    if (
+      weight < 0 ||
+      (links > 0 && linkDensity(el) > (weight >= 25 ? 0.5 : 0.3) && paragraphs < 2) ||
+      (text.length < MIN_PARAGRAPH_CHARS && elements(el, (child) => /^h[1-6]$|^img$/.test(child.tag)).length === 0)
+    ) {
+      removeNode(el);
+    }
+  }
+  return wrapper.children;
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/\W+/g, ' ').trim();
+}
+
+/**
+ * "Article title | Site" / "Article title - Site" -> "Article title". The page's own headline
+ * (its <h1>) is the surest guide; otherwise the og:site_name, then the longest part.
+ */
+function stripSiteName(title: string, siteName?: string, headlines: string[] = []): string {
+  const normalized = normalizeText(title);
+  const headline = headlines.find((text) => {
+    const h = normalizeText(text);
+    return h.length > 0 && (normalized === h || (normalized.startsWith(h) && /^\s*[|\-–—:·»]/.test(title.slice(text.length))));
+  });
+  if (headline) return headline;
+  if (siteName) {
+    const escaped = siteName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const stripped = title.replace(new RegExp(`\\s*[|\\-–—:·»]\\s*${escaped}\\s*$`, 'i'), '');
+    if (stripped !== title) return stripped;
+  }
+  const parts = title.split(/\s+[|\-–—·»]\s+/);
+  // Keep the longest part when it reads like a headline (several words)
+  if (parts.length > 1) {
+    const longest = parts.reduce((a, b) => (b.length > a.length ? b : a));
+    if (longest.split(/\s+/).length >= 3) return longest;
+  }
+  return title;
+}
+
+function findByline(root: HtmlElement): { el: HtmlElement; text: string } | undefined {
+  for (const el of elements(root, (e) => getAttribute(e.attrs, 'rel') === 'author' || getAttribute(e.attrs, 'itemprop') === 'author' || BYLINE_RE.test(classAndId(e)))) {
+    const text = innerText(el).replace(/^by\s+/i, '');
+    if (text && text.length < 100) return { el, text };
+  }
+  return undefined;
+}
+
+/**
+ * Extract the readable article of a web page: blocks (the title at the top when the article
+ * body does not already show it, then the byline, which is taken out of the body) plus page
+ * metadata
+ */
+export function extractArticle(html: string): ReadableArticle {
+  const root = parseHtml(html);
+  const head = html.match(/<head[^>]*>([\s\S]*?)<\/head>/i)?.[1] || html.slice(0, 20000);
+  const htmlTag = elements(root, (el) => el.tag === 'html')[0];
+  const body = elements(root, (el) => el.tag === 'body')[0] || root;
+
+  const siteName = metaContent(head, 'og:site_name')?.trim() || undefined;
+  const titleTag = elements(root, (el) => el.tag === 'title')[0];
+  const headlines = elements(body, (el) => el.tag === 'h1').map(innerText);
+  const metaTitle = metaContent(head, 'og:title') || metaContent(head, 'twitter:title');
+  const pageTitle = metaTitle
+    ? stripSiteName(metaTitle, undefined, headlines)
+    : titleTag
+      ? stripSiteName(innerText(titleTag), siteName, headlines)
+      : null;
+  const metaAuthor = metaContent(head, 'author') || metaContent(head, 'article:author');
+  // The byline is read before clean-up removes author boxes; it goes back in above the article
+  const bylineNode = findByline(body);
+  if (bylineNode) removeNode(bylineNode.el);
+  const byline = cleanMetadataAuthor(metaAuthor && !/^https?:/.test(metaAuthor) ? metaAuthor : bylineNode?.text);
+
+  stripUnlikely(body);
+  const top = findTopCandidate(body);
+  const articleNodes = cleanArticle(top ? collectArticle(top.el, top.scores) : body.children);
+  const blocks = xhtmlToBlocks(articleNodes.map(serialize).join(''));
+
+  const title = cleanMetadataTitle(pageTitle || blocks.find((b) => b.type === 'heading')?.text);
+  const leading = blocks.slice(0, 5).map((b) => normalizeText(b.text));
+  const titleIndex = title ? leading.indexOf(normalizeText(title)) : -1;
+  if (byline && !leading.some((text) => text.includes(normalizeText(byline)))) {
+    blocks.splice(titleIndex + 1, 0, { type: 'paragraph', text: `By ${byline}` });
+  }
+  if (title && titleIndex < 0) {
+    blocks.unshift({ type: 'heading', level: 1, text: title });
+  }
+
+  return {
+    blocks,
+    title,
+    byline,
+    siteName,
+    excerpt: (metaContent(head, 'description') || metaContent(head, 'og:description'))?.trim() || undefined,
+    language: normalizeLanguageTag(htmlTag ? getAttribute(htmlTag.attrs, 'lang') : null),
+  };
+}
@@ -0,0 +1,182 @@
+/**
+ * Reader typography
+ * Font, size, spacing, margins, alignment and color theme of the reading view. Saved per user
+ * with the other reader settings; line estimates (eye tracking, pacer) use the same values.
+ */
+
+import { Platform } from 'react-native';
+
+export type ReaderFontFamily = 'georgia' | 'merriweather' | 'lora' | 'sans' | 'lexend';
+export type ReaderTextAlign = 'left' | 'justify';
+export type ReaderTheme = 'default' | 'sepia' | 'high-contrast'; // default follows the app's light/dark theme
+
+export interface ReaderTypography {
+  fontFamily: ReaderFontFamily;
+  fontSize: number; // px
+  lineHeight: number; // multiple of the font size
+  letterSpacing: number; // px
+  wordSpacing: number; // px added between words
+  margin: number; // px inside the paragraph card, left and right
+  textAlign: ReaderTextAlign;
+  theme: ReaderTheme;
+}
+
+export type TypographyNumber = 'fontSize' | 'lineHeight' | 'letterSpacing' | 'wordSpacing' | 'margin';
+
+export const DEFAULT_TYPOGRAPHY: ReaderTypography = {
+  fontFamily: 'georgia',
+  fontSize: 20,
+  lineHeight: 1.8,
+  letterSpacing: 0.4,
+  wordSpacing: 0,
+  margin: 24,
+  textAlign: 'left',
+  theme: 'default',
+};
+
+export const TYPOGRAPHY_LIMITS: Record<TypographyNumber, { min: number; max: number; step: number }> = {
+  fontSize: { min: 12, max: 40, step: 1 },
+  lineHeight: { min: 1.2, max: 2.6, step: 0.1 },
+  letterSpacing: { min: 0, max: 4, step: 0.2 },
+  wordSpacing: { min: 0, max: 16, step: 2 },
+  margin: { min: 8, max: 64, step: 4 },
+};
+
+// Merriweather, Lora and Lexend are loaded from Google Fonts on web and bundled with
+// @expo-google-fonts on native (see app/_layout.tsx), where the family is the loaded font's name
+export const READER_FONTS: { id: ReaderFontFamily; label: string; family: string | undefined }[] = [
+  {
+    id: 'georgia',
+    label: 'Georgia',
+    family: Platform.select({ ios: 'Georgia', android: 'serif', web: "Georgia, 'Times New Roman', serif", default: 'serif' }),
+  },
+  {
+    id: 'merriweather',
+    label: 'Merriweather',
+    family: Platform.select({ native: 'Merriweather_400Regular', web: "'Merriweather', Georgia, serif", default: 'serif' }),
+  },
+  {
+    id: 'lora',
+    label: 'Lora',
+    family: Platform.select({ native: 'Lora_400Regular', web: "'Lora', Georgia, serif", default: 'serif' }),
+  },
+  {
+    id: 'sans',
+    label: 'Sans-serif',
+    family: Platform.select({ ios: 'System', android: 'sans-serif', web: 'system-ui, sans-serif', default: undefined }),
+  },
+  {
+    id: 'lexend',
+    label: 'Lexend (dyslexia-friendly)',
+    family: Platform.select({ native: 'Lexend_400Regular', web: "'Lexend', Verdana, sans-serif", default: undefined }),
+  },
+];
+
+export interface ReaderThemeColors {
+  background: string;
+  card: string; // paragraph card
+  currentCard: string;
+  currentBorder: string;
+  text: string;
+  mutedText: string; // locked paragraphs, word counts
+}
+
+// The default theme keeps the reader's own light and dark styles
+export const READER_THEME_COLORS: Record<Exclude<ReaderTheme, 'default'>, ReaderThemeColors> = {
+  sepia: {
+    background: '#EFE6D2',
+    card: '#F4ECD8',
+    currentCard: '#FAF4E6',
+    currentBorder: '#A0522D',
+    text: '#5B4636',
+    mutedText: '#9C8A78',
+  },
+  'high-contrast': {
+    background: '#000000',
+    card: '#000000',
+    currentCard: '#000000',
+    currentBorder: '#FFFF00',
+    text: '#FFFFFF',
+    mutedText: '#D4D4D4',
+  },
+};
+
+export function getReaderThemeColors(theme: ReaderTheme): ReaderThemeColors | null {
+  return theme === 'default' ? null : READER_THEME_COLORS[theme];
+}
+
+export function getFontFamily(id: ReaderFontFamily): string | undefined {
+  return (READER_FONTS.find((font) => font.id === id) ?? READER_FONTS[0]).family;
+}
+
+function clampNumber(key: TypographyNumber, value: unknown): number {
+  const { min, max, step } = TYPOGRAPHY_LIMITS[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) return DEFAULT_TYPOGRAPHY[key];
+  const stepped = Math.round(value / step) * step;
+  return Number(Math.min(max, Math.max(min, stepped)).toFixed(2));
+}
+
+/**
+ * Saved settings with anything missing or out of range replaced by the defaults
+ */
+export function normalizeTypography(saved?: Partial<ReaderTypography> | null): ReaderTypography {
+  return {
+    fontFamily: READER_FONTS.some((font) => font.id === saved?.fontFamily)
+      ? (saved!.fontFamily as ReaderFontFamily)
+      : DEFAULT_TYPOGRAPHY.fontFamily,
+    fontSize: clampNumber('fontSize', saved?.fontSize),
+    lineHeight: clampNumber('lineHeight', saved?.lineHeight),
+    letterSpacing: clampNumber('letterSpacing', saved?.letterSpacing),
+    wordSpacing: clampNumber('wordSpacing', saved?.wordSpacing),
+    margin: clampNumber('margin', saved?.margin),
+    textAlign: saved?.textAlign === 'justify' ? 'justify' : 'left',
+    theme: saved?.theme === 'sepia' || saved?.theme === 'high-contrast' ? saved.theme : 'default',
+  };
+}
+
+/**
+ * One step up (+1) or down (-1) of a numeric setting
+ */
+export function stepTypography(typography: ReaderTypography, key: TypographyNumber, direction: 1 | -1): ReaderTypography {
+  return { ...typography, [key]: clampNumber(key, typography[key] + direction * TYPOGRAPHY_LIMITS[key].step) };
+}
+
+export function getLineHeightPx(typography: ReaderTypography): number {
+  return Math.round(typography.fontSize * typography.lineHeight);
+}
+
+/**
+ * How much text fits in a reading card of `area` (its size inside the card's own padding, before
+ * the side margins) with these settings. Characters are estimated at 0.6em plus the letter
+ * spacing, as TextLineMapper does, and an average word at five characters and a space.
+ */
+export function getScreenTextCapacity(
+  typography: ReaderTypography,
+  area: { width: number; height: number }
+): { containerWidth: number; linesPerScreen: number; charsPerLine: number; wordsPerScreen: number } {
+  const containerWidth = Math.max(1, area.width - typography.margin * 2);
+  const charWidth = typography.fontSize * 0.6 + typography.letterSpacing;
+  const linesPerScreen = Math.max(1, Math.floor(area.height / getLineHeightPx(typography)));
+  const charsPerLine = Math.max(1, Math.floor(containerWidth / charWidth));
+  const wordsPerLine = Math.max(1, Math.floor(containerWidth / (charWidth * 6 + typography.wordSpacing)));
+  return { containerWidth, linesPerScreen, charsPerLine, wordsPerScreen: linesPerScreen * wordsPerLine };
+}
+
+/**
+ * Whether a settings change moves text onto other lines (and so changes the reading chunks)
+ */
+export function changesTextLayout(a: ReaderTypography, b: ReaderTypography): boolean {
+  return (['fontSize', 'lineHeight', 'letterSpacing', 'wordSpacing', 'margin'] as const).some((key) => a[key] !== b[key]);
+}
+
+// A narrow no-break space is about a fifth of the font size wide
+const NARROW_SPACE = '\u202F';
+
+/**
+ * Text with extra space between words. React Native has no word-spacing style, so narrow
+ * no-break spaces are added before each space (they stay at the end of a line when it wraps).
+ */
+export function applyWordSpacing(text: string, typography: ReaderTypography): string {
+  const count = Math.round(typography.wordSpacing / (typography.fontSize * 0.2));
+  return count > 0 ? text.replace(/ /g, `${NARROW_SPACE.repeat(count)} `) : text;
+}
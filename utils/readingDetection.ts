@@ -1,5 +1,3 @@
-import { Dimensions } from 'react-native';
-
 export interface LineReadingState {
   lineIndex: number;
   startTime: number;
@@ -15,25 +13,27 @@ export interface ReadingDetectionConfig {
 }
 
 /**
- * Split text into lines based on container width and font size
+ * Split text into lines based on container width, font size and spacing
  */
 export const splitTextIntoLines = (
   text: string,
   containerWidth: number,
-  fontSize: number
+  fontSize: number,
+  options: { padding?: number; letterSpacing?: number; wordSpacing?: number } = {}
 ): string[] => {
   const words = text.split(/\s+/).filter(w => w.length > 0);
   const lines: string[] = [];
   let currentLine = '';
 
   // Estimate average character width (rough approximation)
-  const avgCharWidth = fontSize * 0.6;
-  const padding = 48; // Left + right padding
+  const avgCharWidth = fontSize * 0.6 + (options.letterSpacing ?? 0);
+  const padding = options.padding ?? 48; // Left + right padding
   const availableWidth = containerWidth - padding;
 
   words.forEach((word) => {
     const testLine = currentLine ? `${currentLine} ${word}` : word;
-    const estimatedWidth = testLine.length * avgCharWidth;
+    const spaces = testLine.split(' ').length - 1;
+    const estimatedWidth = testLine.length * avgCharWidth + spaces * (options.wordSpacing ?? 0);
 
     if (estimatedWidth <= availableWidth && currentLine) {
       currentLine = testLine;
@@ -57,11 +57,12 @@ export const splitTextIntoLines = (
  */
 export const calculateLineReadingTime = (
   line: string,
-  wordsPerMinute: number = 200
+  wordsPerMinute: number = 200,
+  minimumMs: number = 2000 // Minimum 2 seconds per line by default
 ): number => {
   const wordCount = line.split(/\s+/).filter(w => w.length > 0).length;
   const readingTimeSeconds = (wordCount / wordsPerMinute) * 60;
-  return Math.max(readingTimeSeconds * 1000, 2000); // Minimum 2 seconds per line
+  return Math.max(readingTimeSeconds * 1000, minimumMs);
 };
 
 /**
@@ -0,0 +1,216 @@
+/**
+ * No Skipping policy
+ * Set by a parent for the whole profile or for one document: `free` lets the reader move on at
+ * any time, `sequential` keeps the next paragraph locked until the current one is complete and
+ * `dwell` keeps it locked until the reader has spent a minimum time on it, based on its word
+ * count. Unlocking early needs the parent PIN. The PIN is stored only as a salted PBKDF2 hash
+ * (older PINs as salted SHA-256, upgraded on their next use), and wrong PINs lock the prompt
+ * for a growing time, so the hash the profile can read is slow to guess and the prompt is too.
+ * Wrong PINs are counted on the policy document (where the parent sees them) as well as on the
+ * device, so neither clearing app data nor going offline resets the lock.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { getReadingPolicy, savePinAttempts, saveReadingPolicy } from '@/utils/firestoreReadingPolicy';
+import { pbkdf2Sha256 } from '@/utils/pbkdf2';
+
+export type SkipPolicyMode = 'free' | 'sequential' | 'dwell';
+
+export const SKIP_POLICY_MODES: { id: SkipPolicyMode; label: string; description: string }[] = [
+  { id: 'free', label: 'Free', description: 'Move on at any time' },
+  { id: 'sequential', label: 'Sequential', description: 'Next paragraph unlocks when the current one is complete' },
+  { id: 'dwell', label: 'Minimum time', description: 'Next paragraph unlocks after enough time for its words' },
+];
+
+export const DEFAULT_DWELL_WPM = 250;
+export const MIN_DWELL_WPM = 100;
+export const MAX_DWELL_WPM = 500;
+export const DWELL_WPM_STEP = 25;
+
+const MIN_DWELL_MS = 3000; // short paragraphs and headings
+const PIN_PATTERN = /^\d{4,8}$/; // PINs set before NEW_PIN_PATTERN still unlock
+const NEW_PIN_PATTERN = /^\d{6,8}$/;
+
+export const PIN_KDF = 'pbkdf2-sha256';
+const PIN_KDF_ITERATIONS = 20000;
+
+// Wrong PINs allowed before the prompt locks; each further one doubles the lock
+const FREE_PIN_ATTEMPTS = 5;
+const PIN_LOCK_BASE_MS = 30 * 1000;
+const PIN_LOCK_MAX_MS = 60 * 60 * 1000;
+const PIN_ATTEMPTS_KEY = 'parent_pin_attempts';
+
+export function isSkipPolicyMode(value: unknown): value is SkipPolicyMode {
+  return value === 'free' || value === 'sequential' || value === 'dwell';
+}
+
+export function clampDwellWpm(wpm: number): number {
+  return Math.min(MAX_DWELL_WPM, Math.max(MIN_DWELL_WPM, Math.round(wpm / DWELL_WPM_STEP) * DWELL_WPM_STEP));
+}
+
+/**
+ * Mode for a document: its own setting when it has one, otherwise the profile's
+ */
+export function resolveSkipPolicy(
+  profileMode: SkipPolicyMode | null | undefined,
+  documentMode: SkipPolicyMode | null | undefined
+): SkipPolicyMode {
+  if (isSkipPolicyMode(documentMode)) return documentMode;
+  return isSkipPolicyMode(profileMode) ? profileMode : 'free';
+}
+
+/**
+ * Time a paragraph must stay on screen in `dwell` mode
+ */
+export function getMinDwellMs(wordCount: number, wpm: number = DEFAULT_DWELL_WPM): number {
+  return Math.max(MIN_DWELL_MS, Math.round((wordCount / clampDwellWpm(wpm)) * 60000));
+}
+
+export function isValidPin(pin: string): boolean {
+  return PIN_PATTERN.test(pin);
+}
+
+export function isValidNewPin(pin: string): boolean {
+  return NEW_PIN_PATTERN.test(pin);
+}
+
+export function createPinSalt(): string {
+  return Crypto.randomUUID();
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Fields to save on the reading policy for a new PIN
+ */
+export async function hashParentPin(
+  pin: string,
+  salt: string = createPinSalt()
+): Promise<{ pinHash: string; pinSalt: string; pinKdf: typeof PIN_KDF; pinIterations: number }> {
+  const encoder = new TextEncoder();
+  const key = await pbkdf2Sha256(encoder.encode(pin), encoder.encode(salt), PIN_KDF_ITERATIONS);
+  return { pinHash: toHex(key), pinSalt: salt, pinKdf: PIN_KDF, pinIterations: PIN_KDF_ITERATIONS };
+}
+
+type StoredPin = {
+  pinHash?: string | null;
+  pinSalt?: string | null;
+  pinKdf?: string | null;
+  pinIterations?: number | null;
+  pinFailures?: number | null;
+  pinLockedUntil?: number | null;
+};
+
+async function matchesStoredPin(pin: string, stored: StoredPin): Promise<boolean> {
+  if (stored.pinKdf === PIN_KDF) {
+    const encoder = new TextEncoder();
+    const iterations = stored.pinIterations || PIN_KDF_ITERATIONS;
+    const key = await pbkdf2Sha256(encoder.encode(pin), encoder.encode(stored.pinSalt!), iterations);
+    return toHex(key) === stored.pinHash;
+  }
+  // Legacy: one round of SHA-256
+  return (await Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `${stored.pinSalt}:${pin}`)) === stored.pinHash;
+}
+
+type PinAttempts = { failures: number; lockedUntil: number };
+
+function pinAttemptsKey(uid: string): string {
+  return `${PIN_ATTEMPTS_KEY}_${uid}`;
+}
+
+function toPinAttempts(value: any): PinAttempts {
+  return {
+    failures: typeof value?.failures === 'number' ? value.failures : 0,
+    lockedUntil: typeof value?.lockedUntil === 'number' ? value.lockedUntil : 0,
+  };
+}
+
+async function readLocalPinAttempts(uid: string): Promise<PinAttempts> {
+  try {
+    return toPinAttempts(JSON.parse((await AsyncStorage.getItem(pinAttemptsKey(uid))) || 'null'));
+  } catch {
+    return { failures: 0, lockedUntil: 0 };
+  }
+}
+
+/**
+ * Attempts from the policy document and the device, whichever counts more. The stored policy
+ * passed in stands in for the document when Firestore cannot be reached.
+ */
+async function readPinAttempts(uid: string, stored: StoredPin): Promise<PinAttempts> {
+  let policy: StoredPin | null = stored;
+  try {
+    policy = await getReadingPolicy(uid);
+  } catch (error: any) {
+    console.warn('[ReadingPolicy] Could not read PIN attempts:', error?.message);
+  }
+  const remote = toPinAttempts({ failures: policy?.pinFailures, lockedUntil: policy?.pinLockedUntil });
+  const local = await readLocalPinAttempts(uid);
+  return {
+    failures: Math.max(remote.failures, local.failures),
+    lockedUntil: Math.max(remote.lockedUntil, local.lockedUntil),
+  };
+}
+
+async function writePinAttempts(uid: string, attempts: PinAttempts, failed: boolean): Promise<void> {
+  try {
+    await AsyncStorage.setItem(pinAttemptsKey(uid), JSON.stringify(attempts));
+  } catch (error: any) {
+    console.warn('[ReadingPolicy] Could not save PIN attempts:', error?.message);
+  }
+  try {
+    await savePinAttempts(uid, attempts, failed);
+  } catch (error: any) {
+    console.warn('[ReadingPolicy] Could not save PIN attempts to the policy:', error?.message);
+  }
+}
+
+/**
+ * Lock time after `failures` wrong PINs in a row (0 while attempts are still free)
+ */
+export function getPinLockMs(failures: number): number {
+  if (failures < FREE_PIN_ATTEMPTS) return 0;
+  return Math.min(PIN_LOCK_MAX_MS, PIN_LOCK_BASE_MS * Math.pow(2, failures - FREE_PIN_ATTEMPTS));
+}
+
+function formatLock(ms: number): string {
+  const minutes = Math.ceil(ms / 60000);
+  return ms < 60000 ? `${Math.ceil(ms / 1000)} seconds` : `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+/**
+ * Check the parent PIN for this profile. Returns the error to show, or null when it is right.
+ * Wrong PINs are counted and lock the prompt; a right one resets the count and upgrades a
+ * legacy hash.
+ */
+export async function checkParentPin(uid: string, pin: string, stored: StoredPin | null): Promise<string | null> {
+  if (!stored?.pinHash || !stored.pinSalt) return 'No parent PIN is set.';
+
+  const attempts = await readPinAttempts(uid, stored);
+  const now = Date.now();
+  if (attempts.lockedUntil > now) {
+    return `Too many wrong PINs. Try again in ${formatLock(attempts.lockedUntil - now)}.`;
+  }
+
+  if (!isValidPin(pin) || !(await matchesStoredPin(pin, stored))) {
+    const failures = attempts.failures + 1;
+    const lockMs = getPinLockMs(failures);
+    await writePinAttempts(uid, { failures, lockedUntil: lockMs > 0 ? Date.now() + lockMs : 0 }, true);
+    return lockMs > 0
+      ? `That PIN is not right. Try again in ${formatLock(lockMs)}.`
+      : 'That PIN is not right.';
+  }
+
+  if (attempts.failures > 0) await writePinAttempts(uid, { failures: 0, lockedUntil: 0 }, false);
+  if (stored.pinKdf !== PIN_KDF) {
+    saveReadingPolicy(uid, await hashParentPin(pin)).catch((error) =>
+      console.warn('[ReadingPolicy] Could not upgrade the PIN hash:', error?.message)
+    );
+  }
+  return null;
+}
@@ -8,6 +8,7 @@ export interface ReadingSession {
   totalParagraphs: number;
   completedParagraphs: number;
   totalWords: number;
+  wordsListened?: number; // heard with read-aloud (not in totalWords)
   readingTime: number;
   completionPercentage: number;
   date: Date;
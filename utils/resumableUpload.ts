@@ -0,0 +1,492 @@
+/**
+ * Resumable uploads to Firebase Storage
+ * Files are sent in chunks and a dropped connection continues from the last byte the server
+ * has. The file is read as a Blob (on native a handle to the file, not its bytes in JS memory).
+ * On native, user file uploads are saved to AsyncStorage with a staged copy of the file, the
+ * URL of their upload session and the bytes the server has confirmed; `resumePendingUploads`
+ * picks them up after an app restart and continues from that offset (from the first byte only
+ * when the session has expired). Uploads that are not saved (web, processed JSON) use the SDK's
+ * `uploadBytesResumable`, whose session ends with the app.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+import { ref as storageRef, uploadBytesResumable, type UploadTask as StorageUploadTask } from 'firebase/storage';
+import { getFirebaseEmulatorHost } from '@/utils/backendConfig';
+import { ConversionCancelledError } from '@/utils/conversionControl';
+import { auth, storage } from '@/utils/firebaseConfig';
+import {
+  cancelUploadSession,
+  queryUploadSession,
+  startUploadSession,
+  UPLOAD_CHUNK_BYTES,
+  uploadSessionChunk,
+  UploadSessionError,
+  type UploadSessionTarget,
+} from '@/utils/storageUploadSession';
+
+export type UploadStatus = 'uploading' | 'paused' | 'completed' | 'error' | 'cancelled';
+
+export interface UploadProgress {
+  id: string;
+  name: string;
+  storagePath: string;
+  bytesUploaded: number;
+  totalBytes: number;
+  status: UploadStatus;
+  errorMessage?: string;
+}
+
+// Saved in AsyncStorage while an upload is in flight (native only)
+interface UploadState {
+  id: string;
+  uid: string;
+  name: string;
+  storagePath: string;
+  fileUri: string;
+  contentType: string;
+  totalBytes: number;
+  staged: boolean; // fileUri is our copy in stagingDir() (deleted when done)
+  paused: boolean;
+  createdAt: number;
+  sessionUrl?: string; // resumable session on the server
+  bytesConfirmed?: number; // bytes the server has confirmed in that session
+}
+
+const STORAGE_KEY = 'resumable_uploads';
+// Finished uploads stay in the list briefly so the bar reaches 100%
+const COMPLETED_LINGER_MS = 2000;
+// A failed chunk is retried after 1, 2, 4, ... seconds, then the upload fails
+const CHUNK_RETRIES = 5;
+// Port the Storage emulator listens on (see utils/firebaseConfig.ts)
+const STORAGE_EMULATOR_PORT = 9199;
+
+function stagingDir(): string | null {
+  return FileSystem.documentDirectory ? `${FileSystem.documentDirectory}pending-uploads/` : null;
+}
+
+function getUploadTarget(path: string): UploadSessionTarget {
+  const emulatorHost = getFirebaseEmulatorHost();
+  return {
+    bucket: storage.app.options.storageBucket || '',
+    path,
+    ...(emulatorHost ? { host: `${emulatorHost}:${STORAGE_EMULATOR_PORT}`, protocol: 'http' as const } : {}),
+  };
+}
+
+async function getAuthToken(): Promise<string | null> {
+  return auth.currentUser ? await auth.currentUser.getIdToken() : null;
+}
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+// ---------------------------------------------------------------------------
+// Persistence
+// ---------------------------------------------------------------------------
+
+let persistQueue: Promise<void> = Promise.resolve();
+
+async function readStates(): Promise<UploadState[]> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Writes are chained so concurrent uploads do not overwrite each other's entries
+function updateStates(update: (states: UploadState[]) => UploadState[]): Promise<void> {
+  persistQueue = persistQueue
+    .then(async () => {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(update(await readStates())));
+    })
+    .catch((error) => console.warn('[ResumableUpload] Could not save upload state:', error?.message));
+  return persistQueue;
+}
+
+function saveState(state: UploadState): Promise<void> {
+  return updateStates((states) => [...states.filter((s) => s.id !== state.id), state]);
+}
+
+function removeState(id: string): Promise<void> {
+  return updateStates((states) => states.filter((s) => s.id !== id));
+}
+
+// ---------------------------------------------------------------------------
+// Registry (what the upload list shows)
+// ---------------------------------------------------------------------------
+
+const tasks = new Map<string, UploadTask>();
+const listeners = new Set<(uploads: UploadProgress[]) => void>();
+
+function notify() {
+  const uploads = getUploads();
+  listeners.forEach((listener) => listener(uploads));
+}
+
+export function getUploads(): UploadProgress[] {
+  return Array.from(tasks.values())
+    .filter((task) => task.listed)
+    .map((task) => task.getProgress());
+}
+
+export function listenUploads(listener: (uploads: UploadProgress[]) => void): () => void {
+  listeners.add(listener);
+  listener(getUploads());
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getUploadTask(id: string): UploadTask | null {
+  return tasks.get(id) || null;
+}
+
+function findPendingTask(storagePath: string): UploadTask | null {
+  return (
+    Array.from(tasks.values()).find(
+      (task) => task.storagePath === storagePath && ['uploading', 'paused'].includes(task.getProgress().status)
+    ) || null
+  );
+}
+
+/**
+ * True while the file at this Storage path is still being uploaded (or is paused)
+ */
+export function isUploadPending(storagePath: string): boolean {
+  return findPendingTask(storagePath) !== null;
+}
+
+// ---------------------------------------------------------------------------
+// Upload task
+// ---------------------------------------------------------------------------
+
+export class UploadTask {
+  readonly done: Promise<void>;
+  readonly listed: boolean;
+  private state: UploadState;
+  private persist: boolean;
+  private status: UploadStatus;
+  private errorMessage?: string;
+  private bytesUploaded = 0;
+  private upload: StorageUploadTask | null = null; // SDK task, once the file is read
+  private chunk: AbortController | null = null; // chunk being sent in a saved session
+  private wake: (() => void) | null = null;
+
+  constructor(state: UploadState, listed: boolean, persist: boolean) {
+    this.state = state;
+    this.listed = listed;
+    this.persist = persist;
+    this.status = state.paused ? 'paused' : 'uploading';
+    this.bytesUploaded = state.bytesConfirmed ?? 0;
+    tasks.set(state.id, this);
+    this.done = this.run();
+    // Callers that only watch progress should not see unhandled rejections
+    this.done.catch(() => {});
+    notify();
+  }
+
+  get id(): string {
+    return this.state.id;
+  }
+
+  get storagePath(): string {
+    return this.state.storagePath;
+  }
+
+  getProgress(): UploadProgress {
+    return {
+      id: this.state.id,
+      name: this.state.name,
+      storagePath: this.state.storagePath,
+      bytesUploaded: this.bytesUploaded,
+      totalBytes: this.state.totalBytes,
+      status: this.status,
+      ...(this.errorMessage ? { errorMessage: this.errorMessage } : {}),
+    };
+  }
+
+  pause(): void {
+    if (this.status !== 'uploading') return;
+    this.status = 'paused';
+    this.state.paused = true;
+    this.upload?.pause();
+    this.chunk?.abort();
+    this.save();
+    notify();
+  }
+
+  resume(): void {
+    if (this.status !== 'paused') return;
+    this.status = 'uploading';
+    this.state.paused = false;
+    this.upload?.resume();
+    this.save();
+    this.wake?.();
+    notify();
+  }
+
+  cancel(): void {
+    if (this.status === 'completed' || this.status === 'cancelled') return;
+    this.status = 'cancelled';
+    this.upload?.cancel();
+    this.chunk?.abort();
+    this.wake?.();
+    notify();
+  }
+
+  private save() {
+    if (this.persist) saveState(this.state);
+  }
+
+  private async run(): Promise<void> {
+    try {
+      const blob = await this.prepare();
+      await this.waitWhilePaused();
+      await this.transfer(blob);
+
+      this.status = 'completed';
+      notify();
+      await this.cleanup();
+      setTimeout(() => {
+        tasks.delete(this.state.id);
+        notify();
+      }, COMPLETED_LINGER_MS);
+    } catch (error: any) {
+      const cancelled = this.status === 'cancelled';
+      if (!cancelled) {
+        this.status = 'error';
+        this.errorMessage = error?.message || 'Upload failed';
+        console.error('[ResumableUpload] Upload failed:', error);
+      }
+      await this.cleanup();
+      tasks.delete(this.state.id);
+      notify();
+      throw cancelled ? new ConversionCancelledError('Upload cancelled') : error;
+    }
+  }
+
+  private async prepare(): Promise<Blob> {
+    if (Platform.OS !== 'web') {
+      const dir = stagingDir();
+      // Persisted uploads need a copy that survives the picker's cache cleanup and app restarts;
+      // content:// (Android) and other non-file URIs are copied because fetch may not read them
+      const needsCopy = this.persist || !this.state.fileUri.startsWith('file://');
+      if (needsCopy && dir && !this.state.staged) {
+        await FileSystem.makeDirectoryAsync(dir, { intermediates: true }).catch(() => {});
+        const ext = this.state.storagePath.split('.').pop() || 'bin';
+        const staged = `${dir}${this.state.id}.${ext}`;
+        await FileSystem.copyAsync({ from: this.state.fileUri, to: staged });
+        this.state.fileUri = staged;
+        this.state.staged = true;
+      }
+
+      const info: any = await FileSystem.getInfoAsync(this.state.fileUri);
+      if (!info?.exists) throw new Error('The file to upload is no longer available.');
+    }
+
+    const blob = await this.readBlob();
+    if (this.state.sessionUrl && this.state.totalBytes !== blob.size) {
+      // Not the file the session was started for
+      this.state.sessionUrl = undefined;
+      this.state.bytesConfirmed = 0;
+    }
+    this.state.totalBytes = blob.size;
+    this.save();
+    return blob;
+  }
+
+  // fetch(file://...).blob() avoids huge base64 strings; base64 -> data URL when fetch cannot read the URI
+  private async readBlob(): Promise<Blob> {
+    try {
+      return await (await fetch(this.state.fileUri)).blob();
+    } catch (error) {
+      if (Platform.OS === 'web') throw error;
+      const base64 = await FileSystem.readAsStringAsync(this.state.fileUri, { encoding: 'base64' } as any);
+      return await (await fetch(`data:${this.state.contentType};base64,${base64}`)).blob();
+    }
+  }
+
+  private async waitWhilePaused() {
+    while (this.status === 'paused') {
+      await new Promise<void>((resolve) => {
+        this.wake = resolve;
+      });
+      this.wake = null;
+    }
+    if (this.status === 'cancelled') throw new ConversionCancelledError('Upload cancelled');
+  }
+
+  private transfer(blob: Blob): Promise<void> {
+    return this.persist ? this.transferInSession(blob) : this.transferWithSdk(blob);
+  }
+
+  private transferWithSdk(blob: Blob): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.upload = uploadBytesResumable(storageRef(storage, this.state.storagePath), blob, {
+        contentType: this.state.contentType,
+      });
+      this.upload.on(
+        'state_changed',
+        (snapshot) => {
+          this.bytesUploaded = snapshot.bytesTransferred;
+          this.state.totalBytes = snapshot.totalBytes;
+          notify();
+        },
+        reject,
+        () => resolve()
+      );
+    });
+  }
+
+  // Saved uploads: chunk by chunk, saving the confirmed offset after each one
+  private async transferInSession(blob: Blob): Promise<void> {
+    let offset = 0;
+    let resync = true; // ask the server where to continue (at the start, and after a pause or error)
+    let retries = 0;
+    for (;;) {
+      await this.waitWhilePaused();
+      this.chunk = new AbortController();
+      const { signal } = this.chunk;
+      try {
+        if (resync) {
+          const confirmed = await this.openSession(blob, signal);
+          if (confirmed === null) return;
+          offset = confirmed;
+          resync = false;
+        }
+        const end = Math.min(blob.size, offset + UPLOAD_CHUNK_BYTES);
+        const last = end === blob.size;
+        const { final } = await uploadSessionChunk(
+          this.state.sessionUrl!,
+          { offset, data: blob.slice(offset, end), last },
+          { authToken: await getAuthToken(), signal }
+        );
+        this.confirm(end);
+        retries = 0;
+        if (last || final) return;
+        offset = end;
+      } catch (error: any) {
+        if (this.status === 'cancelled') throw new ConversionCancelledError('Upload cancelled');
+        if (this.status !== 'paused') {
+          // Rule denials and other client errors will not go away by retrying
+          const status = error instanceof UploadSessionError ? error.status : 0;
+          if ((status >= 400 && status < 500 && status !== 408 && status !== 429) || retries >= CHUNK_RETRIES) throw error;
+          console.warn('[ResumableUpload] Upload request failed, retrying:', error?.message);
+          await sleep(1000 * Math.pow(2, retries++));
+        }
+        resync = true;
+      } finally {
+        this.chunk = null;
+      }
+    }
+  }
+
+  /**
+   * Offset to continue the saved session from, starting a new session when there is none or
+   * it has expired; null when the server already has the whole file
+   */
+  private async openSession(blob: Blob, signal: AbortSignal): Promise<number | null> {
+    if (this.state.sessionUrl) {
+      const status = await queryUploadSession(this.state.sessionUrl, { authToken: await getAuthToken(), signal });
+      if (status?.final) return null;
+      if (status) {
+        if (status.received > 0) console.log(`[ResumableUpload] Continuing ${this.state.name} at byte ${status.received}`);
+        this.confirm(status.received);
+        return status.received;
+      }
+      console.log(`[ResumableUpload] Upload session of ${this.state.name} expired, starting again`);
+    }
+    this.state.sessionUrl = await startUploadSession(
+      getUploadTarget(this.state.storagePath),
+      { size: blob.size, contentType: this.state.contentType },
+      { authToken: await getAuthToken(), signal }
+    );
+    this.confirm(0);
+    return 0;
+  }
+
+  private confirm(bytes: number) {
+    this.bytesUploaded = bytes;
+    this.state.bytesConfirmed = bytes;
+    this.save();
+    notify();
+  }
+
+  private async cleanup() {
+    if (this.status === 'cancelled' && this.state.sessionUrl) {
+      cancelUploadSession(this.state.sessionUrl, { authToken: await getAuthToken().catch(() => null) });
+    }
+    if (this.persist) await removeState(this.state.id);
+    if (this.state.staged) {
+      await FileSystem.deleteAsync(this.state.fileUri, { idempotent: true } as any).catch(() => {});
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Start uploading a local file. `listed` uploads show up in `listenUploads` and (on native)
+ * survive app restarts; internal uploads such as processed JSON pass `listed: false`.
+ * A listed upload to a path that is already being uploaded (one resumed after a restart)
+ * returns that upload instead of starting a second one.
+ */
+export function startResumableUpload(params: {
+  storagePath: string;
+  fileUri: string;
+  contentType: string;
+  name?: string;
+  listed?: boolean;
+  signal?: AbortSignal | null;
+}): UploadTask {
+  const listed = params.listed !== false;
+  const pending = listed ? findPendingTask(params.storagePath) : null;
+  const task =
+    pending ||
+    new UploadTask(
+      {
+        id: `${Date.now()}-${Math.random().toString(16).slice(2)}`,
+        uid: auth.currentUser?.uid || '',
+        name: params.name || params.storagePath.split('/').pop() || 'file',
+        storagePath: params.storagePath,
+        fileUri: params.fileUri,
+        contentType: params.contentType,
+        totalBytes: 0,
+        staged: false,
+        paused: false,
+        createdAt: Date.now(),
+      },
+      listed,
+      listed && Platform.OS !== 'web'
+    );
+  const { signal } = params;
+  if (signal?.aborted) {
+    task.cancel();
+  } else if (signal) {
+    const onAbort = () => task.cancel();
+    signal.addEventListener('abort', onAbort);
+    const removeListener = () => signal.removeEventListener('abort', onAbort);
+    task.done.then(removeListener, removeListener);
+  }
+  return task;
+}
+
+/**
+ * Continue what an app restart interrupted, from the bytes the server has confirmed (native
+ * only; the current user's uploads)
+ */
+export async function resumePendingUploads(uid: string): Promise<void> {
+  if (Platform.OS === 'web') return;
+  const states = await readStates();
+  for (const state of states) {
+    if (state.uid !== uid || tasks.has(state.id)) continue;
+    console.log(`[ResumableUpload] Resuming ${state.name} at ${state.bytesConfirmed ?? 0} of ${state.totalBytes} bytes`);
+    new UploadTask(state, true, true);
+  }
+}
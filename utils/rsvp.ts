@@ -0,0 +1,208 @@
+/**
+ * RSVP (rapid serial visual presentation)
+ * Shows a paragraph one word, or one short phrase, at a time. Each frame is centered on its
+ * optimal recognition point (the letter the eye should land on) and stays up a little longer
+ * after punctuation, at the end of a sentence and at the end of the paragraph.
+ */
+
+export type RsvpState = 'idle' | 'playing' | 'paused';
+
+export interface RsvpFrame {
+  text: string;
+  orp: number; // index in `text` of the optimal recognition point
+  wordCount: number;
+  durationMs: number;
+}
+
+export const DEFAULT_RSVP_WPM = 250;
+export const MIN_RSVP_WPM = 100;
+export const MAX_RSVP_WPM = 900;
+export const RSVP_WPM_STEP = 25;
+
+// Extra time, in words, added to a frame
+const CLAUSE_PAUSE = 0.5; // , ; : and dashes
+const SENTENCE_PAUSE = 1.5; // . ! ? …
+const PARAGRAPH_PAUSE = 3; // last frame of the paragraph
+const LONG_WORD_PAUSE = 0.3; // words over LONG_WORD_CHARS letters
+const LONG_WORD_CHARS = 8;
+
+// Phrases join short words with the next one while the frame stays this short
+const SHORT_WORD_CHARS = 3;
+const MAX_PHRASE_CHARS = 14;
+const MAX_PHRASE_WORDS = 3;
+
+const CLOSING_CHARS = /["'’”»)\]]+$/;
+
+export function clampRsvpWpm(wpm: number): number {
+  return Math.min(MAX_RSVP_WPM, Math.max(MIN_RSVP_WPM, Math.round(wpm / RSVP_WPM_STEP) * RSVP_WPM_STEP));
+}
+
+/**
+ * Optimal recognition point: a little left of the middle, skipping leading punctuation
+ */
+export function getOrpIndex(text: string): number {
+  const leading = text.match(/^[^\p{L}\p{N}]*/u)?.[0].length ?? 0;
+  const core = text.slice(leading).replace(/[^\p{L}\p{N}]+$/u, '');
+  const length = core.length;
+  const offset = length <= 1 ? 0 : length <= 5 ? 1 : length <= 9 ? 2 : length <= 13 ? 3 : 4;
+  let index = Math.min(leading + offset, Math.max(0, text.length - 1));
+  while (index < text.length - 1 && /\s/.test(text[index])) index++;
+  return index;
+}
+
+function trailingPause(text: string): number {
+  const end = text.replace(CLOSING_CHARS, '');
+  if (/[.!?…。]$/.test(end)) return SENTENCE_PAUSE;
+  if (/[,;:—–-]$/.test(end)) return CLAUSE_PAUSE;
+  return 0;
+}
+
+/**
+ * Frames for one paragraph at `wpm`; with `phrases`, short words are shown with the next word
+ */
+export function buildRsvpFrames(text: string, wpm: number, phrases = false): RsvpFrame[] {
+  const words = text.split(/\s+/).filter((w) => w.length > 0);
+  const groups: string[][] = [];
+  for (const word of words) {
+    const last = groups[groups.length - 1];
+    const joinable =
+      phrases &&
+      last &&
+      last.length < MAX_PHRASE_WORDS &&
+      last[last.length - 1].length <= SHORT_WORD_CHARS &&
+      trailingPause(last[last.length - 1]) === 0 &&
+      [...last, word].join(' ').length <= MAX_PHRASE_CHARS;
+    if (joinable) last.push(word);
+    else groups.push([word]);
+  }
+
+  const msPerWord = 60000 / wpm;
+  return groups.map((group, index) => {
+    const frameText = group.join(' ');
+    let pause = trailingPause(frameText);
+    if (index === groups.length - 1) pause = Math.max(pause, PARAGRAPH_PAUSE);
+    if (group.some((word) => word.length > LONG_WORD_CHARS)) pause += LONG_WORD_PAUSE;
+    return {
+      text: frameText,
+      orp: getOrpIndex(frameText),
+      wordCount: group.length,
+      durationMs: (group.length + pause) * msPerWord,
+    };
+  });
+}
+
+/**
+ * Shows one paragraph's frames in turn
+ */
+export class RsvpPlayer {
+  state: RsvpState = 'idle';
+  private frames: RsvpFrame[] = [];
+  private index = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private frameEndsAt = 0; // when the frame on screen is due to be replaced
+
+  constructor(
+    private callbacks: {
+      onFrame: (frame: RsvpFrame | null, index: number, total: number) => void;
+      onStateChange: (state: RsvpState) => void;
+      onDone: () => void; // the last frame was shown
+    }
+  ) {}
+
+  start(frames: RsvpFrame[]) {
+    this.frames = frames;
+    this.index = 0;
+    this.run();
+  }
+
+  pause() {
+    if (this.state !== 'playing') return;
+    this.clearTimer();
+    this.setState('paused');
+  }
+
+  /**
+   * Continues from the frame shown when paused
+   */
+  resume() {
+    if (this.state !== 'paused') return;
+    this.run();
+  }
+
+  stop() {
+    this.clearTimer();
+    this.frames = [];
+    this.index = 0;
+    this.callbacks.onFrame(null, 0, 0);
+    this.setState('idle');
+  }
+
+  /**
+   * Same paragraph rebuilt (new speed or phrases setting); takes effect from the next frame
+   * and keeps the place in the text. While playing, the frame on screen runs its time and the
+   * next one starts after its last word; while paused, resume shows the frame holding its first.
+   */
+  setFrames(frames: RsvpFrame[]) {
+    if (this.state === 'idle') return;
+    const playing = this.state === 'playing';
+    const wordsShown = this.frames
+      .slice(0, this.index + (playing ? 1 : 0))
+      .reduce((sum, frame) => sum + frame.wordCount, 0);
+    let index = 0;
+    let words = 0;
+    while (index < frames.length && words + frames[index].wordCount <= wordsShown) {
+      words += frames[index].wordCount;
+      index++;
+    }
+    this.frames = frames;
+    this.index = index;
+    if (playing) {
+      this.clearTimer();
+      this.timer = setTimeout(() => this.showOrFinish(), Math.max(0, this.frameEndsAt - Date.now()));
+    }
+  }
+
+  private run() {
+    this.clearTimer();
+    if (this.index >= this.frames.length) {
+      this.finish();
+      return;
+    }
+    this.setState('playing');
+    this.show();
+  }
+
+  private show() {
+    const frame = this.frames[this.index];
+    this.callbacks.onFrame(frame, this.index, this.frames.length);
+    this.frameEndsAt = Date.now() + frame.durationMs;
+    this.timer = setTimeout(() => {
+      this.index++;
+      this.showOrFinish();
+    }, frame.durationMs);
+  }
+
+  private showOrFinish() {
+    if (this.index >= this.frames.length) this.finish();
+    else this.show();
+  }
+
+  private finish() {
+    this.clearTimer();
+    this.frames = [];
+    this.index = 0;
+    this.setState('idle');
+    this.callbacks.onDone();
+  }
+
+  private clearTimer() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private setState(state: RsvpState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.callbacks.onStateChange(state);
+  }
+}
@@ -0,0 +1,315 @@
+/**
+ * RTF Converter
+ * Minimal RTF reader: groups, control words, \uN escapes, \'hh code page bytes and paragraph breaks
+ */
+
+import { CP1252_HIGH } from './textEncoding';
+
+// \fcharsetN -> Windows code page
+const CHARSET_TO_CODEPAGE: { [charset: number]: number } = {
+  0: 1252, 77: 10000, 128: 932, 129: 949, 134: 936, 136: 950, 161: 1253, 162: 1254,
+  163: 1258, 177: 1255, 178: 1256, 186: 1257, 204: 1251, 222: 874, 238: 1250, 255: 437,
+};
+
+// Destinations whose content is never part of the readable text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'objdata', 'header', 'headerl', 'headerr',
+  'headerf', 'footer', 'footerl', 'footerr', 'footerf', 'footnote', 'fldinst', 'themedata',
+  'colorschememapping', 'datastore', 'latentstyles', 'listtable', 'listoverridetable', 'rsidtbl',
+  'generator', 'xmlnstbl', 'mmathPr', 'bkmkstart', 'bkmkend', 'pgdsctbl', 'revtbl', 'filetbl',
+  'listtext', 'pntext', 'pntxta', 'pntxtb', 'shppict', 'nonshppict', 'blipuid', 'template',
+]);
+
+// Control words that produce literal characters
+const SYMBOL_WORDS: { [word: string]: string } = {
+  par: '\n\n',
+  sect: '\n\n',
+  page: '\n\n',
+  row: '\n\n',
+  line: '\n',
+  tab: ' ',
+  cell: ' ',
+  emdash: '—',
+  endash: '–',
+  emspace: ' ',
+  enspace: ' ',
+  qmspace: ' ',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+};
+
+// DOS code pages (\pc = 437, \pca = 850), bytes 0x80-0xFF; the lower half is ASCII.
+// TextDecoder does not know these labels.
+const DOS_CODEPAGE_HIGH: { [codePage: number]: string } = {
+  437:
+    'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒ' +
+    'áíóúñÑªº¿⌐¬½¼¡«»░▒▓│┤╡╢╖╕╣║╗╝╜╛┐' +
+    '└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+    'αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0',
+  850:
+    'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜø£Ø×ƒ' +
+    'áíóúñÑªº¿®¬½¼¡«»░▒▓│┤ÁÂÀ©╣║╗╝¢¥┐' +
+    '└┴┬├─┼ãÃ╚╔╩╦╠═╬¤ðÐÊËÈıÍÎÏ┘┌█▄¦Ì▀' +
+    'ÓßÔÒõÕµþÞÚÛÙýÝ¯´\u00ad±‗¾¶§÷¸°¨·¹³²■\u00a0',
+};
+
+interface GroupState {
+  skip: boolean;
+  ucSkip: number;
+  codePage: number;
+  inFontTable: boolean;
+}
+
+/**
+ * Decode single-byte/multi-byte code page data to a string
+ */
+export function decodeCodePage(bytes: number[], codePage: number): string {
+  if (bytes.length === 0) return '';
+
+  if (codePage === 1252 || codePage === 28591) {
+    return bytes
+      .map((b) => String.fromCharCode(codePage === 1252 && CP1252_HIGH[b] ? CP1252_HIGH[b] : b))
+      .join('');
+  }
+
+  const dosHigh = DOS_CODEPAGE_HIGH[codePage];
+  if (dosHigh) {
+    return bytes.map((b) => (b >= 0x80 ? dosHigh[b - 0x80] : String.fromCharCode(b))).join('');
+  }
+
+  // Other code pages: use TextDecoder when the platform supports the label.
+  const TextDecoderCtor = (globalThis as any)?.TextDecoder;
+  if (TextDecoderCtor) {
+    const label = codePage === 10000 ? 'macintosh' : `windows-${codePage}`;
+    try {
+      return new TextDecoderCtor(label).decode(new Uint8Array(bytes));
+    } catch {
+      // Unsupported label - fall through to windows-1252
+    }
+  }
+  return decodeCodePage(bytes, 1252);
+}
+
+/**
+ * Convert an RTF document to plain text with paragraphs separated by blank lines
+ */
+export function parseRtf(rtf: string): string {
+  if (!/^\s*\{\\rtf/.test(rtf)) {
+    throw new Error('Not an RTF document');
+  }
+
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, ucSkip: 1, codePage: 1252, inFontTable: false };
+  const fontCodePages = new Map<number, number>();
+  let defaultCodePage = 1252;
+  let currentFont: number | null = null;
+
+  let out = '';
+  let pendingBytes: number[] = [];
+  // Number of fallback characters still to skip after a \uN escape
+  let skipFallback = 0;
+  // True directly after `{` so `{\*\dest ...}` can be recognised
+  let groupStart = false;
+
+  const flushBytes = () => {
+    if (pendingBytes.length > 0) {
+      if (!state.skip) out += decodeCodePage(pendingBytes, state.codePage);
+      pendingBytes = [];
+    }
+  };
+
+  const emit = (text: string) => {
+    flushBytes();
+    if (!state.skip) out += text;
+  };
+
+  let i = 0;
+  const n = rtf.length;
+  while (i < n) {
+    const ch = rtf[i];
+
+    if (ch === '{') {
+      flushBytes();
+      stack.push(state);
+      state = { ...state };
+      groupStart = true;
+      skipFallback = 0;
+      i++;
+      continue;
+    }
+
+    if (ch === '}') {
+      flushBytes();
+      state = stack.pop() || state;
+      groupStart = false;
+      skipFallback = 0;
+      i++;
+      continue;
+    }
+
+    if (ch === '\\') {
+      const next = rtf[i + 1];
+      const wasGroupStart = groupStart;
+      groupStart = false;
+
+      // \'hh - byte in the current code page
+      if (next === "'") {
+        const hex = rtf.substr(i + 2, 2);
+        i += 4;
+        if (skipFallback > 0) {
+          skipFallback--;
+          continue;
+        }
+        const byte = parseInt(hex, 16);
+        if (!Number.isNaN(byte)) pendingBytes.push(byte);
+        continue;
+      }
+
+      // Control word: letters + optional signed numeric parameter + optional space delimiter
+      if (next && /[a-zA-Z]/.test(next)) {
+        let j = i + 1;
+        while (j < n && /[a-zA-Z]/.test(rtf[j])) j++;
+        const word = rtf.slice(i + 1, j);
+        let param: number | null = null;
+        const numMatch = rtf.slice(j, j + 12).match(/^-?\d+/);
+        if (numMatch) {
+          param = parseInt(numMatch[0], 10);
+          j += numMatch[0].length;
+        }
+        if (rtf[j] === ' ') j++;
+        i = j;
+
+        if (SKIPPED_DESTINATIONS.has(word)) {
+          flushBytes();
+          if (word === 'fonttbl') state.inFontTable = true;
+          state.skip = true;
+          continue;
+        }
+
+        // Font table: remember each font's charset so \fN can switch code pages
+        if (state.inFontTable) {
+          if (word === 'f' && param !== null) currentFont = param;
+          if (word === 'fcharset' && param !== null && currentFont !== null) {
+            const cp = CHARSET_TO_CODEPAGE[param];
+            if (cp) fontCodePages.set(currentFont, cp);
+          }
+          if (word === 'cpg' && param !== null && currentFont !== null) {
+            fontCodePages.set(currentFont, param);
+          }
+          continue;
+        }
+
+        switch (word) {
+          case 'ansicpg':
+            if (param !== null) {
+              defaultCodePage = param;
+              state.codePage = param;
+            }
+            break;
+          case 'mac':
+            defaultCodePage = 10000;
+            state.codePage = 10000;
+            break;
+          case 'pc':
+            defaultCodePage = 437;
+            state.codePage = 437;
+            break;
+          case 'pca':
+            defaultCodePage = 850;
+            state.codePage = 850;
+            break;
+          case 'f':
+            flushBytes();
+            state.codePage = (param !== null && fontCodePages.get(param)) || defaultCodePage;
+            break;
+          case 'uc':
+            state.ucSkip = param !== null && param >= 0 ? param : 1;
+            break;
+          case 'u':
+            if (param !== null) {
+              // \uN is a signed 16-bit value
+              const code = param < 0 ? param + 65536 : param;
+              emit(String.fromCharCode(code));
+              skipFallback = state.ucSkip;
+            }
+            break;
+          default:
+            if (SYMBOL_WORDS[word] !== undefined) {
+              emit(SYMBOL_WORDS[word]);
+            }
+            break;
+        }
+        continue;
+      }
+
+      // Control symbols
+      i += 2;
+      switch (next) {
+        case '*':
+          // Ignorable destination: {\*\dest ...}
+          if (wasGroupStart) {
+            flushBytes();
+            state.skip = true;
+          }
+          break;
+        case '\\':
+        case '{':
+        case '}':
+          if (skipFallback > 0) {
+            skipFallback--;
+          } else {
+            emit(next);
+          }
+          break;
+        case '~':
+          emit(' ');
+          break;
+        case '_':
+          emit('-');
+          break;
+        case '\r':
+        case '\n':
+          // Escaped newline is equivalent to \par
+          emit('\n\n');
+          break;
+        default:
+          // \- optional hyphen, \| formula character, etc. carry no text
+          break;
+      }
+      continue;
+    }
+
+    groupStart = false;
+
+    // Raw line breaks are not significant in RTF
+    if (ch === '\r' || ch === '\n') {
+      i++;
+      continue;
+    }
+
+    if (skipFallback > 0) {
+      skipFallback--;
+      i++;
+      continue;
+    }
+
+    const code = ch.charCodeAt(0);
+    if (code >= 0x80 && code <= 0xff) {
+      // Raw 8-bit byte (file read as Latin-1) - decode with the current code page
+      pendingBytes.push(code);
+    } else {
+      emit(ch);
+    }
+    i++;
+  }
+  flushBytes();
+
+  return out
+    .split(/\n\s*\n/)
+    .map((p) => p.replace(/\s+/g, ' ').trim())
+    .filter((p) => p.length > 0)
+    .join('\n\n');
+}
@@ -0,0 +1,136 @@
+/**
+ * Firebase Storage resumable upload sessions
+ * The protocol the Storage SDK uses under `uploadBytesResumable`, spoken directly so the
+ * session URL and the bytes the server has confirmed can be saved: a session outlives the app
+ * (for about a week), and an upload interrupted by an app restart continues from the last
+ * confirmed chunk instead of the first byte.
+ */
+
+export const DEFAULT_STORAGE_HOST = 'firebasestorage.googleapis.com';
+
+// Chunks must be a multiple of 256 KiB (except the last one)
+export const UPLOAD_CHUNK_BYTES = 4 * 256 * 1024;
+
+export interface UploadSessionTarget {
+  bucket: string;
+  path: string;
+  host?: string; // `host:port` of the Storage emulator
+  protocol?: 'https' | 'http';
+}
+
+interface SessionRequest {
+  authToken: string | null;
+  signal?: AbortSignal | null;
+}
+
+/**
+ * Storage answered with an error status. `status` lets getImportErrorCode tell denials and
+ * quota errors apart.
+ */
+export class UploadSessionError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'UploadSessionError';
+    this.status = status;
+  }
+}
+
+function authHeaders(authToken: string | null): Record<string, string> {
+  return authToken ? { Authorization: `Firebase ${authToken}` } : {};
+}
+
+async function checkResponse(response: Response, action: string): Promise<void> {
+  if (response.ok) return;
+  const body = await response.text().catch(() => '');
+  let message = '';
+  try {
+    message = JSON.parse(body)?.error?.message || '';
+  } catch {
+    // not JSON
+  }
+  throw new UploadSessionError(response.status, message || `Could not ${action} (HTTP ${response.status}).`);
+}
+
+/**
+ * Open a session for `size` bytes; returns its URL
+ */
+export async function startUploadSession(
+  target: UploadSessionTarget,
+  file: { size: number; contentType: string },
+  request: SessionRequest
+): Promise<string> {
+  const base = `${target.protocol || 'https'}://${target.host || DEFAULT_STORAGE_HOST}`;
+  const url = `${base}/v0/b/${encodeURIComponent(target.bucket)}/o?name=${encodeURIComponent(target.path)}`;
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      ...authHeaders(request.authToken),
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(file.size),
+      'X-Goog-Upload-Header-Content-Type': file.contentType,
+      'Content-Type': 'application/json; charset=utf-8',
+    },
+    body: JSON.stringify({ name: target.path, contentType: file.contentType }),
+    signal: request.signal ?? undefined,
+  });
+  await checkResponse(response, 'start the upload');
+  const sessionUrl = response.headers.get('X-Goog-Upload-URL');
+  if (!sessionUrl) throw new Error('Storage did not return an upload session.');
+  return sessionUrl;
+}
+
+/**
+ * Bytes the server has for a session, or null when the session has expired or is unknown
+ * (start a new one)
+ */
+export async function queryUploadSession(
+  sessionUrl: string,
+  request: SessionRequest
+): Promise<{ received: number; final: boolean } | null> {
+  const response = await fetch(sessionUrl, {
+    method: 'POST',
+    headers: { ...authHeaders(request.authToken), 'X-Goog-Upload-Command': 'query' },
+    signal: request.signal ?? undefined,
+  });
+  if (response.status === 404 || response.status === 410) return null;
+  await checkResponse(response, 'check the upload');
+  const status = response.headers.get('X-Goog-Upload-Status');
+  const received = Number(response.headers.get('X-Goog-Upload-Size-Received'));
+  if ((status !== 'active' && status !== 'final') || !Number.isFinite(received)) return null;
+  return { received, final: status === 'final' };
+}
+
+/**
+ * Send the bytes from `offset` up to the end of `chunk`; `last` finalizes the upload
+ */
+export async function uploadSessionChunk(
+  sessionUrl: string,
+  chunk: { offset: number; data: Blob; last: boolean },
+  request: SessionRequest
+): Promise<{ final: boolean }> {
+  const response = await fetch(sessionUrl, {
+    method: 'POST',
+    headers: {
+      ...authHeaders(request.authToken),
+      'X-Goog-Upload-Command': chunk.last ? 'upload, finalize' : 'upload',
+      'X-Goog-Upload-Offset': String(chunk.offset),
+    },
+    body: chunk.data,
+    signal: request.signal ?? undefined,
+  });
+  await checkResponse(response, 'upload the file');
+  return { final: response.headers.get('X-Goog-Upload-Status') === 'final' };
+}
+
+/**
+ * Stop a session on the server (best effort)
+ */
+export async function cancelUploadSession(sessionUrl: string, request: SessionRequest): Promise<void> {
+  await fetch(sessionUrl, {
+    method: 'POST',
+    headers: { ...authHeaders(request.authToken), 'X-Goog-Upload-Command': 'cancel' },
+  }).catch(() => {});
+}
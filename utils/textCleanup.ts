@@ -0,0 +1,416 @@
+/**
+ * Text clean-up pipeline
+ * Normalizes extracted text before it is split into blocks: Unicode/mojibake repair,
+ * running header/footer and page number removal, de-hyphenation, reflowing hard-wrapped
+ * lines into paragraphs and whitespace collapsing. Every step is a pure function and can
+ * be switched off through `TextCleanupOptions`. No React Native imports, so the local
+ * extraction server uses it too.
+ */
+
+import { textToBlocks, type BlockInput } from './processedDocument';
+import { CP1252_HIGH } from './textEncoding';
+
+export interface TextCleanupOptions {
+  normalizeUnicode?: boolean; // NFC, ligatures, UTF-8-as-CP1252 mojibake, invisible characters
+  removeHeadersFooters?: boolean; // lines repeated at the top/bottom of pages, page numbers
+  dehyphenate?: boolean; // "read-\ning" -> "reading", "well-\nknown" kept
+  reflowLines?: boolean; // join hard-wrapped lines into paragraphs
+  collapseWhitespace?: boolean; // single spaces, at most one blank line between paragraphs
+}
+
+export const DEFAULT_CLEANUP_OPTIONS: Required<TextCleanupOptions> = {
+  normalizeUnicode: true,
+  removeHeadersFooters: true,
+  dehyphenate: true,
+  reflowLines: true,
+  collapseWhitespace: true,
+};
+
+function resolveOptions(options?: TextCleanupOptions): Required<TextCleanupOptions> {
+  return { ...DEFAULT_CLEANUP_OPTIONS, ...options };
+}
+
+// ---------------------------------------------------------------------------
+// Unicode
+// ---------------------------------------------------------------------------
+
+const LIGATURES: { [ch: string]: string } = {
+  'ﬀ': 'ff',
+  'ﬁ': 'fi',
+  'ﬂ': 'fl',
+  'ﬃ': 'ffi',
+  'ﬄ': 'ffl',
+  'ﬅ': 'st',
+  'ﬆ': 'st',
+  'Ĳ': 'IJ',
+  'ĳ': 'ij',
+};
+
+// Character -> byte for text that was decoded as Windows-1252 (or Latin-1) instead of UTF-8
+const CP1252_REVERSE = new Map<number, number>(
+  Object.entries(CP1252_HIGH).map(([byte, codePoint]) => [codePoint, Number(byte)])
+);
+
+function misdecodedByte(ch: string): number | null {
+  const code = ch.charCodeAt(0);
+  if (code <= 0xff) return code;
+  return CP1252_REVERSE.get(code) ?? null;
+}
+
+interface Utf8Repair {
+  text: string;
+  twoByte: number; // repaired two-byte sequences
+  latinLead: number; // of those, led by Â or Ã - the usual Latin-1 mojibake
+  multiByte: number; // repaired three- and four-byte sequences, e.g. "â€™"
+}
+
+// Replace every complete, valid UTF-8 sequence and count what was replaced
+function repairUtf8Sequences(text: string): Utf8Repair {
+  const result: Utf8Repair = { text: '', twoByte: 0, latinLead: 0, multiByte: 0 };
+  let i = 0;
+  while (i < text.length) {
+    const lead = text.charCodeAt(i);
+    const length = lead >= 0xc2 && lead <= 0xdf ? 2 : lead >= 0xe0 && lead <= 0xef ? 3 : lead >= 0xf0 && lead <= 0xf4 ? 4 : 0;
+
+    if (length > 0 && i + length <= text.length) {
+      const bytes = [lead];
+      for (let k = 1; k < length; k++) {
+        const b = misdecodedByte(text[i + k]);
+        if (b === null || b < 0x80 || b > 0xbf) break;
+        bytes.push(b);
+      }
+
+      if (bytes.length === length) {
+        let codePoint =
+          length === 2 ? lead & 0x1f : length === 3 ? lead & 0x0f : lead & 0x07;
+        for (let k = 1; k < length; k++) codePoint = (codePoint << 6) | (bytes[k] & 0x3f);
+
+        const minimum = length === 2 ? 0x80 : length === 3 ? 0x800 : 0x10000;
+        const valid = codePoint >= minimum && codePoint <= 0x10ffff && (codePoint < 0xd800 || codePoint > 0xdfff);
+        if (valid) {
+          result.text += String.fromCodePoint(codePoint);
+          if (length === 2) {
+            result.twoByte++;
+            if (lead === 0xc2 || lead === 0xc3) result.latinLead++;
+          } else {
+            result.multiByte++;
+          }
+          i += length;
+          continue;
+        }
+      }
+    }
+
+    result.text += text[i];
+    i++;
+  }
+  return result;
+}
+
+/**
+ * Repair UTF-8 text that was decoded as Windows-1252, e.g. "donâ€™t" -> "don’t", "cafÃ©" -> "café".
+ * Works per whitespace-separated run and only rewrites a run that carries a mojibake signature
+ * (a three-byte sequence such as "â€", Â/Ã before a continuation character, or several two-byte
+ * sequences), so valid Latin-1 text such as "CAFÉ…" or "Über“" is left alone.
+ */
+export function fixMojibake(text: string): string {
+  if (!/[\u00c2-\u00f4]/.test(text)) return text;
+
+  return text
+    .split(/(\s+)/)
+    .map((run) => {
+      if (!/[\u00c2-\u00f4]/.test(run)) return run;
+      const repair = repairUtf8Sequences(run);
+      const signature = repair.multiByte > 0 || repair.latinLead > 0 || repair.twoByte >= 2;
+      return signature ? repair.text : run;
+    })
+    .join('');
+}
+
+/**
+ * NFC normalization, ligature expansion, mojibake repair; drops soft hyphens and zero-width characters
+ */
+export function normalizeUnicode(text: string): string {
+  let out = fixMojibake(text);
+  out = out.replace(/[\ufb00-\ufb06\u0132\u0133]/g, (ch) => LIGATURES[ch] || ch);
+  // Soft hyphens at a line end mark a word split; de-hyphenation joins those
+  out = out.replace(/\u00ad(?!\r?\n)/g, '').replace(/[\u200b\u2060\ufeff]/g, '');
+  try {
+    out = out.normalize('NFC');
+  } catch {
+    // normalize() unavailable (engines without Intl) - keep as is
+  }
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Page headers, footers and numbers
+// ---------------------------------------------------------------------------
+
+// Lines at the top/bottom of a page that are checked for repetition
+const EDGE_LINES = 2;
+
+const ROMAN = '(?=[ivxlcdm])m{0,3}(?:cm|cd|d?c{0,3})(?:xc|xl|l?x{0,3})(?:ix|iv|v?i{0,3})';
+const PAGE_NUMBER_RE = new RegExp(`^(?:page\\s+)?[-–—]?\\s*\\d{1,4}\\s*[-–—]?(?:\\s*(?:of|\\/)\\s*\\d{1,4})?$`, 'i');
+// Roman numerals only with a "page" or dash context: a bare "I" or "mix" is a word
+const ROMAN_PAGE_RE = new RegExp(`^(?:page\\s+${ROMAN}|[-–—]\\s*${ROMAN}\\s*[-–—]?|${ROMAN}\\s*[-–—])$`, 'i');
+const BARE_ROMAN_RE = new RegExp(`^${ROMAN}$`, 'i');
+
+export function isPageNumberLine(line: string): boolean {
+  const trimmed = line.trim();
+  return PAGE_NUMBER_RE.test(trimmed) || ROMAN_PAGE_RE.test(trimmed);
+}
+
+// Compare lines without digits so "Chapter 3 · 41" matches "Chapter 3 · 42"
+function edgeLineKey(line: string): string {
+  return line.trim().toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ');
+}
+
+function edgeLineIndexes(lines: string[]): number[] {
+  const nonEmpty = lines.map((l, i) => (l.trim() ? i : -1)).filter((i) => i >= 0);
+  const indexes = new Set([...nonEmpty.slice(0, EDGE_LINES), ...nonEmpty.slice(-EDGE_LINES)]);
+  return [...indexes];
+}
+
+/**
+ * Remove running headers/footers (lines repeated at the top or bottom of many pages) and
+ * bare page numbers. Needs at least two pages; repetition needs three.
+ */
+export function removeHeadersFooters(pages: string[]): string[] {
+  if (pages.length < 2) return pages;
+
+  const pageLines = pages.map((page) => page.split('\n'));
+  const counts = new Map<string, number>();
+  if (pages.length >= 3) {
+    for (const lines of pageLines) {
+      const keys = new Set(edgeLineIndexes(lines).map((i) => edgeLineKey(lines[i])));
+      keys.forEach((key) => counts.set(key, (counts.get(key) || 0) + 1));
+    }
+  }
+  // Book headers alternate between left and right pages, so ~40% of pages is enough
+  const minRepeats = Math.max(3, Math.ceil(pages.length * 0.4));
+  // Bare Roman numerals (front matter numbering) count when they recur at the page edges
+  const romanPages =
+    pages.length >= 3
+      ? pageLines.filter((lines) => edgeLineIndexes(lines).some((i) => BARE_ROMAN_RE.test(lines[i].trim()))).length
+      : 0;
+  const romanNumbering = romanPages >= minRepeats;
+
+  return pageLines.map((lines) => {
+    const remove = new Set(
+      edgeLineIndexes(lines).filter((i) => {
+        const key = edgeLineKey(lines[i]);
+        if (isPageNumberLine(lines[i]) || (romanNumbering && BARE_ROMAN_RE.test(lines[i].trim()))) return true;
+        return key.length > 0 && (counts.get(key) || 0) >= minRepeats;
+      })
+    );
+    return lines.filter((_, i) => !remove.has(i)).join('\n');
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Line structure
+// ---------------------------------------------------------------------------
+
+const LETTER = 'A-Za-z\\u00c0-\\u00d6\\u00d8-\\u00f6\\u00f8-\\u024f';
+const LOWER = 'a-z\\u00df-\\u00f6\\u00f8-\\u00ff';
+
+// Common parts of hyphenated compounds ("well-known", "long-term"), for texts too short to
+// have used them on their own
+const COMPOUND_PARTS = new Set([
+  'well', 'known', 'self', 'long', 'short', 'term', 'high', 'low', 'level', 'old', 'year', 'based',
+  'free', 'like', 'made', 'time', 'full', 'part', 'half', 'world', 'class', 'state', 'art', 'date',
+  'hand', 'side', 'wide', 'scale', 'face', 'first', 'last', 'best', 'good', 'born', 'called',
+]);
+
+// Closed compounds that are often split between their two words
+const CLOSED_COMPOUNDS = new Set([
+  'something', 'someone', 'somewhere', 'sometimes', 'somehow', 'anything', 'anyone', 'anywhere',
+  'everything', 'everyone', 'everywhere', 'nothing', 'without', 'within', 'therefore', 'however',
+  'another', 'today', 'tonight', 'become', 'became', 'because', 'understand', 'understood',
+  'outside', 'inside', 'myself', 'yourself', 'himself', 'herself', 'itself', 'ourselves',
+  'themselves', 'whatever', 'whenever', 'wherever', 'cannot', 'overall', 'upon', 'into',
+]);
+
+/**
+ * Join words split across lines: "read-\ning" -> "reading". Only when the next line starts
+ * in lower case, so "Anglo-\nSaxon" keeps its hyphen. A hyphen between two words on their
+ * own ("well-\nknown") is kept unless the joined word appears elsewhere in the text.
+ */
+export function dehyphenate(text: string): string {
+  const split = new RegExp(`([${LETTER}]{2,})([-\\u00ad])[ \\t]*\\r?\\n[ \\t]*([${LOWER}][${LETTER}]*)`, 'g');
+  if (text.search(split) < 0) return text;
+
+  // Vocabulary of the rest of the text
+  const rest = text.replace(split, ' ').toLowerCase();
+  const words = new Set(rest.match(new RegExp(`[${LETTER}]+`, 'g')) ?? []);
+  const compounds = new Set(rest.match(new RegExp(`[${LETTER}]+-[${LETTER}]+`, 'g')) ?? []);
+  const isWord = (word: string) => words.has(word) || COMPOUND_PARTS.has(word);
+
+  return text.replace(split, (_, first: string, hyphen: string, second: string) => {
+    const a = first.toLowerCase();
+    const b = second.toLowerCase();
+    const keepHyphen =
+      hyphen === '-' &&
+      (compounds.has(`${a}-${b}`) || (!words.has(a + b) && !CLOSED_COMPOUNDS.has(a + b) && isWord(a) && isWord(b)));
+    return keepHyphen ? `${first}-${second}` : first + second;
+  });
+}
+
+const LIST_ITEM_RE = /^\s*(?:[•●◦▪‣*-]|\d{1,3}[.)]|[a-z][.)])\s+/i;
+const SENTENCE_END_RE = /[.!?:;"”’)\]]$/;
+const PARAGRAPH_END_RE = /[.!?…]["'”’)\]]*$/;
+
+// Hard-wrapped lines are no longer than a printed or e-mail line
+const MAX_WRAP_WIDTH = 160;
+const TITLE_MAX_CHARS = 60;
+const TITLE_MAX_WORDS = 10;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+// The next line's first word would have fitted at the end of this one (with some slack for
+// proportional fonts), so the line break was made on purpose
+function nextWordFits(line: string, next: string, width: number): boolean {
+  return line.length + 1 + next.split(/\s/, 1)[0].length <= width * 0.85;
+}
+
+/**
+ * Hard-wrapped text breaks most lines only because the next word did not fit. Text with one
+ * paragraph per line has lines of any length, often longer than any wrap width.
+ */
+function isHardWrapped(lines: string[], width: number): boolean {
+  if (lines.length < 3 || width > MAX_WRAP_WIDTH || median(lines.map((l) => l.length)) < 40) return false;
+  const forced = lines.slice(0, -1).filter((line, i) => !nextWordFits(line, lines[i + 1], width)).length;
+  return forced >= (lines.length - 1) * 0.6;
+}
+
+// A heading: short, capitalized, no closing punctuation and followed by a longer line
+function isTitleLike(line: string, next: string): boolean {
+  return (
+    line.length <= TITLE_MAX_CHARS &&
+    line.split(/\s+/).length <= TITLE_MAX_WORDS &&
+    /^[\p{Lu}\p{N}]/u.test(line) &&
+    !/[.,;:!?…\-–—]$/.test(line) &&
+    next.length >= Math.max(40, line.length * 1.5)
+  );
+}
+
+/**
+ * Join hard-wrapped lines into paragraphs (separated by blank lines). Blank lines always
+ * end a paragraph; inside a block, a list item or a heading line also starts a new one.
+ * In hard-wrapped text so does a line ending a sentence short of the width, or an indented
+ * line; in text with one paragraph per line, every line ending a sentence.
+ */
+export function reflowLines(text: string): string {
+  const blocks = text.split(/\n[ \t]*\n/);
+  const paragraphs: string[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n').filter((l) => l.trim().length > 0);
+    if (lines.length === 0) continue;
+
+    const trimmedLines = lines.map((l) => l.trim());
+    const typicalLength = median(trimmedLines.map((l) => l.length));
+    const width = Math.max(...trimmedLines.map((l) => l.length));
+    const wrapped = isHardWrapped(trimmedLines, width);
+
+    let current: string[] = [];
+    lines.forEach((line, index) => {
+      const trimmed = line.trim();
+      const prev = index > 0 ? lines[index - 1].trim() : '';
+      const startsNew =
+        index > 0 &&
+        (LIST_ITEM_RE.test(line) ||
+          isTitleLike(prev, trimmed) ||
+          (wrapped
+            ? /^(?: {2,}|\t)/.test(line) ||
+              (SENTENCE_END_RE.test(prev) && (prev.length < typicalLength * 0.75 || nextWordFits(prev, trimmed, width)))
+            : PARAGRAPH_END_RE.test(prev)));
+
+      if (startsNew && current.length > 0) {
+        paragraphs.push(current.join(' '));
+        current = [];
+      }
+      current.push(trimmed);
+    });
+    if (current.length > 0) paragraphs.push(current.join(' '));
+  }
+
+  return paragraphs.join('\n\n');
+}
+
+/**
+ * Collapse runs of spaces/tabs and blank lines; paragraph breaks (blank lines) are kept
+ */
+export function collapseWhitespace(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0\u2000-\u200a\u202f\u205f\u3000]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ---------------------------------------------------------------------------
+// Pipeline
+// ---------------------------------------------------------------------------
+
+/**
+ * Clean the raw text of each page (page order is kept; empty pages stay empty)
+ */
+export function cleanupPages(pages: string[], options?: TextCleanupOptions): string[] {
+  const opts = resolveOptions(options);
+  let out = pages.map((page) => page.replace(/\r\n?/g, '\n'));
+
+  if (opts.normalizeUnicode) out = out.map(normalizeUnicode);
+  if (opts.removeHeadersFooters) out = removeHeadersFooters(out);
+
+  return out.map((page) => {
+    let text = page;
+    if (opts.dehyphenate) text = dehyphenate(text);
+    if (opts.reflowLines) text = reflowLines(text);
+    if (opts.collapseWhitespace) text = collapseWhitespace(text);
+    return text;
+  });
+}
+
+export function cleanupText(text: string, options?: TextCleanupOptions): string {
+  return cleanupPages([text], options)[0];
+}
+
+/**
+ * Clean page texts and split them into paragraph blocks numbered by page
+ */
+export function textPagesToBlocks(pages: string[], options?: TextCleanupOptions): BlockInput[] {
+  return cleanupPages(pages, options).flatMap((page, index) => textToBlocks(page, index + 1));
+}
+
+/**
+ * Clean blocks from structured formats (DOCX, EPUB) whose paragraphs are already known.
+ * Only character-level steps apply; empty blocks are kept so indexes (chapters) stay valid.
+ * Code keeps its line breaks and indentation.
+ */
+export function cleanupBlocks<T extends { type?: string; text: string; cells?: string[] }>(
+  blocks: T[],
+  options?: TextCleanupOptions
+): T[] {
+  const opts = resolveOptions(options);
+  const clean = (value: string, code = false) => {
+    let text = opts.normalizeUnicode ? normalizeUnicode(value) : value;
+    if (opts.collapseWhitespace) {
+      text = code
+        ? text.replace(/\r\n?/g, '\n').replace(/[ \t]+$/gm, '').replace(/^\n+|\n+$/g, '')
+        : text.replace(/\s+/g, ' ').trim();
+    }
+    return text;
+  };
+  return blocks.map((block) => ({
+    ...block,
+    text: clean(block.text, block.type === 'code'),
+    ...(block.cells ? { cells: block.cells.map((cell) => clean(cell)) } : {}),
+  }));
+}
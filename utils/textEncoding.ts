@@ -0,0 +1,200 @@
+/**
+ * Character encodings for plain-text uploads
+ * BOM sniffing, heuristic detection (UTF-8 validity, UTF-16 zero-byte patterns) and pure JS
+ * decoders for the encodings older school material usually comes in. Decoding does not rely
+ * on TextDecoder, which React Native does not provide for legacy encodings.
+ */
+
+export type TextEncodingId = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'iso-8859-1';
+
+export const TEXT_ENCODINGS: { id: TextEncodingId; label: string }[] = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'windows-1252', label: 'Windows-1252 (Western)' },
+  { id: 'iso-8859-1', label: 'Latin-1 (ISO-8859-1)' },
+  { id: 'utf-16le', label: 'UTF-16 LE' },
+  { id: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+export function getEncodingLabel(encoding: string | null | undefined): string {
+  return TEXT_ENCODINGS.find((e) => e.id === encoding)?.label || encoding || 'Unknown';
+}
+
+// Windows-1252 bytes 0x80-0x9F (the rest of the upper half matches Latin-1)
+export const CP1252_HIGH: { [byte: number]: number } = {
+  0x80: 0x20ac, 0x82: 0x201a, 0x83: 0x0192, 0x84: 0x201e, 0x85: 0x2026, 0x86: 0x2020, 0x87: 0x2021,
+  0x88: 0x02c6, 0x89: 0x2030, 0x8a: 0x0160, 0x8b: 0x2039, 0x8c: 0x0152, 0x8e: 0x017d,
+  0x91: 0x2018, 0x92: 0x2019, 0x93: 0x201c, 0x94: 0x201d, 0x95: 0x2022, 0x96: 0x2013, 0x97: 0x2014,
+  0x98: 0x02dc, 0x99: 0x2122, 0x9a: 0x0161, 0x9b: 0x203a, 0x9c: 0x0153, 0x9e: 0x017e, 0x9f: 0x0178,
+};
+
+export interface DetectedEncoding {
+  encoding: TextEncodingId;
+  source: 'bom' | 'heuristic';
+  bomLength: number;
+}
+
+// Bytes inspected by the heuristics (whole file when smaller)
+const DETECT_LENGTH = 64 * 1024;
+
+function bomEncoding(bytes: Uint8Array): { encoding: TextEncodingId; length: number } | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return { encoding: 'utf-8', length: 3 };
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return { encoding: 'utf-16le', length: 2 };
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return { encoding: 'utf-16be', length: 2 };
+  return null;
+}
+
+/**
+ * UTF-16 without BOM: ASCII-range text has a zero in every other byte
+ */
+function guessUtf16(sample: Uint8Array): TextEncodingId | null {
+  const pairs = Math.floor(sample.length / 2);
+  if (pairs < 2) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i + 1 < sample.length; i += 2) {
+    if (sample[i] === 0 && sample[i + 1] !== 0) evenZeros++;
+    if (sample[i + 1] === 0 && sample[i] !== 0) oddZeros++;
+  }
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
+
+/**
+ * True when every multi-byte sequence is valid UTF-8. A sequence cut off by the end of a
+ * truncated sample is accepted.
+ */
+function isValidUtf8(sample: Uint8Array, truncated: boolean): boolean {
+  let i = 0;
+  while (i < sample.length) {
+    const b = sample[i];
+    if (b < 0x80) {
+      i++;
+      continue;
+    }
+    const length = b >= 0xc2 && b <= 0xdf ? 2 : b >= 0xe0 && b <= 0xef ? 3 : b >= 0xf0 && b <= 0xf4 ? 4 : 0;
+    if (length === 0) return false;
+    if (i + length > sample.length) return truncated;
+    for (let k = 1; k < length; k++) {
+      if ((sample[i + k] & 0xc0) !== 0x80) return false;
+    }
+    // Overlong 3/4-byte forms and UTF-16 surrogates
+    if (b === 0xe0 && sample[i + 1] < 0xa0) return false;
+    if (b === 0xed && sample[i + 1] > 0x9f) return false;
+    if (b === 0xf0 && sample[i + 1] < 0x90) return false;
+    if (b === 0xf4 && sample[i + 1] > 0x8f) return false;
+    i += length;
+  }
+  return true;
+}
+
+/**
+ * Detect the encoding of a text file from its bytes
+ */
+export function detectTextEncoding(bytes: Uint8Array): DetectedEncoding {
+  const bom = bomEncoding(bytes);
+  if (bom) return { encoding: bom.encoding, source: 'bom', bomLength: bom.length };
+
+  const sample = bytes.subarray(0, DETECT_LENGTH);
+  const utf16 = guessUtf16(sample);
+  if (utf16) return { encoding: utf16, source: 'heuristic', bomLength: 0 };
+
+  if (isValidUtf8(sample, bytes.length > sample.length)) {
+    return { encoding: 'utf-8', source: 'heuristic', bomLength: 0 };
+  }
+
+  // Not UTF-8: bytes 0x80-0x9F are C1 controls in Latin-1 but punctuation in Windows-1252
+  const hasCp1252Punctuation = sample.some((b) => b >= 0x80 && b <= 0x9f);
+  return { encoding: hasCp1252Punctuation ? 'windows-1252' : 'iso-8859-1', source: 'heuristic', bomLength: 0 };
+}
+
+function codeUnitsToString(units: number[]): string {
+  let out = '';
+  for (let i = 0; i < units.length; i += 8192) {
+    out += String.fromCharCode.apply(null, units.slice(i, i + 8192));
+  }
+  return out;
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  const units: number[] = [];
+  let i = 0;
+  while (i < bytes.length) {
+    const b = bytes[i];
+    if (b < 0x80) {
+      units.push(b);
+      i++;
+      continue;
+    }
+    const length = b >= 0xc2 && b <= 0xdf ? 2 : b >= 0xe0 && b <= 0xef ? 3 : b >= 0xf0 && b <= 0xf4 ? 4 : 0;
+    let codePoint = length === 2 ? b & 0x1f : length === 3 ? b & 0x0f : b & 0x07;
+    let valid = length > 0 && i + length <= bytes.length;
+    for (let k = 1; valid && k < length; k++) {
+      const next = bytes[i + k];
+      if ((next & 0xc0) !== 0x80) valid = false;
+      else codePoint = (codePoint << 6) | (next & 0x3f);
+    }
+    const minimum = length === 2 ? 0x80 : length === 3 ? 0x800 : 0x10000;
+    if (!valid || codePoint < minimum || codePoint > 0x10ffff || (codePoint >= 0xd800 && codePoint <= 0xdfff)) {
+      units.push(0xfffd);
+      i++;
+      continue;
+    }
+    if (codePoint > 0xffff) {
+      codePoint -= 0x10000;
+      units.push(0xd800 + (codePoint >> 10), 0xdc00 + (codePoint & 0x3ff));
+    } else {
+      units.push(codePoint);
+    }
+    i += length;
+  }
+  return codeUnitsToString(units);
+}
+
+function decodeUtf16(bytes: Uint8Array, littleEndian: boolean): string {
+  const units: number[] = [];
+  for (let i = 0; i + 1 < bytes.length; i += 2) {
+    units.push(littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1]);
+  }
+  return codeUnitsToString(units);
+}
+
+function decodeSingleByte(bytes: Uint8Array, cp1252: boolean): string {
+  const units: number[] = new Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    const b = bytes[i];
+    units[i] = cp1252 && CP1252_HIGH[b] ? CP1252_HIGH[b] : b;
+  }
+  return codeUnitsToString(units);
+}
+
+/**
+ * Decode bytes with the given encoding (a leading BOM for that encoding is skipped)
+ */
+export function decodeText(bytes: Uint8Array, encoding: TextEncodingId): string {
+  const bom = bomEncoding(bytes);
+  const body = bom && bom.encoding === encoding ? bytes.subarray(bom.length) : bytes;
+  switch (encoding) {
+    case 'utf-8':
+      return decodeUtf8(body);
+    case 'utf-16le':
+      return decodeUtf16(body, true);
+    case 'utf-16be':
+      return decodeUtf16(body, false);
+    case 'windows-1252':
+      return decodeSingleByte(body, true);
+    case 'iso-8859-1':
+      return decodeSingleByte(body, false);
+  }
+}
+
+/**
+ * Decode a text file, detecting the encoding unless one is given
+ */
+export function decodeTextFile(
+  bytes: Uint8Array,
+  encoding?: TextEncodingId | null
+): { text: string; encoding: TextEncodingId; detected: boolean } {
+  const chosen = encoding || detectTextEncoding(bytes).encoding;
+  return { text: decodeText(bytes, chosen), encoding: chosen, detected: !encoding };
+}
@@ -19,6 +19,8 @@ export interface LineBounds {
 export interface TextLineMapperConfig {
   fontSize: number;
   lineHeight: number;
+  letterSpacing?: number;
+  wordSpacing?: number; // extra space between words
   containerWidth: number;
   containerX: number;
   containerY: number;
@@ -40,13 +42,12 @@ export class TextLineMapper {
     const lines: string[] = [];
     let currentLine = '';
 
-    const avgCharWidth = this.config.fontSize * 0.6;
     const availableWidth = this.config.containerWidth - (this.config.padding * 2);
 
     // Split text into lines based on container width
     words.forEach((word) => {
       const testLine = currentLine ? `${currentLine} ${word}` : word;
-      const estimatedWidth = testLine.length * avgCharWidth;
+      const estimatedWidth = this.estimateWidth(testLine);
 
       if (estimatedWidth <= availableWidth && currentLine) {
         currentLine = testLine;
@@ -65,7 +66,7 @@ export class TextLineMapper {
     // Create bounding boxes for each line
     const lineBounds: LineBounds[] = [];
     lines.forEach((lineText, index) => {
-      const lineTextWidth = lineText.length * avgCharWidth;
+      const lineTextWidth = this.estimateWidth(lineText);
       const x = this.config.containerX + this.config.padding;
       const y = this.config.containerY + (index * this.config.lineHeight);
       const width = Math.min(lineTextWidth, availableWidth);
@@ -86,6 +87,15 @@ export class TextLineMapper {
     return lineBounds;
   }
 
+  /**
+   * Estimated width of a line of text (average character width plus the spacing settings)
+   */
+  private estimateWidth(line: string): number {
+    const avgCharWidth = this.config.fontSize * 0.6 + (this.config.letterSpacing ?? 0);
+    const spaces = line.split(' ').length - 1;
+    return line.length * avgCharWidth + spaces * (this.config.wordSpacing ?? 0);
+  }
+
   /**
    * Map gaze coordinates to current line
    */
@@ -0,0 +1,265 @@
+/**
+ * Batch upload queue
+ * Picked or dropped files wait here and are imported a few at a time with `importDocument`.
+ * On native the queue is saved to AsyncStorage, with a copy of each file, so a whole reading
+ * list added at once survives an app restart. The same file picked twice is not imported twice:
+ * importDocument holds the second copy until the first has its document, then flags it as a duplicate.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system/legacy';
+import { Platform } from 'react-native';
+import { isConversionCancelled } from '@/utils/conversionControl';
+import { importDocument, isDuplicateDocument, type ImportSource } from '@/utils/documentImport';
+import { auth } from '@/utils/firebaseConfig';
+import { getFileExtension } from '@/utils/fileUtils';
+import { getImportErrorCode } from '@/utils/importErrors';
+import { isUploadPending, resumePendingUploads } from '@/utils/resumableUpload';
+import { parseSavedQueue, restoreQueueItems, serializeQueue, type QueueItem } from '@/utils/uploadQueueState';
+
+export type { QueueItem, QueueItemStatus } from '@/utils/uploadQueueState';
+
+const STORAGE_KEY = 'upload_queue';
+const CONCURRENCY = 2;
+
+let items: QueueItem[] = [];
+const controllers = new Map<string, AbortController>();
+const listeners = new Set<(items: QueueItem[]) => void>();
+let persistQueue: Promise<void> = Promise.resolve();
+
+function stagingDir(): string | null {
+  return FileSystem.documentDirectory ? `${FileSystem.documentDirectory}upload-queue/` : null;
+}
+
+function persist() {
+  if (Platform.OS === 'web') return;
+  const snapshot = serializeQueue(items);
+  persistQueue = persistQueue
+    .then(() => AsyncStorage.setItem(STORAGE_KEY, snapshot))
+    .catch((error) => console.warn('[UploadQueue] Could not save queue:', error?.message));
+}
+
+function notify() {
+  const snapshot = [...items];
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+function updateItem(id: string, patch: Partial<QueueItem>, save = true) {
+  items = items.map((item) => (item.id === id ? { ...item, ...patch } : item));
+  if (save) persist();
+  notify();
+}
+
+async function releaseItemFile(item: QueueItem) {
+  if (item.uri.startsWith('blob:') && typeof URL !== 'undefined' && URL.revokeObjectURL) {
+    URL.revokeObjectURL(item.uri);
+  }
+  if (!item.staged) return;
+  try {
+    await FileSystem.deleteAsync(item.uri, { idempotent: true } as any);
+  } catch {
+    // ignore
+  }
+}
+
+function dropItem(id: string) {
+  const item = items.find((i) => i.id === id);
+  if (!item) return;
+  items = items.filter((i) => i.id !== id);
+  persist();
+  notify();
+  releaseItemFile(item);
+}
+
+// Copy picked files into the app's document directory: picker cache copies may be
+// cleared before a long queue reaches them
+async function stageFile(id: string, source: ImportSource): Promise<{ uri: string; staged: boolean }> {
+  const dir = stagingDir();
+  if (Platform.OS === 'web' || !dir) return { uri: source.uri, staged: false };
+  try {
+    await FileSystem.makeDirectoryAsync(dir, { intermediates: true });
+    const ext = getFileExtension(source.name).toLowerCase();
+    const uri = `${dir}${id}${ext ? `.${ext}` : ''}`;
+    await FileSystem.copyAsync({ from: source.uri, to: uri });
+    return { uri, staged: true };
+  } catch (error: any) {
+    console.warn('[UploadQueue] Could not stage file, importing from the picked URI:', error?.message);
+    return { uri: source.uri, staged: false };
+  }
+}
+
+async function runItem(item: QueueItem) {
+  const controller = new AbortController();
+  controllers.set(item.id, controller);
+  updateItem(item.id, { status: 'uploading', errorMessage: undefined, progress: null });
+
+  try {
+    const result = await importDocument(
+      { uri: item.uri, name: item.name, mimeType: item.mimeType },
+      {
+        signal: controller.signal,
+        docId: item.docId,
+        countUpload: !item.counted,
+        allowDuplicate: item.allowDuplicate,
+        onDocumentCreated: ({ docId, storagePath, processedPath }) =>
+          updateItem(item.id, { docId, storagePath, processedPath }),
+        onProgress: (progress) =>
+          updateItem(
+            item.id,
+            { status: progress.stage === 'uploading' ? 'uploading' : 'converting', progress },
+            false
+          ),
+      }
+    );
+    console.log('[UploadQueue] Imported', item.name);
+    updateItem(item.id, { status: 'ready', counted: true, progress: null, processedPath: result.processedPath });
+    const done = items.find((i) => i.id === item.id);
+    if (done) releaseItemFile(done);
+  } catch (error: any) {
+    if (isConversionCancelled(error)) {
+      console.log('[UploadQueue] Cancelled', item.name);
+      dropItem(item.id);
+    } else if (isDuplicateDocument(error)) {
+      updateItem(item.id, {
+        status: 'duplicate',
+        duplicateOf: { docId: error.existingDocId, title: error.existingTitle },
+        progress: null,
+      });
+    } else {
+      const message = typeof error?.message === 'string' ? error.message : 'Failed to upload file. Please try again.';
+      console.warn('[UploadQueue] Import failed:', item.name, message);
+      updateItem(item.id, { status: 'error', errorMessage: message, errorCode: getImportErrorCode(error), progress: null });
+    }
+  } finally {
+    controllers.delete(item.id);
+    pump();
+  }
+}
+
+// Start queued items (of the signed-in user) until CONCURRENCY imports are running
+function pump() {
+  const uid = auth.currentUser?.uid;
+  if (!uid) return;
+  for (const item of items) {
+    if (controllers.size >= CONCURRENCY) break;
+    if (item.uid === uid && item.status === 'queued' && !controllers.has(item.id)) {
+      runItem(item);
+    }
+  }
+}
+
+export function getQueueItems(): QueueItem[] {
+  return [...items];
+}
+
+export function listenUploadQueue(listener: (items: QueueItem[]) => void): () => void {
+  listeners.add(listener);
+  listener([...items]);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Add files to the queue for the signed-in user. Imports start right away.
+ */
+export async function enqueueFiles(files: ImportSource[]): Promise<void> {
+  const uid = auth.currentUser?.uid;
+  if (!uid) throw new Error('Please sign in to upload files.');
+
+  const added: QueueItem[] = [];
+  for (const file of files) {
+    if (!file?.uri) continue;
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+    const { uri, staged } = await stageFile(id, file);
+    added.push({
+      id,
+      uid,
+      name: file.name,
+      uri,
+      mimeType: file.mimeType,
+      status: 'queued',
+      counted: false,
+      staged,
+      addedAt: Date.now(),
+    });
+  }
+  if (added.length === 0) return;
+
+  console.log(`[UploadQueue] Queued ${added.length} file(s)`);
+  items = [...items, ...added];
+  persist();
+  notify();
+  pump();
+}
+
+export function retryQueueItem(id: string) {
+  const item = items.find((i) => i.id === id);
+  if (!item || item.status !== 'error') return;
+  updateItem(id, { status: 'queued', errorMessage: undefined, errorCode: undefined });
+  pump();
+}
+
+/**
+ * Import a file flagged as duplicate anyway, as a separate document
+ */
+export function keepDuplicateCopy(id: string) {
+  const item = items.find((i) => i.id === id);
+  if (!item || item.status !== 'duplicate') return;
+  updateItem(id, { status: 'queued', allowDuplicate: true, duplicateOf: undefined });
+  pump();
+}
+
+/**
+ * Stop an item: running imports are cancelled (and clean up what they created),
+ * everything else is just removed from the queue
+ */
+export function cancelQueueItem(id: string) {
+  const controller = controllers.get(id);
+  if (controller) {
+    controller.abort();
+    return;
+  }
+  dropItem(id);
+}
+
+export function clearFinishedQueueItems() {
+  items.filter((item) => item.status === 'ready').forEach((item) => dropItem(item.id));
+}
+
+/**
+ * Load the saved queue after an app restart (native only; the current user's items).
+ * Interrupted uploads are resumed first, so restoreQueueItems can tell which imports
+ * still have an upload to pick up.
+ */
+export async function restoreUploadQueue(uid: string): Promise<void> {
+  if (Platform.OS === 'web') return;
+  try {
+    await resumePendingUploads(uid);
+  } catch (error: any) {
+    console.warn('[UploadQueue] Could not resume pending uploads:', error?.message);
+  }
+
+  let saved: QueueItem[] = [];
+  try {
+    saved = parseSavedQueue(await AsyncStorage.getItem(STORAGE_KEY));
+  } catch {
+    saved = [];
+  }
+
+  const restored = restoreQueueItems(saved, {
+    uid,
+    knownIds: new Set(items.map((item) => item.id)),
+    isUploadPending,
+  });
+  if (restored.length === 0) {
+    pump();
+    return;
+  }
+
+  console.log(`[UploadQueue] Restored ${restored.length} queued file(s)`);
+  items = [...items, ...restored];
+  persist();
+  notify();
+  pump();
+}
@@ -0,0 +1,75 @@
+/**
+ * Upload queue items and how they are saved
+ * The queue (utils/uploadQueue.ts) writes its items to AsyncStorage with `serializeQueue`
+ * and picks them up after an app restart with `parseSavedQueue` and `restoreQueueItems`.
+ */
+
+import type { ConversionProgress } from './conversionControl';
+import type { ImportErrorCode } from './importErrors';
+
+// 'duplicate': the library already has this file; waits for the user to open it or keep a copy
+export type QueueItemStatus = 'queued' | 'uploading' | 'converting' | 'ready' | 'error' | 'duplicate';
+
+export interface QueueItem {
+  id: string;
+  uid: string;
+  name: string;
+  uri: string;
+  mimeType?: string | null;
+  status: QueueItemStatus;
+  progress?: ConversionProgress | null;
+  errorMessage?: string;
+  errorCode?: ImportErrorCode | null; // shown through getFriendlyImportError
+  docId?: string; // set once the UserDocument exists; retries reuse it
+  storagePath?: string;
+  processedPath?: string;
+  duplicateOf?: { docId: string; title: string };
+  allowDuplicate?: boolean; // user chose to keep a separate copy
+  counted: boolean; // dashboard "files uploaded" already bumped for this item
+  staged: boolean; // uri is our copy in the staging directory (deleted with the item)
+  addedAt: number;
+}
+
+export const INTERRUPTED_MESSAGE = 'Import was interrupted. Tap retry to continue.';
+
+/**
+ * JSON for AsyncStorage. Progress is transient; everything else is needed to pick the queue up again.
+ */
+export function serializeQueue(items: QueueItem[]): string {
+  return JSON.stringify(items.map(({ progress, ...item }) => item));
+}
+
+/**
+ * Saved items, or none when nothing (or something unreadable) was saved
+ */
+export function parseSavedQueue(raw: string | null): QueueItem[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter((item) => typeof item?.id === 'string' && typeof item?.uid === 'string' && typeof item?.uri === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Saved items of `uid` that are not in the queue yet, ready to run again. Imports that were
+ * running are queued again: one that had already created its document picks up its resumed
+ * upload (startResumableUpload returns it for the same path) and goes on to conversion. One
+ * whose upload is not pending any more is marked as failed so the user decides whether to retry.
+ */
+export function restoreQueueItems(
+  saved: QueueItem[],
+  params: { uid: string; knownIds: Set<string>; isUploadPending: (storagePath: string) => boolean }
+): QueueItem[] {
+  return saved
+    .filter((item) => item.uid === params.uid && !params.knownIds.has(item.id))
+    .map((item): QueueItem => {
+      if (item.status !== 'uploading' && item.status !== 'converting') return item;
+      return item.docId && !(item.storagePath && params.isUploadPending(item.storagePath))
+        ? { ...item, status: 'error', errorMessage: INTERRUPTED_MESSAGE }
+        : { ...item, status: 'queued' };
+    });
+}